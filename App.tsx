@@ -11,8 +11,9 @@ import {
 } from "expo-updates";
 import { Slot } from "expo-router";
 
-// IMPORT MIGRATE — sesuaikan path jika perlu
-import { migrateAuthIfNeeded } from "./utils/migrateAuth";
+import { createLogger } from "./lib/logger";
+
+const log = createLogger("BOOT");
 
 export default function App() {
   // Hook ini HANYA memberi state event (isUpdateAvailable, isUpdatePending) & listener
@@ -24,22 +25,13 @@ export default function App() {
 
     (async () => {
       try {
-        // 0) Jalankan migrasi auth terlebih dahulu (jika ada data lama)
-        // migrateAuthIfNeeded menangani kasus "sudah dimigrasi" sendiri
-        try {
-          await migrateAuthIfNeeded();
-          console.log("migrateAuthIfNeeded: done");
-        } catch (mErr) {
-          console.warn("migrateAuthIfNeeded failed:", mErr);
-          // lanjutkan ke update check walau migrasi gagal
-        }
-
+        // migrasi auth lama dijalankan pipeline sesi (lib/session) saat AuthProvider mount
         // 1) cek ke server EAS Update
         let result: UpdateCheckResult | null = null;
         try {
           result = await checkForUpdateAsync();
         } catch (checkErr) {
-          console.warn("[updates] checkForUpdateAsync failed:", checkErr);
+          log.warn("updates: checkForUpdateAsync failed:", checkErr);
         }
 
         // jika ada update, fetch + reload
@@ -49,12 +41,12 @@ export default function App() {
             // reload ke bundle baru
             await reloadAsync();
           } catch (fetchErr) {
-            console.warn("[updates] failed to fetch/reload:", fetchErr);
+            log.warn("updates: failed to fetch/reload:", fetchErr);
           }
         }
       } catch (e) {
         // optional: log / silently ignore
-        console.warn("[app startup] unexpected error:", e);
+        log.warn("app startup: unexpected error:", e);
       }
     })();
   }, []);
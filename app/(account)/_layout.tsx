@@ -0,0 +1,10 @@
+import { Stack } from "expo-router";
+import SessionGuard from "../../components/SessionGuard";
+
+export default function AccountLayout() {
+  return (
+    <SessionGuard group="(account)">
+      <Stack screenOptions={{ headerShown: false }} />
+    </SessionGuard>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import {
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import TextField from "../../components/TextField";
+import { ApiError, api } from "../../lib/api";
+import { normalizeRole, useAuth } from "../../lib/auth";
+import { isDemoMode, setDemoMode } from "../../lib/demo";
+import { useFieldErrors } from "../../lib/formErrors";
+import { homeRouteFor } from "../../lib/session";
+import { isValidEmail } from "../../lib/validation";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+
+/**
+ * Masuk dengan akun kedua tanpa keluar dari akun aktif (mis. MUA yang juga
+ * booking sebagai pengguna). Akun lama tetap tersimpan di pengalih akun.
+ */
+export default function AddAccountScreen() {
+  const router = useRouter();
+  const { signIn } = useAuth();
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { errors, apply, clear, setErrors } = useFieldErrors();
+
+  const onSubmit = async () => {
+    clear();
+    const value = email.trim().toLowerCase();
+    if (!value) return setErrors({ email: "Email wajib diisi." });
+    if (!isValidEmail(value)) return setErrors({ email: "Format email tidak valid." });
+    if (!password) return setErrors({ password: "Password wajib diisi." });
+
+    setLoading(true);
+    // akun aktif bisa akun demo; akun tambahan selalu ke server sungguhan
+    const wasDemo = isDemoMode();
+    try {
+      await setDemoMode(false);
+      const profile = await signIn(await api.auth.login({ email: value, password }));
+      log.info("account added");
+      router.replace(homeRouteFor(normalizeRole(profile?.role)));
+    } catch (e: any) {
+      await setDemoMode(wasDemo);
+      if (e instanceof ApiError && e.status === 401) {
+        setErrors({ password: "Email atau password salah." });
+        return;
+      }
+      if (!apply(e)) Alert.alert("Gagal", e?.message || "Tidak dapat menambahkan akun.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Ionicons name="chevron-back" size={22} color="#111827" />
+          </TouchableOpacity>
+
+          <Text style={styles.title}>Tambah akun</Text>
+          <Text style={styles.subtitle}>
+            Masuk dengan akun lain. Akun yang sekarang tetap tersimpan dan bisa dipilih lagi dari Pengaturan.
+          </Text>
+
+          <TextField
+            label="Email"
+            value={email}
+            onChangeText={(v) => {
+              setEmail(v);
+              clear("email");
+            }}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            textContentType="emailAddress"
+            placeholder="email@contoh.com"
+            returnKeyType="next"
+          />
+          <TextField
+            label="Password"
+            value={password}
+            onChangeText={(v) => {
+              setPassword(v);
+              clear("password");
+            }}
+            error={errors.password}
+            secure
+            textContentType="password"
+            placeholder="Masukkan password"
+            returnKeyType="done"
+            onSubmitEditing={onSubmit}
+          />
+
+          <TouchableOpacity style={[styles.button, loading && styles.buttonDisabled]} onPress={onSubmit} disabled={loading}>
+            {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Masuk</Text>}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  container: { padding: 20, paddingBottom: 40 },
+  backBtn: { alignSelf: "flex-start", padding: 4, marginBottom: 8 },
+  title: { fontSize: 28, fontWeight: "700", color: "#111827", marginBottom: 4 },
+  subtitle: { fontSize: 15, color: MUTED, marginBottom: 20 },
+  button: {
+    marginTop: 8,
+    backgroundColor: PURPLE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+});
@@ -0,0 +1,274 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { api } from "../../lib/api";
+import { platformLabel } from "../../lib/device";
+import { sessionsQuery } from "../../lib/queries";
+import { setQueryData, useQuery } from "../../lib/query";
+import type { AuthSession } from "../../lib/types";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+const CARD_BG = "#F7F0FF";
+
+/* ===== Helpers ===== */
+function platformIcon(os?: string | null): keyof typeof Ionicons.glyphMap {
+  const p = (os ?? "").toLowerCase();
+  if (p === "ios") return "logo-apple";
+  if (p === "android") return "logo-android";
+  if (p === "web") return "globe-outline";
+  return "phone-portrait-outline";
+}
+
+/** "Aktif 5 menit lalu" — di atas seminggu tampil tanggal */
+function lastActiveLabel(iso?: string | null) {
+  if (!iso) return "Waktu aktif tidak diketahui";
+  const t = Date.parse(iso);
+  if (!Number.isFinite(t)) return "Waktu aktif tidak diketahui";
+  const mins = Math.floor((Date.now() - t) / 60_000);
+  if (mins < 2) return "Aktif sekarang";
+  if (mins < 60) return `Aktif ${mins} menit lalu`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `Aktif ${hours} jam lalu`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `Aktif ${days} hari lalu`;
+  return `Aktif ${new Date(t).toLocaleDateString("id-ID", { day: "numeric", month: "short", year: "numeric" })}`;
+}
+
+/** Perangkat ini paling atas, sisanya terbaru dulu */
+function sortSessions(list: AuthSession[]) {
+  return [...list].sort((a, b) => {
+    if (!!a.is_current !== !!b.is_current) return a.is_current ? -1 : 1;
+    return String(b.last_active_at ?? "").localeCompare(String(a.last_active_at ?? ""));
+  });
+}
+
+export default function SessionsScreen() {
+  const router = useRouter();
+  const sessions = useQuery(sessionsQuery());
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const list = sortSessions(sessions.data ?? []);
+  const others = list.filter((s) => !s.is_current);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await sessions.refetch();
+    setRefreshing(false);
+  }, [sessions]);
+
+  const removeLocally = (keep: (s: AuthSession) => boolean) =>
+    setQueryData<AuthSession[]>(sessionsQuery().key, (prev) => (prev ?? []).filter(keep));
+
+  const revokeOne = (s: AuthSession) => {
+    Alert.alert("Keluarkan perangkat?", `${s.device_name || "Perangkat ini"} harus login ulang untuk memakai akun Anda.`, [
+      { text: "Batal", style: "cancel" },
+      {
+        text: "Keluarkan",
+        style: "destructive",
+        onPress: async () => {
+          setRevoking(String(s.id));
+          try {
+            await api.auth.revokeSession(s.id);
+            removeLocally((x) => String(x.id) !== String(s.id));
+            log.info("session revoked");
+          } catch (e: any) {
+            Alert.alert("Gagal", e?.message || "Tidak dapat mengeluarkan perangkat.");
+          } finally {
+            setRevoking(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const revokeOthers = () => {
+    Alert.alert(
+      "Keluar dari perangkat lain?",
+      `${others.length} perangkat lain harus login ulang. Perangkat ini tetap masuk.`,
+      [
+        { text: "Batal", style: "cancel" },
+        {
+          text: "Keluarkan semua",
+          style: "destructive",
+          onPress: async () => {
+            setRevoking("others");
+            try {
+              await api.auth.revokeOtherSessions();
+              removeLocally((x) => !!x.is_current);
+              log.info("other sessions revoked");
+            } catch (e: any) {
+              Alert.alert("Gagal", e?.message || "Tidak dapat mengeluarkan perangkat lain.");
+            } finally {
+              setRevoking(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: AuthSession }) => {
+    const place = [item.location, item.ip_address].filter(Boolean).join(" · ");
+    return (
+      <View style={[styles.card, item.is_current && styles.cardCurrent]}>
+        <View style={styles.iconWrap}>
+          <Ionicons name={platformIcon(item.platform)} size={22} color={PURPLE} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <View style={styles.nameRow}>
+            <Text style={styles.device} numberOfLines={1}>
+              {item.device_name || platformLabel(item.platform)}
+            </Text>
+            {item.is_current && <Text style={styles.currentChip}>Perangkat ini</Text>}
+          </View>
+          <Text style={styles.meta}>
+            {platformLabel(item.platform)} · {item.is_current ? "Aktif sekarang" : lastActiveLabel(item.last_active_at)}
+          </Text>
+          {!!place && <Text style={styles.meta}>{place}</Text>}
+        </View>
+        {!item.is_current &&
+          (revoking === String(item.id) ? (
+            <ActivityIndicator color={PURPLE} />
+          ) : (
+            <TouchableOpacity
+              onPress={() => revokeOne(item)}
+              disabled={!!revoking}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel={`Keluarkan ${item.device_name || "perangkat"}`}
+            >
+              <Text style={styles.revoke}>Keluarkan</Text>
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Sesi & Perangkat</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        Perangkat yang sedang masuk ke akun Anda. Keluarkan perangkat yang tidak Anda kenali.
+      </Text>
+
+      {sessions.loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator color={PURPLE} />
+        </View>
+      ) : (
+        <FlatList
+          data={list}
+          keyExtractor={(s) => String(s.id)}
+          renderItem={renderItem}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={PURPLE} />}
+          ListEmptyComponent={
+            <Text style={styles.empty}>
+              {sessions.error ? "Gagal memuat daftar sesi. Tarik untuk mencoba lagi." : "Tidak ada sesi aktif."}
+            </Text>
+          }
+          ListFooterComponent={
+            others.length > 0 ? (
+              <TouchableOpacity
+                style={[styles.othersBtn, !!revoking && styles.buttonDisabled]}
+                onPress={revokeOthers}
+                disabled={!!revoking}
+              >
+                {revoking === "others" ? (
+                  <ActivityIndicator color="#DC2626" />
+                ) : (
+                  <>
+                    <Ionicons name="log-out-outline" size={18} color="#DC2626" />
+                    <Text style={styles.othersText}>Keluar dari semua perangkat lain</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  header: { flexDirection: "row", alignItems: "center", gap: 8, paddingHorizontal: 16, paddingTop: 8 },
+  backBtn: { padding: 4 },
+  title: { fontSize: 22, fontWeight: "700", color: "#111827" },
+  subtitle: { fontSize: 14, color: MUTED, paddingHorizontal: 20, marginTop: 6, marginBottom: 12 },
+  list: { paddingHorizontal: 16, paddingBottom: 32, gap: 10 },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  cardCurrent: { borderColor: PURPLE, backgroundColor: CARD_BG },
+  iconWrap: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: BORDER,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  nameRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+  device: { fontSize: 15, fontWeight: "700", color: "#111827", flexShrink: 1 },
+  currentChip: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: PURPLE,
+    backgroundColor: "#fff",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  meta: { fontSize: 12, color: MUTED, marginTop: 2 },
+  revoke: { color: "#DC2626", fontWeight: "700", fontSize: 13 },
+  empty: { textAlign: "center", color: MUTED, marginTop: 32 },
+  othersBtn: {
+    marginTop: 12,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#FECACA",
+    backgroundColor: "#FEF2F2",
+    alignItems: "center",
+    justifyContent: "center",
+    flexDirection: "row",
+    gap: 8,
+  },
+  othersText: { color: "#DC2626", fontWeight: "700" },
+  buttonDisabled: { opacity: 0.6 },
+});
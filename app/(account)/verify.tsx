@@ -0,0 +1,339 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import FieldError from "../../components/FieldError";
+import TextField from "../../components/TextField";
+import { api } from "../../lib/api";
+import { useAuth } from "../../lib/auth";
+import { useFieldErrors } from "../../lib/formErrors";
+import { rateLimitMessage, rateLimitWait, useCooldown } from "../../lib/passwordReset";
+import { homeRouteFor } from "../../lib/session";
+import type { ContactChannel } from "../../lib/types";
+import { normalizeIdPhone } from "../../lib/validation";
+import {
+  CONTACT_CHANNELS,
+  CONTACT_LABELS,
+  OTP_LENGTH,
+  contactValue,
+  isContactVerified,
+  useVerificationPrompt,
+} from "../../lib/verification";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+const CARD_BG = "#F7F0FF";
+
+/**
+ * Verifikasi OTP email lalu nomor HP. `channel` = hanya satu kontak
+ * (dari pengaturan setelah nomor diganti, atau dari gate booking).
+ */
+export default function VerifyContact() {
+  const params = useLocalSearchParams<{ channel?: string }>();
+  const router = useRouter();
+  const { user, role, profileId, refreshProfile, updateProfileLocally } = useAuth();
+  const prompt = useVerificationPrompt(profileId);
+
+  const requested = useMemo<ContactChannel[]>(
+    () => (CONTACT_CHANNELS.includes(params.channel as ContactChannel) ? [params.channel as ContactChannel] : CONTACT_CHANNELS),
+    [params.channel]
+  );
+  const remaining = requested.filter((c) => !isContactVerified(user, c));
+  const active: ContactChannel | undefined = remaining[0];
+
+  const [code, setCode] = useState("");
+  const [sentTo, setSentTo] = useState<ContactChannel | null>(null);
+  const [phone, setPhone] = useState("");
+  const [editingPhone, setEditingPhone] = useState(false);
+  const [busy, setBusy] = useState<null | "send" | "verify" | "phone">(null);
+  const { errors, apply, clear, setErrors } = useFieldErrors();
+  const cooldown = useCooldown();
+
+  // data /auth/me terbaru (status verifikasi bisa berubah dari perangkat lain / tautan email)
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
+
+  // prompt setelah registrasi cukup sekali: begitu layar ini terbuka, beranda tidak mengarahkan ke sini lagi
+  const { pending, dismiss } = prompt;
+  useEffect(() => {
+    if (pending) dismiss();
+  }, [pending, dismiss]);
+
+  // pindah kontak → kode & jeda kirim ulang milik kontak sebelumnya tidak berlaku
+  const { start } = cooldown;
+  useEffect(() => {
+    setCode("");
+    setSentTo(null);
+    start(0);
+    clear();
+  }, [active, start, clear]);
+
+  const current = active ? contactValue(user, active) : "";
+  const needsPhone = active === "phone" && (!current || editingPhone);
+
+  const leave = () => (router.canGoBack() ? router.back() : router.replace(homeRouteFor(role)));
+
+  const onSavePhone = async () => {
+    clear();
+    const normalized = normalizeIdPhone(phone);
+    if (!normalized) return setErrors({ phone: "Gunakan nomor HP Indonesia, contoh +62812xxxxxxx." });
+    setBusy("phone");
+    try {
+      await api.profile.update({ phone: normalized });
+      // nomor baru selalu belum terverifikasi
+      updateProfileLocally({ phone: normalized, phone_verified_at: null });
+      setEditingPhone(false);
+    } catch (e: any) {
+      if (!apply(e)) Alert.alert("Gagal", e?.message || "Tidak dapat menyimpan nomor HP.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onSend = async () => {
+    if (!active) return;
+    clear();
+    setBusy("send");
+    try {
+      await api.auth.sendVerification(active);
+      setSentTo(active);
+      cooldown.start();
+    } catch (e: any) {
+      const wait = rateLimitWait(e);
+      if (wait !== null) {
+        cooldown.start(wait);
+        setErrors({ code: rateLimitMessage(wait) });
+      } else if (!apply(e)) {
+        Alert.alert("Gagal", e?.message || "Tidak dapat mengirim kode verifikasi.");
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onVerify = async () => {
+    if (!active) return;
+    clear();
+    if (code.trim().length !== OTP_LENGTH) return setErrors({ code: `Masukkan ${OTP_LENGTH} digit kode.` });
+    setBusy("verify");
+    try {
+      const me = await api.auth.verifyContact(active, code.trim());
+      const now = new Date().toISOString();
+      updateProfileLocally(
+        active === "email"
+          ? { email_verified_at: me?.email_verified_at ?? now }
+          : { phone_verified_at: me?.phone_verified_at ?? me?.profile?.phone_verified_at ?? now }
+      );
+      // kontak berikutnya (atau layar selesai) tampil otomatis dari status user
+      log.info("contact verified:", active);
+    } catch (e: any) {
+      const wait = rateLimitWait(e);
+      if (wait !== null) {
+        cooldown.start(wait);
+        setErrors({ code: rateLimitMessage(wait) });
+      } else if (!apply(e)) {
+        Alert.alert("Gagal", e?.message || "Kode verifikasi tidak valid.");
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <SafeAreaView style={[styles.safe, styles.center]}>
+        <ActivityIndicator color={PURPLE} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!active) {
+    return (
+      <SafeAreaView style={[styles.safe, styles.center]}>
+        <Ionicons name="shield-checkmark-outline" size={48} color={PURPLE} />
+        <Text style={styles.doneTitle}>Kontak sudah terverifikasi</Text>
+        <TouchableOpacity style={[styles.button, styles.doneButton]} onPress={leave}>
+          <Text style={styles.buttonText}>Lanjut</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const step = requested.length - remaining.length + 1;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+          {requested.length > 1 && (
+            <Text style={styles.step}>
+              Langkah {step} dari {requested.length}
+            </Text>
+          )}
+          <Text style={styles.title}>Verifikasi {CONTACT_LABELS[active].toLowerCase()}</Text>
+          <Text style={styles.subtitle}>
+            {active === "email"
+              ? "Kami kirim kode ke email Anda untuk memastikan konfirmasi booking dan invoice sampai."
+              : role === "mua"
+                ? "Customer menghubungi Anda lewat WhatsApp di nomor ini."
+                : "MUA menghubungi Anda lewat WhatsApp di nomor ini. Verifikasi dulu sebelum membuat booking."}
+          </Text>
+
+          {needsPhone ? (
+            <>
+              <TextField
+                label="Nomor HP"
+                value={phone}
+                onChangeText={(v) => {
+                  setPhone(v);
+                  clear("phone");
+                }}
+                error={errors.phone}
+                keyboardType="phone-pad"
+                textContentType="telephoneNumber"
+                placeholder="+62812xxxxxxx"
+              />
+              <TouchableOpacity
+                style={[styles.button, !!busy && styles.buttonDisabled]}
+                onPress={onSavePhone}
+                disabled={!!busy}
+              >
+                {busy === "phone" ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Simpan nomor</Text>}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <View style={styles.targetCard}>
+                <Ionicons name={active === "email" ? "mail-outline" : "logo-whatsapp"} size={20} color={PURPLE} />
+                <Text style={styles.targetText} numberOfLines={1}>
+                  {current}
+                </Text>
+                {active === "phone" && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      setPhone(current);
+                      setEditingPhone(true);
+                    }}
+                    disabled={!!busy}
+                  >
+                    <Text style={styles.link}>Ubah</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {sentTo === active ? (
+                <>
+                  <TextField
+                    label="Kode verifikasi"
+                    value={code}
+                    onChangeText={(v) => {
+                      setCode(v.replace(/\D/g, ""));
+                      clear("code");
+                    }}
+                    error={errors.code}
+                    keyboardType="number-pad"
+                    textContentType="oneTimeCode"
+                    autoComplete="one-time-code"
+                    maxLength={OTP_LENGTH}
+                    placeholder={`${OTP_LENGTH} digit`}
+                  />
+                  <TouchableOpacity
+                    style={[styles.button, !!busy && styles.buttonDisabled]}
+                    onPress={onVerify}
+                    disabled={!!busy}
+                  >
+                    {busy === "verify" ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Verifikasi</Text>}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={onSend}
+                    disabled={!!busy || cooldown.left > 0}
+                  >
+                    <Text style={[styles.link, cooldown.left > 0 && { color: MUTED }]}>
+                      {cooldown.left > 0 ? `Kirim ulang (${cooldown.left}s)` : "Kirim ulang kode"}
+                    </Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <FieldError message={errors.code} style={styles.error} />
+                  <TouchableOpacity
+                    style={[styles.button, (!!busy || cooldown.left > 0) && styles.buttonDisabled]}
+                    onPress={onSend}
+                    disabled={!!busy || cooldown.left > 0}
+                  >
+                    {busy === "send" ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={styles.buttonText}>
+                        {cooldown.left > 0 ? `Kirim kode (${cooldown.left}s)` : "Kirim kode"}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={leave} disabled={!!busy}>
+            <Text style={styles.secondaryText}>Nanti saja</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  center: { alignItems: "center", justifyContent: "center", padding: 20 },
+  container: { padding: 20, paddingBottom: 40 },
+  step: { fontSize: 13, fontWeight: "700", color: PURPLE, marginBottom: 6 },
+  title: { fontSize: 28, fontWeight: "700", color: "#111827", marginBottom: 4 },
+  subtitle: { fontSize: 15, color: MUTED, marginBottom: 20 },
+  targetCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: BORDER,
+    backgroundColor: CARD_BG,
+    marginBottom: 16,
+  },
+  targetText: { flex: 1, fontSize: 15, fontWeight: "600", color: "#111827" },
+  link: { color: PURPLE, fontWeight: "700", fontSize: 14 },
+  error: { marginTop: 0, marginBottom: 8 },
+  doneTitle: { fontSize: 18, fontWeight: "700", color: "#111827", marginTop: 12 },
+  doneButton: { alignSelf: "stretch", marginTop: 24 },
+  button: {
+    marginTop: 8,
+    backgroundColor: PURPLE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+  secondaryButton: { paddingVertical: 14, alignItems: "center" },
+  secondaryText: { color: MUTED, fontWeight: "600", fontSize: 14 },
+});
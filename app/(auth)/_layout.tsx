@@ -1,14 +1,10 @@
-import { Stack, useRouter } from "expo-router";
-import { useEffect } from "react";
-import * as SecureStore from "expo-secure-store";
+import { Stack } from "expo-router";
+import SessionGuard from "../../components/SessionGuard";
 
 export default function Layout() {
-  const router = useRouter();
-  useEffect(() => {
-    (async () => {
-      const auth = await SecureStore.getItemAsync("auth");
-      if (!auth) router.replace("/(auth)/login");
-    })();
-  }, []);
-  return <Stack screenOptions={{ headerShown: false }} />;
+  return (
+    <SessionGuard group="(auth)">
+      <Stack screenOptions={{ headerShown: false }} />
+    </SessionGuard>
+  );
 }
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+import {
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import TextField from "../../components/TextField";
+import FieldError from "../../components/FieldError";
+import { api } from "../../lib/api";
+import { useFieldErrors } from "../../lib/formErrors";
+import { rateLimitMessage, rateLimitWait, useCooldown } from "../../lib/passwordReset";
+import { isValidEmail } from "../../lib/validation";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+
+export default function ForgotPassword() {
+  const params = useLocalSearchParams<{ email?: string }>();
+  const router = useRouter();
+
+  const [email, setEmail] = useState(params.email ?? "");
+  const [loading, setLoading] = useState(false);
+  const { errors, apply, clear, setErrors } = useFieldErrors();
+  const cooldown = useCooldown();
+
+  const onChangeEmail = (v: string) => {
+    setEmail(v);
+    clear("email");
+  };
+
+  const onSubmit = async () => {
+    clear();
+    const value = email.trim().toLowerCase();
+    if (!value) return setErrors({ email: "Email wajib diisi." });
+    if (!isValidEmail(value)) return setErrors({ email: "Format email tidak valid." });
+
+    setLoading(true);
+    try {
+      await api.auth.forgotPassword({ email: value });
+      log.info("reset code requested");
+      router.push({ pathname: "/(auth)/reset-password", params: { email: value, sent: "1" } });
+    } catch (e: any) {
+      const wait = rateLimitWait(e);
+      if (wait !== null) {
+        cooldown.start(wait);
+        return;
+      }
+      if (!apply(e)) Alert.alert("Gagal", e?.message || "Tidak dapat mengirim kode reset.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const blocked = loading || cooldown.left > 0;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Ionicons name="chevron-back" size={22} color="#111827" />
+          </TouchableOpacity>
+
+          <Text style={styles.title}>Lupa password</Text>
+          <Text style={styles.subtitle}>
+            Masukkan email akun Anda. Kami akan mengirim kode dan tautan untuk membuat password baru.
+          </Text>
+
+          <TextField
+            label="Email"
+            value={email}
+            onChangeText={onChangeEmail}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            textContentType="emailAddress"
+            placeholder="email@contoh.com"
+            returnKeyType="send"
+            onSubmitEditing={onSubmit}
+          />
+
+          {cooldown.left > 0 && <FieldError message={rateLimitMessage(cooldown.left)} style={styles.rateLimit} />}
+
+          <TouchableOpacity style={[styles.button, blocked && styles.buttonDisabled]} onPress={onSubmit} disabled={blocked}>
+            {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Kirim kode</Text>}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() =>
+              router.push({ pathname: "/(auth)/reset-password", params: email.trim() ? { email: email.trim().toLowerCase() } : {} })
+            }
+            disabled={loading}
+          >
+            <Text style={styles.secondaryText}>Sudah punya kode? Masukkan kode</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  container: { padding: 20, paddingBottom: 40 },
+  backBtn: { alignSelf: "flex-start", padding: 4, marginBottom: 8 },
+  title: { fontSize: 28, fontWeight: "700", color: "#111827", marginBottom: 4 },
+  subtitle: { fontSize: 15, color: MUTED, marginBottom: 20 },
+  rateLimit: { marginTop: -8, marginBottom: 12 },
+  button: {
+    marginTop: 8,
+    backgroundColor: PURPLE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+  secondaryButton: { paddingVertical: 14, alignItems: "center" },
+  secondaryText: { color: MUTED, fontWeight: "600", fontSize: 14 },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import {
   View,
   StyleSheet,
@@ -14,14 +14,21 @@ import {
   Pressable,
   TextInput,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useLocalSearchParams, useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 
 import TextField from "../../components/TextField";
-import { setAuthToken, setUserProfile } from "../../utils/authStorage";
+import { isDevMenuEnabled } from "../../constants/env";
+import { ApiError, api } from "../../lib/api";
+import { DEMO_ACCOUNTS, setDemoMode } from "../../lib/demo";
+import { normalizeRole, useAuth } from "../../lib/auth";
+import { setLoginReturn } from "../../lib/guest";
+import type { AuthResponse } from "../../lib/types";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
 
-const LOGIN_URL = "https://smstudio.my.id/api/auth/login";
 
 // --- Password Field Component ---
 interface PasswordFieldProps {
@@ -58,24 +65,25 @@ const PasswordField = ({ value, onChangeText, placeholder = "Password" }: Passwo
   );
 };
 
-// --- Helper: Parse response safely ---
-async function safeParseResponse(res: Response) {
-  const text = await res.text();
-  try {
-    return { json: JSON.parse(text), text };
-  } catch {
-    return { json: null, text };
-  }
-}
-
 // --- Main Component ---
 export default function LoginScreen() {
   const router = useRouter();
+  // email diisi otomatis setelah reset password
+  const params = useLocalSearchParams<{ email?: string }>();
+  const { signIn, accounts, switchAccount } = useAuth();
+  // menu developer tersembunyi (tekan lama judul)
+  const devMenu = isDevMenuEnabled();
 
-  const [email, setEmail] = useState("");
+  const [email, setEmail] = useState(params.email ?? "");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (!params.email) return;
+    setEmail(params.email);
+    setPassword("");
+  }, [params.email]);
+
   // Bottom sheet animation
   const [sheetVisible, setSheetVisible] = useState(false);
   const slide = useRef(new Animated.Value(0)).current;
@@ -108,6 +116,19 @@ export default function LoginScreen() {
     outputRange: [320, 0],
   });
 
+  /** Simpan token + profile dari respons login; SessionRedirect (app/_layout) mengarahkan sesuai role */
+  const completeLogin = useCallback(
+    async (json: AuthResponse) => {
+      if (!json) throw new Error("Respons server tidak valid.");
+
+      log.debug("[LOGIN] Login successful, saving credentials...");
+      // token, refresh token & profile disimpan oleh AuthProvider
+      const profile = await signIn(json);
+      log.debug("[LOGIN] Session saved, role:", normalizeRole(profile?.role));
+    },
+    [signIn]
+  );
+
   const onSubmit = useCallback(async () => {
     const trimmedEmail = email.trim().toLowerCase();
     const trimmedPassword = password.trim();
@@ -131,81 +152,34 @@ export default function LoginScreen() {
     setLoading(true);
 
     try {
-      console.log("[LOGIN] Attempting login for:", trimmedEmail);
+      log.debug("[LOGIN] Attempting login");
       
-      const res = await fetch(LOGIN_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        body: JSON.stringify({ 
-          email: trimmedEmail, 
-          password: trimmedPassword 
-        }),
-      });
-
-      const { json, text } = await safeParseResponse(res);
-
-      if (!res.ok) {
-        const serverMsg = json?.error || json?.message || text || `HTTP ${res.status}`;
-        console.log("[LOGIN] Failed response:", res.status, serverMsg);
-        
+      let json: AuthResponse;
+      try {
+        json = await api.auth.login({
+          email: trimmedEmail,
+          password: trimmedPassword,
+        });
+      } catch (e) {
+        if (!(e instanceof ApiError)) throw e;
+        log.debug("[LOGIN] Failed response:", e.status, e.message);
+
         // Handle khusus 401 - unauthorized
-        if (res.status === 401) {
+        if (e.status === 401) {
           throw new Error("Email atau password salah");
         }
-        
+
         // Handle server errors
-        if (res.status >= 500) {
+        if (e.status >= 500) {
           throw new Error("Server sedang mengalami masalah. Silakan coba lagi.");
         }
-        
-        throw new Error(serverMsg);
-      }
-
-      if (!json) throw new Error("Respons server tidak valid.");
-
-      const token = json.token || json.access_token;
-      const profile = json.profile || json.user?.profile || json.user || null;
 
-      if (!token) {
-        console.log("[LOGIN] Response without token:", json);
-        throw new Error("Token tidak ditemukan dalam respons.");
-      }
-
-      console.log("[LOGIN] Login successful, saving credentials...");
-
-      // Simpan ke storage - sequential untuk menghindari race condition
-      await setAuthToken(token);
-      console.log("[LOGIN] Token saved");
-      
-      await setUserProfile(profile);
-      console.log("[LOGIN] Profile saved");
-
-      // Delay lebih lama untuk memastikan penyimpanan selesai dan state terupdate
-      console.log("[LOGIN] Waiting for storage to complete...");
-      await new Promise((resolve) => setTimeout(resolve, 300));
-
-      // Tentukan rute berdasarkan role
-      const role = String(profile?.role || "").toLowerCase().trim();
-      console.log("[LOGIN] User role:", role, "Navigating...");
-      
-      // Gunakan setTimeout untuk memastikan navigasi terjadi setelah state update
-      if (role.includes("mua")) {
-        console.log("[LOGIN] Redirecting to MUA dashboard");
-        setTimeout(() => {
-          router.replace("/(mua)");
-        }, 100);
-      } else {
-        console.log("[LOGIN] Redirecting to User dashboard");
-        setTimeout(() => {
-          router.replace("/(user)");
-        }, 100);
+        throw e;
       }
 
+      await completeLogin(json);
     } catch (err: any) {
-      console.error("[LOGIN] Error details:", err);
+      log.error("[LOGIN] Error details:", err);
       
       let errorMessage = "Terjadi kesalahan saat login.";
       
@@ -221,7 +195,52 @@ export default function LoginScreen() {
     } finally {
       setLoading(false);
     }
-  }, [email, password, router]);
+  }, [email, password, completeLogin]);
+
+  /** Akun lain yang masih tersimpan setelah logout → masuk tanpa password */
+  const continueAs = useCallback(
+    async (id: string) => {
+      setLoading(true);
+      try {
+        await switchAccount(id);
+      } catch (err: any) {
+        Alert.alert("Gagal", err?.message || "Tidak dapat masuk ke akun ini.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [switchAccount]
+  );
+
+  /** Masuk ke mode demo: semua request dijawab backend tiruan lokal (lib/demo) */
+  const startDemo = useCallback(
+    async (as: keyof typeof DEMO_ACCOUNTS) => {
+      setLoading(true);
+      try {
+        await setDemoMode(true);
+        await completeLogin(await api.auth.login(DEMO_ACCOUNTS[as]));
+      } catch (err: any) {
+        log.error("[LOGIN] Demo login failed:", err);
+        await setDemoMode(false);
+        Alert.alert("Gagal", err?.message || "Tidak dapat membuka mode demo.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [completeLogin]
+  );
+
+  const openDemo = () => {
+    Alert.alert(
+      "Coba demo",
+      "Jelajahi aplikasi dengan data contoh tanpa akun dan tanpa koneksi ke server. Data demo hanya tersimpan di perangkat ini.",
+      [
+        { text: "Batal", style: "cancel" },
+        { text: "Sebagai MUA", onPress: () => startDemo("mua") },
+        { text: "Sebagai Pengguna", onPress: () => startDemo("customer") },
+      ]
+    );
+  };
 
   // Handle keyboard submit
   const handleEmailSubmit = () => {
@@ -237,7 +256,12 @@ export default function LoginScreen() {
         keyboardVerticalOffset={Platform.OS === "ios" ? 0 : 20}
       >
         <View style={styles.container}>
-          <Text style={styles.title}>Masuk</Text>
+          <Pressable
+            onLongPress={devMenu ? () => router.push("/developer") : undefined}
+            delayLongPress={1500}
+          >
+            <Text style={styles.title}>Masuk</Text>
+          </Pressable>
           <Text style={styles.subtitle}>Silakan masuk ke akun Anda</Text>
 
           <View style={styles.formContainer}>
@@ -260,6 +284,18 @@ export default function LoginScreen() {
                 onChangeText={setPassword}
                 placeholder="Masukkan password"
               />
+              <TouchableOpacity
+                style={styles.forgotButton}
+                onPress={() =>
+                  router.push({
+                    pathname: "/(auth)/forgot-password",
+                    params: email.trim() ? { email: email.trim().toLowerCase() } : {},
+                  })
+                }
+                disabled={loading}
+              >
+                <Text style={styles.forgotText}>Lupa password?</Text>
+              </TouchableOpacity>
             </View>
 
             <TouchableOpacity 
@@ -284,6 +320,43 @@ export default function LoginScreen() {
             >
               <Text style={styles.secondaryText}>Belum punya akun? Daftar</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity style={styles.demoButton} onPress={openDemo} disabled={loading}>
+              <Ionicons name="play-circle-outline" size={18} color="#AA60C8" />
+              <Text style={styles.demoText}>Coba demo</Text>
+            </TouchableOpacity>
+
+            {/* mode tamu (lib/guest): login baru diminta saat booking */}
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => {
+                setLoginReturn(null);
+                if (router.canGoBack()) router.back();
+                else router.replace("/(user)/(tabs)");
+              }}
+              disabled={loading}
+            >
+              <Text style={styles.secondaryText}>Lihat-lihat dulu tanpa akun</Text>
+            </TouchableOpacity>
+
+            {accounts.length > 0 && (
+              <View style={styles.savedAccounts}>
+                <Text style={styles.label}>Akun tersimpan</Text>
+                {accounts.map((a) => (
+                  <TouchableOpacity
+                    key={a.id}
+                    style={styles.savedAccount}
+                    onPress={() => continueAs(a.id)}
+                    disabled={loading}
+                  >
+                    <Ionicons name="person-circle-outline" size={20} color="#AA60C8" />
+                    <Text style={styles.savedAccountText} numberOfLines={1}>
+                      Lanjutkan sebagai {a.name || a.email || "akun tersimpan"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
         </View>
       </KeyboardAvoidingView>
@@ -362,6 +435,15 @@ const styles = StyleSheet.create({
   passwordWrapper: {
     marginBottom: 8,
   },
+  forgotButton: {
+    alignSelf: "flex-end",
+    paddingTop: 10,
+  },
+  forgotText: {
+    color: "#AA60C8",
+    fontWeight: "600",
+    fontSize: 14,
+  },
   pwContainer: {
     borderWidth: 1,
     borderColor: "#E5E7EB",
@@ -410,6 +492,37 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 14,
   },
+  demoButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 6,
+  },
+  demoText: {
+    color: "#AA60C8",
+    fontWeight: "700",
+    fontSize: 14,
+  },
+  savedAccounts: {
+    marginTop: 16,
+    gap: 8,
+  },
+  savedAccount: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  savedAccountText: {
+    flex: 1,
+    color: "#111827",
+    fontWeight: "600",
+  },
 
   // Bottom Sheet
   backdrop: {
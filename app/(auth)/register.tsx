@@ -1,48 +1,227 @@
 import React, { useState } from "react";
-import { SafeAreaView, View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from "react-native";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
 import TextField from "../../components/TextField";
+import { api } from "../../lib/api";
+import { useAuth } from "../../lib/auth";
+import { useFieldErrors } from "../../lib/formErrors";
+import { startOnboarding } from "../../lib/onboarding";
+import { markVerificationPrompt } from "../../lib/verification";
+import { normalizeIdPhone, PASSWORD_MIN, validateRegister, type RegisterForm } from "../../lib/validation";
+import { createLogger } from "../../lib/logger";
 
-const API = "https://smstudio.my.id/api/auth";
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+
+type AccountType = "customer" | "mua";
+
+const ACCOUNT_TYPES: { key: AccountType; label: string; icon: keyof typeof Ionicons.glyphMap; caption: string }[] = [
+  { key: "customer", label: "Pengguna", icon: "person-outline", caption: "Cari & booking MUA" },
+  { key: "mua", label: "MUA", icon: "color-palette-outline", caption: "Terima booking & tampilkan karya" },
+];
+
+const EMPTY_FORM: RegisterForm = { name: "", email: "", phone: "", password: "", password_confirmation: "" };
 
 export default function Register() {
   const { as = "pengguna" } = useLocalSearchParams<{ as?: string }>();
-  const isMua = as === "mua";
   const router = useRouter();
+  const { signIn } = useAuth();
 
-  const [name, setName] = useState(""); const [email, setEmail] = useState("");
-  const [password, setPassword] = useState(""); const [loading, setLoading] = useState(false);
+  const [accountType, setAccountType] = useState<AccountType>(as === "mua" ? "mua" : "customer");
+  const [form, setForm] = useState<RegisterForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const { errors, apply, clear, setErrors } = useFieldErrors();
+
+  const setField = (key: keyof RegisterForm) => (v: string) => {
+    setForm((f) => ({ ...f, [key]: v }));
+    clear(key);
+  };
 
   const onRegister = async () => {
+    clear();
+    const invalid = validateRegister(form);
+    if (Object.keys(invalid).length) {
+      setErrors(invalid);
+      return;
+    }
+
+    setLoading(true);
     try {
-      setLoading(true);
-      const endpoint = isMua ? "register-mua" : "register";
-      const res = await fetch(`${API}/${endpoint}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json", Accept: "application/json" },
-        body: JSON.stringify({ name, email, password }),
-      });
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        throw new Error(err?.message || `Register gagal (${res.status})`);
+      const json = await api.auth.register(
+        {
+          name: form.name.trim(),
+          email: form.email.trim().toLowerCase(),
+          phone: normalizeIdPhone(form.phone) ?? form.phone,
+          password: form.password,
+          password_confirmation: form.password_confirmation,
+        },
+        accountType
+      );
+
+      // backend lama tidak langsung memberi token → login manual
+      if (!json?.token && !json?.access_token) {
+        Alert.alert("Sukses", "Akun dibuat. Silakan login.");
+        router.replace("/(auth)/login");
+        return;
       }
-      Alert.alert("Sukses", "Akun dibuat. Silakan login."); router.replace("/(auth)/login");
-    } catch (e: any) { Alert.alert("Register gagal", e.message); } finally { setLoading(false); }
+
+      // verifikasi kontak & onboarding dicatat sebelum sesi dibuat supaya beranda langsung membukanya
+      const profileId = json.profile?.id ?? json.user?.profile?.id ?? json.user?.id;
+      if (profileId) await markVerificationPrompt(String(profileId));
+      if (accountType === "mua" && profileId) await startOnboarding(String(profileId));
+
+      // SessionGuard mengarahkan ke beranda sesuai role
+      await signIn(json);
+      log.info("registered as", accountType);
+    } catch (e: any) {
+      // 422 → tampil di bawah input; selain itu tetap Alert
+      if (!apply(e)) Alert.alert("Register gagal", e?.message || "Tidak dapat membuat akun.");
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Ionicons name="chevron-back" size={22} color="#111827" />
+          </TouchableOpacity>
+
+          <Text style={styles.title}>Buat akun</Text>
+          <Text style={styles.subtitle}>Pilih tipe akun lalu lengkapi data Anda</Text>
+
+          <View style={styles.typeRow}>
+            {ACCOUNT_TYPES.map((t) => {
+              const active = accountType === t.key;
+              return (
+                <TouchableOpacity
+                  key={t.key}
+                  style={[styles.typeCard, active && styles.typeCardActive]}
+                  onPress={() => setAccountType(t.key)}
+                  disabled={loading}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: active }}
+                >
+                  <Ionicons name={t.icon} size={22} color={active ? PURPLE : MUTED} />
+                  <Text style={[styles.typeLabel, active && { color: PURPLE }]}>{t.label}</Text>
+                  <Text style={styles.typeCaption}>{t.caption}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
 
-      <View style={{ padding: 20, gap: 8 }}>
-        <Text style={{ fontSize: 24, fontWeight: "700" }}>
-          {isMua ? "Daftar sebagai MUA" : "Daftar sebagai Pengguna"}
-        </Text>
-        <TextField label="Nama" value={name} onChangeText={setName} />
-        <TextField label="Email" value={email} onChangeText={setEmail} />
-        <TextField label="Password" value={password} onChangeText={setPassword} />
-        <TouchableOpacity style={{ backgroundColor: "#AA60C8", padding: 14, borderRadius: 10, alignItems: "center" }} onPress={onRegister} disabled={loading}>
-          {loading ? <ActivityIndicator/> : <Text style={{ color: "#fff", fontWeight: "700" }}>Buat Akun</Text>}
-        </TouchableOpacity>
-      </View>
+          <TextField
+            label={accountType === "mua" ? "Nama / nama studio" : "Nama"}
+            value={form.name}
+            onChangeText={setField("name")}
+            error={errors.name}
+            textContentType="name"
+          />
+          <TextField
+            label="Email"
+            value={form.email}
+            onChangeText={setField("email")}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            textContentType="emailAddress"
+            placeholder="email@contoh.com"
+          />
+          <TextField
+            label="Nomor HP"
+            value={form.phone}
+            onChangeText={setField("phone")}
+            error={errors.phone}
+            keyboardType="phone-pad"
+            textContentType="telephoneNumber"
+            placeholder="+62812xxxxxxx"
+          />
+          <TextField
+            label="Password"
+            value={form.password}
+            onChangeText={setField("password")}
+            error={errors.password}
+            secure
+            textContentType="newPassword"
+            hint={`Minimal ${PASSWORD_MIN} karakter, kombinasi huruf dan angka.`}
+          />
+          <TextField
+            label="Ulangi password"
+            value={form.password_confirmation}
+            onChangeText={setField("password_confirmation")}
+            error={errors.password_confirmation}
+            secure
+            textContentType="newPassword"
+          />
 
+          {accountType === "mua" && (
+            <Text style={styles.note}>
+              Setelah akun dibuat, Anda akan dipandu melengkapi foto, bio, layanan, lokasi, penawaran dan
+              portofolio pertama.
+            </Text>
+          )}
+
+          <TouchableOpacity style={[styles.button, loading && styles.buttonDisabled]} onPress={onRegister} disabled={loading}>
+            {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Buat Akun</Text>}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace("/(auth)/login")} disabled={loading}>
+            <Text style={styles.secondaryText}>Sudah punya akun? Masuk</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
   );
 }
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  container: { padding: 20, paddingBottom: 40 },
+  backBtn: { alignSelf: "flex-start", padding: 4, marginBottom: 8 },
+  title: { fontSize: 28, fontWeight: "700", color: "#111827", marginBottom: 4 },
+  subtitle: { fontSize: 15, color: MUTED, marginBottom: 20 },
+  typeRow: { flexDirection: "row", gap: 12, marginBottom: 20 },
+  typeCard: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  typeCardActive: { borderColor: PURPLE, backgroundColor: "#F7F0FF" },
+  typeLabel: { fontSize: 16, fontWeight: "700", color: "#111827" },
+  typeCaption: { fontSize: 12, color: MUTED },
+  note: { fontSize: 13, color: MUTED, marginBottom: 12 },
+  button: {
+    marginTop: 8,
+    backgroundColor: PURPLE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+  secondaryButton: { paddingVertical: 14, alignItems: "center" },
+  secondaryText: { color: MUTED, fontWeight: "600", fontSize: 14 },
+});
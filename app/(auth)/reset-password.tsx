@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import TextField from "../../components/TextField";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+import { api } from "../../lib/api";
+import { useFieldErrors } from "../../lib/formErrors";
+import { rateLimitMessage, rateLimitWait, tokenErrorFrom, useCooldown } from "../../lib/passwordReset";
+import { isValidEmail, PASSWORD_MIN, validateResetPassword, type ResetPasswordForm } from "../../lib/validation";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("AUTH");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+const CARD_BG = "#F7F0FF";
+
+/**
+ * Dibuka dari layar lupa password (`sent=1`) atau dari tautan email
+ * smstudio://reset-password?token=…&email=… — token dari tautan mengisi kolom kode.
+ */
+export default function ResetPassword() {
+  const params = useLocalSearchParams<{ email?: string; token?: string; sent?: string }>();
+  const router = useRouter();
+
+  // token dari tautan → kolom kode disembunyikan sampai user meminta kode baru
+  const [fromLink, setFromLink] = useState(!!params.token);
+  const [email, setEmail] = useState(params.email ?? "");
+  const [form, setForm] = useState<ResetPasswordForm>({
+    token: params.token ?? "",
+    password: "",
+    password_confirmation: "",
+  });
+  const [loading, setLoading] = useState(false);
+  const [resending, setResending] = useState(false);
+  /** kode/tautan kedaluwarsa → minta kode baru */
+  const [expired, setExpired] = useState<string | null>(null);
+  const { errors, apply, clear, setErrors } = useFieldErrors();
+  const cooldown = useCooldown();
+
+  // kode baru saja dikirim dari layar sebelumnya → tombol kirim ulang menunggu dulu
+  const { start } = cooldown;
+  useEffect(() => {
+    if (params.sent === "1") start();
+  }, [params.sent, start]);
+
+  const setField = (key: keyof ResetPasswordForm) => (v: string) => {
+    setForm((f) => ({ ...f, [key]: v }));
+    clear(key);
+    if (key === "token") setExpired(null);
+  };
+
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const onResend = async () => {
+    clear("email");
+    if (!isValidEmail(normalizedEmail)) return setErrors({ email: "Masukkan email akun Anda." });
+    setResending(true);
+    try {
+      await api.auth.forgotPassword({ email: normalizedEmail });
+      setExpired(null);
+      setFromLink(false);
+      setForm((f) => ({ ...f, token: "" }));
+      cooldown.start();
+      Alert.alert("Kode terkirim", "Kode baru sudah dikirim ke email Anda.");
+    } catch (e: any) {
+      const wait = rateLimitWait(e);
+      if (wait !== null) {
+        cooldown.start(wait);
+        Alert.alert("Gagal", rateLimitMessage(wait));
+      } else if (!apply(e)) Alert.alert("Gagal", e?.message || "Tidak dapat mengirim kode reset.");
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const onSubmit = async () => {
+    clear();
+    const invalid = validateResetPassword(form);
+    if (!isValidEmail(normalizedEmail)) invalid.email = "Masukkan email akun Anda.";
+    if (Object.keys(invalid).length) {
+      setErrors(invalid);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await api.auth.resetPassword({
+        email: normalizedEmail,
+        token: form.token.trim(),
+        password: form.password,
+        password_confirmation: form.password_confirmation,
+      });
+      log.info("password reset", fromLink ? "via link" : "via code");
+      Alert.alert("Password diperbarui", "Silakan masuk dengan password baru Anda.", [
+        // kembali ke login yang sudah ada di stack (atau ganti layar bila dibuka dari tautan)
+        { text: "OK", onPress: () => router.dismissTo({ pathname: "/(auth)/login", params: { email: normalizedEmail } }) },
+      ]);
+    } catch (e: any) {
+      const wait = rateLimitWait(e);
+      if (wait !== null) {
+        cooldown.start(wait);
+        Alert.alert("Gagal", rateLimitMessage(wait));
+        return;
+      }
+      const tokenError = tokenErrorFrom(e);
+      if (tokenError) {
+        setExpired(tokenError);
+        return;
+      }
+      if (!apply(e)) Alert.alert("Gagal", e?.message || "Tidak dapat memperbarui password.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const busy = loading || resending;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity
+            onPress={() => (router.canGoBack() ? router.back() : router.replace("/(auth)/login"))}
+            style={styles.backBtn}
+          >
+            <Ionicons name="chevron-back" size={22} color="#111827" />
+          </TouchableOpacity>
+
+          <Text style={styles.title}>Password baru</Text>
+          <Text style={styles.subtitle}>
+            {fromLink
+              ? "Tautan reset terdeteksi. Buat password baru untuk akun Anda."
+              : normalizedEmail && params.sent === "1"
+                ? `Kode 6 digit sudah dikirim ke ${normalizedEmail}. Periksa juga folder spam.`
+                : "Masukkan kode dari email lalu buat password baru."}
+          </Text>
+
+          {expired && (
+            <View style={styles.expiredCard}>
+              <Ionicons name="time-outline" size={20} color={PURPLE} />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.expiredTitle}>Kode tidak berlaku</Text>
+                <Text style={styles.expiredText}>{expired}</Text>
+              </View>
+            </View>
+          )}
+
+          <TextField
+            label="Email"
+            value={email}
+            onChangeText={(v) => {
+              setEmail(v);
+              clear("email");
+            }}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            textContentType="emailAddress"
+            placeholder="email@contoh.com"
+            editable={!fromLink || !params.email}
+          />
+
+          {!fromLink && (
+            <TextField
+              label="Kode reset"
+              value={form.token}
+              onChangeText={setField("token")}
+              error={errors.token}
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="6 digit"
+            />
+          )}
+
+          {(!fromLink || !!expired) && (
+            <View style={styles.resendRow}>
+              <Text style={styles.resendHint}>Tidak menerima kode?</Text>
+              <TouchableOpacity onPress={onResend} disabled={busy || cooldown.left > 0}>
+                {resending ? (
+                  <ActivityIndicator size="small" color={PURPLE} />
+                ) : (
+                  <Text style={[styles.resendText, cooldown.left > 0 && { color: MUTED }]}>
+                    {cooldown.left > 0 ? `Kirim ulang (${cooldown.left}s)` : "Kirim kode baru"}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TextField
+            label="Password baru"
+            value={form.password}
+            onChangeText={setField("password")}
+            error={errors.password}
+            secure
+            textContentType="newPassword"
+            hint={`Minimal ${PASSWORD_MIN} karakter, kombinasi huruf dan angka.`}
+          />
+          <PasswordStrengthMeter password={form.password} />
+          <TextField
+            label="Ulangi password baru"
+            value={form.password_confirmation}
+            onChangeText={setField("password_confirmation")}
+            error={errors.password_confirmation}
+            secure
+            textContentType="newPassword"
+          />
+
+          <TouchableOpacity
+            style={[styles.button, (busy || !!expired) && styles.buttonDisabled]}
+            onPress={onSubmit}
+            disabled={busy || !!expired}
+          >
+            {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Simpan password</Text>}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  container: { padding: 20, paddingBottom: 40 },
+  backBtn: { alignSelf: "flex-start", padding: 4, marginBottom: 8 },
+  title: { fontSize: 28, fontWeight: "700", color: "#111827", marginBottom: 4 },
+  subtitle: { fontSize: 15, color: MUTED, marginBottom: 20 },
+  expiredCard: {
+    flexDirection: "row",
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: BORDER,
+    backgroundColor: CARD_BG,
+    marginBottom: 16,
+  },
+  expiredTitle: { fontWeight: "700", color: "#111827", marginBottom: 2 },
+  expiredText: { fontSize: 13, color: MUTED },
+  resendRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: -6,
+    marginBottom: 16,
+  },
+  resendHint: { fontSize: 13, color: MUTED },
+  resendText: { fontSize: 13, fontWeight: "700", color: PURPLE },
+  button: {
+    marginTop: 8,
+    backgroundColor: PURPLE,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+});
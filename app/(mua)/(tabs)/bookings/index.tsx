@@ -1,5 +1,5 @@
 // app/(mua)/tabs/booking.tsx
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useRef, useState, useCallback } from "react";
 import {
   View,
   Text,
@@ -9,16 +9,20 @@ import {
   TouchableOpacity,
   RefreshControl,
 } from "react-native";
-import * as SecureStore from "expo-secure-store";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter, useFocusEffect } from "expo-router";
-import { api } from "../../../../lib/api"; // sesuaikan path jika perlu
+import { api } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { useInfiniteList } from "../../../../lib/pagination";
+import type { Booking } from "../../../../lib/types";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("BOOKING");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const CARD_BG = "#F7F2FA";
-
-type BookingApi = any;
+const PAGE_SIZE = 20;
 
 type Row = {
   id: number | string;
@@ -30,6 +34,18 @@ type Row = {
   job_status?: string | null;
 };
 
+function toRow(b: Booking): Row {
+  return {
+    id: b.id,
+    title: b?.offering?.name_offer || "Booking",
+    date: (b.booking_date || "").slice(0, 10),
+    time: b.booking_time || "--:--",
+    customer: b?.customer?.name || undefined,
+    status: b?.status ?? null,
+    job_status: b?.job_status ?? null,
+  };
+}
+
 function pillColor(status?: string | null) {
   const s = (status || "").toLowerCase();
   if (["completed"].includes(s)) return { fg: "#166534", bg: "#DCFCE7", bd: "#86EFAC" };
@@ -53,108 +69,40 @@ function StatusPill({ label }: { label?: string | null }) {
 export default function MuaBookingsAccepted() {
   const router = useRouter();
 
-  const [profileId, setProfileId] = useState<string | null>(null);
-  const [role, setRole] = useState<"mua" | "customer" | "admin" | null>(null);
-
-  const [rows, setRows] = useState<Row[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [errorText, setErrorText] = useState<string | null>(null);
-
-  // 1) ambil profile & role dari SecureStore jika ada
-  useEffect(() => {
-    let alive = true;
-    (async () => {
-      try {
-        const raw = await SecureStore.getItemAsync("auth").catch(() => null);
-        if (raw) {
-          const auth = JSON.parse(raw);
-          if (!alive) return;
-          setProfileId(auth?.profile?.id || auth?.user?.profile?.id || null);
-          setRole(auth?.profile?.role || auth?.user?.role || null);
-        }
-      } catch (err) {
-        // ignore
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, []);
-
-  // 2) fallback: jika profileId/role belum ada, panggil api.me()
-  useEffect(() => {
-    let alive = true;
-    (async () => {
-      if (profileId && role) return;
-      try {
-        const me = await api.me();
-        if (!alive) return;
-        setProfileId(me?.profile?.id || me?.id || null);
-        setRole(me?.profile?.role || me?.role || null);
-      } catch (err) {
-        // jika me() gagal, tetap lanjut dan tampilkan pesan kosong nanti
-        console.warn("api.me() failed:", err);
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, [profileId, role]);
-
-  const fetchBookings = useCallback(async () => {
-    if (!profileId || !role) return;
-    setLoading(true);
-    setErrorText(null);
-    try {
-      const params: any = { per_page: 50, status: "confirmed" };
-      if (role === "mua") params.mua_id = profileId;
-      else params.customer_id = profileId;
-
-      const res = await api.bookings.list(params);
-      // res might be paginated: { data: [...] } or just array
-      const list: BookingApi[] = Array.isArray(res?.data) ? res.data : Array.isArray(res) ? res : res?.data ?? [];
-
-      const mapped: Row[] = list.map((b: any) => ({
-        id: b.id,
-        title: b?.offering?.name_offer || b?.title || "Booking",
-        date: (b.booking_date || b?.date || "").slice(0, 10),
-        time: b.booking_time || b?.time || "--:--",
-        customer: b?.customer?.name || b?.customer_name || undefined,
-        status: b?.status ?? null,
-        job_status: b?.job_status ?? null,
-      }));
-
-      setRows(mapped);
-    } catch (err: any) {
-      console.error("fetchBookings error:", err);
-      setRows([]);
-      setErrorText(err?.message || "Gagal memuat booking.");
-    } finally {
-      setLoading(false);
-    }
-  }, [profileId, role]);
-
-  useEffect(() => {
-    if (profileId && role) fetchBookings();
-  }, [profileId, role, fetchBookings]);
-
+  // id profil & role dari sesi (AuthProvider)
+  const { profileId, role } = useAuth();
+
+  const list = useInfiniteList<Row>({
+    fetchPage: async (page, signal) => {
+      const json = await api.bookings.list(
+        {
+          page,
+          per_page: PAGE_SIZE,
+          status: "confirmed",
+          ...(role === "mua" ? { mua_id: profileId! } : { customer_id: profileId! }),
+        },
+        { signal }
+      );
+      return { ...json, data: json.data.map(toRow) };
+    },
+    perPage: PAGE_SIZE,
+    deps: [profileId, role],
+    enabled: !!profileId && !!role,
+  });
+  const { items: rows, refreshing, loadingMore, refresh } = list;
+  const loading = list.loading || !profileId || !role;
+  const errorText =
+    list.error && !list.items.length ? (list.error as Error)?.message || "Gagal memuat booking." : null;
+
+  // refresh ringan saat screen fokus (misal setelah create/edit)
+  const loadedRef = useRef(false);
+  loadedRef.current = list.page > 0;
   useFocusEffect(
     useCallback(() => {
-      // refresh ringan saat screen fokus (misal setelah create/edit)
-      if (profileId && role) fetchBookings();
-    }, [profileId, role, fetchBookings])
+      if (loadedRef.current) refresh();
+    }, [refresh])
   );
 
-  const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    try {
-      await fetchBookings();
-    } finally {
-      setRefreshing(false);
-    }
-  }, [fetchBookings]);
-
   if (loading) {
     return (
       <View style={styles.center}>
@@ -172,18 +120,24 @@ export default function MuaBookingsAccepted() {
           <Text style={{ color: "crimson", textAlign: "center", paddingHorizontal: 16 }}>
             {errorText}
           </Text>
-          <TouchableOpacity style={[styles.addBtn, { marginTop: 12 }]} onPress={fetchBookings}>
+          <TouchableOpacity style={[styles.addBtn, { marginTop: 12 }]} onPress={refresh}>
             <Ionicons name="refresh" size={18} color="#fff" />
             <Text style={{ color: "#fff", fontWeight: "800", marginLeft: 6 }}>Coba Lagi</Text>
           </TouchableOpacity>
         </View>
       ) : (
         <FlatList
-          data={rows}
-          keyExtractor={(it) => String(it.id)}
+          {...list.listProps}
           contentContainerStyle={{ padding: 16 }}
           ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
-          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+          ListFooterComponent={
+            loadingMore ? (
+              <View style={{ paddingVertical: 12 }}>
+                <ActivityIndicator />
+              </View>
+            ) : null
+          }
           renderItem={({ item }) => (
             <TouchableOpacity
               onPress={() =>
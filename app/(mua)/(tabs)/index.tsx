@@ -12,46 +12,24 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
-import { useRouter } from "expo-router";
+import { Redirect, useRouter } from "expo-router";
 import Svg, { Path, Defs, LinearGradient as SvgGrad, Stop, Rect } from "react-native-svg";
 import { ensureLocationPermission } from "../../../src/permissions";
-import { getAuthToken } from "../../../utils/authStorage";
-import { api } from "../../../lib/api";
+import { api, assetUrl } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { ONBOARDING_STEPS, useMuaOnboarding } from "../../../lib/onboarding";
+import { useVerificationPrompt } from "../../../lib/verification";
+import { fetchAllPages } from "../../../lib/pagination";
+import { bookingTotal, formatIDR } from "../../../lib/pricing";
+import type { Booking, Portfolio } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-/* ========== Types ========== */
-type MeResp = {
-  id?: string;
-  name?: string;
-  profile?: { id?: string; name?: string; role?: string };
-  data?: any;
-};
-
-type Booking = {
-  id: number;
-  customer_id: string;
-  mua_id: string;
-  offering_id?: number | null;
-  booking_date: string; // YYYY-MM-DD
-  booking_time: string; // "HH:MM"
-  status: "pending" | "confirmed" | "rejected" | "cancelled" | "completed";
-  updated_at?: string | null;
-};
-
-type Portfolio = {
-  id: number;
-  name: string;
-  photos?: string[] | null;
-  makeup_type?: string | null;
-};
+const log = createLogger("UI");
 
+/* ========== Types ========== */
 type SparkDatum = number;
 
 /* ========== Consts ========== */
-const BASE_URL = "https://smstudio.my.id";
-const API_URL = `${BASE_URL}/api`;
-const API_BOOKINGS = `${API_URL}/bookings`;
-const API_PORTFOLIOS = `${API_URL}/portfolios`;
-
 const PURPLE = "#AA60C8";
 const PURPLE_2 = "#C084FC";
 const MUTED = "#6B7280";
@@ -82,13 +60,6 @@ const monthFromUpdatedOrBooking = (b: Booking): number | null => {
   return Number.isFinite(+d2) ? d2.getMonth() : null;
 };
 
-const normPhoto = (u?: string | null) => {
-  if (!u) return null;
-  if (u.startsWith("http://") || u.startsWith("https://")) return u;
-  if (u.startsWith("/")) return `${BASE_URL}${u}`;
-  return u;
-};
-
 /* ========== Sparkline ========== */
 function Sparkline({ data, width = 320, height = 120 }: { data: SparkDatum[]; width?: number; height?: number }) {
   if (!data || data.length === 0) return <View style={{ width, height, backgroundColor: "#fff" }} />;
@@ -128,9 +99,16 @@ function Sparkline({ data, width = 320, height = 120 }: { data: SparkDatum[]; wi
 export default function MuaDashboard() {
   const router = useRouter();
 
-  // beri generics eksplisit — mencegah never[]
-  const [me, setMe] = useState<{ id?: string; name?: string } | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  // identitas MUA dari sesi (AuthProvider)
+  const { profileId, user, profile } = useAuth();
+  // MUA baru → wizard onboarding (sampai selesai atau "Nanti saja")
+  const onboarding = useMuaOnboarding(profileId);
+  // akun baru → verifikasi kontak dulu, baru wizard onboarding
+  const verifyPrompt = useVerificationPrompt(profileId);
+  const me = useMemo(
+    () => ({ id: profileId ?? undefined, name: user?.profile?.name ?? user?.name ?? profile?.name ?? undefined }),
+    [profileId, user, profile]
+  );
 
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loadingBookings, setLoadingBookings] = useState<boolean>(true);
@@ -138,44 +116,6 @@ export default function MuaDashboard() {
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [loadingPortfolios, setLoadingPortfolios] = useState<boolean>(true);
 
-  // ambil token & me (safe)
-  useEffect(() => {
-    (async () => {
-      try {
-        const t = await getAuthToken();
-        if (t) setToken(t);
-
-        // coba helper api.me() jika tersedia
-        let resp: any = null;
-        try {
-          resp = await api.me();
-        } catch {
-          // fallback to raw fetch
-          try {
-            const res = await fetch(`${API_URL}/auth/me`, {
-              headers: { Accept: "application/json", ...(t ? { Authorization: `Bearer ${t}` } : {}) },
-            });
-            resp = await res.json().catch(() => null);
-          } catch {
-            resp = null;
-          }
-        }
-
-        if (resp) {
-          const body = resp?.data ?? resp;
-          const id = body?.profile?.id ?? body?.id ?? (body?.user && body.user.id) ?? undefined;
-          const name = body?.profile?.name ?? body?.name ?? (body?.user && body.user.name) ?? undefined;
-          setMe({ id, name });
-        } else {
-          setMe(null);
-        }
-      } catch (err) {
-        console.warn("error loading me:", err);
-        setMe(null);
-      }
-    })();
-  }, []);
-
   /* ========== bookings fetch (completed for metrics) ========== */
   useEffect(() => {
     if (!me?.id) return;
@@ -184,40 +124,16 @@ export default function MuaDashboard() {
     (async () => {
       setLoadingBookings(true);
       try {
+        // semua booking selesai dibutuhkan untuk metrik → ambil seluruh halaman
         const perPage = 100;
-        let page = 1;
-        let all: Booking[] = [];
-        let nextUrl: string | null =
-          `${API_BOOKINGS}?mua_id=${encodeURIComponent(String(me.id))}` +
-          `&status=completed&per_page=${perPage}&page=${page}`;
-
-        while (nextUrl && alive) {
-          const response = await fetch(nextUrl, {
-            headers: { Accept: "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
-          });
-          const json: any = await response.json().catch(() => ({}));
-          const pageData: Booking[] = Array.isArray(json?.data) ? json.data : Array.isArray(json) ? json : [];
-          all = all.concat(pageData);
-
-          if (json?.next_page_url) {
-            nextUrl = json.next_page_url as string | null;
-          } else if (pageData.length === perPage) {
-            page += 1;
-            nextUrl =
-              `${API_BOOKINGS}?mua_id=${encodeURIComponent(String(me.id))}` +
-              `&status=completed&per_page=${perPage}&page=${page}`;
-          } else {
-            nextUrl = null;
-          }
-
-          if (page > 20) {
-            nextUrl = null; // guard
-          }
-        }
+        const all = await fetchAllPages(
+          (page) => api.bookings.list({ mua_id: me.id, status: "completed", per_page: perPage, page }),
+          { perPage }
+        );
 
         if (alive) setBookings(all);
       } catch (err) {
-        console.warn("fetch bookings error:", err);
+        log.warn("fetch bookings error:", err);
         if (alive) setBookings([]);
       } finally {
         if (alive) setLoadingBookings(false);
@@ -227,7 +143,7 @@ export default function MuaDashboard() {
     return () => {
       alive = false;
     };
-  }, [me?.id, token]);
+  }, [me?.id]);
 
   /* ========== portfolios fetch ========== */
   useEffect(() => {
@@ -237,15 +153,15 @@ export default function MuaDashboard() {
     (async () => {
       setLoadingPortfolios(true);
       try {
-        const url = `${API_PORTFOLIOS}?muaId=${encodeURIComponent(String(me.id))}&per_page=20&sort=created_at&dir=desc`;
-        const res = await fetch(url, {
-          headers: { Accept: "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        const { data: rows } = await api.portfolio.list({
+          muaId: me.id,
+          per_page: 20,
+          sort: "created_at",
+          dir: "desc",
         });
-        const j = await res.json().catch(() => ({}));
-        const rows: Portfolio[] = Array.isArray(j?.data) ? j.data : Array.isArray(j) ? j : [];
         if (alive) setPortfolios(rows);
       } catch (err) {
-        console.warn("fetch portfolios error:", err);
+        log.warn("fetch portfolios error:", err);
         if (alive) setPortfolios([]);
       } finally {
         if (alive) setLoadingPortfolios(false);
@@ -255,7 +171,7 @@ export default function MuaDashboard() {
     return () => {
       alive = false;
     };
-  }, [me?.id, token]);
+  }, [me?.id]);
 
   /* upcoming: cari booking pending/confirmed di masa depan dari 'bookings' */
   const upcoming = useMemo<Booking | null>(() => {
@@ -299,6 +215,20 @@ export default function MuaDashboard() {
     return byMonth;
   }, [bookings, me?.id]);
 
+  /* pendapatan dari pekerjaan selesai; total per booking lewat lib/pricing (nilai server bila ada) */
+  const revenue = useMemo(() => {
+    const thisMonth = new Date().getMonth();
+    let all = 0;
+    let month = 0;
+    bookings.forEach((b) => {
+      if (b.status !== "completed" || b.mua_id !== me?.id) return;
+      const total = bookingTotal(b);
+      all += total;
+      if (monthFromUpdatedOrBooking(b) === thisMonth) month += total;
+    });
+    return { all, month };
+  }, [bookings, me?.id]);
+
   const [coords, setCoords] = useState<{ lat: number; lng: number } | null>(null);
   async function onGetLocation() {
     try {
@@ -309,6 +239,10 @@ export default function MuaDashboard() {
     }
   }
 
+  if (!verifyPrompt.loading && verifyPrompt.pending) return <Redirect href="/(account)/verify" />;
+  const ob = onboarding.progress;
+  if (ob && !ob.done && !ob.snoozed) return <Redirect href="/(mua)/onboarding" />;
+
   return (
     <ScrollView style={styles.screen} contentContainerStyle={{ paddingBottom: 24 }}>
       <View style={styles.header}>
@@ -321,6 +255,19 @@ export default function MuaDashboard() {
         </TouchableOpacity>
       </View>
 
+      {ob && !ob.done && (
+        <TouchableOpacity style={styles.setupCard} onPress={() => router.push("/(mua)/onboarding")}>
+          <Ionicons name="sparkles-outline" size={20} color={PURPLE} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.setupTitle}>Lengkapi profil MUA</Text>
+            <Text style={styles.setupSub}>
+              {ob.completed.length}/{ONBOARDING_STEPS.length} langkah selesai · lanjutkan setup
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={MUTED} />
+        </TouchableOpacity>
+      )}
+
       <LinearGradient colors={[PURPLE, PURPLE_2]} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }} style={styles.nextCard}>
         <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
           <Text style={styles.nextTitle}>Jadwal Mendatang</Text>
@@ -377,6 +324,16 @@ export default function MuaDashboard() {
         </View>
       </View>
 
+      <View style={{ paddingHorizontal: 20, marginTop: 12 }}>
+        <View style={styles.kpiCard}>
+          <Text style={styles.kpiTitle}>Pendapatan Pekerjaan Selesai</Text>
+          <Text style={styles.kpiValue}>{formatIDR(revenue.all)}</Text>
+          <Text style={{ color: MUTED, marginTop: 4 }}>
+            Bulan ini: <Text style={{ color: "#111827", fontWeight: "800" }}>{formatIDR(revenue.month)}</Text>
+          </Text>
+        </View>
+      </View>
+
       <View style={{ paddingHorizontal: 20, marginTop: 18 }}>
         <Text style={styles.blockTitle}>Portofolio</Text>
 
@@ -391,7 +348,7 @@ export default function MuaDashboard() {
         ) : (
           portfolios.map((p: Portfolio) => {
             const first = Array.isArray(p.photos) ? p.photos[0] : null;
-            const cover = normPhoto(first) || "https://via.placeholder.com/600x400.png?text=Portfolio";
+            const cover = assetUrl(first) || "https://via.placeholder.com/600x400.png?text=Portfolio";
             return (
               <View key={String(p.id)} style={styles.portCard}>
                 <Image source={{ uri: cover }} style={styles.portPhoto} />
@@ -436,6 +393,19 @@ const styles = StyleSheet.create({
 
   subtitle: { color: MUTED, marginTop: 4 },
 
+  setupCard: {
+    marginHorizontal: 20,
+    marginTop: 10,
+    borderRadius: 12,
+    padding: 12,
+    backgroundColor: "#F7F0FF",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  setupTitle: { fontWeight: "700", color: "#111827" },
+  setupSub: { fontSize: 12, color: MUTED, marginTop: 2 },
+
   nextCard: {
     marginHorizontal: 20,
     marginTop: 10,
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   View,
   Text,
@@ -10,124 +10,45 @@ import {
   Alert,
 } from "react-native";
 import { api } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { useInfiniteList } from "../../../../lib/pagination";
+import type { Offering } from "../../../../lib/types";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter, useFocusEffect } from "expo-router";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("OFFERING");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const CARD_BG = "#F7F2FA";
-
-type Offering = { id: number; name_offer: string; price?: string | number };
-
-// response paginated laravel
-type Paginated<T> = {
-  data: T[];
-  next_page_url?: string | null;
-  prev_page_url?: string | null;
-  current_page?: number;
-  total?: number;
-};
+const PAGE_SIZE = 20;
 
 export default function MuaOfferingsMine() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [muaId, setMuaId] = useState<string | null>(null);
-
-  const [rows, setRows] = useState<Offering[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [nextUrl, setNextUrl] = useState<string | null>(null);
-  const [errorText, setErrorText] = useState<string | null>(null);
-
-  /* ------------------ Auth bootstrap ------------------ */
-  useEffect(() => {
-    let alive = true;
-    (async () => {
-      try {
-        const response = await api.me();
-        if (alive && response) {
-          const pid = response.profile?.id || response.id;
-          if (pid) setMuaId(String(pid));
-        }
-      } catch (error) {
-        console.warn("Error fetching user profile:", error);
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, []);
-
-  /* ------------------ Fetch helpers ------------------ */
-  const mapRows = (json: any): { list: Offering[]; next: string | null } => {
-    // handle paginated / plain array
-    const data: Offering[] = Array.isArray(json?.data)
-      ? json.data
-      : Array.isArray(json)
-        ? json
-        : [];
-
-    const next = json?.next_page_url ?? null;
-    return { list: data, next };
-  };
-
-  // Hanya gunakan endpoint query
-  // Gunakan endpoint /offerings/mine sesuai backend
-  const fetchOfferings = async () => {
-    return api.offerings.mine();
-  };
-
-  const loadInitial = useCallback(async () => {
-    if (!muaId) return;
-    setLoading(true);
-    setErrorText(null);
-    try {
-      const res = await fetchOfferings();
-      console.log('[Offerings] API response:', res);
-      const { list, next } = mapRows(res);
-      setRows(list);
-      setNextUrl(next);
-    } catch (e: any) {
-      console.error('[Offerings] Error:', e);
-      setRows([]);
-      setNextUrl(null);
-      setErrorText(e?.message || "Gagal memuat offerings.");
-    } finally {
-      setLoading(false);
-    }
-  }, [muaId]);
-
-  const loadMore = useCallback(async () => {
-    if (!nextUrl) return;
-    try {
-      // Since we're using the mine() endpoint, we need to implement pagination on the server first
-      console.log('Pagination not yet implemented');
-    } catch (error) {
-      console.error('Error loading more offerings:', error);
-    }
-  }, [nextUrl]);
-
-  const onRefresh = useCallback(async () => {
-    if (!muaId) return;
-    setRefreshing(true);
-    try {
-      await loadInitial();
-    } finally {
-      setRefreshing(false);
-    }
-  }, [muaId, loadInitial]);
-
-  // load awal + refetch saat kembali fokus
-  useEffect(() => {
-    if (muaId) loadInitial();
-  }, [muaId, loadInitial]);
-
+  // sesi MUA (id profil) dari AuthProvider
+  const { profileId: muaId } = useAuth();
+
+  /* ------------------ List ------------------ */
+  // endpoint /offerings/mine (paginator Laravel)
+  const list = useInfiniteList<Offering>({
+    fetchPage: (page, signal) => api.offerings.mine({ page, per_page: PAGE_SIZE }, { signal }),
+    perPage: PAGE_SIZE,
+    enabled: !!muaId,
+  });
+  const { items: rows, refreshing, loadingMore, refresh } = list;
+  const loading = list.loading || !muaId;
+  const errorText =
+    list.error && !rows.length ? (list.error as Error)?.message || "Gagal memuat offerings." : null;
+
+  // refresh ringan saat screen kembali fokus (misal setelah create/edit)
+  const loadedRef = useRef(false);
+  loadedRef.current = list.page > 0;
   useFocusEffect(
     useCallback(() => {
-      // refresh ringan saat screen fokus (misal setelah create/edit)
-      if (muaId) loadInitial();
-    }, [muaId, loadInitial])
+      if (loadedRef.current) refresh();
+    }, [refresh])
   );
 
   /* ------------------ UI ------------------ */
@@ -145,7 +66,7 @@ export default function MuaOfferingsMine() {
           <Text style={{ color: "crimson", textAlign: "center", paddingHorizontal: 16 }}>
             {errorText}
           </Text>
-          <TouchableOpacity style={[styles.addBtn, { marginTop: 12 }]} onPress={loadInitial}>
+          <TouchableOpacity style={[styles.addBtn, { marginTop: 12 }]} onPress={refresh}>
             <Ionicons name="refresh" size={18} color="#fff" />
             <Text style={{ color: "#fff", fontWeight: "800", marginLeft: 6 }}>Coba Lagi</Text>
           </TouchableOpacity>
@@ -154,17 +75,13 @@ export default function MuaOfferingsMine() {
     }
     return (
       <FlatList
-        data={rows}
-        keyExtractor={(it) => String(it.id)}
+        {...list.listProps}
         contentContainerStyle={{ padding: 16, paddingBottom: 20 }}
         ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
-        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
         onEndReachedThreshold={0.2}
-        onEndReached={() => {
-          if (nextUrl) loadMore();
-        }}
         ListFooterComponent={
-          nextUrl ? (
+          loadingMore ? (
             <View style={{ paddingVertical: 12 }}>
               <ActivityIndicator />
             </View>
@@ -195,7 +112,7 @@ export default function MuaOfferingsMine() {
         }
       />
     );
-  }, [loading, errorText, rows, nextUrl, refreshing, onRefresh, loadMore, router]);
+  }, [loading, errorText, list.listProps, loadingMore, refreshing, refresh, router]);
 
   return (
     <View style={styles.screen}>
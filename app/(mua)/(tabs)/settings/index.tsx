@@ -9,171 +9,54 @@ import {
   Switch,
   ActivityIndicator,
 } from "react-native";
-import * as SecureStore from "expo-secure-store";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
+import AccountSwitcher from "../../../../components/AccountSwitcher";
+import DeveloperLink from "../../../../components/DeveloperLink";
+import { api, isUnauthorized } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { createLogger } from "../../../../lib/logger";
 
-const API_ROOT = "https://smstudio.my.id/api";
-const GET_ME = `${API_ROOT}/auth/me`;
-const PATCH_ONLINE = `${API_ROOT}/auth/profile/online`;
+const log = createLogger("PROFILE");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 
-/**
- * Small fetch helper that ensures JSON responses and returns helpful errors.
- */
-async function fetchJSON(url: string, options: RequestInit = {}) {
-  const res = await fetch(url, {
-    ...options,
-    headers: {
-      Accept: "application/json",
-      ...(options.headers || {}),
-    },
-  });
-
-  const ct = res.headers.get("content-type") || "";
-  const raw = await res.text();
-
-  if (!ct.includes("application/json")) {
-    const snippet = raw ? raw.slice(0, 300).replace(/\s+/g, " ") : "";
-    const err: any = new Error(`${res.status} ${res.statusText} – expected JSON, got: ${snippet}`);
-    err.status = res.status;
-    throw err;
-  }
-
-  let json: any;
-  try {
-    json = JSON.parse(raw);
-  } catch {
-    const err: any = new Error("Response is not valid JSON.");
-    err.status = res.status;
-    throw err;
-  }
-
-  if (!res.ok) {
-    const msg = json?.message || json?.error || `${res.status} ${res.statusText}`;
-    const err: any = new Error(msg);
-    err.status = res.status;
-    throw err;
-  }
-
-  return json;
-}
-
 export default function MuaSettings() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
-  const [profileId, setProfileId] = useState<string | null>(null);
+  const { status, logout, refreshProfile, updateProfileLocally } = useAuth();
 
   const [loadingOnline, setLoadingOnline] = useState(true);
   const [savingOnline, setSavingOnline] = useState(false);
   const [isOnline, setIsOnline] = useState<boolean>(false);
 
-  // Bootstrap auth — coba beberapa sumber agar kompatibel dengan berbagai login shapes
-  useEffect(() => {
-    (async () => {
-      try {
-        // 1) coba SecureStore key "auth" (legacy)
-        const rawAuth = await SecureStore.getItemAsync("auth").catch(() => null);
-        if (rawAuth) {
-          try {
-            const parsed = JSON.parse(rawAuth);
-            const maybeToken = parsed?.token ?? parsed?.accessToken ?? parsed?.access_token ?? null;
-            if (maybeToken) setToken(String(maybeToken));
-            const maybeProfileId = parsed?.profile?.id ?? parsed?.user?.id ?? parsed?.profile_id ?? null;
-            if (maybeProfileId) setProfileId(String(maybeProfileId));
-          } catch {
-            // kalau rawAuth bukan JSON (mis. token string), treat sebagai token
-            if (typeof rawAuth === "string" && rawAuth.length > 0) setToken(rawAuth);
-          }
-        }
-
-        // 2) coba SecureStore key "auth_token"
-        if (!token) {
-          const tok2 = await SecureStore.getItemAsync("auth_token").catch(() => null);
-          if (tok2) setToken(tok2);
-        }
-
-        // 3) coba AsyncStorage key "user_profile"
-        if (!profileId) {
-          try {
-            const rawProfile = await AsyncStorage.getItem("user_profile").catch(() => null);
-            if (rawProfile) {
-              const p = JSON.parse(rawProfile);
-              if (p?.id) setProfileId(String(p.id));
-            }
-          } catch {}
-        }
-      } catch (e) {
-        console.warn("bootstrap auth failed:", e);
-      } finally {
-        setTokenReady(true);
-      }
-    })();
-  }, []);
-
-  // Force logout helper
-  const doForceLogout = useCallback(
-    async (message?: string) => {
-      await SecureStore.deleteItemAsync("auth").catch(() => {});
-      await SecureStore.deleteItemAsync("auth_token").catch(() => {});
-      await AsyncStorage.removeItem("user_profile").catch(() => {});
-      Alert.alert("Sesi berakhir", message ?? "Silakan login kembali.", [
-        { text: "OK", onPress: () => router.replace("/(auth)/login") },
-      ]);
-    },
-    [router]
-  );
-
   // Load status online from GET /auth/me
   useEffect(() => {
-    if (!tokenReady) return;
+    if (status === "loading") return;
 
     (async () => {
       setLoadingOnline(true);
 
-      // jika tidak ada token, skip memanggil /auth/me
-      if (!token) {
-        console.log("No token found — skip GET /auth/me");
+      // jika tidak ada sesi, skip memanggil /auth/me
+      if (status !== "signedIn") {
+        log.debug("No session — skip GET /auth/me");
         setIsOnline(false);
         setLoadingOnline(false);
         return;
       }
 
-      try {
-        const json = await fetchJSON(GET_ME, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        const me = json?.data ?? json;
-        const profile = me?.profile ?? me;
-        const val = !!(profile?.is_online ?? profile?.online ?? profile?.status_online);
-        setIsOnline(val);
-
-        const id = profile?.id ?? me?.id;
-        if (id) setProfileId(String(id));
-      } catch (e: any) {
-        console.warn("Failed GET /auth/me:", e?.message || e);
-        if (e?.status === 401) {
-          // token invalid/expired
-          await doForceLogout("Autentikasi tidak valid. Silakan login kembali.");
-          return;
-        }
-        Alert.alert("Gagal memuat profil", e?.message || "Tidak dapat memuat profil.");
-      } finally {
-        setLoadingOnline(false);
-      }
+      // gagal (termasuk 401 yang ditangani global oleh lib/api) → null, status tetap offline
+      const me = await refreshProfile();
+      if (me) setIsOnline(!!(me.profile?.is_online ?? me.is_online));
+      setLoadingOnline(false);
     })();
-  }, [tokenReady, token, doForceLogout]);
+  }, [status, refreshProfile]);
 
   // Update online via PATCH /auth/profile/online
   const updateOnline = useCallback(
     async (val: boolean) => {
-      if (!token) {
+      if (status !== "signedIn") {
         Alert.alert("Butuh Login", "Silakan login untuk mengubah status online.");
         return;
       }
@@ -183,33 +66,22 @@ export default function MuaSettings() {
       setSavingOnline(true);
 
       try {
-        await fetchJSON(PATCH_ONLINE, {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({ is_online: val }),
-        });
+        await api.profile.setOnline(val);
+        updateProfileLocally({ is_online: val });
       } catch (e: any) {
-        console.warn("Failed PATCH /auth/profile/online:", e?.message || e);
+        log.warn("Failed PATCH /auth/profile/online:", e?.message || e);
         setIsOnline(prev);
-        if (e?.status === 401) {
-          await doForceLogout("Autentikasi tidak valid. Silakan login kembali.");
-          return;
-        }
+        if (isUnauthorized(e)) return;
         Alert.alert("Gagal menyimpan", e?.message || "Tidak dapat menyimpan status online.");
       } finally {
         setSavingOnline(false);
       }
     },
-    [token, isOnline, doForceLogout]
+    [status, isOnline, updateProfileLocally]
   );
 
-  async function logout() {
-    await SecureStore.deleteItemAsync("auth").catch(() => {});
-    await SecureStore.deleteItemAsync("auth_token").catch(() => {});
-    await AsyncStorage.removeItem("user_profile").catch(() => {});
+  async function onLogout() {
+    await logout();
     router.replace("/(auth)/login");
   }
 
@@ -242,7 +114,23 @@ export default function MuaSettings() {
         )}
       </View>
 
-      <TouchableOpacity style={styles.logout} onPress={logout}>
+      <AccountSwitcher style={styles.accounts} />
+
+      <TouchableOpacity style={styles.row} onPress={() => router.push("/(mua)/vouchers")}>
+        <Ionicons name="pricetag-outline" size={20} color="#111827" />
+        <Text style={styles.rowText}>Kode Promo</Text>
+        <Ionicons name="chevron-forward" size={16} color="#6B7280" />
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.row} onPress={() => router.push("/(account)/sessions")}>
+        <Ionicons name="phone-portrait-outline" size={20} color="#111827" />
+        <Text style={styles.rowText}>Sesi & Perangkat</Text>
+        <Ionicons name="chevron-forward" size={16} color="#6B7280" />
+      </TouchableOpacity>
+
+      <DeveloperLink style={styles.accounts} />
+
+      <TouchableOpacity style={styles.logout} onPress={onLogout}>
         <Ionicons name="log-out-outline" size={18} color="#DC2626" />
         <Text style={{ color: "#DC2626", fontWeight: "800", marginLeft: 8 }}>Logout</Text>
       </TouchableOpacity>
@@ -264,6 +152,7 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   rowText: { flex: 1, marginLeft: 10, fontWeight: "700", color: "#111827" },
+  accounts: { marginTop: 10 },
   logout: {
     height: 48,
     borderRadius: 12,
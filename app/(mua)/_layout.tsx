@@ -0,0 +1,10 @@
+import { Stack } from "expo-router";
+import SessionGuard from "../../components/SessionGuard";
+
+export default function MuaLayout() {
+  return (
+    <SessionGuard group="(mua)">
+      <Stack screenOptions={{ headerShown: false }} />
+    </SessionGuard>
+  );
+}
@@ -18,74 +18,22 @@ import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import * as Clipboard from "expo-clipboard";
 
-// NOTE: sesuaikan path relatif jika utils berada di lokasi lain
-import authStorage from "../../../utils/authStorage";
-
-/* ================== Types ================== */
-type Booking = {
-  id: number;
-  customer_id: string;
-  mua_id: string;
-  offering_id?: number | null;
-  booking_date: string;
-  booking_time: string;
-  service_type: "home_service" | "studio";
-  location_address?: string | null;
-  notes?: string | null;
-
-  invoice_number?: string | null;
-  invoice_date?: string | null;
-  due_date?: string | null;
-  amount?: string | number | null;
-  selected_add_ons?: { name: string; price: number }[] | any[];
-  subtotal?: string | number | null;
-  tax_amount?: string | number | null;
-  discount_amount?: string | number | null;
-  grand_total?: string | number | null;
-  tax?: string | number | null;
-  total?: string | number | null;
-
-  status: "pending" | "confirmed" | "rejected" | "cancelled" | "completed";
-  payment_method?: string | null;
-  payment_status?: "unpaid" | "paid" | "refunded";
-  created_at?: string;
-  updated_at?: string;
-};
-
-type Offering = {
-  id: number;
-  name_offer: string;
-  price?: string | number;
-  makeup_type?: string | null;
-};
-
-type MuaLoc = {
-  id: string;
-  name: string;
-  address?: string;
-};
+import InvoiceSummary from "../../../components/InvoiceSummary";
+import PaymentProofReview from "../../../components/PaymentProofReview";
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, isAbortError, isUnauthorized } from "../../../lib/api";
+import { PAYMENT_STAGE_COLORS, PAYMENT_STAGE_LABELS, paymentStage } from "../../../lib/payments";
+import { formatIDR, reconcileBooking } from "../../../lib/pricing";
+import { muaLocationsQuery } from "../../../lib/queries";
+import { fetchQuery, invalidateQueries } from "../../../lib/query";
+import type { Booking, MuaLocation, Offering } from "../../../lib/types";
 
 /* ================== Consts ================== */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_BOOKING = (id: string | number) => `${API_BASE}/bookings/${id}`;
-const API_OFFERING = (id: string | number) => `${API_BASE}/offerings/${id}`;
-const API_MUA_LOC = `${API_BASE}/mua-location`;
-const API_BOOKING_COMPLETE = (id: string | number) => `${API_BASE}/bookings/${id}/complete`;
-const API_BOOKING_COLLABORATORS = (id: string | number) => `${API_BASE}/bookings/${id}/collaborators`;
-
 const PURPLE = "#AA60C8";
 const MUTED = "#6B7280";
 const BORDER = "#E5E7EB";
 
 /* ================== Helpers ================== */
-const formatIDR = (n: number) =>
-  `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(n))}`;
-
-function safeNum(v: any, fallback = 0) {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
 
 function fmtDate(idt?: string | null) {
   if (!idt) return "-";
@@ -99,45 +47,6 @@ function fmtDate(idt?: string | null) {
   });
 }
 
-type HeaderMap = Record<string, string>;
-
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { Accept: "application/json" };
-    if (token) h.Authorization = `Bearer ${token}`;
-    else console.debug("[booking] no auth token available");
-    return h;
-  } catch (e) {
-    console.warn("getAuthHeaders failed", e);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  const given = (init.headers || {}) as HeaderMap;
-  const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-  const res = await fetch(url, {
-    method: init.method ?? "GET",
-    cache: "no-store",
-    ...init,
-    headers,
-  });
-
-  const ct = res.headers.get("content-type") || "";
-  const text = await res.text();
-  if (!res.ok) {
-    if (res.status === 401) throw new Error("401_UNAUTH");
-    throw new Error(`HTTP ${res.status} (ct=${ct}) — ${text.slice(0, 160)}`);
-  }
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    throw new Error(`Unexpected non-JSON (ct=${ct}) — ${text.slice(0, 160)}`);
-  }
-}
-
 /* ================== Screen ================== */
 export default function BookingInvoiceScreen() {
   const router = useRouter();
@@ -145,13 +54,14 @@ export default function BookingInvoiceScreen() {
 
   const [booking, setBooking] = useState<Booking | null>(null);
   const [offering, setOffering] = useState<Offering | null>(null);
-  const [mua, setMua] = useState<MuaLoc | null>(null);
+  const [mua, setMua] = useState<MuaLocation | null>(null);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false); // <-- indikator update status
+  const signal = useUnmountSignal();
 
   // --- invite modal state ---
   const [inviteModalVisible, setInviteModalVisible] = useState(false);
-  const [muaList, setMuaList] = useState<MuaLoc[]>([]);
+  const [muaList, setMuaList] = useState<MuaLocation[]>([]);
   const [muaLoading, setMuaLoading] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [inviteLoading, setInviteLoading] = useState(false);
@@ -163,42 +73,30 @@ export default function BookingInvoiceScreen() {
     (async () => {
       try {
         setLoading(true);
-        const headers = await getAuthHeaders();
-
         // booking
-        const bJson = await safeFetchJSON<{ data?: Booking } | Booking>(API_BOOKING(id), { headers });
-        const bData: Booking = (bJson as any)?.data ?? (bJson as Booking);
+        const bData = await api.bookings.get(id, { signal: signal() });
         setBooking(bData);
 
         // offering (untuk tampilkan nama jasa, harga awal)
         if (bData?.offering_id) {
-          const oJson = await safeFetchJSON<{ data?: Offering } | Offering>(
-            API_OFFERING(bData.offering_id),
-            { headers }
-          );
-          setOffering((oJson as any)?.data ?? (oJson as Offering));
+          setOffering(await api.offerings.get(bData.offering_id, undefined, { signal: signal() }));
         }
 
         // nama/alamat MUA (ambil list MUA dulu, find yang cocok)
-        const mJson = await safeFetchJSON<{ data?: MuaLoc[] } | MuaLoc[]>(API_MUA_LOC, { headers });
-        const list: MuaLoc[] = (mJson as any)?.data ?? (mJson as MuaLoc[]) ?? [];
+        const list = await fetchQuery(muaLocationsQuery());
         setMuaList(list); // simpan full list (juga dipakai modal)
         const found = list.find((m) => m.id === bData.mua_id) || null;
         setMua(found);
       } catch (e: any) {
-        if (e?.message === "401_UNAUTH") {
-          Alert.alert("Sesi berakhir", "Silakan login kembali.");
-          // gunakan util clearAuthAll agar semua key yang mungkin disimpan dihapus
-          await authStorage.clearAuthAll().catch(() => {});
-          router.replace("/(auth)/login");
-        } else {
+        if (isAbortError(e)) return;
+        if (!isUnauthorized(e)) {
           Alert.alert("Oops", e?.message || "Tidak bisa memuat invoice");
         }
       } finally {
         setLoading(false);
       }
     })();
-  }, [id, router]);
+  }, [id, router, signal]);
 
   // Fetch MUA list on-demand (if modal open and list empty)
   useEffect(() => {
@@ -208,16 +106,9 @@ export default function BookingInvoiceScreen() {
     (async () => {
       try {
         setMuaLoading(true);
-        const headers = await getAuthHeaders();
-        const mJson = await safeFetchJSON<{ data?: MuaLoc[] } | MuaLoc[]>(API_MUA_LOC, { headers });
-        const list: MuaLoc[] = (mJson as any)?.data ?? (mJson as MuaLoc[]) ?? [];
-        setMuaList(list);
+        setMuaList(await fetchQuery(muaLocationsQuery()));
       } catch (e: any) {
-        if (e?.message === "401_UNAUTH") {
-          Alert.alert("Sesi berakhir", "Silakan login kembali.");
-          await authStorage.clearAuthAll().catch(() => {});
-          router.replace("/(auth)/login");
-        } else {
+        if (!isUnauthorized(e)) {
           Alert.alert("Gagal", e?.message || "Tidak bisa memuat daftar MUA.");
         }
       } finally {
@@ -226,54 +117,26 @@ export default function BookingInvoiceScreen() {
     })();
   }, [inviteModalVisible]); // only when open
 
-  // Hitung total (fallback jika backend tidak kirim beberapa field)
-  const computed = useMemo(() => {
-    const amount = safeNum(booking?.amount ?? offering?.price, 0);
-    const subtotal = safeNum(booking?.subtotal ?? amount, amount);
-    const discount = safeNum(booking?.discount_amount, 0);
-
-    let taxAmount = safeNum(booking?.tax_amount, NaN);
-    if (!Number.isFinite(taxAmount)) {
-      const taxPct = safeNum(booking?.tax, 0);
-      taxAmount = (subtotal - discount) * (taxPct / 100);
-    }
-
-    const grand = safeNum(booking?.grand_total, subtotal - discount + taxAmount);
-
-    return { amount, subtotal, discount, taxAmount, grand };
-  }, [booking, offering]);
+  // total server = yang ditagihkan; lib/pricing memberi rincian & memeriksa selisih
+  const pricing = useMemo(() => (booking ? reconcileBooking(booking, offering) : null), [booking, offering]);
 
-  const statusColor = useMemo(() => {
-    const s = (booking?.payment_status || "unpaid").toLowerCase();
-    if (s === "paid") return "#16A34A";
-    if (s === "refunded") return "#0EA5E9";
-    return "#F59E0B";
-  }, [booking]);
+  // status bayar: payment_status + bukti transfer + jatuh tempo (lib/payments)
+  const stage = booking ? paymentStage(booking) : "unpaid";
+  const statusColor = PAYMENT_STAGE_COLORS[stage];
 
   async function markCompleted() {
     try {
       if (!id) return;
       setUpdating(true);
-      const headers = await getAuthHeaders();
 
       // Panggil route: Route::post('bookings/{booking}/complete', ...)
-      const result = await safeFetchJSON<{ data?: Booking } | Booking>(
-        API_BOOKING_COMPLETE(id),
-        {
-          method: "POST",
-          headers,
-        }
-      );
-
-      const updated: Booking = (result as any)?.data ?? (result as Booking);
-      setBooking(updated);
+      const result = await api.bookings.complete(id);
+      invalidateQueries("/bookings");
+      if (result?.data) setBooking(result.data);
+      else setBooking(await api.bookings.get(id));
       Alert.alert("Berhasil", "Status booking ditandai selesai.");
     } catch (e: any) {
-      if (e?.message === "401_UNAUTH") {
-        Alert.alert("Sesi berakhir", "Silakan login kembali.");
-        await authStorage.clearAuthAll().catch(() => {});
-        router.replace("/(auth)/login");
-      } else {
+      if (!isUnauthorized(e)) {
         Alert.alert("Gagal", e?.message || "Tidak bisa mengubah status.");
       }
     } finally {
@@ -331,23 +194,12 @@ export default function BookingInvoiceScreen() {
           onPress: async () => {
             try {
               setInviteLoading(true);
-              const headers = await getAuthHeaders();
-              headers["Content-Type"] = "application/json";
-              const body = JSON.stringify({ profile_ids: selectedIds, role: "assistant" });
-
-              const res = await safeFetchJSON(API_BOOKING_COLLABORATORS(id), {
-                method: "POST",
-                headers,
-                body,
-              });
+              await api.bookings.inviteCollaborators(id, { profile_ids: selectedIds, role: "assistant" });
 
               // backend mungkin mengembalikan booking updated, atau message
               // kita lakukan refetch booking sederhana
               try {
-                const headers2 = await getAuthHeaders();
-                const bJson = await safeFetchJSON<{ data?: Booking } | Booking>(API_BOOKING(id), { headers: headers2 });
-                const bData: Booking = (bJson as any)?.data ?? (bJson as Booking);
-                setBooking(bData);
+                setBooking(await api.bookings.get(id));
               } catch (e) {
                 // ignore refetch failure
               }
@@ -356,11 +208,7 @@ export default function BookingInvoiceScreen() {
               setSelectedIds([]);
               Alert.alert("Sukses", "Undangan berhasil dikirim.");
             } catch (e: any) {
-              if (e?.message === "401_UNAUTH") {
-                Alert.alert("Sesi berakhir", "Silakan login kembali.");
-                await authStorage.clearAuthAll().catch(() => {});
-                router.replace("/(auth)/login");
-              } else {
+              if (!isUnauthorized(e)) {
                 Alert.alert("Gagal", e?.message || "Tidak dapat mengirim undangan.");
               }
             } finally {
@@ -413,9 +261,9 @@ export default function BookingInvoiceScreen() {
       <View style={styles.card}>
         <View style={styles.rowBetween}>
           <View style={[styles.badge, { backgroundColor: `${statusColor}22`, borderColor: statusColor }]}>
-            <Ionicons name="time-outline" size={14} color={statusColor} />
+            <Ionicons name={stage === "paid" ? "checkmark-circle-outline" : "time-outline"} size={14} color={statusColor} />
             <Text style={{ color: statusColor, fontWeight: "700", marginLeft: 6 }}>
-              {(booking.payment_status || "unpaid").toUpperCase()}
+              {PAYMENT_STAGE_LABELS[stage].toUpperCase()}
             </Text>
           </View>
 
@@ -424,7 +272,7 @@ export default function BookingInvoiceScreen() {
             onPress={async () => {
               try {
                 await Share.share({
-                  message: `Invoice ${inv}\n${title}\nTotal ${formatIDR(computed.grand)}`,
+                  message: `Invoice ${inv}\n${title}\nTotal ${formatIDR(pricing?.totals.total ?? 0)}`,
                 });
               } catch {}
             }}
@@ -462,11 +310,7 @@ export default function BookingInvoiceScreen() {
       <View style={styles.card}>
         <Text style={styles.sectionTitle}>Ringkasan Pembayaran</Text>
 
-        <Row label="Subtotal" value={formatIDR(computed.subtotal)} />
-        <Row label="Diskon" value={`- ${formatIDR(computed.discount)}`} />
-        <Row label="Pajak" value={formatIDR(computed.taxAmount)} />
-        <View style={[styles.divider, { marginVertical: 10 }]} />
-        <Row label="Total" value={formatIDR(computed.grand)} bold />
+        {pricing && <InvoiceSummary pricing={pricing} />}
 
         {/* CTA */}
         <View style={{ marginTop: 16, gap: 10 }}>
@@ -526,6 +370,12 @@ export default function BookingInvoiceScreen() {
         </View>
       </View>
 
+      {/* Bukti transfer customer */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Bukti Transfer</Text>
+        <PaymentProofReview booking={booking} onUpdated={setBooking} />
+      </View>
+
       {/* Invite Modal */}
       <Modal
         visible={inviteModalVisible}
@@ -6,36 +6,22 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
 import DateTimePicker from "@react-native-community/datetimepicker";
-
-/* ========= Types ========= */
-type Offering = {
-  id: number;
-  mua_id: string;
-  name_offer: string;
-  offer_pictures?: string[];
-  price?: string | number;
-  makeup_type?: string | null;
-};
-
-type Me = { id?: string; name?: string; profile?: { id?: string; name?: string } };
+import VerifyContactBanner from "../../../components/VerifyContactBanner";
+import { api } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { computePrice, formatIDR } from "../../../lib/pricing";
+import { useMutation } from "../../../lib/query";
+import { isUnverifiedContactError, unverifiedContacts } from "../../../lib/verification";
+import type { BookingCreatePayload, Offering } from "../../../lib/types";
 
 /* ========= Const ========= */
-const API_BASE = "https://smstudio.my.id/api";
-const API_OFFERINGS = `${API_BASE}/offerings`;
-const API_BOOKINGS = `${API_BASE}/bookings`;
-const API_ME = `${API_BASE}/auth/me`;
-
 const PURPLE = "#AA60C8";
 const TEXT_MUTED = "#6B7280";
 const CARD_BG = "#F7F0FF";
 const BORDER = "#E5E7EB";
 
 /* ========= Helpers ========= */
-const formatIDR = (n: number) =>
-  `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(isFinite(n) ? n : 0))}`;
-
 const ymd = (d: Date) =>
   `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
     d.getDate()
@@ -47,11 +33,14 @@ const hm = (d: Date) =>
 /* ========= Screen ========= */
 export default function BookingCreateScreen() {
   const router = useRouter();
+  // sukses → daftar booking di cache ditandai basi
+  const createBooking = useMutation((p: BookingCreatePayload) => api.bookings.create(p), {
+    invalidate: ["/bookings"],
+  });
   const { offeringId } = useLocalSearchParams<{ offeringId?: string }>();
 
   // auth + me
-  const [token, setToken] = useState<string | null>(null);
-  const [customerId, setCustomerId] = useState<string | null>(null);
+  const { profileId: customerId, user } = useAuth();
 
   // offering
   const [item, setItem] = useState<Offering | null>(null);
@@ -71,53 +60,17 @@ export default function BookingCreateScreen() {
   });
   const [showPicker, setShowPicker] = useState<null | "date" | "time">(null);
 
-  // harga
-  const priceNum = useMemo(() => Number(item?.price ?? 0), [item]);
-  const subTotal = useMemo(() => Math.max(1, person) * priceNum, [person, priceNum]);
-  const TAX_PERCENT = 11;
-  const taxAmount = useMemo(() => (subTotal * TAX_PERCENT) / 100, [subTotal]);
-  const grandTotal = useMemo(() => subTotal + taxAmount, [subTotal, taxAmount]);
-
-  // token + me
-  useEffect(() => {
-    (async () => {
-      try {
-        const raw = await SecureStore.getItemAsync("auth");
-        if (raw) {
-          const auth = JSON.parse(raw);
-          if (auth?.token) setToken(auth.token);
-          const id = auth?.user?.id || auth?.profile?.id;
-          if (id) setCustomerId(String(id));
-        }
-      } catch {}
-      try {
-        const res = await fetch(API_ME, {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        });
-        if (res.ok) {
-          const me: Me = await res.json();
-          const id = me?.id || me?.profile?.id;
-          if (id) setCustomerId(String(id));
-        }
-      } catch {}
-    })();
-  }, [token]);
+  // harga (lib/pricing)
+  const price = useMemo(() => computePrice({ unitPrice: Number(item?.price ?? 0), persons: person }), [item, person]);
 
-  // GET offering (pakai token kalau endpoint butuh auth)
+  // GET offering
   useEffect(() => {
     let mounted = true;
     (async () => {
       if (!offeringId) return;
       setLoading(true);
       try {
-        const res = await fetch(`${API_OFFERINGS}/${offeringId}`, {
-          headers: {
-            Accept: "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-        });
-        const json = await res.json();
-        const data: Offering = json?.data ?? json;
+        const data = await api.offerings.get(offeringId);
         if (mounted) setItem(data);
       } catch (e: any) {
         Alert.alert("Gagal", e?.message || "Tidak bisa memuat data offering");
@@ -128,10 +81,22 @@ export default function BookingCreateScreen() {
     return () => {
       mounted = false;
     };
-  }, [offeringId, token]);
+  }, [offeringId]);
+
+  /** Booking baru hanya untuk akun dengan email & nomor HP terverifikasi */
+  function askVerification() {
+    Alert.alert("Verifikasi kontak", "Verifikasi email dan nomor HP Anda sebelum membuat booking.", [
+      { text: "Nanti", style: "cancel" },
+      { text: "Verifikasi", onPress: () => router.push("/(account)/verify") },
+    ]);
+  }
 
   // POST booking
   async function submit() {
+    if (unverifiedContacts(user).length) {
+      askVerification();
+      return;
+    }
     try {
       if (!item) throw new Error("Offering tidak ditemukan");
       if (!customerId) throw new Error("Akun belum dikenali, silakan login ulang");
@@ -139,7 +104,7 @@ export default function BookingCreateScreen() {
         throw new Error("Alamat wajib diisi untuk Home Service.");
       }
 
-      const payload = {
+      const payload: BookingCreatePayload = {
         customer_id: customerId,
         mua_id: item.mua_id,
         offering_id: item.id,
@@ -156,35 +121,16 @@ export default function BookingCreateScreen() {
         invoice_date: ymd(new Date()),
         due_date: ymd(date),
 
-        // pricing
-        amount: subTotal,           // harga x person
-        selected_add_ons: [],
-        discount_amount: 0,
-        tax: TAX_PERCENT,           // persen
-
         // pembayaran manual
         payment_method: "manual",
       };
 
-      const res = await fetch(API_BOOKINGS, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.message || data?.error || "Gagal membuat booking. Pastikan data sudah benar.");
-      }
+      const data = await createBooking.mutate(payload);
 
       Alert.alert(
         "Berhasil",
         `Pesanan dibuat.\nNomor Invoice: ${data?.invoice_number || "-"}\nTotal: ${formatIDR(
-          Number(data?.grand_total ?? grandTotal)
+          Number(data?.grand_total ?? price.total)
         )}`,
         [
           {
@@ -192,12 +138,16 @@ export default function BookingCreateScreen() {
             onPress: () => {
               // arahkan ke halaman invoice/bookings detail
               const id = String(data?.id ?? "");
-              if (id) router.replace({ pathname: "/(user)/bookings/[id]", params: { id } });
+              if (id) router.replace({ pathname: "/(mua)/bookings/[id]", params: { id } });
             },
           },
         ]
       );
     } catch (e: any) {
+      if (isUnverifiedContactError(e)) {
+        askVerification();
+        return;
+      }
       Alert.alert("Gagal", e?.message || "Tidak bisa mengirim booking.");
     }
   }
@@ -239,6 +189,8 @@ export default function BookingCreateScreen() {
           </View>
         </View>
 
+        <VerifyContactBanner style={styles.verifyBanner} />
+
         {/* jumlah orang */}
         <View style={styles.rowBetween}>
           <Text style={styles.formLabel}>Jumlah Orang</Text>
@@ -348,15 +300,15 @@ export default function BookingCreateScreen() {
         <Text style={[styles.sectionTitle, { marginTop: 12 }]}>Ringkasan Pesanan</Text>
         <View style={styles.summaryRow}>
           <Text style={styles.sumLabel}>Harga Jasa</Text>
-          <Text style={styles.sumVal}>{formatIDR(subTotal)}</Text>
+          <Text style={styles.sumVal}>{formatIDR(price.subtotal)}</Text>
         </View>
         <View style={styles.summaryRow}>
-          <Text style={styles.sumLabel}>Pajak</Text>
-          <Text style={styles.sumVal}>{formatIDR(taxAmount)}</Text>
+          <Text style={styles.sumLabel}>{`Pajak (${price.taxPercent}%)`}</Text>
+          <Text style={styles.sumVal}>{formatIDR(price.tax)}</Text>
         </View>
         <View style={[styles.summaryRow, { marginTop: 4 }]}>
           <Text style={[styles.sumLabel, { fontWeight: "800" }]}>Total</Text>
-          <Text style={[styles.sumVal, { fontWeight: "800" }]}>{formatIDR(grandTotal)}</Text>
+          <Text style={[styles.sumVal, { fontWeight: "800" }]}>{formatIDR(price.total)}</Text>
         </View>
       </ScrollView>
 
@@ -382,6 +334,7 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
 
+  verifyBanner: { marginHorizontal: 16, marginTop: 12 },
   card: {
     marginHorizontal: 16,
     marginTop: 12,
@@ -11,12 +11,13 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import authStorage from "../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, isAbortError, isUnauthorized } from "../../../lib/api";
+import { queueNotificationDelete, queueNotificationRead } from "../../../lib/outbox";
+import type { Notification as Notif } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-const API = "https://smstudio.my.id/api";
-const API_SHOW = (id: string|number)=> `${API}/notifications/${id}`;
-const API_READ = (id: string|number)=> `${API}/notifications/${id}/read`;
-const API_DEL = (id: string|number)=> `${API}/notifications/${id}`;
+const log = createLogger("NOTIF");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
@@ -24,34 +25,8 @@ const MUTED = "#6B7280";
 const TEXT = "#111827";
 const CARD_BG = "#F7F2FA";
 
-type Notif = {
-  id: string|number;
-  user_id: string;
-  title: string;
-  message: string;
-  type: "booking"|"system"|"payment"|string;
-  is_read: boolean;
-  created_at?: string;
-  [k: string]: any;
-};
-
 /* ---------------- helpers ---------------- */
-async function getAuthHeaders() {
-  try {
-    const token = await authStorage.getAuthToken();
-    const headers: Record<string, string> = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    return headers;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-const fmtTime = (iso?: string)=> {
+const fmtTime = (iso?: string | null)=> {
   if(!iso) return "-";
   const d = new Date(iso);
   if(!Number.isFinite(+d)) return iso;
@@ -65,51 +40,6 @@ const fmtTime = (iso?: string)=> {
   });
 };
 
-/** Safe fetch dengan debug info */
-async function fetchJSON(url: string, options: RequestInit = {}) {
-  const headers = await getAuthHeaders();
-  const fullOptions = {
-    ...options,
-    headers: {
-      ...headers,
-      ...(options.headers || {}),
-    },
-  };
-
-  console.log(`[fetchJSON] ${options.method || 'GET'} ${url}`, {
-    headers: fullOptions.headers,
-    body: fullOptions.body
-  });
-
-  const res = await fetch(url, fullOptions);
-  const text = await res.text();
-
-  console.log(`[fetchJSON] Response ${res.status}:`, text.substring(0, 200));
-
-  // Handle unauthorized
-  if (res.status === 401) {
-    await authStorage.clearAuthAll();
-    throw new Error("Sesi berakhir. Silakan login kembali.");
-  }
-
-  if (!res.ok) {
-    let errorMsg = `HTTP ${res.status}`;
-    try {
-      const json = JSON.parse(text);
-      errorMsg = json?.message || json?.error || errorMsg;
-    } catch {
-      errorMsg = text.substring(0, 100) || errorMsg;
-    }
-    throw new Error(errorMsg);
-  }
-
-  try {
-    return JSON.parse(text);
-  } catch {
-    throw new Error("Invalid JSON response");
-  }
-}
-
 /* ---------------- component ---------------- */
 export default function NotifDetail(){
   const router = useRouter();
@@ -118,6 +48,7 @@ export default function NotifDetail(){
   const [item, setItem] = useState<Notif|null>(null);
   const [loading, setLoading] = useState(true);
   const [working, setWorking] = useState(false);
+  const signal = useUnmountSignal();
 
   const loadNotification = async () => {
     if (!id) {
@@ -128,25 +59,22 @@ export default function NotifDetail(){
 
     try {
       setLoading(true);
-      const json = await fetchJSON(API_SHOW(id));
-      const data: Notif = (json?.data ?? json) as Notif;
+      const data = await api.notifications.get(id, { signal: signal() });
       setItem(data);
 
       // auto mark read jika belum
       if(data && !data.is_read){
+        setItem(prev => prev ? { ...prev, is_read: true } : prev);
         try {
-          await fetchJSON(API_READ(id), { 
-            method: "PATCH",
-            body: JSON.stringify({ is_read: true })
-          });
-          setItem(prev => prev ? { ...prev, is_read: true } : prev);
+          await queueNotificationRead(id, true);
         } catch (readError) {
-          console.warn("[NotifDetail] Auto mark read failed:", readError);
+          log.warn("[NotifDetail] Auto mark read failed:", readError);
         }
       }
     } catch (e: any) {
-      console.error("[NotifDetail] Load error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+      if (isAbortError(e)) return;
+      log.error("[NotifDetail] Load error:", e);
+      if (!isUnauthorized(e)) {
         Alert.alert("Oops", e?.message || "Gagal memuat notifikasi");
       }
       setItem(null);
@@ -178,13 +106,13 @@ export default function NotifDetail(){
           onPress: async () => {
             try {
               setWorking(true);
-              await fetchJSON(API_DEL(id), { method: "DELETE" });
-              Alert.alert("Berhasil", "Notifikasi dihapus", [
+              const res = await queueNotificationDelete(id);
+              Alert.alert("Berhasil", res.queued ? "Notifikasi akan dihapus saat koneksi kembali" : "Notifikasi dihapus", [
                 { text: "OK", onPress: () => router.back() }
               ]);
             } catch (e: any) {
-              console.error("[NotifDetail] Delete error:", e);
-              if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+              log.error("[NotifDetail] Delete error:", e);
+              if (!isUnauthorized(e)) {
                 Alert.alert("Oops", e?.message || "Gagal menghapus");
               }
             } finally { 
@@ -199,17 +127,15 @@ export default function NotifDetail(){
   const onToggleRead = async () => {
     if (!item) return;
     
+    const newReadStatus = !item.is_read;
+    setItem(prev => prev ? { ...prev, is_read: newReadStatus } : prev);
     try {
       setWorking(true);
-      const newReadStatus = !item.is_read;
-      await fetchJSON(API_READ(item.id), { 
-        method: "PATCH",
-        body: JSON.stringify({ is_read: newReadStatus })
-      });
-      setItem(prev => prev ? { ...prev, is_read: newReadStatus } : prev);
+      await queueNotificationRead(item.id, newReadStatus);
     } catch (e: any) {
-      console.error("[NotifDetail] Toggle read error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+      log.error("[NotifDetail] Toggle read error:", e);
+      setItem(prev => prev ? { ...prev, is_read: !newReadStatus } : prev);
+      if (!isUnauthorized(e)) {
         Alert.alert("Oops", e?.message || "Gagal mengubah status");
       }
     } finally {
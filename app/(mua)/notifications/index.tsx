@@ -13,44 +13,31 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import authStorage from "../../../utils/authStorage";
-
-/* ---------------- types ---------------- */
-type Notif = {
-  id: string | number;
-  user_id?: string | number;
-  title?: string | null;
-  message?: string | null;
-  type?: string | null;
-  is_read?: boolean | null;
-  created_at?: string | null;
-  [k: string]: any;
-};
+import OutboxStatus from "../../../components/OutboxStatus";
+import { api } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import {
+  queueNotificationDelete,
+  queueNotificationRead,
+  useOutboxFailed,
+  type OutboxKind,
+} from "../../../lib/outbox";
+import { useInfiniteList } from "../../../lib/pagination";
+import type { Booking, Notification as Notif } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("NOTIF");
 
 /* ---------------- constants ---------------- */
-const API_BASE = "https://smstudio.my.id/api";
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const MUTED = "#6B7280";
 const TEXT = "#111827";
 const CARD_BG = "#F7F2FA";
+const PAGE_SIZE = 20;
+const OUTBOX_KINDS: OutboxKind[] = ["notification.read", "notification.delete"];
 
 /* ---------------- helpers ---------------- */
-async function getAuthHeaders() {
-  try {
-    const token = await authStorage.getAuthToken();
-    const headers: Record<string, string> = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    return headers;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
 const fmtTime = (iso?: string | null) => {
   if (!iso) return "-";
   const d = new Date(iso);
@@ -66,7 +53,7 @@ const fmtTime = (iso?: string | null) => {
 
 function extractBookingIdFromMessage(message?: string | null): string | null {
   const m = String(message ?? "");
-  console.log("[extractBookingId] Analyzing message:", m);
+  log.debug("[extractBookingId] Analyzing message, length:", m.length);
   
   // Debug: Tampilkan semua pattern yang mungkin
   const patterns = [
@@ -78,11 +65,11 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
     { name: "long-number", pattern: /(\d{6,})/ },
   ];
   
-  console.log("[extractBookingId] Pattern analysis:");
+  log.debug("[extractBookingId] Pattern analysis:");
   for (const { name, pattern } of patterns) {
     const match = m.match(pattern);
     if (match) {
-      console.log(`[extractBookingId] ✓ ${name}:`, match[1] || match[0]);
+      log.debug(`[extractBookingId] ✓ ${name}:`, match[1] || match[0]);
     }
   }
   
@@ -90,7 +77,7 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const fullInvPattern = /(INV-[A-Z0-9-]+)/i;
   const fullInvMatch = m.match(fullInvPattern);
   if (fullInvMatch && fullInvMatch[1]) {
-    console.log("[extractBookingId] Using full INV code:", fullInvMatch[1]);
+    log.debug("[extractBookingId] Using full INV code:", fullInvMatch[1]);
     return fullInvMatch[1];
   }
   
@@ -98,7 +85,7 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const invCodePattern = /INV-(\d{8}-[A-Z0-9]+)/i;
   const invCodeMatch = m.match(invCodePattern);
   if (invCodeMatch && invCodeMatch[1]) {
-    console.log("[extractBookingId] Using INV code without prefix:", invCodeMatch[1]);
+    log.debug("[extractBookingId] Using INV code without prefix:", invCodeMatch[1]);
     return invCodeMatch[1];
   }
   
@@ -106,7 +93,7 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const dateCodePattern = /(\d{8}-[A-Z0-9]+)/;
   const dateCodeMatch = m.match(dateCodePattern);
   if (dateCodeMatch && dateCodeMatch[1]) {
-    console.log("[extractBookingId] Using date-code:", dateCodeMatch[1]);
+    log.debug("[extractBookingId] Using date-code:", dateCodeMatch[1]);
     return dateCodeMatch[1];
   }
   
@@ -114,7 +101,7 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const uuidPattern = /([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})/;
   const uuidMatch = m.match(uuidPattern);
   if (uuidMatch && uuidMatch[1]) {
-    console.log("[extractBookingId] Using UUID:", uuidMatch[1]);
+    log.debug("[extractBookingId] Using UUID:", uuidMatch[1]);
     return uuidMatch[1];
   }
   
@@ -122,7 +109,7 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const hashPattern = /#\s*(\d+)/;
   const hashMatch = m.match(hashPattern);
   if (hashMatch && hashMatch[1]) {
-    console.log("[extractBookingId] Using hash pattern:", hashMatch[1]);
+    log.debug("[extractBookingId] Using hash pattern:", hashMatch[1]);
     return hashMatch[1];
   }
   
@@ -130,80 +117,33 @@ function extractBookingIdFromMessage(message?: string | null): string | null {
   const longNumberPattern = /(\d{6,})/;
   const longNumberMatch = m.match(longNumberPattern);
   if (longNumberMatch && longNumberMatch[1]) {
-    console.log("[extractBookingId] Using long number:", longNumberMatch[1]);
+    log.debug("[extractBookingId] Using long number:", longNumberMatch[1]);
     return longNumberMatch[1];
   }
   
-  console.warn("[extractBookingId] No valid booking ID found in message:", m);
+  log.warn("[extractBookingId] No valid booking ID found in message");
   return null;
 }
 
-/** Safe fetch dengan debug info */
-async function fetchJSON(url: string, options: RequestInit = {}) {
-  const headers = await getAuthHeaders();
-  const fullOptions = {
-    ...options,
-    headers: {
-      ...headers,
-      ...(options.headers || {}),
-    },
-  };
-
-  console.log(`[fetchJSON] ${options.method || 'GET'} ${url}`, {
-    headers: fullOptions.headers,
-    body: fullOptions.body
-  });
-
-  const res = await fetch(url, fullOptions);
-  const text = await res.text();
-
-  console.log(`[fetchJSON] Response ${res.status}:`, text.substring(0, 200));
-
-  // Handle unauthorized
-  if (res.status === 401) {
-    await authStorage.clearAuthAll();
-    throw new Error("Sesi berakhir. Silakan login kembali.");
-  }
-
-  if (!res.ok) {
-    let errorMsg = `HTTP ${res.status}`;
-    try {
-      const json = JSON.parse(text);
-      errorMsg = json?.message || json?.error || errorMsg;
-    } catch {
-      errorMsg = text.substring(0, 100) || errorMsg;
-    }
-    throw new Error(errorMsg);
-  }
-
-  try {
-    return JSON.parse(text);
-  } catch {
-    throw new Error("Invalid JSON response");
-  }
-}
-
 /* ---------------- component ---------------- */
 export default function NotificationsScreen() {
   const router = useRouter();
-  const [items, setItems] = useState<Notif[]>([]);
-  const [page, setPage] = useState<number>(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [busy, setBusy] = useState(false);
+  const { profileId } = useAuth();
+  const list = useInfiniteList<Notif>({
+    fetchPage: (p, signal) => api.notifications.list({ page: p, per_page: PAGE_SIZE }, { signal }),
+    perPage: PAGE_SIZE,
+  });
+  const { items, setItems, loading, refreshing, loadingMore, refresh } = list;
   const [unreadCount, setUnreadCount] = useState<number>(0);
 
   const fetchUnreadCount = useCallback(async () => {
     try {
-      const json = await fetchJSON(`${API_BASE}/notifications/unread-count`);
-      const count = json?.count ?? json?.data?.count ?? json?.unread ?? 0;
-      setUnreadCount(Number(count) || 0);
+      setUnreadCount(await api.notifications.unreadCount());
     } catch (e: any) {
-      console.warn("[fetchUnreadCount] Error:", e);
+      log.warn("[fetchUnreadCount] Error:", e);
       // Jika endpoint tidak ada, set ke 0 (bukan error fatal)
       if (e.message.includes("404") || e.message.includes("No query results")) {
-        console.log("[fetchUnreadCount] Endpoint not available, setting to 0");
+        log.debug("[fetchUnreadCount] Endpoint not available, setting to 0");
         setUnreadCount(0);
       } else {
         setUnreadCount(0);
@@ -211,85 +151,29 @@ export default function NotificationsScreen() {
     }
   }, []);
 
-  const fetchPage = useCallback(async (p = 1) => {
-    const url = `${API_BASE}/notifications?page=${p}`;
-    const json = await fetchJSON(url);
-    
-    const list = Array.isArray(json?.data) ? json.data : Array.isArray(json) ? json : [];
-    const lastPage = Number(json?.last_page ?? json?.meta?.last_page ?? 1) || 1;
-    
-    return { list: list as Notif[], lastPage };
-  }, []);
-
-  // Initial load
   useEffect(() => {
-    let alive = true;
-    
-    (async () => {
-      setLoading(true);
-      try {
-        const { list, lastPage } = await fetchPage(1);
-        if (!alive) return;
-        
-        setItems(list);
-        setPage(1);
-        setHasMore(1 < lastPage);
-        await fetchUnreadCount();
-      } catch (e: any) {
-        if (!alive) return;
-        console.error("[NotificationsScreen] Initial load error:", e);
-        setItems([]);
-        setHasMore(false);
-      } finally {
-        if (alive) setLoading(false);
-      }
-    })();
-    
-    return () => { alive = false; };
-  }, [fetchPage, fetchUnreadCount]);
+    fetchUnreadCount();
+  }, [fetchUnreadCount]);
 
   const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    try {
-      const { list, lastPage } = await fetchPage(1);
-      setItems(list);
-      setPage(1);
-      setHasMore(1 < lastPage);
-      await fetchUnreadCount();
-    } catch (e: any) {
-      console.error("[NotificationsScreen] Refresh error:", e);
-    } finally {
-      setRefreshing(false);
-    }
-  }, [fetchPage, fetchUnreadCount]);
+    await refresh();
+    await fetchUnreadCount();
+  }, [refresh, fetchUnreadCount]);
 
-  const loadMore = useCallback(async () => {
-    if (loading || busy || !hasMore) return;
-    
-    setBusy(true);
-    try {
-      const next = page + 1;
-      const { list, lastPage } = await fetchPage(next);
-      setItems((prev) => [...prev, ...list]);
-      setPage(next);
-      setHasMore(next < lastPage);
-    } catch (e: any) {
-      console.error("[NotificationsScreen] Load more error:", e);
-    } finally {
-      setBusy(false);
-    }
-  }, [page, fetchPage, hasMore, loading, busy]);
+  // aksi offline yang akhirnya gagal → ambil ulang daftar dari server
+  useOutboxFailed(OUTBOX_KINDS, () => {
+    onRefresh();
+  });
 
+  // optimistis: UI diubah dulu, request lewat outbox
   const markRead = useCallback(async (id: string | number, read = true) => {
+    setItems((prev) => prev.map((n) => n.id === id ? { ...n, is_read: read } : n));
     try {
-      await fetchJSON(`${API_BASE}/notifications/${id}/read`, {
-        method: "PATCH",
-        body: JSON.stringify({ is_read: read }),
-      });
-      setItems((prev) => prev.map((n) => n.id === id ? { ...n, is_read: read } : n));
-      fetchUnreadCount();
+      const res = await queueNotificationRead(id, read);
+      if (!res.queued) fetchUnreadCount();
     } catch (e: any) {
-      console.warn("[markRead] Error:", e);
+      log.warn("[markRead] Error:", e);
+      setItems((prev) => prev.map((n) => n.id === id ? { ...n, is_read: !read } : n));
     }
   }, [fetchUnreadCount]);
 
@@ -303,19 +187,20 @@ export default function NotificationsScreen() {
           text: "Hapus",
           style: "destructive",
           onPress: async () => {
+            setItems((prev) => prev.filter((n) => n.id !== id));
             try {
-              await fetchJSON(`${API_BASE}/notifications/${id}`, { method: "DELETE" });
-              setItems((prev) => prev.filter((n) => n.id !== id));
-              fetchUnreadCount();
+              const res = await queueNotificationDelete(id);
+              if (!res.queued) fetchUnreadCount();
             } catch (e: any) {
-              console.warn("[deleteOne] Error:", e);
+              log.warn("[deleteOne] Error:", e);
               Alert.alert("Error", "Gagal menghapus notifikasi");
+              onRefresh();
             }
           },
         },
       ]
     );
-  }, [fetchUnreadCount]);
+  }, [fetchUnreadCount, onRefresh]);
 
   const markAllRead = useCallback(async () => {
     Alert.alert(
@@ -327,12 +212,12 @@ export default function NotificationsScreen() {
           text: "Tandai Semua",
           onPress: async () => {
             try {
-              await fetchJSON(`${API_BASE}/notifications/read-all`, { method: "PATCH" });
+              await api.notifications.markAllAsRead();
               setItems((prev) => prev.map((n) => ({ ...n, is_read: true })));
               fetchUnreadCount();
               Alert.alert("Berhasil", "Semua notifikasi telah ditandai sebagai dibaca");
             } catch (e: any) {
-              console.warn("[markAllRead] Error:", e);
+              log.warn("[markAllRead] Error:", e);
               Alert.alert("Error", "Gagal menandai semua notifikasi");
             }
           },
@@ -352,12 +237,12 @@ export default function NotificationsScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              await fetchJSON(`${API_BASE}/notifications/clear-read`, { method: "POST" });
+              await api.notifications.clearRead();
               setItems((prev) => prev.filter((n) => !n.is_read));
               fetchUnreadCount();
               Alert.alert("Berhasil", "Notifikasi yang sudah dibaca telah dihapus");
             } catch (e: any) {
-              console.warn("[clearRead] Error:", e);
+              log.warn("[clearRead] Error:", e);
               Alert.alert("Error", "Gagal membersihkan notifikasi");
             }
           },
@@ -369,13 +254,13 @@ export default function NotificationsScreen() {
 
   function extractInvoiceNumberFromMessage(message?: string | null): string | null {
     const m = String(message ?? "");
-    console.log("[extractInvoiceNumber] Analyzing message:", m);
+    log.debug("[extractInvoiceNumber] Analyzing message, length:", m.length);
     
     // Priority 1: Cari full INV code (INV-20251014-8NZW)
     const fullInvPattern = /(INV-\d{8}-[A-Z0-9]+)/i;
     const fullInvMatch = m.match(fullInvPattern);
     if (fullInvMatch && fullInvMatch[1]) {
-      console.log("[extractInvoiceNumber] Found full INV code:", fullInvMatch[1]);
+      log.debug("[extractInvoiceNumber] Found full INV code:", fullInvMatch[1]);
       return fullInvMatch[1];
     }
     
@@ -389,26 +274,24 @@ export default function NotificationsScreen() {
     for (const pattern of invoicePatterns) {
       const match = m.match(pattern);
       if (match && match[1]) {
-        console.log("[extractInvoiceNumber] Found invoice pattern:", match[1]);
+        log.debug("[extractInvoiceNumber] Found invoice pattern:", match[1]);
         return match[1];
       }
     }
     
-    console.warn("[extractInvoiceNumber] No invoice number found in message:", m);
+    log.warn("[extractInvoiceNumber] No invoice number found in message");
     return null;
   }
 
   // FIXED: respondInvite function dengan multiple ID format attempts
   // FIXED: respondInvite dengan pencarian ID numeric booking
 const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decline") => {
-  console.log("[respondInvite] Starting with action:", action);
-  console.log("[respondInvite] Notification data:", notif);
+  log.debug("[respondInvite] Starting with action:", action);
+  log.debug("[respondInvite] Notification:", notif.id);
   
   try {
-    // 1. Dapatkan auth data
-    const authData = await authStorage.getAuthData();
-    
-    if (!authData?.token || !authData?.user?.id) {
+    // 1. Pastikan sesi MUA aktif
+    if (!profileId) {
       Alert.alert("Error", "Token tidak ditemukan. Silakan login ulang.");
       return;
     }
@@ -417,7 +300,7 @@ const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decli
 
     // 2. Extract invoice number dari message
     const invoiceNumber = extractInvoiceNumberFromMessage(notif.message);
-    console.log("[respondInvite] Extracted invoice number:", invoiceNumber);
+    log.debug("[respondInvite] Extracted invoice number:", invoiceNumber);
 
     if (!invoiceNumber) {
       Alert.alert("Error", "Tidak dapat menemukan invoice number dari notifikasi.");
@@ -425,65 +308,58 @@ const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decli
     }
 
     // 3. Cari booking ID numeric berdasarkan invoice number
-    console.log("[respondInvite] Searching for booking ID by invoice number...");
+    log.debug("[respondInvite] Searching for booking ID by invoice number...");
     let numericBookingId: number | null = null;
     
     try {
       // Dapatkan semua bookings untuk mencari yang sesuai
-      const bookingsResponse = await fetchJSON(`${API_BASE}/bookings`);
-      const bookings = Array.isArray(bookingsResponse?.data) ? bookingsResponse.data : 
-                      Array.isArray(bookingsResponse) ? bookingsResponse : [];
+      const { data: bookings } = await api.bookings.list();
       
-      console.log("[respondInvite] Available bookings count:", bookings.length);
+      log.debug("[respondInvite] Available bookings count:", bookings.length);
       
       // Cari booking yang invoice_number-nya sesuai
-      const matchingBooking = bookings.find((booking: any) => 
+      const matchingBooking = bookings.find((booking: Booking) => 
         booking.invoice_number === invoiceNumber
       );
       
       if (matchingBooking) {
         numericBookingId = matchingBooking.id;
-        console.log("[respondInvite] Found booking ID:", numericBookingId, "for invoice:", invoiceNumber);
+        log.debug("[respondInvite] Found booking ID:", numericBookingId, "for invoice:", invoiceNumber);
       } else {
-        console.warn("[respondInvite] No booking found for invoice:", invoiceNumber);
+        log.warn("[respondInvite] No booking found for invoice:", invoiceNumber);
         
         // Fallback: cari berdasarkan partial match
-        const partialMatch = bookings.find((booking: any) => 
+        const partialMatch = bookings.find((booking: Booking) => 
           booking.invoice_number && booking.invoice_number.includes(invoiceNumber.replace(/^INV-/, ''))
         );
         
         if (partialMatch) {
           numericBookingId = partialMatch.id;
-          console.log("[respondInvite] Found partial match booking ID:", numericBookingId);
+          log.debug("[respondInvite] Found partial match booking ID:", numericBookingId);
         }
       }
     } catch (bookingsError) {
-      console.error("[respondInvite] Bookings search failed:", bookingsError);
+      log.error("[respondInvite] Bookings search failed:", bookingsError);
     }
 
     // 4. Jika tidak ditemukan, coba collaborations endpoint
     if (!numericBookingId) {
-      console.log("[respondInvite] Trying collaborations endpoint...");
+      log.debug("[respondInvite] Trying collaborations endpoint...");
       try {
-        const collaborationsResponse = await fetchJSON(`${API_BASE}/mua/collaborations`);
-        const collaborations = Array.isArray(collaborationsResponse?.data) ? collaborationsResponse.data : 
-                             Array.isArray(collaborationsResponse) ? collaborationsResponse : [];
-        
+        const collaborations = await api.mua.collaborations();
+
         // Cari collaboration yang pending untuk notifikasi ini
-        const pendingCollaboration = collaborations.find((collab: any) => 
+        const pendingCollaboration = collaborations.find((collab) => 
           collab.status === 'invited' && collab.notification_id === notif.id
         );
         
         if (pendingCollaboration) {
-          console.log("[respondInvite] Found pending collaboration:", pendingCollaboration);
+          log.debug("[respondInvite] Found pending collaboration:", pendingCollaboration);
           
           // Update langsung di collaborations
-          const updateResponse = await fetchJSON(`${API_BASE}/mua/collaborations/${pendingCollaboration.id}`, {
-            method: "PATCH",
-            body: JSON.stringify({ status: status })
-          });
+          const updateResponse = await api.mua.updateCollaboration(pendingCollaboration.id, { status });
           
-          console.log("[respondInvite] Collaboration update success:", updateResponse);
+          log.debug("[respondInvite] Collaboration update success:", updateResponse);
           
           await markRead(notif.id, true);
           setItems(prev => prev.filter(item => item.id !== notif.id));
@@ -495,7 +371,7 @@ const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decli
           return;
         }
       } catch (collabError) {
-        console.warn("[respondInvite] Collaborations approach failed:", collabError);
+        log.warn("[respondInvite] Collaborations approach failed:", collabError);
       }
       
       // Jika masih tidak ditemukan, beri error
@@ -507,18 +383,15 @@ const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decli
     }
 
     // 5. Gunakan numeric booking ID untuk respond
-    console.log("[respondInvite] Using numeric booking ID:", numericBookingId);
+    log.debug("[respondInvite] Using numeric booking ID:", numericBookingId);
     
-    const response = await fetchJSON(`${API_BASE}/bookings/${numericBookingId}/collaborators/respond`, {
-      method: "POST",
-      body: JSON.stringify({ 
-        status: status,
-        notification_id: notif.id,
-        user_id: authData.user.id
-      }),
+    const response = await api.bookings.respondToInvite(numericBookingId, {
+      status,
+      notification_id: notif.id,
+      user_id: profileId,
     });
 
-    console.log("[respondInvite] Success:", response);
+    log.debug("[respondInvite] Success:", response);
 
     await markRead(notif.id, true);
     setItems(prev => prev.filter(item => item.id !== notif.id));
@@ -529,7 +402,7 @@ const respondInvite = useCallback(async (notif: Notif, action: "accept" | "decli
     );
 
   } catch (error: any) {
-    console.error("[respondInvite] Error:", error);
+    log.error("[respondInvite] Error:", error);
     
     let errorMessage = "Terjadi kesalahan saat memproses undangan";
     
@@ -550,7 +423,7 @@ Silakan hubungi administrator.
     
     Alert.alert("Gagal", errorMessage);
   }
-}, [markRead, fetchUnreadCount]);
+}, [markRead, fetchUnreadCount, profileId]);
 
   // Invite Card Component
   const InviteCard = useCallback(
@@ -622,7 +495,7 @@ Silakan hubungi administrator.
       const m = String(item.message ?? "");
       const isInvite = item.type === "booking_invite" || /mengundang|undang|kolaborasi|collaborat/i.test(m.toLowerCase());
       
-      console.log("[renderItem] Notification type:", item.type, "isInvite:", isInvite);
+      log.debug("[renderItem] Notification type:", item.type, "isInvite:", isInvite);
 
       if (isInvite) {
         return (
@@ -704,9 +577,10 @@ Silakan hubungi administrator.
         </View>
       )}
 
+      <OutboxStatus kinds={OUTBOX_KINDS} style={styles.outbox} />
+
       <FlatList
-        data={items}
-        keyExtractor={(it) => String(it.id)}
+        {...list.listProps}
         refreshControl={
           <RefreshControl 
             refreshing={refreshing} 
@@ -721,10 +595,8 @@ Silakan hubungi administrator.
         ]}
         ItemSeparatorComponent={() => <View style={styles.separator} />}
         renderItem={renderItem}
-        onEndReachedThreshold={0.3}
-        onEndReached={loadMore}
         ListFooterComponent={
-          busy ? (
+          loadingMore ? (
             <View style={styles.footerLoader}>
               <ActivityIndicator color={PURPLE} />
               <Text style={styles.footerText}>Memuat lebih banyak...</Text>
@@ -746,6 +618,7 @@ Silakan hubungi administrator.
 }
 
 const styles = StyleSheet.create({
+  outbox: { marginHorizontal: 16, marginBottom: 10 },
   screen: { 
     flex: 1, 
     backgroundColor: "#fff", 
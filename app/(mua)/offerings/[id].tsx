@@ -7,34 +7,18 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
-// CHANGED: gunakan authStorage helper (sesuaikan path jika perlu)
-import authStorage from "../../../utils/authStorage";
-
-const API = "https://smstudio.my.id/api";
-const BASE = API.replace(/\/api$/,""); // untuk prefix /storage/...
+import { useUnmountSignal } from "../../../lib/abort";
+import { offeringAddOns } from "../../../lib/addOns";
+import { api, assetUrl, isAbortError, isUnauthorized } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { invalidateQueries } from "../../../lib/query";
+import type { Offering } from "../../../lib/types";
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const TEXT = "#111827";
 const MUTED = "#6B7280";
 const CARD_BG = "#F7F2FA";
 
-type Offering = {
-  id: number;
-  mua_id: string;
-  name_offer: string;
-  offer_pictures?: string[] | null;
-  makeup_type?: string | null;
-  person?: number | null;
-  collaboration?: string | null;
-  collaboration_price?: string | number | null;
-  add_ons?: string[] | null;
-  date?: string | null;
-  price?: string | number | null;
-  created_at?: string | null;
-  updated_at?: string | null;
-};
-
 const formatIDR = (n?: number | string | null) => {
   const num = Number(n ?? 0);
   return `IDR ${new Intl.NumberFormat("id-ID").format(Number.isFinite(num) ? Math.round(num) : 0)}`;
@@ -53,79 +37,25 @@ function useOfferingId() {
   return Array.isArray(raw) ? raw[0] : raw;
 }
 
-function absolutize(u: string) {
-  if (!u) return u;
-  if (u.startsWith("http://") || u.startsWith("https://")) return u;
-  if (u.startsWith("/storage/")) return `${BASE}${u}`;
-  return u;
-}
-
 export default function MuaOfferingDetail() {
   const router = useRouter();
   const id = useOfferingId();
   const { width } = useWindowDimensions();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
+  // sesi dijamin SessionGuard (mua); tunggu status signedIn sebelum fetch
+  const { status: authStatus } = useAuth();
+  const signedIn = authStatus === "signedIn";
   const [item, setItem] = useState<Offering | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const signal = useUnmountSignal();
 
   // slider state
   const picturesRaw = useMemo(() => item?.offer_pictures ?? [], [item]);
-  const pictures = useMemo(() => (picturesRaw || []).map(absolutize).filter(Boolean), [picturesRaw]);
+  const pictures = useMemo(() => (picturesRaw || []).map((u) => assetUrl(u)).filter((u): u is string => !!u), [picturesRaw]);
   const [slide, setSlide] = useState(0);
 
-  // Robust token load: try authStorage, then fallback to legacy SecureStore 'auth' object
-  useEffect(() => {
-    (async () => {
-      try {
-        // 1) primary: authStorage.getAuthToken()
-        const t1 = await authStorage.getAuthToken().catch(() => null);
-        if (t1) {
-          console.log("[OfferingDetail] token from authStorage");
-          setToken(t1);
-          setTokenReady(true);
-          return;
-        }
-
-        // 2) fallback: legacy "auth" object in SecureStore
-        try {
-          const raw = await SecureStore.getItemAsync("auth");
-          if (raw) {
-            try {
-              const parsed = JSON.parse(raw);
-              const candidate = parsed?.token ?? parsed?.access_token ?? parsed?.data?.token ?? null;
-              if (candidate) {
-                console.log("[OfferingDetail] token from SecureStore 'auth' object");
-                setToken(candidate);
-                setTokenReady(true);
-                return;
-              } else {
-                console.warn("[OfferingDetail] SecureStore auth found but no token property");
-              }
-            } catch (err) {
-              console.warn("[OfferingDetail] failed parse SecureStore auth", err);
-            }
-          } else {
-            console.warn("[OfferingDetail] SecureStore 'auth' empty");
-          }
-        } catch (err) {
-          console.warn("[OfferingDetail] error reading SecureStore 'auth'", err);
-        }
-
-        // 3) nothing found — still mark tokenReady so fetchDetail won't hang forever
-        console.warn("[OfferingDetail] no token found (authStorage + SecureStore empty)");
-        setToken(null);
-        setTokenReady(true);
-      } catch (err) {
-        console.warn("[OfferingDetail] token load error:", err);
-        setTokenReady(true);
-      }
-    })();
-  }, []);
-
   const fetchDetail = useCallback(async () => {
     if (!id) {
       setItem(null);
@@ -133,65 +63,30 @@ export default function MuaOfferingDetail() {
       return;
     }
 
-    // If token not ready yet, wait
-    if (!tokenReady) return;
-
-    // if no token after trying all fallbacks -> ask login (don't auto redirect before showing message)
-    if (!token) {
-      setLoading(false);
-      Alert.alert("Perlu Login", "Silakan login untuk melihat detail offering.", [
-        { text: "Batal", style: "cancel" },
-        { text: "Login", onPress: () => router.push("/(auth)/login") },
-      ]);
-      return;
-    }
+    if (!signedIn) return;
 
     setLoading(true);
     try {
-      const res = await fetch(`${API}/offerings/${encodeURIComponent(id)}`, {
-        headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-      });
-
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        console.warn("GET /offerings/:id failed", res.status, txt);
-        if (res.status === 401) {
-          // clear auth to avoid loop, then navigate to login
-          try {
-            await authStorage.clearAuthAll().catch(()=>{});
-          } catch {}
-          throw new Error("Sesi berakhir atau belum login.");
-        }
-        throw new Error(`Gagal memuat (status ${res.status})`);
-      }
-
-      const json = await res.json().catch(() => ({}));
-      const data: Offering | null =
-        (json && typeof json === "object" && "data" in json ? (json.data as Offering) : (json as Offering)) || null;
+      const data = await api.offerings.get(id, undefined, { signal: signal() });
 
       if (!data || typeof data.id === "undefined") throw new Error("Format data tidak sesuai");
 
       setItem(data);
       setSlide(0);
     } catch (e: any) {
+      if (isAbortError(e)) return;
       setItem(null);
-      const isSession = (e?.message || "").toLowerCase().includes("sesi berakhir") || (e?.message || "").toLowerCase().includes("401");
-      Alert.alert(
-        "Gagal",
-        e?.message || "Tidak bisa memuat detail",
-        isSession
-          ? [{ text: "Login", onPress: () => router.push("/(auth)/login") }, { text: "Tutup" }]
-          : [{ text: "Tutup" }]
-      );
+      // sesi yang kedaluwarsa ditangani global
+      if (isUnauthorized(e)) return;
+      Alert.alert("Gagal", e?.message || "Tidak bisa memuat detail", [{ text: "Tutup" }]);
     } finally {
       setLoading(false);
     }
-  }, [id, token, tokenReady, router]);
+  }, [id, signedIn, signal]);
 
   useEffect(() => {
-    if (!tokenReady) return;
     fetchDetail();
-  }, [tokenReady, fetchDetail]);
+  }, [fetchDetail]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -206,7 +101,7 @@ export default function MuaOfferingDetail() {
   }
 
   async function handleDelete() {
-    if (!id || !token) return;
+    if (!id) return;
     Alert.alert("Hapus Offering", "Yakin ingin menghapus offering ini?", [
       { text: "Batal", style: "cancel" },
       {
@@ -215,14 +110,8 @@ export default function MuaOfferingDetail() {
         onPress: async () => {
           try {
             setDeleting(true);
-            const res = await fetch(`${API}/offerings/${encodeURIComponent(id)}`, {
-              method: "DELETE",
-              headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-            });
-            if (!res.ok) {
-              const msg = (await res.json().catch(() => ({})))?.message || `Gagal (status ${res.status})`;
-              throw new Error(msg);
-            }
+            await api.offerings.delete(id);
+            invalidateQueries("/offerings");
             Alert.alert("Berhasil", "Offering telah dihapus.", [{ text: "OK", onPress: () => router.back() }]);
           } catch (e: any) {
             Alert.alert("Gagal", e?.message || "Tidak bisa menghapus.");
@@ -360,7 +249,7 @@ export default function MuaOfferingDetail() {
           </View>
           <View style={styles.row}>
             <Text style={styles.label}>Add-ons</Text>
-            <Text style={styles.value}>{item.add_ons?.length ? item.add_ons.join(", ") : "—"}</Text>
+            <Text style={styles.value}>{offeringAddOns(item).map((a) => a.name).join(", ") || "—"}</Text>
           </View>
           <View style={styles.row}>
             <Text style={styles.label}>Tanggal</Text>
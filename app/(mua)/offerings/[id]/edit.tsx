@@ -6,37 +6,27 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
-import * as ImageManipulator from "expo-image-manipulator";
-import * as FileSystem from "expo-file-system";
 
-// gunakan authStorage (jika ada). kalau path beda, sesuaikan.
-import authStorage from "../../../../utils/authStorage";
-
-const API = "https://smstudio.my.id/api";
-const BASE = API.replace(/\/api$/, "");
+import FieldError from "../../../../components/FieldError";
+import { appendAddOns, offeringAddOns } from "../../../../lib/addOns";
+import { api, assetUrl, isUnauthorized } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { compressImage, type LocalImage } from "../../../../lib/images";
+import { invalidateQueries } from "../../../../lib/query";
+import { useFieldErrors } from "../../../../lib/formErrors";
+import type { OfferingAddOnInput, Offering as OfferingBase } from "../../../../lib/types";
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const CARD_BG = "#F7F2FA";
 const TEXT_MUTED = "#6B7280";
 
-type Offering = {
-  id: string | number;
-  mua_id: string;
-  name_offer: string;
-  offer_pictures?: string[] | null;
+type Offering = Omit<OfferingBase, "makeup_type"> & {
   makeup_type?: "bridal" | "party" | "photoshoot" | "graduation" | "sfx" | "" | null;
-  person?: number | null;
-  collaboration?: string | null;
-  collaboration_price?: number | null;
-  add_ons?: string[] | null;
-  price?: number | string | null;
-  date?: string | null; // "YYYY-MM-DD"
 };
 
-type LocalImage = { uri: string; name: string; type: string };
+const formatIDR = (n: number) => `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(n))}`;
 
 function toYMD(d: Date) {
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
@@ -44,72 +34,13 @@ function toYMD(d: Date) {
   ).padStart(2, "0")}`;
 }
 
-const MULTIPART: any =
-  (FileSystem as any)?.FileSystemUploadType?.MULTIPART ??
-  (FileSystem as any)?.UploadType?.MULTIPART ??
-  "multipart";
-
-const isContentUri = (uri: string) => uri.startsWith("content://");
-
-async function compressImage(uri: string): Promise<LocalImage> {
-  try {
-    const out = await ImageManipulator.manipulateAsync(
-      uri,
-      [{ resize: { width: 1600 } }],
-      { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
-    );
-    return { uri: out.uri, name: `photo_${Date.now()}.jpg`, type: "image/jpeg" };
-  } catch (e) {
-    // fallback: return original
-    const ext = (uri.split(".").pop() || "jpg").split(/\?|#/)[0];
-    const type = ext === "png" ? "image/png" : ext === "webp" ? "image/webp" : "image/jpeg";
-    return { uri, name: `photo_${Date.now()}.${ext}`, type };
-  }
-}
-
-async function uploadWithFetch(offeringId: string, token: string, files: LocalImage[]) {
-  const fd = new FormData();
-  (fd as any).append("_method", "PATCH");
-  files.forEach((f) =>
-    (fd as any).append("offer_images[]", { uri: f.uri, name: f.name, type: f.type } as any)
-  );
-
-  const res = await fetch(`${API}/offerings/${encodeURIComponent(offeringId)}`, {
-    method: "POST",
-    headers: { Accept: "application/json", Authorization: `Bearer ${token}` }, // do not set Content-Type
-    body: fd as any,
-  });
-  const j = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(j?.message || j?.error || `Upload foto gagal (status ${res.status})`);
-  return j;
-}
-
-async function uploadWithUploadAsync(offeringId: string, token: string, files: LocalImage[]) {
-  const url = `${API}/offerings/${encodeURIComponent(offeringId)}?_method=PATCH`;
-
-  // upload files one-by-one (server should accept repeated fieldName)
-  for (const f of files) {
-    const res = await FileSystem.uploadAsync(url, f.uri, {
-      httpMethod: "POST",
-      headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-      uploadType: MULTIPART,
-      fieldName: "offer_images[]",
-      mimeType: f.type,
-      parameters: {},
-    });
-
-    if (res.status < 200 || res.status >= 300) {
-      throw new Error(`Upload gagal (${res.status}): ${res.body || ""}`);
-    }
-  }
-}
-
 export default function OfferingEdit() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
+  // sesi dijamin SessionGuard (mua); tunggu status signedIn sebelum fetch
+  const { status: authStatus } = useAuth();
+  const signedIn = authStatus === "signedIn";
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -135,40 +66,17 @@ export default function OfferingEdit() {
 
   const [serverPhotos, setServerPhotos] = useState<string[]>([]);
   const [localImages, setLocalImages] = useState<LocalImage[]>([]);
-  const [addons, setAddons] = useState<string[]>([]);
+  const [addons, setAddons] = useState<OfferingAddOnInput[]>([]);
+  // add-on hanya dikirim kalau diubah di sesi ini; daftar kosong = hapus semua di server
+  const [addonsChanged, setAddonsChanged] = useState(false);
   const [addonInput, setAddonInput] = useState("");
+  const [addonPriceInput, setAddonPriceInput] = useState("");
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
 
-  // load token robustly
-  useEffect(() => {
-    (async () => {
-      try {
-        // prefer authStorage if present
-        const t1 = await authStorage.getAuthToken().catch(() => null);
-        if (t1) {
-          setToken(t1);
-        } else {
-          // fallback parse SecureStore 'auth'
-          const raw = await SecureStore.getItemAsync("auth").catch(() => null);
-          if (raw) {
-            try {
-              const parsed = JSON.parse(raw);
-              const cand = parsed?.token ?? parsed?.access_token ?? parsed?.data?.token ?? null;
-              if (cand) setToken(cand);
-            } catch {}
-          }
-        }
-      } catch (e) {
-        console.warn("token load failed", e);
-      } finally {
-        setTokenReady(true);
-      }
-    })();
-  }, []);
-
-  // fetch offering detail once tokenReady
+  // fetch offering detail setelah sesi siap
   useEffect(() => {
     (async () => {
-      if (!tokenReady) return;
+      if (!signedIn) return;
       if (!id) {
         setLoading(false);
         return;
@@ -176,29 +84,7 @@ export default function OfferingEdit() {
 
       setLoading(true);
       try {
-        const headers: Record<string, string> = { Accept: "application/json" };
-        if (token) headers.Authorization = `Bearer ${token}`;
-        const res = await fetch(`${API}/offerings/${encodeURIComponent(String(id))}`, { headers });
-        const txt = await res.text();
-        if (!res.ok) {
-          // handle 401
-          if (res.status === 401) {
-            await authStorage.clearAuthAll().catch(() => {});
-            Alert.alert("Sesi berakhir", "Silakan login ulang.", [
-              { text: "OK", onPress: () => router.replace("/(auth)/login") },
-            ]);
-            return;
-          }
-          throw new Error(`HTTP ${res.status} — ${txt.slice(0, 200)}`);
-        }
-
-        let j: any = {};
-        try {
-          j = JSON.parse(txt);
-        } catch {
-          j = {};
-        }
-        const data: Offering = j?.data ?? j;
+        const data = (await api.offerings.get(id)) as Offering;
 
         // prefill
         setNameOffer(String(data?.name_offer ?? ""));
@@ -208,7 +94,8 @@ export default function OfferingEdit() {
         setCollabName(String(data?.collaboration ?? ""));
         setCollabPriceStr(data?.collaboration ? String(Math.round(Number(data?.collaboration_price ?? 0))) : "");
         setServerPhotos(Array.isArray(data?.offer_pictures) ? data.offer_pictures! : []);
-        setAddons(Array.isArray(data?.add_ons) ? data.add_ons! : []);
+        setAddons(offeringAddOns(data));
+        setAddonsChanged(false);
 
         if (data?.date) {
           const [Y, M, D] = String(data.date).split("-").map((n) => Number(n));
@@ -222,12 +109,14 @@ export default function OfferingEdit() {
           setUseDate(false);
         }
       } catch (e: any) {
+        // 401 sudah ditangani global (refresh / sesi berakhir)
+        if (isUnauthorized(e)) return;
         Alert.alert("Gagal", e?.message || "Tidak bisa memuat offering.");
       } finally {
         setLoading(false);
       }
     })();
-  }, [id, token, tokenReady, router]);
+  }, [id, signedIn]);
 
   // image picker
   const pickImages = useCallback(async () => {
@@ -264,64 +153,59 @@ export default function OfferingEdit() {
   // delete server pic by index (expects backend handling)
   async function deleteServerPictureByIndex(idx: number) {
     try {
-      if (!token) throw new Error("Harap login.");
       if (!id) throw new Error("Offering tidak valid.");
 
-      const fd = new FormData();
-      (fd as any).append("_method", "DELETE");
-      (fd as any).append("index", String(idx));
-      (fd as any).append("also_delete_files", "1");
-
-      const res = await fetch(`${API}/offerings/${encodeURIComponent(String(id))}/pictures`, {
-        method: "POST",
-        headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-        body: fd as any,
-      });
-
-      const j = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        if (res.status === 401) {
-          await authStorage.clearAuthAll().catch(() => {});
-          Alert.alert("Sesi berakhir", "Silakan login ulang.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-          return;
-        }
-        throw new Error(j?.message || j?.error || "Gagal menghapus foto.");
-      }
-
+      const j = await api.offerings.deletePicture(id, idx);
       const updated: Offering = j?.data ?? j;
       setServerPhotos(Array.isArray(updated?.offer_pictures) ? updated.offer_pictures! : []);
       Alert.alert("Berhasil", "Foto dihapus.");
     } catch (e: any) {
+      if (isUnauthorized(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menghapus foto.");
     }
   }
 
   function addAddon() {
-    const v = addonInput.trim();
-    if (!v) return;
-    setAddons((prev) => Array.from(new Set([...prev, v])).slice(0, 50));
+    const name = addonInput.trim();
+    if (!name) return;
+    const price = Number(addonPriceInput || 0);
+    // nama sama → harga diganti (id tetap, booking lama tidak terpengaruh)
+    setAddons((prev) => {
+      const same = prev.find((x) => x.name.toLowerCase() === name.toLowerCase());
+      if (same) return prev.map((x) => (x === same ? { ...x, price } : x));
+      return [...prev, { name, price }].slice(0, 50);
+    });
+    setAddonsChanged(true);
     setAddonInput("");
+    setAddonPriceInput("");
   }
-  function removeAddon(v: string) {
+  function removeAddon(v: OfferingAddOnInput) {
     setAddons((prev) => prev.filter((x) => x !== v));
+    setAddonsChanged(true);
   }
 
   // save (PATCH + optional images)
   async function saveAll() {
+    clearError();
     try {
-      if (!token) throw new Error("Harap login.");
       if (!id) throw new Error("Offering tidak valid.");
-      if (!nameOffer.trim()) throw new Error("Nama paket wajib diisi.");
-      if (!priceNum || priceNum <= 0) throw new Error("Harga tidak valid.");
-      if (person < 1) throw new Error("Jumlah orang minimal 1.");
+
+      // validasi lokal → tampil di bawah input
+      const local: Record<string, string> = {};
+      if (!nameOffer.trim()) local.name_offer = "Nama paket wajib diisi.";
+      if (!priceNum || priceNum <= 0) local.price = "Harga tidak valid.";
+      if (person < 1) local.person = "Jumlah orang minimal 1.";
       if (collabName.trim() && (collabPriceNum == null || collabPriceNum < 0))
-        throw new Error("Harga kolaborasi tidak valid.");
+        local.collaboration_price = "Harga kolaborasi tidak valid.";
+      if (Object.keys(local).length) {
+        setErrors(local);
+        return;
+      }
 
       setSaving(true);
 
       // build FormData
       const fd = new FormData();
-      (fd as any).append("_method", "PATCH");
       (fd as any).append("name_offer", nameOffer.trim());
       (fd as any).append("makeup_type", makeupType || "");
       (fd as any).append("person", String(person));
@@ -329,7 +213,7 @@ export default function OfferingEdit() {
       (fd as any).append("date", useDate ? toYMD(date) : "");
       (fd as any).append("collaboration", collabName.trim());
       if (collabName.trim()) (fd as any).append("collaboration_price", String(collabPriceNum ?? 0));
-      addons.forEach((a) => (fd as any).append("add_ons[]", a));
+      if (addonsChanged) appendAddOns(fd, addons);
 
       // compress local images and append
       const compressed: LocalImage[] = [];
@@ -341,27 +225,15 @@ export default function OfferingEdit() {
       }
 
       // send request
-      const res = await fetch(`${API}/offerings/${encodeURIComponent(String(id))}`, {
-        method: "POST", // using _method=PATCH
-        headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-        body: fd as any,
-      });
-
-      const j = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        if (res.status === 401) {
-          await authStorage.clearAuthAll().catch(() => {});
-          Alert.alert("Sesi berakhir", "Silakan login ulang.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-          return;
-        }
-        throw new Error(j?.message || j?.error || "Gagal menyimpan perubahan.");
-      }
-
-      const updated: Offering = j?.data ?? j;
+      const updated = await api.offerings.update(id, fd);
+      invalidateQueries("/offerings");
       setServerPhotos(Array.isArray(updated?.offer_pictures) ? updated.offer_pictures! : []);
       setLocalImages([]);
       Alert.alert("Sukses", "Perubahan disimpan.", [{ text: "OK", onPress: () => router.back() }]);
     } catch (e: any) {
+      if (isUnauthorized(e)) return;
+      // 422 → error per field di bawah input
+      if (applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan perubahan.");
     } finally {
       setSaving(false);
@@ -395,11 +267,15 @@ export default function OfferingEdit() {
           <Text style={styles.label}>Nama Paket *</Text>
           <TextInput
             value={nameOffer}
-            onChangeText={setNameOffer}
+            onChangeText={(t) => {
+              setNameOffer(t);
+              clearError("name_offer");
+            }}
             placeholder="Contoh: Bridal Package #1"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.name_offer && styles.inputError]}
           />
+          <FieldError message={errors.name_offer} />
 
           {/* Jenis Makeup */}
           <Text style={[styles.label, { marginTop: 10 }]}>Jenis Make Up</Text>
@@ -407,7 +283,10 @@ export default function OfferingEdit() {
             {(["bridal", "party", "photoshoot", "graduation", "sfx"] as const).map((t) => (
               <TouchableOpacity
                 key={t}
-                onPress={() => setMakeupType(makeupType === t ? "" : t)}
+                onPress={() => {
+                  setMakeupType(makeupType === t ? "" : t);
+                  clearError("makeup_type");
+                }}
                 style={[styles.segment, makeupType === t && { backgroundColor: PURPLE, borderColor: PURPLE }]}
               >
                 <Text style={[styles.segmentText, makeupType === t && { color: "#fff", fontWeight: "800" }]}>
@@ -416,6 +295,7 @@ export default function OfferingEdit() {
               </TouchableOpacity>
             ))}
           </View>
+          <FieldError message={errors.makeup_type} />
 
           {/* Jumlah Orang */}
           <Text style={[styles.label, { marginTop: 10 }]}>Jumlah Orang</Text>
@@ -431,6 +311,7 @@ export default function OfferingEdit() {
               </TouchableOpacity>
             </View>
           </View>
+          <FieldError message={errors.person} />
 
           {/* Tanggal */}
           <Text style={[styles.label, { marginTop: 10 }]}>Tanggal (Opsional)</Text>
@@ -460,41 +341,55 @@ export default function OfferingEdit() {
               onChange={(_, d) => {
                 if (d) setDate(d);
                 setShowDatePicker(false);
+                clearError("date");
               }}
             />
           )}
+          <FieldError message={errors.date} />
 
           {/* Harga */}
           <Text style={[styles.label, { marginTop: 10 }]}>Harga *</Text>
           <TextInput
             value={priceStr}
-            onChangeText={(t) => setPriceStr(t.replace(/[^\d]/g, ""))}
+            onChangeText={(t) => {
+              setPriceStr(t.replace(/[^\d]/g, ""));
+              clearError("price");
+            }}
             placeholder="cth: 1500000"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.price && styles.inputError]}
             keyboardType="numeric"
           />
+          <FieldError message={errors.price} />
 
           {/* Kolaborasi */}
           <Text style={[styles.label, { marginTop: 10 }]}>Kolaborasi (opsional)</Text>
           <TextInput
             value={collabName}
-            onChangeText={setCollabName}
+            onChangeText={(t) => {
+              setCollabName(t);
+              clearError("collaboration");
+            }}
             placeholder="Nama partner/brand"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.collaboration && styles.inputError]}
           />
+          <FieldError message={errors.collaboration} />
           {collabName.trim() ? (
             <>
               <Text style={[styles.label, { marginTop: 6 }]}>Harga Kolaborasi</Text>
               <TextInput
                 value={collabPriceStr}
-                onChangeText={(t) => setCollabPriceStr(t.replace(/[^\d]/g, ""))}
+                onChangeText={(t) => {
+                  setCollabPriceStr(t.replace(/[^\d]/g, ""));
+                  clearError("collaboration_price");
+                }}
                 placeholder="cth: 300000"
                 placeholderTextColor="#9CA3AF"
-                style={styles.input}
+                style={[styles.input, !!errors.collaboration_price && styles.inputError]}
                 keyboardType="numeric"
               />
+              <FieldError message={errors.collaboration_price} />
             </>
           ) : null}
 
@@ -503,7 +398,7 @@ export default function OfferingEdit() {
           {serverPhotos.length > 0 ? (
             <View style={{ gap: 10 }}>
               {serverPhotos.map((p, idx) => {
-                const uri = p?.startsWith("/storage/") ? `${BASE}${p}` : p;
+                const uri = assetUrl(p) ?? p;
                 return (
                   <View key={`${p}-${idx}`}>
                     <Image
@@ -548,6 +443,7 @@ export default function OfferingEdit() {
           ) : (
             <Text style={{ color: TEXT_MUTED, marginTop: 6 }}>Belum ada foto baru.</Text>
           )}
+          <FieldError message={errors.offer_images} />
 
           {/* Add-ons */}
           <Text style={[styles.label, { marginTop: 14 }]}>Add-ons</Text>
@@ -560,6 +456,15 @@ export default function OfferingEdit() {
               style={[styles.input, { flex: 1 }]}
               onSubmitEditing={addAddon}
             />
+            <TextInput
+              value={addonPriceInput}
+              onChangeText={(t) => setAddonPriceInput(t.replace(/[^\d]/g, ""))}
+              placeholder="Harga"
+              placeholderTextColor="#9CA3AF"
+              style={[styles.input, { width: 110, marginLeft: 8 }]}
+              keyboardType="numeric"
+              onSubmitEditing={addAddon}
+            />
             <TouchableOpacity onPress={addAddon} style={[styles.iconBtn, { marginLeft: 8 }]}>
               <Ionicons name="add" size={16} color="#111" />
             </TouchableOpacity>
@@ -567,8 +472,8 @@ export default function OfferingEdit() {
           {addons.length > 0 ? (
             <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginTop: 6 }}>
               {addons.map((a) => (
-                <View key={a} style={styles.chip}>
-                  <Text style={styles.chipText}>{a}</Text>
+                <View key={a.id != null ? String(a.id) : `new:${a.name}`} style={styles.chip}>
+                  <Text style={styles.chipText}>{a.price > 0 ? `${a.name} · ${formatIDR(a.price)}` : a.name}</Text>
                   <TouchableOpacity onPress={() => removeAddon(a)} style={{ marginLeft: 6 }}>
                     <Ionicons name="close" size={12} color="#6B7280" />
                   </TouchableOpacity>
@@ -578,6 +483,7 @@ export default function OfferingEdit() {
           ) : (
             <Text style={{ color: TEXT_MUTED, marginTop: 6 }}>Belum ada add-ons.</Text>
           )}
+          <FieldError message={errors.add_ons} />
         </View>
       </ScrollView>
 
@@ -631,6 +537,7 @@ const styles = StyleSheet.create({
     color: "#111",
     marginBottom: 8,
   },
+  inputError: { borderColor: "#DC2626" },
 
   segmentWrap: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
   segment: {
@@ -1,102 +1,49 @@
 // app/(mua)/offerings/new.tsx
-import React, { useEffect, useMemo, useState, useCallback } from "react";
+import React, { useMemo, useState, useCallback } from "react";
 import {
   View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity,
   ActivityIndicator, Alert, Platform, Image,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
-import * as ImageManipulator from "expo-image-manipulator";
-import * as FileSystem from "expo-file-system";
 
-// gunakan utils/authStorage yang sudah kamu punya (sesuaikan path jika berbeda)
-import authStorage from "../../../utils/authStorage";
+import FieldError from "../../../components/FieldError";
+import { api, isUnauthorized } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { compressImage, type LocalImage } from "../../../lib/images";
+import { invalidateQueries } from "../../../lib/query";
+import { useFieldErrors } from "../../../lib/formErrors";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("OFFERING");
 
-const API = "https://smstudio.my.id/api";
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const CARD_BG = "#F7F2FA";
 const TEXT_MUTED = "#6B7280";
 
-type Me = { id?: string; profile?: { id?: string } };
-type LocalImage = { uri: string; name: string; type: string };
-
 // helpers
 function toYMD(d: Date) {
   return `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}-${String(d.getDate()).padStart(2,"0")}`;
 }
-const isContentUri = (uri: string) => uri.startsWith("content://");
-
-/** Kompres ringan (resize width max 1600, jpeg 0.8) */
-async function compressImage(uri: string): Promise<LocalImage> {
-  // ImageManipulator kadang gagal pada content:// URIs di Android.
-  // Jika gagal, fallback kembalikan uri asli (server biasanya menerima).
-  try {
-    const out = await ImageManipulator.manipulateAsync(
-      uri,
-      [{ resize: { width: 1600 } }],
-      { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
-    );
-    return { uri: out.uri, name: `photo_${Date.now()}.jpg`, type: "image/jpeg" };
-  } catch (e) {
-    console.warn("compressImage failed, fallback to original uri", e);
-    const ext = (uri.split(".").pop() || "jpg").split(/\?|#/)[0];
-    const type = ext === "png" ? "image/png" : ext === "webp" ? "image/webp" : "image/jpeg";
-    return { uri, name: `photo_${Date.now()}.${ext}`, type };
-  }
-}
 
-/** Upload via fetch (FormData, multi file) */
-async function uploadWithFetch(offeringId: string, token: string, files: LocalImage[]) {
+
+/** Upload foto lewat client api (FormData, multi file) → ikut refresh token & timeout */
+async function uploadPhotos(offeringId: string, files: LocalImage[]) {
   const fd = new FormData();
-  (fd as any).append("_method", "PATCH");
   files.forEach((f) => {
     (fd as any).append("offer_images[]", { uri: f.uri, name: f.name, type: f.type } as any);
   });
-
-  const res = await fetch(`${API}/offerings/${encodeURIComponent(offeringId)}`, {
-    method: "POST",
-    headers: { Accept: "application/json", Authorization: `Bearer ${token}` }, // jangan set Content-Type
-    body: fd as any,
-  });
-  const j = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(j?.message || j?.error || `Upload foto gagal (status ${res.status})`);
-  return j;
-}
-
-const MULTIPART: any =
-  (FileSystem as any)?.FileSystemUploadType?.MULTIPART ??
-  (FileSystem as any)?.UploadType?.MULTIPART ??
-  "multipart";
-
-async function uploadWithUploadAsync(offeringId: string, token: string, files: { uri: string; name: string; type: string }[]) {
-  const url = `${API}/offerings/${encodeURIComponent(offeringId)}?_method=PATCH`;
-
-  // When using uploadAsync we send files one-by-one (server should accept array fieldName same per-file)
-  for (const f of files) {
-    const res = await FileSystem.uploadAsync(url, f.uri, {
-      httpMethod: "POST",
-      headers: { Accept: "application/json", Authorization: `Bearer ${token}` },
-      uploadType: MULTIPART,
-      fieldName: "offer_images[]",
-      mimeType: f.type,
-      parameters: {}, // bisa tambahkan fields lain jika perlu
-    });
-
-    if (res.status < 200 || res.status >= 300) {
-      throw new Error(`Upload gagal (${res.status}): ${res.body || ""}`);
-    }
-  }
+  return api.offerings.update(offeringId, fd);
 }
 
 export default function OfferingCreate() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [muaId, setMuaId] = useState<string | null>(null);
+  // mua_id = id profil MUA yang login
+  const { profileId: muaId } = useAuth();
 
   const [nameOffer, setNameOffer] = useState("");
   const [makeupType, setMakeupType] = useState<"bridal"|"party"|"photoshoot"|"graduation"|"sfx"|"">("");
@@ -116,69 +63,7 @@ export default function OfferingCreate() {
   const [localImages, setLocalImages] = useState<LocalImage[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [uploading, setUploading] = useState(false);
-
-  // load token + profile robustly
-  useEffect(()=> {
-    (async ()=>{
-      try {
-        // try authStorage helper first (recommended)
-        const t = await authStorage.getAuthToken().catch(()=>null);
-        if (t) setToken(t);
-
-        // try profile via authStorage
-        const p = await authStorage.getUserProfile().catch(()=>null);
-        if (p?.id) {
-          setMuaId(String(p.id));
-          return;
-        }
-
-        // fallback: legacy SecureStore "auth" object
-        const raw = await SecureStore.getItemAsync("auth").catch(()=>null);
-        if (raw) {
-          try {
-            const parsed = JSON.parse(raw);
-            const candidateToken = parsed?.token ?? parsed?.access_token ?? parsed?.data?.token ?? null;
-            if (!t && candidateToken) setToken(candidateToken);
-            const pid = parsed?.profile?.id ?? parsed?.user?.profile?.id ?? parsed?.user?.id ?? parsed?.profile_id ?? null;
-            if (pid) setMuaId(String(pid));
-          } catch (err) {
-            console.warn("Failed parse SecureStore auth:", err);
-          }
-        }
-      } catch (e) {
-        console.warn("Auth load error:", e);
-      }
-    })();
-  }, []);
-
-  // If token exists but muaId still missing, call /auth/me once
-  useEffect(()=> {
-    (async ()=>{
-      if (!token) return;
-      if (muaId) return;
-      try {
-        const res = await fetch(`${API}/auth/me`, {
-          headers: { Accept: "application/json", Authorization:`Bearer ${token}` },
-        });
-        if (!res.ok) {
-          if (res.status === 401) {
-            // token invalid: clear and redirect
-            await authStorage.clearAuthAll().catch(()=>{});
-            setToken(null);
-            setMuaId(null);
-            Alert.alert("Sesi berakhir", "Silakan login kembali.", [{ text:"OK", onPress: ()=> router.push("/(auth)/login") }]);
-            return;
-          }
-          return;
-        }
-        const me: Me = await res.json().catch(()=>({}));
-        const id = me?.profile?.id || me?.id;
-        if (id) setMuaId(String(id));
-      } catch (e) {
-        console.warn("fetch /auth/me failed", e);
-      }
-    })();
-  }, [token, muaId, router]);
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
 
   // image picker
   const pickImages = useCallback(async ()=>{
@@ -200,14 +85,19 @@ export default function OfferingCreate() {
   const removeLocalImage = (idx:number)=> setLocalImages(prev=>prev.filter((_,i)=>i!==idx));
 
   async function submit() {
+    clearError();
     try {
       if (!muaId) throw new Error("Akun MUA belum terdeteksi. Pastikan Anda sudah login.");
-      if (!nameOffer.trim()) throw new Error("Nama paket wajib diisi.");
-      if (!priceNum || priceNum<=0) throw new Error("Harga tidak valid.");
-      if (person<1) throw new Error("Jumlah orang minimal 1.");
-      if (collabName.trim() && (collabPriceNum==null || collabPriceNum<0)) throw new Error("Harga kolaborasi tidak valid.");
 
-      const payload:any = {
+      // validasi lokal → tampil di bawah input
+      const local: Record<string,string> = {};
+      if (!nameOffer.trim()) local.name_offer = "Nama paket wajib diisi.";
+      if (!priceNum || priceNum<=0) local.price = "Harga tidak valid.";
+      if (person<1) local.person = "Jumlah orang minimal 1.";
+      if (collabName.trim() && (collabPriceNum==null || collabPriceNum<0)) local.collaboration_price = "Harga kolaborasi tidak valid.";
+      if (Object.keys(local).length) { setErrors(local); return; }
+
+      const payload = {
         mua_id: muaId,
         name_offer: nameOffer.trim(),
         makeup_type: makeupType || null,
@@ -220,25 +110,10 @@ export default function OfferingCreate() {
       };
 
       setSubmitting(true);
-      const res = await fetch(`${API}/offerings`, {
-        method: "POST",
-        headers: { "Content-Type":"application/json", Accept:"application/json", ...(token?{Authorization:`Bearer ${token}`}:{}) },
-        body: JSON.stringify(payload),
-      });
-
-      const created = await res.json().catch(()=> ({}));
-      if (!res.ok) {
-        // jika 401 -> hapus auth & redirect
-        if (res.status === 401) {
-          await authStorage.clearAuthAll().catch(()=>{});
-          Alert.alert("Sesi berakhir", "Silakan login kembali.", [{ text:"OK", onPress: ()=> router.push("/(auth)/login") }]);
-          return;
-        }
-        throw new Error(created?.message || created?.error || "Gagal menyimpan offering.");
-      }
+      const created = await api.offerings.create(payload);
+      invalidateQueries("/offerings");
 
-      // backend bisa mengembalikan { id } atau { data: { id } } atau { data: { ... } }
-      const newId = String(created?.id ?? created?.data?.id ?? created?.data?.id ?? "");
+      const newId = String(created?.id ?? "");
       if (!newId) {
         // berhasil tapi id tidak ditemukan — tetap beri notifikasi dan kembali
         Alert.alert("Berhasil", "Offering dibuat, tapi ID respons tidak ditemukan. Refresh daftar untuk melihat perubahan.", [
@@ -248,7 +123,7 @@ export default function OfferingCreate() {
       }
 
       // Upload foto jika ada
-      if (localImages.length>0 && token) {
+      if (localImages.length>0) {
         setUploading(true);
 
         // Kompres semua dulu (toleran content://)
@@ -260,16 +135,10 @@ export default function OfferingCreate() {
           compressed.push({ ...c, name });
         }
 
-        // jika ada content:// uri di Android, gunakan uploadAsync per-file (kadang FormData gagal)
-        const hasContent = Platform.OS === "android" && compressed.some((f)=>isContentUri(f.uri));
         try {
-          if (hasContent) {
-            await uploadWithUploadAsync(newId, token, compressed);
-          } else {
-            await uploadWithFetch(newId, token, compressed);
-          }
+          await uploadPhotos(newId, compressed);
         } catch (e:any) {
-          console.warn("Upload photos failed:", e);
+          log.warn("Upload photos failed:", e);
           // jangan gagalkan seluruh proses buat; beri pesan tapi tetap arahkan ke detail
           Alert.alert("Peringatan", "Offering dibuat, tetapi unggah foto gagal: " + (e?.message || ""));
         } finally {
@@ -282,6 +151,10 @@ export default function OfferingCreate() {
         { text:"OK", onPress:()=> router.back() },
       ]);
     } catch(e:any) {
+      // jika 401 -> sesi berakhir ditangani global
+      if (isUnauthorized(e)) return;
+      // 422 → error per field di bawah input
+      if (applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan offering.");
     } finally {
       setSubmitting(false);
@@ -303,13 +176,14 @@ export default function OfferingCreate() {
 
         <View style={styles.card}>
           <Text style={styles.label}>Nama Paket *</Text>
-          <TextInput value={nameOffer} onChangeText={setNameOffer} placeholder="Contoh: Bridal Package #1"
-            placeholderTextColor="#9CA3AF" style={styles.input} />
+          <TextInput value={nameOffer} onChangeText={(t)=>{ setNameOffer(t); clearError("name_offer"); }} placeholder="Contoh: Bridal Package #1"
+            placeholderTextColor="#9CA3AF" style={[styles.input, !!errors.name_offer && styles.inputError]} />
+          <FieldError message={errors.name_offer} />
 
           <Text style={[styles.label,{marginTop:10}]}>Jenis Make Up</Text>
           <View style={styles.segmentWrap}>
             {(["bridal","party","photoshoot","graduation","sfx"] as const).map((t)=>(
-              <TouchableOpacity key={t} onPress={()=>setMakeupType(t===makeupType?"":t)}
+              <TouchableOpacity key={t} onPress={()=>{ setMakeupType(t===makeupType?"":t); clearError("makeup_type"); }}
                 style={[styles.segment, makeupType===t && { backgroundColor: PURPLE, borderColor: PURPLE }]}>
                 <Text style={[styles.segmentText, makeupType===t && { color:"#fff", fontWeight:"800" }]}>
                   {t.charAt(0).toUpperCase()+t.slice(1)}
@@ -317,6 +191,7 @@ export default function OfferingCreate() {
               </TouchableOpacity>
             ))}
           </View>
+          <FieldError message={errors.makeup_type} />
 
           <Text style={[styles.label,{marginTop:10}]}>Jumlah Orang</Text>
           <View style={styles.rowBetween}>
@@ -331,6 +206,7 @@ export default function OfferingCreate() {
               </TouchableOpacity>
             </View>
           </View>
+          <FieldError message={errors.person} />
 
           <Text style={[styles.label,{marginTop:10}]}>Tanggal (Opsional)</Text>
           <View style={{ flexDirection:"row", alignItems:"center", gap:10 }}>
@@ -351,21 +227,25 @@ export default function OfferingCreate() {
           </View>
           {showDatePicker && (
             <DateTimePicker value={date} mode="date" display={Platform.OS==="ios"?"spinner":"default"}
-              onChange={(_,d)=>{ if(d) setDate(d); setShowDatePicker(false); }} />
+              onChange={(_,d)=>{ if(d) setDate(d); setShowDatePicker(false); clearError("date"); }} />
           )}
+          <FieldError message={errors.date} />
 
           <Text style={[styles.label,{marginTop:10}]}>Harga *</Text>
-          <TextInput value={priceStr} onChangeText={(t)=>setPriceStr(t.replace(/[^\d]/g,""))}
-            placeholder="cth: 1500000" placeholderTextColor="#9CA3AF" style={styles.input} keyboardType="numeric" />
+          <TextInput value={priceStr} onChangeText={(t)=>{ setPriceStr(t.replace(/[^\d]/g,"")); clearError("price"); }}
+            placeholder="cth: 1500000" placeholderTextColor="#9CA3AF" style={[styles.input, !!errors.price && styles.inputError]} keyboardType="numeric" />
+          <FieldError message={errors.price} />
 
           <Text style={[styles.label,{marginTop:10}]}>Kolaborasi (opsional)</Text>
-          <TextInput value={collabName} onChangeText={setCollabName} placeholder="Nama partner/brand"
-            placeholderTextColor="#9CA3AF" style={styles.input} />
+          <TextInput value={collabName} onChangeText={(t)=>{ setCollabName(t); clearError("collaboration"); }} placeholder="Nama partner/brand"
+            placeholderTextColor="#9CA3AF" style={[styles.input, !!errors.collaboration && styles.inputError]} />
+          <FieldError message={errors.collaboration} />
           {collabName.trim() ? (
             <>
               <Text style={[styles.label,{marginTop:6}]}>Harga Kolaborasi</Text>
-              <TextInput value={collabPriceStr} onChangeText={(t)=>setCollabPriceStr(t.replace(/[^\d]/g,""))}
-                placeholder="cth: 300000" placeholderTextColor="#9CA3AF" style={styles.input} keyboardType="numeric" />
+              <TextInput value={collabPriceStr} onChangeText={(t)=>{ setCollabPriceStr(t.replace(/[^\d]/g,"")); clearError("collaboration_price"); }}
+                placeholder="cth: 300000" placeholderTextColor="#9CA3AF" style={[styles.input, !!errors.collaboration_price && styles.inputError]} keyboardType="numeric" />
+              <FieldError message={errors.collaboration_price} />
             </>
           ) : null}
 
@@ -414,6 +294,7 @@ const styles = StyleSheet.create({
   card:{ margin:16, padding:14, borderRadius:14, backgroundColor:CARD_BG, borderWidth:1, borderColor:"#EDE9FE" },
   label:{ fontWeight:"800", color:"#111827", marginBottom:6 },
   input:{ borderWidth:1, borderColor:BORDER, borderRadius:10, paddingHorizontal:12, height:44, backgroundColor:"#fff", color:"#111", marginBottom:8 },
+  inputError:{ borderColor:"#DC2626" },
   segmentWrap:{ flexDirection:"row", flexWrap:"wrap", gap:8 },
   segment:{ borderWidth:1, borderColor:BORDER, paddingVertical:8, paddingHorizontal:12, borderRadius:10, backgroundColor:"#fff" },
   segmentText:{ color:"#111827", fontWeight:"700" },
@@ -0,0 +1,513 @@
+// app/(mua)/onboarding.tsx
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useFocusEffect, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+import MapView, { Marker } from "react-native-maps";
+
+import FieldError from "../../components/FieldError";
+import { useUserLocation } from "../providers/LocationProvider";
+import { api, assetUrl, isUnauthorized } from "../../lib/api";
+import { useAuth } from "../../lib/auth";
+import { useFieldErrors } from "../../lib/formErrors";
+import {
+  advanceOnboarding,
+  MUA_SERVICES,
+  ONBOARDING_LABELS,
+  ONBOARDING_STEPS,
+  stepsDoneFromMe,
+  useMuaOnboarding,
+  type OnboardingProgress,
+  type OnboardingStep,
+} from "../../lib/onboarding";
+import { invalidateQueries } from "../../lib/query";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("MUA");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+const CARD_BG = "#F7F0FF";
+
+const STEP_HINT: Record<OnboardingStep, string> = {
+  photo: "Foto yang jelas membuat pelanggan lebih percaya.",
+  bio: "Ceritakan pengalaman dan gaya makeup Anda.",
+  services: "Pilih jenis makeup yang Anda layani.",
+  location: "Titik dasar untuk pencarian MUA terdekat. Ketuk peta atau geser pin.",
+  offering: "Buat paket pertama yang bisa langsung dibooking pelanggan.",
+  portfolio: "Unggah hasil kerja terbaik Anda.",
+};
+
+/* ===== Helpers ===== */
+const toNum = (v: unknown) => {
+  const n = Number(v);
+  return v !== null && v !== undefined && v !== "" && Number.isFinite(n) ? n : null;
+};
+
+function freshProgress(): OnboardingProgress {
+  return { step: ONBOARDING_STEPS[0], completed: [], snoozed: false, done: false, startedAt: new Date().toISOString() };
+}
+
+/**
+ * Wizard onboarding MUA: foto → bio → layanan → lokasi → penawaran → portofolio.
+ * Tiap langkah disimpan langsung ke server; progres disimpan di perangkat (lib/onboarding).
+ */
+export default function MuaOnboarding() {
+  const router = useRouter();
+  const { profileId, user, updateProfileLocally } = useAuth();
+  const { progress: stored, loading, save } = useMuaOnboarding(profileId);
+  const { coords, refresh: refreshLocation } = useUserLocation();
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
+
+  // dibuka manual tanpa progres tersimpan (akun lama) → mulai dari awal
+  const progress = useMemo(() => stored ?? freshProgress(), [stored]);
+  const step = progress.step;
+  const stepIndex = ONBOARDING_STEPS.indexOf(step);
+
+  const prof = user?.profile ?? user;
+  const [saving, setSaving] = useState(false);
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [bio, setBio] = useState(prof?.bio ?? "");
+  const [services, setServices] = useState<string[]>(() =>
+    Array.isArray(prof?.services) ? prof.services : prof?.services ? [prof.services] : []
+  );
+  const [pin, setPin] = useState<{ latitude: number; longitude: number } | null>(() => {
+    const lat = toNum(prof?.location_lat);
+    const lng = toNum(prof?.location_lng);
+    return lat !== null && lng !== null ? { latitude: lat, longitude: lng } : null;
+  });
+  const [followGps, setFollowGps] = useState(false);
+  const [address, setAddress] = useState(prof?.address ?? "");
+  const [counts, setCounts] = useState<{ offerings: number; portfolios: number } | null>(null);
+
+  // pin awal / tombol "lokasi saya" mengikuti GPS
+  useEffect(() => {
+    if (!coords || (pin && !followGps)) return;
+    setPin({ latitude: coords.lat, longitude: coords.lng });
+    setFollowGps(false);
+  }, [coords, followGps, pin]);
+
+  // penawaran & portofolio dibuat di layar lain → cek ulang tiap kali wizard kembali fokus
+  const checkCounts = useCallback(async () => {
+    if (!profileId) return;
+    try {
+      const [offerings, portfolios] = await Promise.all([
+        api.offerings.mine({ per_page: 1 }),
+        api.portfolio.list({ muaId: profileId, per_page: 1 }),
+      ]);
+      setCounts({ offerings: offerings.data.length, portfolios: portfolios.data.length });
+    } catch (e) {
+      log.warn("onboarding counts failed", e);
+    }
+  }, [profileId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      checkCounts();
+    }, [checkCounts])
+  );
+
+  // langkah yang datanya sudah ada di server dianggap selesai (melanjutkan dari perangkat lain / layar profil)
+  const completed = useMemo(() => {
+    const fromServer = stepsDoneFromMe(user);
+    if (counts?.offerings) fromServer.push("offering");
+    if (counts?.portfolios) fromServer.push("portfolio");
+    return ONBOARDING_STEPS.filter((s) => progress.completed.includes(s) || fromServer.includes(s));
+  }, [user, counts, progress.completed]);
+
+  const persist = useCallback(
+    async (next: OnboardingProgress) => {
+      await save(next);
+      if (next.done) {
+        Alert.alert("Profil siap", "Profil MUA Anda sudah lengkap dan siap menerima booking.", [
+          { text: "OK", onPress: () => router.replace("/(mua)") },
+        ]);
+      }
+    },
+    [save, router]
+  );
+
+  /** Selesaikan langkah ini lalu pindah ke langkah berikutnya */
+  const complete = useCallback(
+    (s: OnboardingStep) => persist(advanceOnboarding({ ...progress, completed }, s)),
+    [persist, progress, completed]
+  );
+
+  function onSkip() {
+    const next = advanceOnboarding({ ...progress, completed }, step, { skipped: true });
+    // tidak ada langkah kosong sesudah ini → keluar; sisa langkah diingatkan di dashboard
+    if (ONBOARDING_STEPS.indexOf(next.step) <= stepIndex) {
+      onLater();
+      return;
+    }
+    persist(next);
+  }
+
+  function onBack() {
+    if (stepIndex === 0) return;
+    clearError();
+    save({ ...progress, completed, step: ONBOARDING_STEPS[stepIndex - 1] });
+  }
+
+  function onLater() {
+    save({ ...progress, completed, snoozed: true });
+    router.replace("/(mua)");
+  }
+
+  /* ----- aksi per langkah ----- */
+  async function run(task: () => Promise<void>) {
+    clearError();
+    setSaving(true);
+    try {
+      await task();
+    } catch (e: any) {
+      if (isUnauthorized(e) || applyFieldErrors(e)) return;
+      Alert.alert("Gagal", e?.message || "Tidak dapat menyimpan. Coba lagi.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onPickPhoto() {
+    const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (perm.status !== "granted") {
+      Alert.alert("Izin dibutuhkan", "Berikan izin akses galeri.");
+      return;
+    }
+    const res = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (!res.canceled && res.assets?.[0]?.uri) {
+      setPhotoUri(res.assets[0].uri);
+      clearError("photo_url");
+    }
+  }
+
+  const savePhoto = () =>
+    run(async () => {
+      if (!photoUri) {
+        if (prof?.photo_url) return complete("photo");
+        setErrors({ photo_url: "Pilih foto profil terlebih dulu." });
+        return;
+      }
+      const fd = new FormData();
+      const name = photoUri.split("/").pop() || `photo_${Date.now()}.jpg`;
+      fd.append("photo_url", { uri: photoUri, name, type: "image/jpeg" } as any);
+      const me = await api.profile.update(fd);
+      invalidateQueries("/auth/me");
+      const url = me?.profile?.photo_url ?? me?.photo_url;
+      if (url) updateProfileLocally({ photo_url: url });
+      setPhotoUri(null);
+      await complete("photo");
+    });
+
+  const saveBio = () =>
+    run(async () => {
+      const text = bio.trim();
+      if (text.length < 20) {
+        setErrors({ bio: "Bio minimal 20 karakter." });
+        return;
+      }
+      await api.profile.update({ bio: text });
+      updateProfileLocally({ bio: text });
+      await complete("bio");
+    });
+
+  const saveServices = () =>
+    run(async () => {
+      if (!services.length) {
+        setErrors({ services: "Pilih minimal satu layanan." });
+        return;
+      }
+      await api.profile.update({ services });
+      updateProfileLocally({ services });
+      await complete("services");
+    });
+
+  const saveLocation = () =>
+    run(async () => {
+      if (!pin) {
+        setErrors({ location_lat: "Tentukan titik lokasi di peta." });
+        return;
+      }
+      const data = { location_lat: pin.latitude, location_lng: pin.longitude, address: address.trim() || undefined };
+      await api.profile.updateLocation(data);
+      updateProfileLocally(data);
+      invalidateQueries("/mua-location");
+      await complete("location");
+    });
+
+  /* ----- render ----- */
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color={PURPLE} />
+      </View>
+    );
+  }
+
+  const photoPreview = photoUri ?? (prof?.photo_url ? assetUrl(prof.photo_url) : null);
+  const stepDone = completed.includes(step);
+
+  function primaryAction(): { label: string; onPress: () => void } {
+    switch (step) {
+      case "photo":
+        return { label: "Simpan & lanjut", onPress: savePhoto };
+      case "bio":
+        return { label: "Simpan & lanjut", onPress: saveBio };
+      case "services":
+        return { label: "Simpan & lanjut", onPress: saveServices };
+      case "location":
+        return { label: "Simpan & lanjut", onPress: saveLocation };
+      case "offering":
+        return stepDone
+          ? { label: "Lanjut", onPress: () => complete("offering") }
+          : { label: "Buat penawaran", onPress: () => router.push("/(mua)/offerings/new") };
+      case "portfolio":
+        return stepDone
+          ? { label: "Selesai", onPress: () => complete("portfolio") }
+          : { label: "Tambah portofolio", onPress: () => router.push("/(mua)/portfolio/new") };
+    }
+  }
+  const primary = primaryAction();
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.headerTitle}>Setup profil MUA</Text>
+          <Text style={styles.headerSub}>
+            Langkah {stepIndex + 1} dari {ONBOARDING_STEPS.length} · {completed.length} selesai
+          </Text>
+        </View>
+        <TouchableOpacity onPress={onLater} disabled={saving}>
+          <Text style={styles.laterText}>Nanti saja</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.dots}>
+        {ONBOARDING_STEPS.map((s, i) => (
+          <View
+            key={s}
+            style={[
+              styles.dot,
+              completed.includes(s) && styles.dotDone,
+              i === stepIndex && styles.dotActive,
+            ]}
+          />
+        ))}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+        <Text style={styles.stepTitle}>{ONBOARDING_LABELS[step]}</Text>
+        <Text style={styles.stepHint}>{STEP_HINT[step]}</Text>
+
+        {step === "photo" && (
+          <View style={{ alignItems: "center", gap: 12 }}>
+            <TouchableOpacity onPress={onPickPhoto} style={styles.avatar} disabled={saving}>
+              {photoPreview ? (
+                <Image source={{ uri: photoPreview }} style={styles.avatarImg} />
+              ) : (
+                <Ionicons name="camera-outline" size={32} color={MUTED} />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onPickPhoto} disabled={saving}>
+              <Text style={styles.link}>{photoPreview ? "Ganti foto" : "Pilih foto"}</Text>
+            </TouchableOpacity>
+            <FieldError message={errors.photo_url} />
+          </View>
+        )}
+
+        {step === "bio" && (
+          <View>
+            <TextInput
+              value={bio}
+              onChangeText={(v) => {
+                setBio(v);
+                clearError("bio");
+              }}
+              placeholder="Contoh: MUA spesialis bridal & wisuda, 5 tahun pengalaman di Bandung."
+              placeholderTextColor="#9CA3AF"
+              multiline
+              maxLength={500}
+              style={[styles.input, styles.textarea, !!errors.bio && styles.inputError]}
+            />
+            <Text style={styles.counter}>{bio.trim().length}/500</Text>
+            <FieldError message={errors.bio} />
+          </View>
+        )}
+
+        {step === "services" && (
+          <View>
+            <View style={styles.chips}>
+              {MUA_SERVICES.map((s) => {
+                const on = services.includes(s);
+                return (
+                  <TouchableOpacity
+                    key={s}
+                    style={[styles.chip, on && styles.chipOn]}
+                    onPress={() => {
+                      setServices((prev) => (on ? prev.filter((x) => x !== s) : [...prev, s]));
+                      clearError("services");
+                    }}
+                  >
+                    <Text style={[styles.chipText, on && { color: "#fff" }]}>{s}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <FieldError message={errors.services} />
+          </View>
+        )}
+
+        {step === "location" && (
+          <View style={{ gap: 10 }}>
+            <MapView
+              style={styles.map}
+              region={
+                pin
+                  ? { ...pin, latitudeDelta: 0.02, longitudeDelta: 0.02 }
+                  : { latitude: -6.2, longitude: 106.8, latitudeDelta: 0.25, longitudeDelta: 0.25 }
+              }
+              onPress={(e) => {
+                setPin(e.nativeEvent.coordinate);
+                clearError("location_lat");
+              }}
+            >
+              {pin && (
+                <Marker draggable coordinate={pin} onDragEnd={(e) => setPin(e.nativeEvent.coordinate)} />
+              )}
+            </MapView>
+            <TouchableOpacity
+              style={styles.gpsBtn}
+              onPress={() => {
+                setFollowGps(true);
+                refreshLocation();
+              }}
+            >
+              <Ionicons name="locate-outline" size={16} color={PURPLE} />
+              <Text style={styles.link}>Gunakan lokasi saya</Text>
+            </TouchableOpacity>
+            <FieldError message={errors.location_lat || errors.location_lng} />
+            <TextInput
+              value={address}
+              onChangeText={(v) => {
+                setAddress(v);
+                clearError("address");
+              }}
+              placeholder="Alamat studio / area layanan (opsional)"
+              placeholderTextColor="#9CA3AF"
+              style={[styles.input, !!errors.address && styles.inputError]}
+            />
+            <FieldError message={errors.address} />
+          </View>
+        )}
+
+        {(step === "offering" || step === "portfolio") && (
+          <View style={styles.card}>
+            <Ionicons
+              name={stepDone ? "checkmark-circle" : step === "offering" ? "pricetags-outline" : "images-outline"}
+              size={28}
+              color={stepDone ? "#047857" : PURPLE}
+            />
+            <Text style={styles.cardText}>
+              {stepDone
+                ? step === "offering"
+                  ? "Penawaran pertama sudah dibuat."
+                  : "Portofolio pertama sudah ditambahkan."
+                : counts === null
+                ? "Memeriksa data…"
+                : step === "offering"
+                ? "Belum ada penawaran. Form penawaran akan dibuka, lalu kembali ke sini."
+                : "Belum ada portofolio. Form portofolio akan dibuka, lalu kembali ke sini."}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={[styles.primaryBtn, saving && { opacity: 0.6 }]} onPress={primary.onPress} disabled={saving}>
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryText}>{primary.label}</Text>}
+        </TouchableOpacity>
+        <View style={styles.footerRow}>
+          <TouchableOpacity onPress={onBack} disabled={saving || stepIndex === 0}>
+            <Text style={[styles.footerLink, stepIndex === 0 && { opacity: 0.3 }]}>Kembali</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onSkip} disabled={saving}>
+            <Text style={styles.footerLink}>Lewati langkah ini</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#fff" },
+  center: { flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: "#fff" },
+  header: { flexDirection: "row", alignItems: "center", paddingHorizontal: 16, paddingTop: 12, paddingBottom: 8 },
+  headerTitle: { fontSize: 20, fontWeight: "700", color: "#111827" },
+  headerSub: { fontSize: 12, color: MUTED, marginTop: 2 },
+  laterText: { color: MUTED, fontWeight: "600" },
+  dots: { flexDirection: "row", gap: 6, paddingHorizontal: 16, marginBottom: 8 },
+  dot: { flex: 1, height: 4, borderRadius: 2, backgroundColor: BORDER },
+  dotDone: { backgroundColor: "#C9A2DC" },
+  dotActive: { backgroundColor: PURPLE },
+  body: { padding: 16, paddingBottom: 32 },
+  stepTitle: { fontSize: 18, fontWeight: "700", color: "#111827" },
+  stepHint: { fontSize: 14, color: MUTED, marginTop: 4, marginBottom: 16 },
+  avatar: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: CARD_BG,
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+  avatarImg: { width: "100%", height: "100%" },
+  link: { color: PURPLE, fontWeight: "700" },
+  input: {
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#111827",
+  },
+  inputError: { borderColor: "#DC2626" },
+  textarea: { minHeight: 120, textAlignVertical: "top" },
+  counter: { alignSelf: "flex-end", fontSize: 12, color: MUTED, marginTop: 4 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: { borderWidth: 1, borderColor: PURPLE, borderRadius: 999, paddingHorizontal: 14, paddingVertical: 8 },
+  chipOn: { backgroundColor: PURPLE },
+  chipText: { color: PURPLE, fontWeight: "600" },
+  map: { height: 260, borderRadius: 12 },
+  gpsBtn: { flexDirection: "row", alignItems: "center", gap: 6, alignSelf: "flex-start" },
+  card: { backgroundColor: CARD_BG, borderRadius: 12, padding: 16, flexDirection: "row", gap: 12, alignItems: "center" },
+  cardText: { flex: 1, color: "#111827" },
+  footer: { padding: 16, borderTopWidth: 1, borderTopColor: BORDER, gap: 12 },
+  primaryBtn: { backgroundColor: PURPLE, borderRadius: 12, paddingVertical: 14, alignItems: "center" },
+  primaryText: { color: "#fff", fontWeight: "700", fontSize: 16 },
+  footerRow: { flexDirection: "row", justifyContent: "space-between" },
+  footerLink: { color: MUTED, fontWeight: "600" },
+});
@@ -17,32 +17,21 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
-// gunakan getAuthToken kalau tersedia di project (fallback SecureStore)
-import { getAuthToken } from "../../../utils/authStorage";
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, assetUrl, isAbortError, isUnauthorized } from "../../../lib/api";
+import type { Portfolio } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("PORTFOLIO");
 
-const API = "https://smstudio.my.id/api";
-const BASE = API.replace(/\/api$/, "");
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const TEXT = "#111827";
 const MUTED = "#6B7280";
 const CARD_BG = "#F7F2FA";
 
-type Portfolio = {
-  id: number | string;
-  mua_id?: string;
-  name?: string;
-  photos?: string[] | string | null;
-  makeup_type?: string | null;
-  collaboration?: string | null;
-  created_at?: string | null;
-  updated_at?: string | null;
-};
-
 function toFullUrl(u?: string | null) {
-  if (!u) return "";
-  return u.startsWith("/storage/") ? `${BASE}${u}` : u;
+  return assetUrl(u) ?? "";
 }
 function titleCase(s?: string | null) {
   return (s ?? "")
@@ -78,42 +67,11 @@ export default function PortfolioDetail() {
   // ref ke ScrollView
   const heroRef = useRef<ScrollView | null>(null);
 
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
   const [item, setItem] = useState<Portfolio | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [index, setIndex] = useState(0);
-
-  // ambil token dari util getAuthToken() dulu, fallback SecureStore
-  useEffect(() => {
-    (async () => {
-      try {
-        let t: string | null = null;
-        if (typeof getAuthToken === "function") {
-          try {
-            t = await getAuthToken();
-          } catch (e) {
-            // ignore
-          }
-        }
-        if (!t) {
-          const raw = await SecureStore.getItemAsync("auth");
-          if (raw) {
-            try {
-              const auth = JSON.parse(raw);
-              t = auth?.token ?? auth?.accessToken ?? auth?.access_token ?? null;
-            } catch {}
-          }
-        }
-        if (t) setToken(String(t));
-      } catch (e) {
-        console.warn("bootstrap token failed:", e);
-      } finally {
-        setTokenReady(true); // penting: menandai selesai bootstrap, walau token null
-      }
-    })();
-  }, []);
+  const signal = useUnmountSignal();
 
   const fetchPortfolio = useCallback(async () => {
     if (!id) {
@@ -124,79 +82,9 @@ export default function PortfolioDetail() {
     }
 
     setLoading(true);
-    const url = `${API}/portfolios/${encodeURIComponent(String(id))}`;
-
-    async function doReq(useAuth: boolean) {
-      const headers: Record<string, string> = { Accept: "application/json" };
-      if (useAuth && token) headers.Authorization = `Bearer ${token}`;
-
-      console.log("[PORTFOLIO] GET", url, "useAuth:", useAuth, "headers:", Object.keys(headers));
-      const res = await fetch(url, { headers, cache: "no-store" });
-      const text = await res.text();
-      const ct = res.headers.get("content-type") || "";
-
-      if (!res.ok) {
-        // 401 -> sesi bermasalah
-        if (res.status === 401) {
-          let parsed = null;
-          try { parsed = JSON.parse(text); } catch {}
-          const msg = parsed?.message ?? "Unauthenticated.";
-          const err: any = new Error(msg);
-          err.status = 401;
-          throw err;
-        }
-
-        console.warn("GET /portfolios/:id failed", { status: res.status, ct, body: text.slice(0, 400) });
-        let msg: string | undefined;
-        try { msg = JSON.parse(text)?.message; } catch {}
-        const err: any = new Error(msg || `HTTP ${res.status}`);
-        err.status = res.status;
-        throw err;
-      }
-
-      if (!ct.includes("application/json")) {
-        const snippet = text ? text.slice(0, 400) : "";
-        const err: any = new Error(`Response bukan JSON: ${snippet}`);
-        err.status = res.status;
-        throw err;
-      }
-
-      try {
-        return JSON.parse(text);
-      } catch {
-        const err: any = new Error("Gagal parse JSON.");
-        err.status = res.status;
-        throw err;
-      }
-    }
 
     try {
-      // hanya panggil setelah tokenReady agar tidak terjadi request prematur
-      // caller memastikan tokenReady; tapi double-check
-      let json: any;
-      if (token) {
-        try {
-          json = await doReq(true);
-        } catch (e: any) {
-          if (e?.status === 401) {
-            // token expired / invalid -> hapus auth dan redirect ke login
-            await SecureStore.deleteItemAsync("auth").catch(() => {});
-            Alert.alert("Sesi Berakhir", "Sesi Anda kadaluarsa. Silakan login kembali.", [
-              { text: "Login", onPress: () => router.replace("/(auth)/login") },
-            ]);
-            setItem(null);
-            setLoading(false);
-            return;
-          } else {
-            // coba fallback tanpa auth (resource publik)
-            json = await doReq(false);
-          }
-        }
-      } else {
-        json = await doReq(false);
-      }
-
-      const data: Portfolio = json?.data ?? json;
+      const data = await api.portfolio.get(id, { signal: signal() });
       if (!data || typeof data !== "object" || typeof data.id === "undefined") {
         throw new Error("Data portofolio tidak valid.");
       }
@@ -210,26 +98,21 @@ export default function PortfolioDetail() {
         } catch {}
       }, 0);
     } catch (e: any) {
-      if (e?.status === 401) {
-        // di-handle di atas, fallback juga
-        Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-          { text: "Login", onPress: () => router.replace("/(auth)/login") },
-        ]);
-      } else {
+      if (isAbortError(e)) return;
+      // token expired / invalid -> ditangani global (refresh / sesi berakhir)
+      if (!isUnauthorized(e)) {
         Alert.alert("Gagal", e?.message || "Tidak bisa memuat portofolio.");
-        console.warn("fetchPortfolio error:", e);
+        log.warn("fetchPortfolio error:", e);
       }
       setItem(null);
     } finally {
       setLoading(false);
     }
-  }, [id, token, router]);
+  }, [id, router, signal]);
 
-  // panggil fetch hanya saat tokenReady (tidak prematur)
   useEffect(() => {
-    if (!tokenReady) return;
     fetchPortfolio();
-  }, [tokenReady, fetchPortfolio]);
+  }, [fetchPortfolio]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
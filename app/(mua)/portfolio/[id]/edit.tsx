@@ -6,33 +6,27 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
 import * as ImagePicker from "expo-image-picker";
 import * as ImageManipulator from "expo-image-manipulator";
-// optional helper (if exists in your project)
-import { getAuthToken } from "../../../../utils/authStorage";
+import FieldError from "../../../../components/FieldError";
+import { api, assetUrl, isUnauthorized } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { invalidateQueries } from "../../../../lib/query";
+import { useFieldErrors } from "../../../../lib/formErrors";
+import type { Portfolio } from "../../../../lib/types";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("PORTFOLIO");
 
-const API = "https://smstudio.my.id/api";
-const BASE = API.replace(/\/api$/, "");
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const TEXT_MUTED = "#6B7280";
 
-type Portfolio = {
-  id: number | string;
-  mua_id?: string;
-  name?: string;
-  photos?: string[] | null;
-  makeup_type?: string | null;
-  collaboration?: string | null;
-  created_at?: string | null;
-  updated_at?: string | null;
-};
-
 type LocalImage = { uri: string; name: string; type: string };
 
-function isHttp(s?: string) { return !!s && (/^https?:\/\//i.test(s) || s.startsWith("/storage/")); }
-function toFullUrl(u: string) { return u.startsWith("/storage/") ? `${BASE}${u}` : u; }
+function photoList(p?: Portfolio | null): string[] {
+  return Array.isArray(p?.photos) ? (p.photos.filter(Boolean) as string[]) : [];
+}
 
 /** Kompres ringan agar upload bersahabat */
 async function compressImage(uri: string): Promise<LocalImage> {
@@ -44,45 +38,13 @@ async function compressImage(uri: string): Promise<LocalImage> {
   return { uri: out.uri, name: `photo_${Date.now()}.jpg`, type: "image/jpeg" };
 }
 
-/** Helper fetch yang memastikan JSON dan pesan error yang aman */
-async function fetchJsonChecked(url: string, opts: RequestInit = {}) {
-  const res = await fetch(url, opts);
-  const text = await res.text();
-  const ct = res.headers.get("content-type") || "";
-
-  if (!ct.includes("application/json")) {
-    const snippet = text ? text.slice(0, 400) : "";
-    const e: any = new Error(`Response bukan JSON: ${snippet}`);
-    e.status = res.status;
-    throw e;
-  }
-
-  let json: any;
-  try {
-    json = JSON.parse(text);
-  } catch {
-    const e: any = new Error("Gagal parsing JSON dari server.");
-    e.status = res.status;
-    throw e;
-  }
-
-  if (!res.ok) {
-    const msg = json?.message || json?.error || `HTTP ${res.status}`;
-    const e: any = new Error(msg);
-    e.status = res.status;
-    throw e;
-  }
-
-  return json;
-}
-
 export default function PortfolioEdit() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id?: string }>();
 
-  // auth
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
+  // auth: sesi dijamin SessionGuard (mua); tunggu status signedIn sebelum fetch
+  const { status: authStatus } = useAuth();
+  const signedIn = authStatus === "signedIn";
 
   // loading flags
   const [loading, setLoading] = useState(true);
@@ -95,36 +57,11 @@ export default function PortfolioEdit() {
 
   const [serverPhotos, setServerPhotos] = useState<string[]>([]);
   const [localImages, setLocalImages] = useState<LocalImage[]>([]);
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
 
-  // bootstrap token: try getAuthToken() first then SecureStore
+  // fetch portfolio (tunggu sesi siap supaya tidak request tanpa auth)
   useEffect(() => {
-    (async () => {
-      try {
-        let t: string | null = null;
-        if (typeof getAuthToken === "function") {
-          try { t = await getAuthToken(); } catch {}
-        }
-        if (!t) {
-          const raw = await SecureStore.getItemAsync("auth");
-          if (raw) {
-            try {
-              const auth = JSON.parse(raw);
-              t = auth?.token ?? auth?.accessToken ?? auth?.access_token ?? null;
-            } catch {}
-          }
-        }
-        if (t) setToken(String(t));
-      } catch (e) {
-        console.warn("bootstrap token failed:", e);
-      } finally {
-        setTokenReady(true);
-      }
-    })();
-  }, []);
-
-  // fetch portfolio (wait tokenReady to avoid premature unauthenticated requests)
-  useEffect(() => {
-    if (!tokenReady) return;
+    if (!signedIn) return;
     if (!id) {
       setLoading(false);
       return;
@@ -133,45 +70,21 @@ export default function PortfolioEdit() {
     (async () => {
       setLoading(true);
       try {
-        const url = `${API}/portfolios/${encodeURIComponent(String(id))}`;
-        const headers: Record<string, string> = { Accept: "application/json" };
-        if (token) headers.Authorization = `Bearer ${token}`;
-
-        // try with token (if present), fallback without token for public resources
-        try {
-          const json = await fetchJsonChecked(url, { headers });
-          const p: Portfolio = json?.data ?? json;
-          setName(p?.name ?? "");
-          setMakeupType(p?.makeup_type ?? "");
-          setCollab(p?.collaboration ?? "");
-          setServerPhotos(Array.isArray(p?.photos) ? p.photos.filter(Boolean) as string[] : []);
-        } catch (e: any) {
-          if (e?.status === 401) {
-            // session expired — clear auth, force login
-            await SecureStore.deleteItemAsync("auth").catch(()=>{});
-            Alert.alert("Sesi Berakhir", "Silakan login kembali.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-            return;
-          }
-          // fallback: try unauthenticated GET (in case resource is public)
-          try {
-            const json = await fetchJsonChecked(`${API}/portfolios/${encodeURIComponent(String(id))}`, { headers: { Accept: "application/json" } });
-            const p: Portfolio = json?.data ?? json;
-            setName(p?.name ?? "");
-            setMakeupType(p?.makeup_type ?? "");
-            setCollab(p?.collaboration ?? "");
-            setServerPhotos(Array.isArray(p?.photos) ? p.photos.filter(Boolean) as string[] : []);
-          } catch (err) {
-            throw err;
-          }
-        }
+        const p = await api.portfolio.get(id);
+        setName(p?.name ?? "");
+        setMakeupType(p?.makeup_type ?? "");
+        setCollab(p?.collaboration ?? "");
+        setServerPhotos(photoList(p));
       } catch (e: any) {
-        console.warn("Failed to load portfolio:", e);
+        // session expired — ditangani global oleh lib/api
+        if (isUnauthorized(e)) return;
+        log.warn("Failed to load portfolio:", e);
         Alert.alert("Gagal", e?.message || "Tidak bisa memuat portofolio.");
       } finally {
         setLoading(false);
       }
     })();
-  }, [id, token, tokenReady, router]);
+  }, [id, signedIn]);
 
   // pick images
   const pickImages = useCallback(async () => {
@@ -198,7 +111,7 @@ export default function PortfolioEdit() {
 
       setLocalImages(prev => [...prev, ...mapped].slice(0, 50));
     } catch (e: any) {
-      console.warn("pickImages error:", e);
+      log.warn("pickImages error:", e);
       Alert.alert("Gagal", "Tidak dapat memilih gambar.");
     }
   }, []);
@@ -215,15 +128,17 @@ export default function PortfolioEdit() {
 
   // SIMPAN: kirim field + (URL foto yang dipertahankan) + file baru sekaligus
   async function saveAll() {
+    clearError();
     try {
       if (!id) throw new Error("ID portofolio tidak valid.");
-      if (!token) throw new Error("Sesi tidak valid. Silakan login ulang.");
-      if (!name.trim()) throw new Error("Nama portofolio wajib diisi.");
+      if (!name.trim()) {
+        setErrors({ name: "Nama portofolio wajib diisi." });
+        return;
+      }
 
       setSaving(true);
 
       const fd = new FormData();
-      (fd as any).append("_method", "PATCH"); // Laravel expects POST+_method
       (fd as any).append("name", name.trim());
       (fd as any).append("makeup_type", makeupType.trim());
       (fd as any).append("collaboration", collab.trim());
@@ -241,36 +156,15 @@ export default function PortfolioEdit() {
         } as any);
       }
 
-      const res = await fetch(`${API}/portfolios/${encodeURIComponent(String(id))}`, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${token}`,
-          // Jangan set "Content-Type" — fetch akan atur multipart boundary otomatis
-        },
-        body: fd as any,
-      });
-
-      // parse safe
-      const text = await res.text();
-      const ct = res.headers.get("content-type") || "";
-      if (!ct.includes("application/json")) {
-        const snippet = text ? text.slice(0, 500) : "";
-        throw new Error(`Response bukan JSON: ${snippet}`);
-      }
-      const j = JSON.parse(text);
-
-      if (!res.ok) {
-        const msg = j?.message || j?.error || `Gagal menyimpan (status ${res.status})`;
-        throw new Error(msg);
-      }
-
-      const updated: Portfolio = j?.data ?? j;
-      setServerPhotos(Array.isArray(updated?.photos) ? updated.photos.filter(Boolean) as string[] : []);
+      const updated = await api.portfolio.update(id, fd);
+      invalidateQueries("/portfolios");
+      setServerPhotos(photoList(updated));
       setLocalImages([]);
       Alert.alert("Berhasil", "Perubahan disimpan.", [{ text: "OK", onPress: () => router.back() }]);
     } catch (e: any) {
-      console.warn("saveAll error:", e);
+      log.warn("saveAll error:", e);
+      // 422 → error per field di bawah input
+      if (applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan perubahan.");
     } finally {
       setSaving(false);
@@ -303,30 +197,42 @@ export default function PortfolioEdit() {
           <Text style={styles.label}>Nama *</Text>
           <TextInput
             value={name}
-            onChangeText={setName}
+            onChangeText={(t) => {
+              setName(t);
+              clearError("name");
+            }}
             placeholder="Contoh: Bridal Natural"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.name && styles.inputError]}
           />
+          <FieldError message={errors.name} />
 
           <Text style={[styles.label, { marginTop: 10 }]}>Tipe Make Up (opsional)</Text>
           <TextInput
             value={makeupType}
-            onChangeText={setMakeupType}
+            onChangeText={(t) => {
+              setMakeupType(t);
+              clearError("makeup_type");
+            }}
             placeholder="graduation / party / bridal / sfx"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.makeup_type && styles.inputError]}
             autoCapitalize="none"
           />
+          <FieldError message={errors.makeup_type} />
 
           <Text style={[styles.label, { marginTop: 10 }]}>Kolaborasi (opsional)</Text>
           <TextInput
             value={collab}
-            onChangeText={setCollab}
+            onChangeText={(t) => {
+              setCollab(t);
+              clearError("collaboration");
+            }}
             placeholder="Nama partner/brand"
             placeholderTextColor="#9CA3AF"
-            style={styles.input}
+            style={[styles.input, !!errors.collaboration && styles.inputError]}
           />
+          <FieldError message={errors.collaboration} />
 
           {/* Foto dari server */}
           <Text style={[styles.label, { marginTop: 14 }]}>Foto Saat Ini</Text>
@@ -335,7 +241,7 @@ export default function PortfolioEdit() {
               {serverPhotos.map((p, idx) => (
                 <View key={`${p}-${idx}`}>
                   <Image
-                    source={{ uri: isHttp(p) ? toFullUrl(p) : p }}
+                    source={{ uri: assetUrl(p) ?? p }}
                     style={{ width: "100%", height: 180, borderRadius: 10, backgroundColor: "#f3f4f6" }}
                     resizeMode="cover"
                   />
@@ -377,6 +283,7 @@ export default function PortfolioEdit() {
           ) : (
             <Text style={{ color: TEXT_MUTED, marginTop: 6 }}>Belum ada foto baru.</Text>
           )}
+          <FieldError message={errors.photos} />
         </View>
       </ScrollView>
 
@@ -408,6 +315,7 @@ const styles = StyleSheet.create({
     borderWidth:1, borderColor:BORDER, borderRadius:10, paddingHorizontal:12, height:44,
     backgroundColor:"#fff", color:"#111"
   },
+  inputError:{ borderColor:"#DC2626" },
 
   addLineBtn:{
     marginTop:6, alignSelf:"flex-start", flexDirection:"row", alignItems:"center",
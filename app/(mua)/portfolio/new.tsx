@@ -1,27 +1,28 @@
 // app/(mua)/portfolios/new.tsx
-import React, { useEffect, useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo } from "react";
 import {
   View, Text, StyleSheet, ScrollView, TextInput,
   TouchableOpacity, Alert, ActivityIndicator, Platform, Image
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
 import * as ImagePicker from "expo-image-picker";
 import * as ImageManipulator from "expo-image-manipulator";
+import FieldError from "../../../components/FieldError";
+import { api, isUnauthorized } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { invalidateQueries } from "../../../lib/query";
+import { useFieldErrors } from "../../../lib/formErrors";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("PORTFOLIO");
 
-const API = "https://smstudio.my.id/api";
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const MUTED = "#6B7280";
 
-type Me = { id?: string; profile?: { id?: string } };
 type LocalImage = { uri: string; name: string; type: string };
 
-function uuidLike() {
-  return Math.random().toString(36).slice(2) + Date.now().toString(36);
-}
-
 async function compressToJpeg(uri: string): Promise<LocalImage> {
   const out = await ImageManipulator.manipulateAsync(
     uri,
@@ -31,73 +32,11 @@ async function compressToJpeg(uri: string): Promise<LocalImage> {
   return { uri: out.uri, name: `photo_${Date.now()}.jpg`, type: "image/jpeg" };
 }
 
-/** Small helper: read token/profile robustly from SecureStore */
-async function bootstrapAuth(): Promise<{ token: string | null; profileId: string | null }> {
-  // try multiple keys / shapes
-  try {
-    // 1. try legacy "auth" key (object or plain)
-    const raw = await SecureStore.getItemAsync("auth").catch(() => null);
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw);
-        const token = parsed?.token ?? parsed?.access_token ?? parsed?.accessToken ?? null;
-        const profileId = parsed?.profile?.id ?? parsed?.user?.id ?? parsed?.profile_id ?? null;
-        if (token || profileId) return { token: token ? String(token) : null, profileId: profileId ? String(profileId) : null };
-      } catch {
-        // raw might be plain token string
-        if (typeof raw === "string" && raw.length > 10) {
-          return { token: raw, profileId: null };
-        }
-      }
-    }
-
-    // 2. try separate token key
-    const t2 = await SecureStore.getItemAsync("auth_token").catch(() => null);
-    if (t2) return { token: t2, profileId: null };
-
-    const t3 = await SecureStore.getItemAsync("token").catch(() => null);
-    if (t3) return { token: t3, profileId: null };
-
-    // fallback none
-    return { token: null, profileId: null };
-  } catch {
-    return { token: null, profileId: null };
-  }
-}
-
-/** Fetch JSON helper that gives clearer error when response is not JSON (redirect/html) */
-async function fetchJsonOrThrow(url: string, opts: RequestInit = {}) {
-  const res = await fetch(url, { ...opts, headers: { Accept: "application/json", ...(opts.headers || {}) } });
-  const ct = res.headers.get("content-type") || "";
-  const text = await res.text();
-  if (!ct.includes("application/json")) {
-    const snippet = (text || "").slice(0, 300).replace(/\s+/g, " ");
-    const err: any = new Error(`Expected JSON response from ${url} — got: ${snippet}`);
-    err.status = res.status;
-    throw err;
-  }
-  let json: any;
-  try {
-    json = JSON.parse(text);
-  } catch {
-    const err: any = new Error(`Invalid JSON response from ${url}`);
-    err.status = res.status;
-    throw err;
-  }
-  if (!res.ok) {
-    const msg = json?.message ?? json?.error ?? `HTTP ${res.status}`;
-    const err: any = new Error(msg);
-    err.status = res.status;
-    throw err;
-  }
-  return json;
-}
-
 export default function PortfolioCreate() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [muaId, setMuaId] = useState<string | null>(null);
+  // mua_id = id profil MUA yang login
+  const { status: authStatus, profileId: muaId } = useAuth();
 
   // form
   const [name, setName] = useState("");
@@ -105,51 +44,8 @@ export default function PortfolioCreate() {
   const [collab, setCollab] = useState("");
   const [images, setImages] = useState<LocalImage[]>([]);
   const [saving, setSaving] = useState(false);
-  const [booting, setBooting] = useState(true);
-
-  // bootstrap once
-  useEffect(() => {
-    let mounted = true;
-    (async () => {
-      setBooting(true);
-      try {
-        const { token: t, profileId } = await bootstrapAuth();
-        if (!mounted) return;
-        setToken(t);
-        if (profileId) {
-          setMuaId(profileId);
-          setBooting(false);
-          return;
-        }
-        // if no profileId but we have token, call /auth/me
-        if (t) {
-          try {
-            const json = await fetchJsonOrThrow(`${API}/auth/me`, {
-              headers: { Authorization: `Bearer ${t}` },
-            });
-            if (!mounted) return;
-            const me = json?.data ?? json;
-            const pid = me?.profile?.id ?? me?.id ?? null;
-            if (pid) setMuaId(String(pid));
-          } catch (e: any) {
-            // token invalid or server returned html (redirect) -> force user to login
-            console.warn("bootstrap /auth/me failed:", e?.message || e);
-            if (e?.status === 401) {
-              // delete stored auth and redirect
-              await SecureStore.deleteItemAsync("auth").catch(() => {});
-              Alert.alert("Sesi berakhir", "Silakan login kembali.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-            } else {
-              // non-401: show but allow form to continue (user can still submit if they have token)
-              Alert.alert("Info", "Tidak dapat memverifikasi profil. Jika masalah berlanjut, login ulang.");
-            }
-          }
-        }
-      } finally {
-        if (mounted) setBooting(false);
-      }
-    })();
-    return () => { mounted = false; };
-  }, [router]);
+  const booting = authStatus === "loading";
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
 
   const pickImages = useCallback(async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -183,9 +79,13 @@ export default function PortfolioCreate() {
   const canSubmit = useMemo(() => name.trim().length > 0, [name]);
 
   async function submit() {
+    clearError();
     try {
       if (!muaId) throw new Error("Akun MUA tidak dikenali. Pastikan Anda sudah login.");
-      if (!name.trim()) throw new Error("Nama portofolio wajib diisi.");
+      if (!name.trim()) {
+        setErrors({ name: "Nama portofolio wajib diisi." });
+        return;
+      }
 
       setSaving(true);
 
@@ -205,38 +105,16 @@ export default function PortfolioCreate() {
         } as any);
       }
 
-      const reqId = uuidLike();
-      const res = await fetch(`${API}/portfolios`, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          "X-Req-Id": reqId,
-        },
-        body: fd as any,
-      });
-
-      const text = await res.text();
-      let json: any = null;
-      try { json = JSON.parse(text); } catch {}
-
-      if (!res.ok) {
-        // if HTML returned, include snippet
-        const snippet = (!json && text) ? text.slice(0, 300).replace(/\s+/g, " ") : undefined;
-        const msg = json?.message || json?.error || snippet || `Gagal menyimpan (status ${res.status})`;
-        if (res.status === 401) {
-          // force logout
-          await SecureStore.deleteItemAsync("auth").catch(() => {});
-          Alert.alert("Sesi berakhir", "Silakan login ulang.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-          return;
-        }
-        throw new Error(msg);
-      }
+      await api.portfolio.create(fd);
+      invalidateQueries("/portfolios");
 
       Alert.alert("Berhasil", "Portofolio berhasil dibuat.", [
-        { text: "OK", onPress: () => router.replace("/(mua)") },
+        { text: "OK", onPress: () => (router.canGoBack() ? router.back() : router.replace("/(mua)")) },
       ]);
     } catch (e: any) {
+      if (isUnauthorized(e)) return;
+      // 422 → error per field di bawah input
+      if (applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Terjadi kesalahan.");
     } finally {
       setSaving(false);
@@ -259,28 +137,40 @@ export default function PortfolioCreate() {
 
         <Text style={styles.label}>Nama</Text>
         <TextInput
-          style={styles.input}
+          style={[styles.input, !!errors.name && styles.inputError]}
           placeholder="Contoh: Bridal Natural"
           value={name}
-          onChangeText={setName}
+          onChangeText={(t) => {
+            setName(t);
+            clearError("name");
+          }}
         />
+        <FieldError message={errors.name} />
 
         <Text style={styles.label}>Tipe Make Up (opsional)</Text>
         <TextInput
-          style={styles.input}
+          style={[styles.input, !!errors.makeup_type && styles.inputError]}
           placeholder="graduation / party / bridal / sfx"
           value={makeupType}
-          onChangeText={setMakeupType}
+          onChangeText={(t) => {
+            setMakeupType(t);
+            clearError("makeup_type");
+          }}
           autoCapitalize="none"
         />
+        <FieldError message={errors.makeup_type} />
 
         <Text style={styles.label}>Kolaborasi (opsional)</Text>
         <TextInput
-          style={styles.input}
+          style={[styles.input, !!errors.collaboration && styles.inputError]}
           placeholder="Nama partner/brand"
           value={collab}
-          onChangeText={setCollab}
+          onChangeText={(t) => {
+            setCollab(t);
+            clearError("collaboration");
+          }}
         />
+        <FieldError message={errors.collaboration} />
 
         <Text style={[styles.label, { marginBottom: 6 }]}>Foto</Text>
         <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
@@ -304,6 +194,7 @@ export default function PortfolioCreate() {
         ) : (
           <Text style={{ color: MUTED, marginTop: 6 }}>Belum ada foto dipilih.</Text>
         )}
+        <FieldError message={errors.photos} />
 
         <TouchableOpacity
           style={[styles.primaryBtn, (!canSubmit || saving) && { opacity: 0.6 }]}
@@ -330,6 +221,7 @@ const styles = StyleSheet.create({
     backgroundColor: "#fff",
     color: "#111",
   },
+  inputError: { borderColor: "#DC2626" },
   primaryBtn: {
     marginTop: 16,
     height: 50,
@@ -5,30 +5,20 @@ import {
   Alert, ScrollView, Platform, Image
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import * as SecureStore from "expo-secure-store";
 import * as ImagePicker from "expo-image-picker";
 import { useRouter } from "expo-router";
 
-// optional helper in your project (if exists). If not present, ignore.
-import { getAuthToken } from "../../../utils/authStorage";
-
-type Me = {
-  id?: string;
-  name?: string;
-  profile?: {
-    id?: string;
-    name?: string;
-    phone?: string | null;
-    address?: string | null;
-    bio?: string | null;
-    photo_url?: string | null;
-  };
-};
-
-const API_BASE = "https://smstudio.my.id/api";
-const API_ME = `${API_BASE}/auth/me`;
-const API_PROFILE = `${API_BASE}/auth/profile`;
-const API_LOGOUT = `${API_BASE}/auth/logout`;
+import ContactVerificationCard from "../../../components/ContactVerificationCard";
+import SessionsLink from "../../../components/SessionsLink";
+import FieldError from "../../../components/FieldError";
+import { api, isUnauthorized } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { invalidateQueries } from "../../../lib/query";
+import { useFieldErrors } from "../../../lib/formErrors";
+import { alertProfileSaved, isPhoneChanged } from "../../../lib/verification";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("PROFILE");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
@@ -38,45 +28,10 @@ const MUTED = "#6B7280";
 const PickerMediaType: any =
   (ImagePicker as any).MediaType ?? (ImagePicker as any).MediaTypeOptions;
 
-/** Helper: parse JSON safely and throw nice errors; also return parsed object */
-async function fetchJsonChecked(url: string, opts: RequestInit = {}) {
-  const res = await fetch(url, opts);
-  const text = await res.text();
-  const ct = res.headers.get("content-type") || "";
-
-  // If server returned non-JSON (HTML error page), throw snippet
-  if (!ct.includes("application/json")) {
-    const snippet = text ? text.slice(0, 800) : "";
-    const err: any = new Error(`Response bukan JSON: ${snippet}`);
-    err.status = res.status;
-    throw err;
-  }
-
-  let json: any;
-  try {
-    json = JSON.parse(text);
-  } catch {
-    const err: any = new Error("Gagal parse JSON dari server.");
-    err.status = res.status;
-    throw err;
-  }
-
-  if (!res.ok) {
-    const msg = json?.message || json?.error || `HTTP ${res.status}`;
-    const err: any = new Error(msg);
-    err.status = res.status;
-    err.payload = json;
-    throw err;
-  }
-
-  return json;
-}
-
 export default function SettingsScreen() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
-  const [tokenReady, setTokenReady] = useState(false);
+  const { status, user, logout, refreshProfile, updateProfileLocally } = useAuth();
 
   // form
   const [name, setName] = useState("");
@@ -91,13 +46,11 @@ export default function SettingsScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const { errors, apply: applyFieldErrors, clear: clearError } = useFieldErrors();
 
   const mounted = useRef(true);
   useEffect(() => { mounted.current = true; return () => { mounted.current = false; }; }, []);
 
-  // authHeaders memo
-  const authHeaders = useMemo(() => (token ? { Authorization: `Bearer ${token}` } : undefined), [token]);
-
   function guessMimeFromUri(uri: string) {
     const lower = uri.split("?")[0].toLowerCase();
     if (lower.endsWith(".jpg") || lower.endsWith(".jpeg")) return "image/jpeg";
@@ -116,52 +69,22 @@ export default function SettingsScreen() {
     return `${name}.${ext}`;
   }
 
-  // STEP 1: bootstrap token (try getAuthToken(), fallback SecureStore)
-  useEffect(() => {
-    (async () => {
-      try {
-        let t: string | null = null;
-        if (typeof getAuthToken === "function") {
-          try { t = await getAuthToken(); } catch (e) { /* ignore */ }
-        }
-        if (!t) {
-          const raw = await SecureStore.getItemAsync("auth");
-          if (raw) {
-            try {
-              const auth = JSON.parse(raw);
-              t = auth?.token ?? auth?.accessToken ?? auth?.access_token ?? null;
-            } catch {}
-          }
-        }
-        if (t) setToken(String(t));
-      } catch (e) {
-        console.warn("bootstrap token failed", e);
-      } finally {
-        setTokenReady(true);
-      }
-    })();
-  }, []);
-
-  // STEP 2: load profile (wait until tokenReady)
+  // load profile (tunggu status sesi terbaca)
   useEffect(() => {
-    if (!tokenReady) return;
+    if (status === "loading") return;
 
-    // If no token, treat as unauthenticated — show empty form and stop loading
-    if (!token) {
+    // If no session, treat as unauthenticated — show empty form and stop loading
+    if (status !== "signedIn") {
       setLoading(false);
       return;
     }
 
-    const ctrl = new AbortController();
     (async () => {
       setLoading(true);
       try {
-        const json = await fetchJsonChecked(API_ME, { headers: { Accept: "application/json", ...(authHeaders || {}) }, signal: ctrl.signal });
-        // api may return { data: { ... } } or the object directly
-        const payload = json?.data ?? json;
-        const me: Me = payload;
+        const me = await refreshProfile();
 
-        if (!mounted.current) return;
+        if (!mounted.current || !me) return;
 
         setName(me?.profile?.name ?? me?.name ?? "");
         setPhone(me?.profile?.phone ?? "");
@@ -170,24 +93,15 @@ export default function SettingsScreen() {
         const url = me?.profile?.photo_url ?? "";
         setServerPhotoUrl(url && url !== "null" && url !== "undefined" ? url : "");
       } catch (e: any) {
-        // handle unauthorized separately
-        if (e?.status === 401) {
-          // clear auth and force login
-          await SecureStore.deleteItemAsync("auth").catch(() => {});
-          Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-            { text: "OK", onPress: () => router.replace("/(auth)/login") },
-          ]);
-          return;
-        }
-        console.warn("Load profile failed:", e?.message ?? e);
+        // 401 sudah ditangani global (refresh / sesi berakhir)
+        if (isUnauthorized(e)) return;
+        log.warn("Load profile failed:", e?.message ?? e);
         Alert.alert("Gagal memuat profil", e?.message || "Periksa koneksi atau coba lagi.");
       } finally {
         mounted.current && setLoading(false);
       }
     })();
-
-    return () => ctrl.abort();
-  }, [tokenReady, token, authHeaders, router]);
+  }, [status, refreshProfile]);
 
   // PILIH FOTO
   async function onPickPhoto() {
@@ -214,7 +128,7 @@ export default function SettingsScreen() {
 
       setPhotoAsset({ uri, name, type: mime });
     } catch (e: any) {
-      console.warn("onPickPhoto error:", e);
+      log.warn("onPickPhoto error:", e);
       Alert.alert("Gagal", e?.message || "Tidak bisa membuka galeri");
     }
   }
@@ -222,7 +136,7 @@ export default function SettingsScreen() {
   // SIMPAN (multipart + _method=PATCH)
   async function onSave() {
     try {
-      if (!token) {
+      if (status !== "signedIn") {
         Alert.alert("Butuh Login", "Silakan login untuk memperbarui profil.");
         return;
       }
@@ -230,7 +144,6 @@ export default function SettingsScreen() {
       setSaving(true);
 
       const fd = new FormData();
-      fd.append("_method", "PATCH");
       if (name) fd.append("name", name);
       if (phone) fd.append("phone", phone);
       if (address) fd.append("address", address);
@@ -244,35 +157,8 @@ export default function SettingsScreen() {
         } as any);
       }
 
-      const res = await fetch(API_PROFILE, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          Authorization: `Bearer ${token}`,
-          // DON'T set Content-Type — let fetch set multipart boundary
-        },
-        body: fd as any,
-      });
-
-      // parse safely
-      const text = await res.text();
-      const ct = res.headers.get("content-type") || "";
-      let json: any = {};
-      try { json = ct.includes("application/json") ? JSON.parse(text) : {}; } catch { json = {}; }
-
-      if (!res.ok) {
-        // handle 401
-        if (res.status === 401) {
-          await SecureStore.deleteItemAsync("auth").catch(() => {});
-          Alert.alert("Sesi berakhir", "Silakan login kembali.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
-          return;
-        }
-        const firstErr =
-          (json?.errors && (Object.values(json.errors)[0] as any)?.[0]) ||
-          json?.message ||
-          `HTTP ${res.status}`;
-        throw new Error(firstErr);
-      }
+      const json = await api.profile.update(fd);
+      invalidateQueries("/auth/me");
 
       // success: update UI & local cache
       const newUrl = json?.profile?.photo_url ?? json?.photo_url;
@@ -281,21 +167,23 @@ export default function SettingsScreen() {
         setPhotoAsset(null);
       }
 
-      try {
-        const raw = await SecureStore.getItemAsync("auth");
-        if (raw) {
-          const auth = JSON.parse(raw);
-          if (auth?.user) auth.user.name = name;
-          if (auth?.profile) auth.profile.name = name;
-          await SecureStore.setItemAsync("auth", JSON.stringify(auth));
-        }
-      } catch (e) {
-        console.warn("update auth cache failed", e);
-      }
+      const phoneChanged = isPhoneChanged(user, phone);
+      updateProfileLocally({
+        name,
+        phone,
+        address,
+        bio,
+        ...(newUrl ? { photo_url: newUrl } : {}),
+        ...(phoneChanged ? { phone_verified_at: json?.profile?.phone_verified_at ?? null } : {}),
+      });
 
-      Alert.alert("Sukses", "Profil berhasil diperbarui.");
+      alertProfileSaved(router, phoneChanged);
     } catch (e: any) {
-      console.warn("Save profile failed:", e);
+      // 401 sudah ditangani global (refresh / sesi berakhir)
+      if (isUnauthorized(e)) return;
+      log.warn("Save profile failed:", e);
+      // 422 → error per field di bawah input
+      if (applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan profil.");
     } finally {
       setSaving(false);
@@ -305,13 +193,7 @@ export default function SettingsScreen() {
   async function onLogout() {
     try {
       setLoggingOut(true);
-      try {
-        await fetch(`${API_LOGOUT}?all=true`, {
-          method: "POST",
-          headers: { Accept: "application/json", ...(authHeaders || {}) },
-        });
-      } catch {}
-      await SecureStore.deleteItemAsync("auth").catch(() => {});
+      await logout();
       router.replace("/(auth)/login");
     } finally {
       setLoggingOut(false);
@@ -332,17 +214,24 @@ export default function SettingsScreen() {
       <Text style={styles.title}>Settings</Text>
       <Text style={styles.caption}>Ubah profil Anda atau keluar dari akun.</Text>
 
+      <ContactVerificationCard style={styles.contactCard} />
+      <SessionsLink style={styles.contactCard} />
+
       <Text style={styles.label}>Nama</Text>
-      <TextInput value={name} onChangeText={setName} style={styles.input} placeholder="Nama" placeholderTextColor={MUTED} />
+      <TextInput value={name} onChangeText={(t) => { setName(t); clearError("name"); }} style={[styles.input, !!errors.name && styles.inputError]} placeholder="Nama" placeholderTextColor={MUTED} />
+      <FieldError message={errors.name} style={styles.fieldError} />
 
       <Text style={styles.label}>No. HP</Text>
-      <TextInput value={phone} onChangeText={setPhone} style={styles.input} keyboardType="phone-pad" placeholder="0812xxxxxxx" placeholderTextColor={MUTED} />
+      <TextInput value={phone} onChangeText={(t) => { setPhone(t); clearError("phone"); }} style={[styles.input, !!errors.phone && styles.inputError]} keyboardType="phone-pad" placeholder="0812xxxxxxx" placeholderTextColor={MUTED} />
+      <FieldError message={errors.phone} style={styles.fieldError} />
 
       <Text style={styles.label}>Alamat</Text>
-      <TextInput value={address} onChangeText={setAddress} style={styles.input} placeholder="Alamat" placeholderTextColor={MUTED} />
+      <TextInput value={address} onChangeText={(t) => { setAddress(t); clearError("address"); }} style={[styles.input, !!errors.address && styles.inputError]} placeholder="Alamat" placeholderTextColor={MUTED} />
+      <FieldError message={errors.address} style={styles.fieldError} />
 
       <Text style={styles.label}>Bio</Text>
-      <TextInput value={bio} onChangeText={setBio} style={[styles.input, { height: 100, textAlignVertical: "top" }]} placeholder="Tentang Anda" placeholderTextColor={MUTED} multiline />
+      <TextInput value={bio} onChangeText={(t) => { setBio(t); clearError("bio"); }} style={[styles.input, { height: 100, textAlignVertical: "top" }, !!errors.bio && styles.inputError]} placeholder="Tentang Anda" placeholderTextColor={MUTED} multiline />
+      <FieldError message={errors.bio} style={styles.fieldError} />
 
       <Text style={styles.label}>Foto Profil</Text>
 
@@ -362,6 +251,7 @@ export default function SettingsScreen() {
         <Ionicons name="image-outline" size={18} color={PURPLE} />
         <Text style={styles.secondaryText}>{photoAsset ? "Ganti Foto" : "Pilih Foto"}</Text>
       </TouchableOpacity>
+      <FieldError message={errors.photo_url} style={styles.fieldError} />
 
       <TouchableOpacity style={[styles.primaryBtn, saving && { opacity: 0.7 }]} onPress={onSave} disabled={saving}>
         {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryText}>Simpan Perubahan</Text>}
@@ -392,6 +282,9 @@ const styles = StyleSheet.create({
     marginHorizontal: 20, borderWidth: 1, borderColor: BORDER, borderRadius: 12, paddingHorizontal: 12,
     height: 46, color: "#111", backgroundColor: "#fff",
   },
+  inputError: { borderColor: "#DC2626" },
+  fieldError: { marginHorizontal: 20 },
+  contactCard: { marginHorizontal: 20, marginBottom: 6 },
   primaryBtn: {
     marginHorizontal: 20, marginTop: 16, height: 50, borderRadius: 12, backgroundColor: PURPLE,
     alignItems: "center", justifyContent: "center",
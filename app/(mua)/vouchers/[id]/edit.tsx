@@ -0,0 +1,63 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import VoucherForm from "../../../../components/VoucherForm";
+import { api } from "../../../../lib/api";
+import { myVouchersQuery } from "../../../../lib/queries";
+import { invalidateQueries, useQuery } from "../../../../lib/query";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("VOUCHER");
+
+export default function VoucherEdit() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  // tidak ada GET /vouchers/:id; ambil dari daftar milik MUA (biasanya sudah di cache)
+  const vouchers = useQuery(myVouchersQuery());
+  const voucher = vouchers.data?.find((v) => String(v.id) === String(id)) ?? null;
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Edit Kode Promo</Text>
+      </View>
+      {voucher ? (
+        <ScrollView contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+          <VoucherForm
+            key={String(voucher.id)}
+            initial={voucher}
+            submitLabel="Simpan Perubahan"
+            onSubmit={async (payload) => {
+              await api.vouchers.update(voucher.id, payload);
+              invalidateQueries("/vouchers/mine");
+              log.info("voucher updated");
+              router.back();
+            }}
+          />
+        </ScrollView>
+      ) : (
+        <View style={styles.center}>
+          {vouchers.loading ? (
+            <ActivityIndicator color="#AA60C8" />
+          ) : (
+            <Text style={styles.empty}>{vouchers.error ? "Gagal memuat voucher." : "Voucher tidak ditemukan."}</Text>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  header: { flexDirection: "row", alignItems: "center", gap: 8, paddingHorizontal: 16, paddingTop: 8 },
+  backBtn: { padding: 4 },
+  title: { fontSize: 22, fontWeight: "700", color: "#111827" },
+  empty: { color: "#6B7280" },
+});
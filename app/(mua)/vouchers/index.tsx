@@ -0,0 +1,226 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  Switch,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { api } from "../../../lib/api";
+import { myVouchersQuery } from "../../../lib/queries";
+import { setQueryData, useQuery } from "../../../lib/query";
+import type { Voucher } from "../../../lib/types";
+import { describeVoucher, VOUCHER_STATUS_LABELS, voucherStatus, voucherUsageLabel, type VoucherStatus } from "../../../lib/vouchers";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("VOUCHER");
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+const CARD_BG = "#F7F0FF";
+
+const STATUS_COLORS: Record<VoucherStatus, { fg: string; bg: string }> = {
+  active: { fg: "#047857", bg: "#ECFDF5" },
+  inactive: { fg: MUTED, bg: "#F3F4F6" },
+  scheduled: { fg: "#1D4ED8", bg: "#EFF6FF" },
+  expired: { fg: "#B91C1C", bg: "#FEF2F2" },
+  used_up: { fg: "#B45309", bg: "#FFFBEB" },
+};
+
+/* ===== Helpers ===== */
+function periodLabel(v: Voucher) {
+  const fmt = (iso: string) => new Date(iso).toLocaleDateString("id-ID", { day: "numeric", month: "short", year: "numeric" });
+  if (v.starts_at && v.expires_at) return `${fmt(v.starts_at)} – ${fmt(v.expires_at)}`;
+  if (v.expires_at) return `Sampai ${fmt(v.expires_at)}`;
+  if (v.starts_at) return `Mulai ${fmt(v.starts_at)}`;
+  return "Tanpa batas waktu";
+}
+
+export default function VouchersScreen() {
+  const router = useRouter();
+  const vouchers = useQuery(myVouchersQuery());
+  const [busy, setBusy] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await vouchers.refetch();
+    setRefreshing(false);
+  }, [vouchers]);
+
+  const updateLocally = (fn: (list: Voucher[]) => Voucher[]) =>
+    setQueryData<Voucher[]>(myVouchersQuery().key, (prev) => fn(prev ?? []));
+
+  const toggleActive = async (v: Voucher, isActive: boolean) => {
+    setBusy(String(v.id));
+    try {
+      const saved = await api.vouchers.update(v.id, { is_active: isActive });
+      updateLocally((list) => list.map((x) => (x.id === v.id ? { ...x, ...saved } : x)));
+    } catch (e: any) {
+      Alert.alert("Gagal", e?.message || "Tidak dapat mengubah status voucher.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = (v: Voucher) => {
+    if ((v.used_count ?? 0) > 0) {
+      Alert.alert("Tidak bisa dihapus", "Voucher sudah dipakai customer. Nonaktifkan saja supaya tidak bisa dipakai lagi.");
+      return;
+    }
+    Alert.alert("Hapus voucher?", `Kode ${v.code} tidak bisa dipakai lagi setelah dihapus.`, [
+      { text: "Batal", style: "cancel" },
+      {
+        text: "Hapus",
+        style: "destructive",
+        onPress: async () => {
+          setBusy(String(v.id));
+          try {
+            await api.vouchers.delete(v.id);
+            updateLocally((list) => list.filter((x) => x.id !== v.id));
+            log.info("voucher deleted");
+          } catch (e: any) {
+            Alert.alert("Gagal", e?.message || "Tidak dapat menghapus voucher.");
+          } finally {
+            setBusy(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: Voucher }) => {
+    const status = voucherStatus(item);
+    const color = STATUS_COLORS[status];
+    return (
+      <TouchableOpacity
+        style={[styles.card, status === "active" && styles.cardActive]}
+        onPress={() => router.push({ pathname: "/(mua)/vouchers/[id]/edit", params: { id: String(item.id) } })}
+      >
+        <View style={{ flex: 1 }}>
+          <View style={styles.nameRow}>
+            <Text style={styles.code}>{item.code}</Text>
+            <Text style={[styles.statusChip, { color: color.fg, backgroundColor: color.bg }]}>
+              {VOUCHER_STATUS_LABELS[status]}
+            </Text>
+          </View>
+          <Text style={styles.desc}>{describeVoucher(item)}</Text>
+          <Text style={styles.meta}>{periodLabel(item)}</Text>
+          <Text style={styles.meta}>{voucherUsageLabel(item)}</Text>
+        </View>
+        <View style={styles.actions}>
+          {busy === String(item.id) ? (
+            <ActivityIndicator color={PURPLE} />
+          ) : (
+            <Switch
+              value={item.is_active}
+              onValueChange={(v) => toggleActive(item, v)}
+              disabled={!!busy}
+              trackColor={{ false: "#D1D5DB", true: "#D8B4FE" }}
+              thumbColor={item.is_active ? PURPLE : "#f4f3f4"}
+            />
+          )}
+          <TouchableOpacity
+            onPress={() => remove(item)}
+            disabled={!!busy}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel={`Hapus voucher ${item.code}`}
+          >
+            <Ionicons name="trash-outline" size={18} color="#DC2626" />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Kode Promo</Text>
+        <TouchableOpacity style={styles.addBtn} onPress={() => router.push("/(mua)/vouchers/new")}>
+          <Ionicons name="add" size={18} color="#fff" />
+          <Text style={styles.addText}>Buat</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.subtitle}>
+        Customer memasukkan kode ini di ringkasan booking. Potongan hanya berlaku untuk paket Anda.
+      </Text>
+
+      {vouchers.loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator color={PURPLE} />
+        </View>
+      ) : (
+        <FlatList
+          data={vouchers.data ?? []}
+          keyExtractor={(v) => String(v.id)}
+          renderItem={renderItem}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={PURPLE} />}
+          ListEmptyComponent={
+            <Text style={styles.empty}>
+              {vouchers.error ? "Gagal memuat voucher. Tarik untuk mencoba lagi." : "Belum ada kode promo."}
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  header: { flexDirection: "row", alignItems: "center", gap: 8, paddingHorizontal: 16, paddingTop: 8 },
+  backBtn: { padding: 4 },
+  title: { flex: 1, fontSize: 22, fontWeight: "700", color: "#111827" },
+  addBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: PURPLE,
+  },
+  addText: { color: "#fff", fontWeight: "800" },
+  subtitle: { fontSize: 14, color: MUTED, paddingHorizontal: 20, marginTop: 6, marginBottom: 12 },
+  list: { paddingHorizontal: 16, paddingBottom: 32, gap: 10 },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: BORDER,
+  },
+  cardActive: { borderColor: PURPLE, backgroundColor: CARD_BG },
+  nameRow: { flexDirection: "row", alignItems: "center", gap: 6 },
+  code: { fontSize: 15, fontWeight: "800", color: "#111827", letterSpacing: 0.5, flexShrink: 1 },
+  statusChip: {
+    fontSize: 11,
+    fontWeight: "700",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  desc: { fontSize: 13, color: "#111827", marginTop: 4 },
+  meta: { fontSize: 12, color: MUTED, marginTop: 2 },
+  actions: { alignItems: "center", gap: 12 },
+  empty: { textAlign: "center", color: MUTED, marginTop: 32 },
+});
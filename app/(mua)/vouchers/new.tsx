@@ -0,0 +1,44 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import VoucherForm from "../../../components/VoucherForm";
+import { api } from "../../../lib/api";
+import { invalidateQueries } from "../../../lib/query";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("VOUCHER");
+
+export default function VoucherCreate() {
+  const router = useRouter();
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Buat Kode Promo</Text>
+      </View>
+      <ScrollView contentContainerStyle={{ paddingBottom: 40 }} keyboardShouldPersistTaps="handled">
+        <VoucherForm
+          submitLabel="Simpan Voucher"
+          onSubmit={async (payload) => {
+            await api.vouchers.create(payload);
+            invalidateQueries("/vouchers/mine");
+            log.info("voucher created");
+            router.back();
+          }}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1, backgroundColor: "#fff" },
+  header: { flexDirection: "row", alignItems: "center", gap: 8, paddingHorizontal: 16, paddingTop: 8 },
+  backBtn: { padding: 4 },
+  title: { fontSize: 22, fontWeight: "700", color: "#111827" },
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import {
   View,
   Text,
@@ -12,126 +12,32 @@ import {
   Alert,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import { useRouter } from "expo-router";
-import authStorage from "../../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
+import { useFocusEffect, useRouter } from "expo-router";
+import OutboxStatus from "../../../../components/OutboxStatus";
+import LoginRequired from "../../../../components/LoginRequired";
+import { api, isUnauthorized } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { useInfiniteList } from "../../../../lib/pagination";
+import { muaLocationsQuery } from "../../../../lib/queries";
+import { useQuery } from "../../../../lib/query";
+import type { Booking as BookingBase, MuaLocation as MuaLoc } from "../../../../lib/types";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("BOOKING");
 
 /* ================= Types ================= */
-type Booking = {
-  id: number | string;
-  offering_id?: number | string | null;
-  booking_date?: string;   // "YYYY-MM-DD" atau ISO datetime
-  booking_time?: string;   // "HH:mm" atau "HH:mm:ss"
-  status?: string;
-  mua_id?: string;
-  offering?: { name_offer?: string } | null;
-  name_offer?: string;     // fallback jika API flatten
-  amount?: string | number;
-  grand_total?: string | number;
-  invoice_number?: string;
-  customer_id?: string | number; // penting untuk filter milik user
-};
-
-type MuaLoc = {
-  id: string;
-  name: string;
-  address?: string;
+type Booking = BookingBase & {
+  name_offer?: string; // fallback jika API flatten
 };
 
 /* ================= Consts ================= */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_BOOKINGS = `${API_BASE}/bookings`;
-const API_MUA_LOC = `${API_BASE}/mua-location`;
-const API_ME = `${API_BASE}/me`;
-
 const BORDER = "#E5E7EB";
 const TEXT_MUTED = "#6B7280";
 const CARD_BG = "#F7F0FF";
 const PURPLE = "#AA60C8";
+const PAGE_SIZE = 20;
 
 /* ================= Helpers ================= */
-type HeaderMap = Record<string, string>;
-
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-// Ambil user ID dari auth storage
-async function getMeId(): Promise<string | null> {
-  try {
-    const profile = await authStorage.getUserProfile();
-    if (profile?.id) {
-      return String(profile.id);
-    }
-    
-    // Fallback: coba ambil dari API
-    console.log("[getMeId] No profile ID, fetching from API...");
-    const headers = await getAuthHeaders();
-    const me = await safeFetchJSON<any>(API_ME, { headers });
-    const id = me?.id ?? me?.user?.id ?? me?.profile?.id ?? null;
-    
-    if (id) {
-      console.log("[getMeId] Got ID from API:", id);
-      // Update profile dengan data yang didapat
-      await authStorage.setUserProfile(me);
-    }
-    
-    return id ? String(id) : null;
-  } catch (error) {
-    console.warn("[getMeId] Error getting user ID:", error);
-    return null;
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-    const res = await fetch(url, {
-      method: init.method ?? "GET",
-      cache: "no-store",
-      ...init,
-      headers,
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error;
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
 /**
  * Formatter aman untuk menampilkan "jam - tanggal"
  */
@@ -212,108 +118,85 @@ function getStatusStyle(status: string) {
 }
 
 /* ================= Screen ================= */
-export default function ActiveBookingsScreen() {
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function ActiveBookingsTab() {
+  return (
+    <LoginRequired message="Masuk untuk melihat dan mengelola booking Anda." returnTo="/(user)/(tabs)/bookings">
+      <ActiveBookingsScreen />
+    </LoginRequired>
+  );
+}
+
+function ActiveBookingsScreen() {
   const router = useRouter();
 
-  const [rows, setRows] = useState<Booking[]>([]);
-  const [muaMap, setMuaMap] = useState<Record<string, MuaLoc>>({});
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  // 1) ID profil user yang login (dari sesi)
+  const { status, profileId: meId } = useAuth();
+  const meReady = status !== "loading";
   const [query, setQuery] = useState("");
 
-  const fetchAll = useCallback(async () => {
-    setLoading(true);
-    try {
-      console.log("[BookingsScreen] Fetching bookings data...");
-      const headers = await getAuthHeaders();
-
-      // 1) Ambil ID user yang login
-      const meId = await getMeId();
-      console.log("[BookingsScreen] User ID:", meId);
-
-      // 2) Ambil bookings + peta MUA
-      const [bJson, mJson] = await Promise.all([
-        safeFetchJSON<{ data?: Booking[] } | Booking[]>(API_BOOKINGS, { headers }),
-        safeFetchJSON<{ data?: MuaLoc[] } | MuaLoc[]>(API_MUA_LOC, { headers }),
-      ]);
-
-      const items: Booking[] = (bJson as any)?.data ?? (bJson as Booking[]) ?? [];
-      console.log(`[BookingsScreen] Loaded ${items.length} total bookings`);
+  // 2) Bookings milik user (berhalaman) + peta MUA dari query cache
+  const list = useInfiniteList<Booking>({
+    fetchPage: (page, signal) =>
+      api.bookings.list({ customer_id: meId!, page, per_page: PAGE_SIZE }, { signal }),
+    perPage: PAGE_SIZE,
+    deps: [meId],
+    enabled: !!meId,
+  });
+  const muaQ = useQuery(muaLocationsQuery());
+  const loading = !meReady || list.loading;
 
-      // 3) Filter HANYA booking milik user
-      const mine = meId
-        ? items.filter((b) => {
-            const cid = b.customer_id != null ? String(b.customer_id) : null;
-            const isMine = cid ? cid === meId : false;
-            
-            if (!isMine) {
-              console.log(`[BookingsScreen] Filtered out booking:`, {
-                bookingId: b.id,
-                bookingCustomerId: cid,
-                myId: meId,
-                match: isMine
-              });
-            }
-            
-            return isMine;
-          })
-        : [];
-
-      console.log(`[BookingsScreen] User has ${mine.length} bookings`);
-
-      // 4) Urutkan terbaru dulu
-      mine.sort((a, b) => {
-        const da = (a.booking_date || "") + " " + (a.booking_time || "");
-        const db = (b.booking_date || "") + " " + (b.booking_time || "");
-        return db.localeCompare(da);
-      });
-
-      // 5) Peta MUA
-      const list: MuaLoc[] = (mJson as any)?.data ?? (mJson as MuaLoc[]) ?? [];
-      const map: Record<string, MuaLoc> = {};
-      for (const it of list) map[it.id] = it;
-
-      setRows(mine);
-      setMuaMap(map);
-      
-      console.log("[BookingsScreen] Data loaded successfully");
-    } catch (e: any) {
-      console.error("[BookingsScreen] Error loading data:", e);
-      
-      if (e?.message === "401_UNAUTH") {
-        Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-          {
-            text: "OK",
-            onPress: () => {
-              router.replace("/(auth)/login");
-            }
-          }
-        ]);
-      } else {
-        Alert.alert("Error", "Gagal memuat data pesanan: " + (e.message || "Unknown error"));
-        setRows([]);
-      }
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    const e = list.error;
+    if (!e || list.items.length) return;
+    log.error("[BookingsScreen] Error loading data:", e);
+    // 401 sudah ditangani global (refresh / sesi berakhir)
+    if (!isUnauthorized(e)) {
+      Alert.alert("Error", "Gagal memuat data pesanan: " + ((e as Error)?.message || "Unknown error"));
     }
-  }, [router]);
+  }, [list.error]);
+
+  // booking baru (mis. dari outbox) → muat ulang saat tab kembali dibuka
+  const loadedRef = useRef(false);
+  loadedRef.current = list.page > 0;
+  useFocusEffect(
+    useCallback(() => {
+      if (loadedRef.current) list.refresh();
+    }, [list.refresh])
+  );
 
-  useEffect(() => {
-    fetchAll();
-  }, [fetchAll]);
+  // 3) Filter HANYA booking milik user, 4) urutkan terbaru dulu
+  const rows = useMemo(() => {
+    const items = list.items;
+    const mine: Booking[] = meId
+      ? items.filter((b) => (b.customer_id != null ? String(b.customer_id) === meId : false))
+      : [];
+    mine.sort((a, b) => {
+      const da = (a.booking_date || "") + " " + (a.booking_time || "");
+      const db = (b.booking_date || "") + " " + (b.booking_time || "");
+      return db.localeCompare(da);
+    });
+    log.debug(`[BookingsScreen] User has ${mine.length} of ${items.length} bookings`);
+    return mine;
+  }, [list.items, meId]);
+
+  // 5) Peta MUA
+  const muaMap = useMemo(() => {
+    const map: Record<string, MuaLoc> = {};
+    for (const it of muaQ.data ?? []) map[it.id] = it;
+    return map;
+  }, [muaQ.data]);
 
   // pull to refresh
   const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    await fetchAll();
-    setRefreshing(false);
-  }, [fetchAll]);
+    await Promise.all([list.refresh(), muaQ.refetch()]);
+  }, [list.refresh, muaQ.refetch]);
 
   // search filter (judul paket / nama MUA)
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) {
-      console.log(`[BookingsScreen] Showing all ${rows.length} bookings`);
+      log.debug(`[BookingsScreen] Showing all ${rows.length} bookings`);
       return rows;
     }
     
@@ -331,7 +214,7 @@ export default function ActiveBookingsScreen() {
              invoice.toLowerCase().includes(q);
     });
     
-    console.log(`[BookingsScreen] Search "${q}" found ${filteredList.length} results`);
+    log.debug(`[BookingsScreen] Search "${q}" found ${filteredList.length} results`);
     return filteredList;
   }, [rows, query, muaMap]);
 
@@ -403,6 +286,9 @@ export default function ActiveBookingsScreen() {
         />
       </View>
 
+      {/* Pesanan yang dibuat saat offline */}
+      <OutboxStatus kinds={["booking.create"]} style={styles.outbox} />
+
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={PURPLE} />
@@ -410,18 +296,21 @@ export default function ActiveBookingsScreen() {
         </View>
       ) : (
         <FlatList
+          {...list.listProps}
           data={filtered}
-          keyExtractor={(it) => String(it.id)}
           renderItem={renderItem}
           contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
           refreshControl={
             <RefreshControl 
-              refreshing={refreshing} 
+              refreshing={list.refreshing} 
               onRefresh={onRefresh}
               colors={[PURPLE]}
             />
           }
+          ListFooterComponent={
+            list.loadingMore ? <ActivityIndicator style={{ marginVertical: 14 }} color={PURPLE} /> : null
+          }
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Ionicons name="calendar-outline" size={64} color={TEXT_MUTED} />
@@ -468,6 +357,10 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  outbox: {
+    marginHorizontal: 16,
+    marginBottom: 10,
+  },
   searchInput: { 
     flex: 1, 
     paddingHorizontal: 12, 
@@ -15,25 +15,19 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import MapView, { Marker, Region } from "react-native-maps";
-import { useRouter } from "expo-router";
+import { Redirect, useRouter } from "expo-router";
 import { useUserLocation } from "../../providers/LocationProvider";
-import authStorage from "../../../utils/authStorage";
+import { assetUrl } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { useVerificationPrompt } from "../../../lib/verification";
+import { muaListQuery, offeringsQuery } from "../../../lib/queries";
+import { useQuery } from "../../../lib/query";
+import type { Mua as MuaApi, Offering as OfferingApi } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-/* ---------- Types ---------- */
-type MuaApi = {
-  id: string;
-  role?: string | null;
-  name?: string | null;
-  location_lat?: string | number | null;
-  location_lng?: string | number | null;
-  address?: string | null;
-  photo_url?: string | null;
-  services?: string | string[] | null;
-  is_online?: number | boolean | null;
-  phone?: string | null;
-  created_at?: string | null;
-};
+const log = createLogger("UI");
 
+/* ---------- Types ---------- */
 type Mua = {
   id: string;
   name: string;
@@ -47,13 +41,6 @@ type Mua = {
   phone?: string | null;
 };
 
-type OfferingApi = {
-  id: number | string;
-  mua_id: string;
-  name_offer: string;
-  price?: string | number;
-  makeup_type?: string | null;
-};
 type Offering = {
   id: string;
   title: string;
@@ -67,51 +54,9 @@ type Offering = {
 /* ---------- Consts ---------- */
 const PURPLE = "#AA60C8";
 const CARD_BG = "#F7F2FA";
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_MUAS = `${API_BASE}/mua`;
-const API_OFFERINGS = `${API_BASE}/offerings`;
 const PLACEHOLDER_AVATAR = "https://via.placeholder.com/96x96.png?text=MUA";
 
 /* ---------- Helpers ---------- */
-type HeaderMap = Record<string, string>;
-
-/** Use centralized token getter from utils/authStorage */
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { Accept: "application/json" };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (e) {
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  const given = (init.headers || {}) as HeaderMap;
-  const headers: HeadersInit = { ...given, Accept: "application/json" };
-  const res = await fetch(url, { method: init.method ?? "GET", cache: "no-store", ...init, headers });
-  const ct = res.headers.get("content-type") || "";
-  const text = await res.text();
-
-  if (!res.ok) {
-    if (res.status === 401) {
-      // Auto logout ketika token invalid
-      await authStorage.clearAuthAll();
-      throw new Error("401_UNAUTH");
-    }
-    const snippet = text ? text.slice(0, 300).replace(/\s+/g, " ") : "";
-    throw new Error(`HTTP ${res.status} (ct=${ct}) — ${snippet}`);
-  }
-
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    throw new Error(`Unexpected non-JSON (ct=${ct}) — ${text.slice(0, 160)}`);
-  }
-}
-
 function toNumber(v: any): number | null {
   const n = Number(v);
   return Number.isFinite(n) ? n : null;
@@ -144,12 +89,7 @@ function formatIDR(v: number) {
 
 /** Normalisasi foto_url ke URL absolut (atau placeholder) */
 function resolvePhotoUrl(u?: string | null): string {
-  if (!u) return PLACEHOLDER_AVATAR;
-  const s = String(u);
-  if (s.startsWith("http://") || s.startsWith("https://")) return s;
-  if (s.startsWith("/")) return `${API_ORIGIN}${s}`;
-  if (s.startsWith("storage/")) return `${API_ORIGIN}/${s}`;
-  return `${API_ORIGIN}/${s.replace(/^\/+/, "")}`;
+  return assetUrl(u) ?? PLACEHOLDER_AVATAR;
 }
 
 /** Parse services (stringified JSON atau CSV) */
@@ -198,8 +138,11 @@ export default function UserDashboard() {
   const router = useRouter();
   const mountedRef = useRef(true);
   
-  // 🔥 PERBAIKAN: State untuk auto login check
-  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+  // sesi dari AuthProvider (token tersimpan + profil ringkas)
+  const { status, user, profile, profileId } = useAuth();
+  const isCheckingAuth = status === "loading";
+  // akun baru → layar verifikasi kontak dibuka sekali
+  const verifyPrompt = useVerificationPrompt(profileId);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -212,7 +155,7 @@ export default function UserDashboard() {
   const { coords: userCoords, loading: userLocLoading, error, refresh } = useUserLocation();
 
   // Greeting
-  const [displayName, setDisplayName] = useState<string>("");
+  const displayName = user?.name || user?.profile?.name || profile?.name || "";
 
   // Search
   const [query, setQuery] = useState("");
@@ -220,12 +163,13 @@ export default function UserDashboard() {
   // All MUA (includes ones without coords)
   const [allMua, setAllMua] = useState<Mua[]>([]);
   const baseMuaRef = useRef<Mua[]>([]);
-  const [nearbyLoading, setNearbyLoading] = useState(true);
   const [muaMap, setMuaMap] = useState<Record<string, Mua>>({});
 
-  // Offerings
-  const [offerings, setOfferings] = useState<Offering[]>([]);
-  const [offeringsLoading, setOfferingsLoading] = useState(true);
+  // data dari query cache: tampil instan dari cache, revalidate di belakang layar
+  const muaQuery = useQuery({ ...muaListQuery(), enabled: !isCheckingAuth });
+  const offeringsQ = useQuery({ ...offeringsQuery(), enabled: !isCheckingAuth });
+  const nearbyLoading = muaQuery.loading;
+  const offeringsLoading = offeringsQ.loading;
 
   // Bottom sheet
   const [filterOpen, setFilterOpen] = useState(false);
@@ -242,166 +186,16 @@ export default function UserDashboard() {
       ({ finished }) => finished && setFilterOpen(false)
     );
 
-  /* --- 🔥 PERBAIKAN: Auto Login Check --- */
+  /* --- MUA dari cache/query (fallback tanpa auth ada di muaListQuery) --- */
   useEffect(() => {
-    checkAutoLogin();
-  }, []);
-
-  const checkAutoLogin = async () => {
-    try {
-      const token = await authStorage.getAuthToken();
-      const profile = await authStorage.getUserProfile();
-      
-      console.log("[AUTO_LOGIN] Token:", !!token, "Profile:", !!profile);
-      
-      if (token && profile) {
-        // Token ada, validasi dengan API
-        try {
-          const headers = await getAuthHeaders();
-          const response = await fetch(`${API_BASE}/auth/me`, { 
-            headers,
-            method: 'GET'
-          });
-          
-          if (response.ok) {
-            // Auto login berhasil, update profile jika perlu
-            const userData = await response.json();
-            await authStorage.setUserProfile(userData);
-            if (mountedRef.current) {
-              setDisplayName(userData.name || profile.name || "User");
-            }
-            console.log("[AUTO_LOGIN] Success");
-          } else {
-            // Token expired, clear auth data
-            console.log("[AUTO_LOGIN] Token expired, clearing auth");
-            await authStorage.clearAuthAll();
-            if (mountedRef.current) {
-              router.replace("/(auth)/login");
-            }
-          }
-        } catch (error) {
-          console.warn("[AUTO_LOGIN] API validation failed:", error);
-          await authStorage.clearAuthAll();
-          if (mountedRef.current) {
-            router.replace("/(auth)/login");
-          }
-        }
-      } else {
-        // Tidak ada token, redirect ke login
-        console.log("[AUTO_LOGIN] No token found, redirect to login");
-        if (mountedRef.current) {
-          router.replace("/(auth)/login");
-        }
-      }
-    } catch (error) {
-      console.error("[AUTO_LOGIN] Failed:", error);
-      await authStorage.clearAuthAll();
-      if (mountedRef.current) {
-        router.replace("/(auth)/login");
-      }
-    } finally {
-      if (mountedRef.current) {
-        setIsCheckingAuth(false);
-      }
+    if (muaQuery.data) processMuaArray(muaQuery.data.data);
+    else if (muaQuery.error) {
+      log.warn("fetch MUA failed:", (muaQuery.error as Error)?.message ?? muaQuery.error);
+      setAllMua([]);
     }
-  };
-
-  /* --- Ambil nama user: try cached profile -> try /auth/me with token -> fallback /mua --- */
-  useEffect(() => {
-    if (isCheckingAuth) return; // Tunggu sampai auth check selesai
-    
-    (async () => {
-      try {
-        // 1) try cached profile stored by authStorage
-        const cached = await authStorage.getUserProfile();
-        if (cached && (cached.name || cached.id) && mountedRef.current) {
-          const nm = cached.name ?? "";
-          if (nm) {
-            setDisplayName(String(nm));
-            return;
-          }
-        }
+  }, [muaQuery.data, muaQuery.error]);
 
-        // 2) try to call /auth/me using centralized token
-        const token = await authStorage.getAuthToken();
-        if (token) {
-          try {
-            const me = await safeFetchJSON<any>(`${API_BASE}/auth/me`, {
-              headers: { Authorization: `Bearer ${token}` },
-            });
-            const n2 = me?.name || me?.profile?.name || me?.user?.name;
-            if (n2 && mountedRef.current) {
-              setDisplayName(String(n2));
-              return;
-            }
-          } catch (e: any) {
-            console.warn("auth/me failed while booting displayName:", e?.message ?? e);
-            if (String(e?.message) === "401_UNAUTH") {
-              await authStorage.clearAuthAll();
-              router.replace("/(auth)/login");
-            }
-          }
-        }
-      } catch (e) {
-        console.warn("Failed reading auth storage for displayName:", e);
-      }
-
-      // 3) fallback: fetch MUA list (public)
-      try {
-        const data = await safeFetchJSON<{ data?: MuaApi[] } | MuaApi[]>(API_MUAS);
-        const list: MuaApi[] = (data as any)?.data ?? (data as MuaApi[]) ?? [];
-        const first = list[0];
-        if (first?.name && mountedRef.current) setDisplayName(String(first.name));
-      } catch (e) {
-        console.warn("Fallback fetch MUA for displayName failed:", (e as Error).message);
-      }
-    })();
-  }, [isCheckingAuth]);
-
-  /* --- Fetch MUA (only) with auth retry logic --- */
-  useEffect(() => {
-    if (isCheckingAuth) return; // Tunggu sampai auth check selesai
-    
-    let alive = true;
-    (async () => {
-      setNearbyLoading(true);
-      try {
-        // try with auth headers first (if any)
-        const headers = await getAuthHeaders();
-        try {
-          const json = await safeFetchJSON<{ data?: MuaApi[] } | MuaApi[]>(API_MUAS, { headers });
-          const arr: MuaApi[] = (json as any)?.data ?? (json as MuaApi[]) ?? [];
-          processMuaArray(arr, alive);
-        } catch (err: any) {
-          if (String(err.message) === "401_UNAUTH") {
-            console.warn("Auth invalid — retrying MUA request without auth");
-            // retry without auth
-            try {
-              const json2 = await safeFetchJSON<{ data?: MuaApi[] } | MuaApi[]>(API_MUAS, {});
-              const arr2: MuaApi[] = (json2 as any)?.data ?? (json2 as MuaApi[]) ?? [];
-              processMuaArray(arr2, alive);
-            } catch (err2) {
-              console.warn("fetch MUA failed after retry:", (err2 as Error).message);
-              if (alive && mountedRef.current) setAllMua([]);
-            }
-          } else {
-            console.warn("fetch MUA failed:", err?.message ?? err);
-            if (alive && mountedRef.current) setAllMua([]);
-          }
-        }
-      } catch (e) {
-        console.warn("fetch MUA top-level error:", (e as Error).message);
-        if (alive && mountedRef.current) setAllMua([]);
-      } finally {
-        if (alive && mountedRef.current) setNearbyLoading(false);
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, [isCheckingAuth]);
-
-  function processMuaArray(arr: MuaApi[], alive: boolean) {
+  function processMuaArray(arr: MuaApi[]) {
     const onlyMua = arr.filter((x) => String(x.role ?? "").toLowerCase() === "mua");
     const normalized: Mua[] = onlyMua.map((x) => {
       const lat = toNumber(x.location_lat);
@@ -422,7 +216,7 @@ export default function UserDashboard() {
     baseMuaRef.current = normalized;
     const mmap: Record<string, Mua> = {};
     normalized.forEach((m) => (mmap[m.id] = m));
-    if (alive && mountedRef.current) setMuaMap(mmap);
+    if (mountedRef.current) setMuaMap(mmap);
 
     if (userCoords) {
       const rows = normalized
@@ -434,9 +228,9 @@ export default function UserDashboard() {
           return { ...m, distanceKm: undefined };
         })
         .sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
-      if (alive && mountedRef.current) setAllMua(rows);
+      if (mountedRef.current) setAllMua(rows);
     } else {
-      if (alive && mountedRef.current) setAllMua(normalized);
+      if (mountedRef.current) setAllMua(normalized);
     }
   }
 
@@ -457,58 +251,19 @@ export default function UserDashboard() {
     if (mountedRef.current) setAllMua(rows);
   }, [userCoords]);
 
-  /* --- Fetch offerings (gabungkan nama MUA dari muaMap jika ada) with retry when 401 --- */
-  useEffect(() => {
-    if (isCheckingAuth) return; // Tunggu sampai auth check selesai
-    
-    let alive = true;
-    (async () => {
-      setOfferingsLoading(true);
-      try {
-        const headers = await getAuthHeaders();
-        try {
-          const json = await safeFetchJSON<{ data?: OfferingApi[] } | OfferingApi[]>(API_OFFERINGS, { headers });
-          const list: OfferingApi[] = (json as any)?.data ?? (json as OfferingApi[]) ?? [];
-          processOfferings(list, alive);
-        } catch (err: any) {
-          if (String(err.message) === "401_UNAUTH") {
-            console.warn("Auth invalid — retrying offerings request without auth");
-            try {
-              const json2 = await safeFetchJSON<{ data?: OfferingApi[] } | OfferingApi[]>(API_OFFERINGS, {});
-              const list2: OfferingApi[] = (json2 as any)?.data ?? (json2 as OfferingApi[]) ?? [];
-              processOfferings(list2, alive);
-            } catch (err2) {
-              console.warn("fetch offerings failed after retry:", (err2 as Error).message);
-              if (alive && mountedRef.current) setOfferings([]);
-            }
-          } else {
-            console.warn("fetch offerings failed:", err?.message ?? err);
-            if (alive && mountedRef.current) setOfferings([]);
-          }
-        }
-      } catch (e) {
-        console.warn("fetch offerings top-level error:", (e as Error).message);
-        if (alive && mountedRef.current) setOfferings([]);
-      } finally {
-        if (alive && mountedRef.current) setOfferingsLoading(false);
-      }
-    })();
-    return () => {
-      alive = false;
-    };
-  }, [muaMap, isCheckingAuth]);
-
-  function processOfferings(list: OfferingApi[], alive: boolean) {
-    const items: Offering[] = list.map((x) => ({
-      id: String(x.id),
-      title: x.name_offer ?? "Tanpa Judul",
-      vendor: muaMap[x.mua_id]?.name || "MUA",
-      mua_id: x.mua_id,
-      price: safeNum(x.price),
-      category: x.makeup_type ?? undefined,
-    }));
-    if (alive && mountedRef.current) setOfferings(items);
-  }
+  /* --- Offerings (gabungkan nama MUA dari muaMap jika ada) --- */
+  const offerings = useMemo<Offering[]>(
+    () =>
+      (offeringsQ.data?.data ?? []).map((x: OfferingApi) => ({
+        id: String(x.id),
+        title: x.name_offer ?? "Tanpa Judul",
+        vendor: muaMap[x.mua_id]?.name || "MUA",
+        mua_id: x.mua_id,
+        price: safeNum(x.price),
+        category: x.makeup_type ?? undefined,
+      })),
+    [offeringsQ.data, muaMap]
+  );
 
   /* --- Pencarian --- */
   const filteredNearby = useMemo(() => {
@@ -557,6 +312,8 @@ export default function UserDashboard() {
     [allMua]
   );
 
+  if (!verifyPrompt.loading && verifyPrompt.pending) return <Redirect href="/(account)/verify" />;
+
   // 🔥 PERBAIKAN: Tampilkan loading screen selama auth check
   if (isCheckingAuth) {
     return (
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -15,38 +15,22 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
 import { useRouter } from "expo-router";
-import authStorage from "../../../../utils/authStorage"; 
+import { api, assetUrl, isUnauthorized } from "../../../../lib/api";
+import { useInfiniteList } from "../../../../lib/pagination";
+import type { Mua } from "../../../../lib/types";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("MUA");
 
 /* ================= Types ================= */
-type MuaProfile = {
-  id: string;
-  role?: string | null;
-  name: string;
-  phone?: string | null;
-  bio?: string | null;
-  photo_url?: string | null;
-  services?: string | string[] | null;
-  location_lat?: number | string | null;
-  location_lng?: number | string | null;
-  address?: string | null;
-  is_online?: number | boolean | null;
-  created_at?: string | null;
-  updated_at?: string | null;
+type MuaProfile = Mua & {
   starting_price?: number | null;
   min_price?: number | null;
   lowest_service_price?: number | null;
   price_from?: number | null;
 };
 
-type ApiList<T> = {
-  data?: T[];
-  meta?: { current_page?: number; last_page?: number };
-} | T[];
-
 /* ================ Consts & UI ================ */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_MUAS = `${API_BASE}/mua`;
 const PAGE_SIZE = 20;
 
 const BORDER = "#E5E7EB";
@@ -55,66 +39,9 @@ const CARD_BG = "#FFFFFF";
 const ACCENT_BG = "#EEE3FA";
 const ACCENT_TXT = "#6D3FA8";
 
-type HeaderMap = Record<string, string>;
 type FilterKey = "nearest" | "cheapest" | "expensive" | "newest";
 
 /* ================ Helpers ================================ */
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA DENGAN APP LAIN
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(
-  url: string,
-  init: RequestInit = {}
-): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-    
-    const res = await fetch(url, {
-      method: init.method ?? "GET",
-      cache: "no-store",
-      ...init,
-      headers,
-    });
-    
-    const text = await res.text();
-    
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error; // Re-throw auth errors
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
 /** Haversine {km} */
 function distanceKm(
   a: { lat: number; lng: number },
@@ -157,10 +84,7 @@ function parseServices(s?: string | string[] | null): string[] | null {
 }
 
 function resolvePhotoUrl(photo?: string | null) {
-  if (!photo) return null;
-  if (photo.startsWith("http://") || photo.startsWith("https://")) return photo;
-  if (photo.startsWith("/")) return `${API_ORIGIN}${photo}`;
-  return `${API_ORIGIN}/${photo}`;
+  return assetUrl(photo);
 }
 
 function initialsFromName(name?: string | null) {
@@ -176,15 +100,16 @@ function initialsFromName(name?: string | null) {
 export default function MuaListScreen() {
   const router = useRouter();
 
-  const [rows, setRows] = useState<MuaProfile[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-
-  // pagination state
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const loadingMoreRef = useRef(false);
+  const list = useInfiniteList<MuaProfile>({
+    fetchPage: (page, signal) => api.mua.list({ page, per_page: PAGE_SIZE }, { signal }),
+    perPage: PAGE_SIZE,
+  });
+  const { loading, refreshing, loadingMore, hasMore, refresh } = list;
+  // endpoint /mua bisa ikut mengembalikan akun non-MUA
+  const rows = useMemo(
+    () => list.items.filter((it) => it && String(it.role).toLowerCase() === "mua"),
+    [list.items]
+  );
 
   // UX/filter
   const [query, setQuery] = useState("");
@@ -236,110 +161,21 @@ export default function MuaListScreen() {
     }
   }, []);
 
-  // ==================== fetchPage ====================
-  const fetchPage = useCallback(
-    async (targetPage: number, append: boolean) => {
-      try {
-        const headers = await getAuthHeaders();
-        const url = `${API_MUAS}?page=${targetPage}&per_page=${PAGE_SIZE}`;
-        console.log(`[fetchPage] Fetching page ${targetPage}`);
-        
-        const json = await safeFetchJSON<any>(url, { headers });
-
-        const rawList: any[] = (json as any)?.data ?? (json as any) ?? [];
-
-        const filtered: MuaProfile[] = rawList.filter(
-          (it) => it && String(it.role).toLowerCase() === "mua"
-        );
-
-        if (append) {
-          setRows((prev) => {
-            const map = new Map<string, MuaProfile>();
-            prev.forEach((p) => map.set(String(p.id), p));
-            filtered.forEach((p) => map.set(String(p.id), p));
-            return Array.from(map.values());
-          });
-        } else {
-          setRows(filtered);
-        }
-
-        if (
-          typeof json.current_page === "number" &&
-          typeof json.last_page === "number"
-        ) {
-          setHasMore(json.current_page < json.last_page);
-        } else {
-          setHasMore(rawList.length >= PAGE_SIZE);
-        }
-
-        setPage(targetPage);
-      } catch (error: any) {
-        console.error("[fetchPage] Error:", error);
-        throw error; // Re-throw to handle in caller
-      }
-    },
-    []
-  );
-
-  const initialLoad = useCallback(async () => {
-    setLoading(true);
-    try {
-      await fetchPage(1, false);
-    } catch (e: any) {
-      if (e?.message === "401_UNAUTH") {
-        console.log("[initialLoad] 401 detected - redirecting to login");
-        Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-          {
-            text: "OK",
-            onPress: () => {
-              router.replace("/(auth)/login");
-            }
-          }
-        ]);
-      } else {
-        console.warn("[initialLoad] Other error:", e);
-        Alert.alert("Error", "Gagal memuat data MUA: " + (e.message || "Unknown error"));
-        setRows([]);
-        setHasMore(false);
-      }
-    } finally {
-      setLoading(false);
-    }
-  }, [fetchPage, router]);
-
   useEffect(() => {
-    initialLoad();
     requestLocation();
-  }, [initialLoad, requestLocation]);
+  }, [requestLocation]);
 
-  const onRefresh = useCallback(async () => {
-    setRefreshing(true);
-    try {
-      await Promise.all([fetchPage(1, false), requestLocation()]);
-    } catch (error: any) {
-      if (error?.message === "401_UNAUTH") {
-        router.replace("/(auth)/login");
-      }
-    } finally {
-      setRefreshing(false);
-    }
-  }, [fetchPage, requestLocation, router]);
+  // 401 sudah ditangani global (refresh / sesi berakhir)
+  useEffect(() => {
+    if (!list.error || isUnauthorized(list.error) || rows.length) return;
+    const e = list.error as Error;
+    log.warn("[MuaList] load error:", e);
+    Alert.alert("Error", "Gagal memuat data MUA: " + (e?.message || "Unknown error"));
+  }, [list.error]);
 
-  const onEndReached = useCallback(async () => {
-    if (!hasMore || loadingMoreRef.current || loading) return;
-    loadingMoreRef.current = true;
-    setLoadingMore(true);
-    try {
-      await fetchPage(page + 1, true);
-    } catch (error: any) {
-      if (error?.message === "401_UNAUTH") {
-        router.replace("/(auth)/login");
-      }
-    } finally {
-      setLoadingMore(false);
-      loadingMoreRef.current = false;
-    }
-  }, [fetchPage, page, hasMore, loading, router]);
+  const onRefresh = useCallback(async () => {
+    await Promise.all([refresh(), requestLocation()]);
+  }, [refresh, requestLocation]);
 
   // computed list (search + sort + jarak)
   const computed = useMemo(() => {
@@ -545,15 +381,14 @@ export default function MuaListScreen() {
         <ActivityIndicator style={{ marginTop: 24 }} />
       ) : (
         <FlatList
+          {...list.listProps}
           data={computed}
-          keyExtractor={(it) => String(it.id)}
           renderItem={renderItem}
           contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: 24 }}
           ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
           }
-          onEndReached={onEndReached}
           onEndReachedThreshold={0.6}
           ListFooterComponent={ListFooter}
           ListEmptyComponent={
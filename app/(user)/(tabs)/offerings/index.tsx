@@ -14,32 +14,16 @@ import {
 import * as Location from "expo-location";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import authStorage from "../../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
+import { api, assetUrl, isUnauthorized } from "../../../../lib/api";
+import { useInfiniteList } from "../../../../lib/pagination";
+import { muaLocationsQuery } from "../../../../lib/queries";
+import { useQuery } from "../../../../lib/query";
+import type { MuaLocation as MuaLoc, Offering as OfferingApi } from "../../../../lib/types";
+import { createLogger } from "../../../../lib/logger";
 
-/* =============== Types =============== */
-type OfferingApi = {
-  id: number;
-  mua_id: string;
-  name_offer: string;
-  offer_pictures?: string[];
-  makeup_type?: string | null;
-  price?: string | number;
-};
-
-type ApiPage<T> = {
-  data: T[];
-  next_page_url: string | null;
-};
-
-type MuaLoc = {
-  id: string;
-  name: string;
-  location_lat: string;
-  location_lng: string;
-  address?: string;
-  photo_url?: string;
-};
+const log = createLogger("OFFERING");
 
+/* =============== Types =============== */
 type Row = OfferingApi & {
   priceNum: number;
   mua?: MuaLoc;
@@ -47,14 +31,11 @@ type Row = OfferingApi & {
 };
 
 /* =============== Consts & helpers =============== */
-const API_BASE = "https://smstudio.my.id";
-const API_OFFERINGS = `${API_BASE}/api/offerings`;
-const API_MUA_LOC = `${API_BASE}/api/mua-location`;
-
 const CARD_BG = "#F7F0FF";
 const BORDER = "#E9DDF7";
 const TEXT_MUTED = "#6B7280";
 const PURPLE = "#AA60C8";
+const PAGE_SIZE = 20;
 
 const formatIDR = (n: number) =>
   `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(n))}`;
@@ -75,96 +56,35 @@ function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
   return R * (2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
 }
 
-function absolutize(url: string | null | undefined) {
-  if (!url) return null;
-  if (/^https?:\/\//i.test(url)) return url.replace(/^http:\/\//i, "https://");
-  return `${API_BASE}${url.startsWith("/") ? url : `/${url}`}`;
-}
-
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA
-type HeaderMap = Record<string, string>;
-
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-    const res = await fetch(url, {
-      method: init.method ?? "GET",
-      cache: "no-store",
-      ...init,
-      headers,
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error;
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
 async function getUserCoords(): Promise<{ lat: number; lng: number } | null> {
   try {
     const enabled = await Location.hasServicesEnabledAsync();
     if (!enabled) {
-      console.log("[getUserCoords] Location services disabled");
+      log.debug("[getUserCoords] Location services disabled");
       return null;
     }
 
     const { status } = await Location.requestForegroundPermissionsAsync();
     if (status !== "granted") {
-      console.log("[getUserCoords] Location permission denied");
+      log.debug("[getUserCoords] Location permission denied");
       return null;
     }
 
     // Coba dapatkan last known position dulu (lebih cepat)
     const last = await Location.getLastKnownPositionAsync();
     if (last) {
-      console.log("[getUserCoords] Using last known position");
+      log.debug("[getUserCoords] Using last known position");
       return { lat: last.coords.latitude, lng: last.coords.longitude };
     }
 
     // Jika tidak ada last known, dapatkan current position
-    console.log("[getUserCoords] Getting current position");
+    log.debug("[getUserCoords] Getting current position");
     const pos = await Location.getCurrentPositionAsync({
       accuracy: Location.Accuracy.Balanced,
     });
     return { lat: pos.coords.latitude, lng: pos.coords.longitude };
   } catch (error) {
-    console.warn("[getUserCoords] Error getting location:", error);
+    log.warn("[getUserCoords] Error getting location:", error);
     return null;
   }
 }
@@ -179,126 +99,61 @@ export default function OfferingsScreen() {
 
   const [userLoc, setUserLoc] = useState<{ lat: number; lng: number } | null>(null);
 
-  const [muaMap, setMuaMap] = useState<Record<string, MuaLoc>>({});
-  const [rows, setRows] = useState<Row[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [nextUrl, setNextUrl] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const muaQ = useQuery(muaLocationsQuery());
+  const muaMap = useMemo(() => {
+    const mmap: Record<string, MuaLoc> = {};
+    for (const m of muaQ.data ?? []) mmap[m.id] = m;
+    return mmap;
+  }, [muaQ.data]);
+
+  const list = useInfiniteList<OfferingApi>({
+    fetchPage: (page, signal) =>
+      api.offerings.list({ page, per_page: PAGE_SIZE }, { publicFallback: true, signal }),
+    perPage: PAGE_SIZE,
+  });
+  const { loading, loadingMore, hasMore, loadMore } = list;
+
+  const rows = useMemo<Row[]>(
+    () =>
+      list.items.map((o) => ({
+        ...o,
+        priceNum: Number(o.price ?? 0),
+        mua: muaMap[o.mua_id],
+      })),
+    [list.items, muaMap]
+  );
+
+  // error halaman pertama (401 ditangani global oleh lib/api)
+  const error =
+    list.error && !list.items.length
+      ? isUnauthorized(list.error)
+        ? "Sesi berakhir. Silakan login kembali."
+        : (list.error as Error)?.message || "Gagal memuat data offerings."
+      : null;
 
   // lokasi user (opsional)
   useEffect(() => {
     (async () => {
       const coords = await getUserCoords();
       setUserLoc(coords);
-      console.log("[OfferingsScreen] User location:", coords);
+      log.debug("[OfferingsScreen] User location:", coords);
     })();
   }, []);
 
-  // fetch MUA map + halaman pertama offerings
+  // gagal memuat halaman berikutnya → beri tahu (halaman pertama punya tampilan error sendiri)
   useEffect(() => {
-    (async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        console.log("[OfferingsScreen] Loading initial data...");
-        const headers = await getAuthHeaders();
-
-        const [muaJson, offJson] = await Promise.all([
-          safeFetchJSON<{ data: MuaLoc[] }>(API_MUA_LOC, { headers }),
-          safeFetchJSON<ApiPage<OfferingApi>>(API_OFFERINGS, { headers }),
-        ]);
-
-        // Build MUA map
-        const mmap: Record<string, MuaLoc> = {};
-        const muaData = muaJson.data ?? [];
-        console.log(`[OfferingsScreen] Loaded ${muaData.length} MUA locations`);
-        
-        for (const m of muaData) {
-          mmap[m.id] = m;
-        }
-        setMuaMap(mmap);
-
-        // Process offerings
-        const page = offJson?.data ?? [];
-        console.log(`[OfferingsScreen] Loaded ${page.length} offerings`);
-        
-        const mapped: Row[] = page.map((o) => ({
-          ...o,
-          priceNum: Number(o.price ?? 0),
-          mua: mmap[o.mua_id],
-        }));
-        
-        setRows(mapped);
-        setNextUrl(absolutize(offJson?.next_page_url));
-        
-        console.log(`[OfferingsScreen] Initial data loaded successfully`);
-      } catch (e: any) {
-        console.error("[OfferingsScreen] Error loading data:", e);
-        
-        if (e?.message === "401_UNAUTH") {
-          setError("Sesi berakhir. Silakan login kembali.");
-          Alert.alert("Sesi Berakhir", "Silakan login kembali.", [
-            {
-              text: "OK",
-              onPress: () => {
-                router.replace("/(auth)/login");
-              }
-            }
-          ]);
-        } else {
-          setError(e?.message || "Gagal memuat data offerings.");
-        }
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, [router]);
-
-  // load more (pakai next_page_url)
-  async function loadMore() {
-    if (!nextUrl || loadingMore) return;
-    
-    setLoadingMore(true);
-    try {
-      console.log("[OfferingsScreen] Loading more data...");
-      const headers = await getAuthHeaders();
-      const url = absolutize(nextUrl) || nextUrl;
-
-      const json = await safeFetchJSON<ApiPage<OfferingApi>>(url, { headers });
-      const page = json?.data ?? [];
-      
-      console.log(`[OfferingsScreen] Loaded ${page.length} more offerings`);
-      
-      const mapped: Row[] = page.map((o) => ({
-        ...o,
-        priceNum: Number(o.price ?? 0),
-        mua: muaMap[o.mua_id],
-      }));
-      
-      setRows((prev) => [...prev, ...mapped]);
-      setNextUrl(absolutize(json?.next_page_url));
-    } catch (e: any) {
-      console.error("[OfferingsScreen] Error loading more:", e);
-      
-      if (e?.message === "401_UNAUTH") {
-        router.replace("/(auth)/login");
-      } else {
-        Alert.alert("Error", "Gagal memuat data tambahan.");
-      }
-    } finally {
-      setLoadingMore(false);
-    }
-  }
+    if (!list.error || !list.items.length || isUnauthorized(list.error)) return;
+    Alert.alert("Error", "Gagal memuat data tambahan.");
+  }, [list.error]);
 
   // tambahkan jarak jika ada userLoc
   const withDistance = useMemo(() => {
     if (!userLoc) {
-      console.log("[OfferingsScreen] No user location, skipping distance calculation");
+      log.debug("[OfferingsScreen] No user location, skipping distance calculation");
       return rows.map((r) => ({ ...r, distanceKm: null }));
     }
     
-    console.log("[OfferingsScreen] Calculating distances for", rows.length, "offerings");
+    log.debug("[OfferingsScreen] Calculating distances for", rows.length, "offerings");
     return rows.map((r) => {
       const lat = Number(r.mua?.location_lat);
       const lng = Number(r.mua?.location_lng);
@@ -312,7 +167,7 @@ export default function OfferingsScreen() {
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
     if (!q) {
-      console.log("[OfferingsScreen] No search query, showing all", withDistance.length, "offerings");
+      log.debug("[OfferingsScreen] No search query, showing all", withDistance.length, "offerings");
       return withDistance;
     }
     
@@ -323,14 +178,14 @@ export default function OfferingsScreen() {
       return nm.includes(q) || mua.includes(q) || tp.includes(q);
     });
     
-    console.log(`[OfferingsScreen] Search "${q}" found ${filteredList.length} results`);
+    log.debug(`[OfferingsScreen] Search "${q}" found ${filteredList.length} results`);
     return filteredList;
   }, [withDistance, query]);
 
   // sorting
   const sorted = useMemo(() => {
     const arr = [...filtered];
-    console.log(`[OfferingsScreen] Sorting ${arr.length} items by:`, sort);
+    log.debug(`[OfferingsScreen] Sorting ${arr.length} items by:`, sort);
     
     if (sort === "distance") {
       arr.sort((a, b) => {
@@ -361,9 +216,7 @@ export default function OfferingsScreen() {
         : undefined;
 
     // Handle MUA photo
-    const muaPhoto = item.mua?.photo_url ? 
-      (item.mua.photo_url.startsWith("http") ? item.mua.photo_url : `${API_BASE}${item.mua.photo_url}`) 
-      : null;
+    const muaPhoto = assetUrl(item.mua?.photo_url);
 
     return (
       <TouchableOpacity
@@ -490,8 +343,8 @@ export default function OfferingsScreen() {
         </View>
       ) : (
         <FlatList
+          {...list.listProps}
           data={sorted}
-          keyExtractor={(it) => String(it.id)}
           renderItem={renderItem}
           contentContainerStyle={{ paddingHorizontal: 20, paddingBottom: 16 }}
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
@@ -504,7 +357,7 @@ export default function OfferingsScreen() {
             </View>
           }
           ListFooterComponent={
-            nextUrl ? (
+            hasMore ? (
               <TouchableOpacity style={styles.loadMore} onPress={loadMore} disabled={loadingMore}>
                 {loadingMore ? (
                   <ActivityIndicator color={PURPLE} />
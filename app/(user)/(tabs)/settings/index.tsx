@@ -1,34 +1,28 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   View, Text, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator,
   Alert, ScrollView, Platform, Image
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import * as SecureStore from "expo-secure-store";
 import * as ImagePicker from "expo-image-picker";
 import * as Location from "expo-location";
 import { useRouter } from "expo-router";
-
-type Me = {
-  id?: string;
-  name?: string;
-  profile?: {
-    id?: string;
-    name?: string;
-    phone?: string | null;
-    address?: string | null;
-    bio?: string | null;
-    photo_url?: string | null;
-    location_lat?: number | null;
-    location_lng?: number | null;
-  };
-};
-
-const API_BASE = "https://smstudio.my.id/api";
-const ABS_BASE = "https://smstudio.my.id"; // untuk jadikan URL absolut
-const API_ME = `${API_BASE}/auth/me`;
-const API_PROFILE = `${API_BASE}/auth/profile`;
-const API_LOGOUT = `${API_BASE}/auth/logout`;
+import AccountSwitcher from "../../../../components/AccountSwitcher";
+import ContactVerificationCard from "../../../../components/ContactVerificationCard";
+import DeveloperLink from "../../../../components/DeveloperLink";
+import SessionsLink from "../../../../components/SessionsLink";
+import FieldError from "../../../../components/FieldError";
+import OutboxStatus from "../../../../components/OutboxStatus";
+import LoginRequired from "../../../../components/LoginRequired";
+import { api, assetUrl, isUnauthorized, unwrap } from "../../../../lib/api";
+import { useAuth } from "../../../../lib/auth";
+import { sendOrQueue } from "../../../../lib/outbox";
+import { invalidateQueries } from "../../../../lib/query";
+import { useFieldErrors } from "../../../../lib/formErrors";
+import { alertProfileSaved, isPhoneChanged } from "../../../../lib/verification";
+import { createLogger } from "../../../../lib/logger";
+
+const log = createLogger("PROFILE");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
@@ -40,10 +34,7 @@ const PickerMediaType: any =
 
 /* ===== Helpers URL foto ===== */
 function toAbsoluteUrl(u?: string | null) {
-  if (!u) return "";
-  if (/^https?:\/\//i.test(u)) return u;
-  if (u.startsWith("/")) return `${ABS_BASE}${u}`;
-  return `${ABS_BASE}/${u}`;
+  return assetUrl(u) ?? "";
 }
 function withBust(u: string) {
   if (!u) return u;
@@ -51,10 +42,19 @@ function withBust(u: string) {
   return `${u}${sep}t=${Date.now()}`;
 }
 
-export default function SettingsScreen() {
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function SettingsTab() {
+  return (
+    <LoginRequired message="Masuk untuk mengatur profil, kontak dan akun Anda.">
+      <SettingsScreen />
+    </LoginRequired>
+  );
+}
+
+function SettingsScreen() {
   const router = useRouter();
 
-  const [token, setToken] = useState<string | null>(null);
+  const { status, user, logout, refreshProfile, updateProfileLocally } = useAuth();
 
   // form
   const [name, setName] = useState("");
@@ -74,14 +74,11 @@ export default function SettingsScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const { errors, apply: applyFieldErrors, clear: clearError } = useFieldErrors();
 
   const mounted = useRef(true);
   useEffect(() => { mounted.current = true; return () => { mounted.current = false; }; }, []);
 
-  const authHeaders = useMemo(
-    () => (token ? { Authorization: `Bearer ${token}` } : undefined),
-    [token]
-  );
 
   function guessMimeFromUri(uri: string) {
     const lower = uri.split("?")[0].toLowerCase();
@@ -101,31 +98,16 @@ export default function SettingsScreen() {
     return `${name}.${ext}`;
   }
 
-  // STEP 1: token
+  // load profil (segar dari server, sekaligus memperbarui sesi di AuthProvider)
   useEffect(() => {
+    if (status === "loading") return;
+    if (status !== "signedIn") { setLoading(false); return; }
     (async () => {
       try {
-        const raw = await SecureStore.getItemAsync("auth");
-        if (raw) {
-          const auth = JSON.parse(raw);
-          if (auth?.token) setToken(auth.token);
-        }
-      } catch {}
-    })();
-  }, []);
+        const me = await refreshProfile();
+        if (!mounted.current || !me) return;
 
-  // STEP 2: load profil
-  useEffect(() => {
-    if (!token) { setLoading(false); return; }
-    const ctrl = new AbortController();
-    (async () => {
-      try {
-        const res = await fetch(API_ME, { headers: authHeaders, signal: ctrl.signal });
-        if (!res.ok) throw new Error("Gagal memuat profil");
-        const me: Me = await res.json();
-        if (!mounted.current) return;
-
-        const prof = me?.profile ?? {};
+        const prof = me?.profile ?? me;
         setName((prof?.name ?? me?.name ?? "").trim?.() ?? "");
         setPhone(prof?.phone ?? "");
         setAddress(prof?.address ?? "");
@@ -156,8 +138,7 @@ export default function SettingsScreen() {
         mounted.current && setLoading(false);
       }
     })();
-    return () => ctrl.abort();
-  }, [token, authHeaders]);
+  }, [status, refreshProfile]);
 
   // PILIH FOTO
   async function onPickPhoto() {
@@ -209,13 +190,13 @@ export default function SettingsScreen() {
     }
   }
 
-  // SIMPAN (selalu multipart + _method=PATCH; aman walau tanpa foto)
+  // SIMPAN: ada foto → multipart + _method=PATCH; tanpa foto → JSON lewat outbox (aman saat offline)
   async function onSave() {
+    clearError();
     try {
       setSaving(true);
 
       const fd = new FormData();
-      fd.append("_method", "PATCH");
 
       // kirim field termasuk kosong (biar bisa clear)
       fd.append("name", name);
@@ -235,32 +216,40 @@ export default function SettingsScreen() {
         } as any);
       }
 
-      const res = await fetch(API_PROFILE, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          // penting: JANGAN set Content-Type untuk FormData
-        },
-        body: fd,
-      });
-
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        console.warn("PROFILE SAVE FAILED", res.status, json);
-        const firstErr =
-          (json?.errors && (Object.values(json.errors)[0] as any)?.[0]) ||
-          json?.message ||
-          `HTTP ${res.status}`;
-        throw new Error(firstErr);
+      let json: any;
+      try {
+        if (photoAsset) {
+          json = await api.profile.update(fd);
+          invalidateQueries("/auth/me");
+        } else {
+          const res = await sendOrQueue({
+            kind: "profile.update",
+            label: "Perubahan profil",
+            method: "PATCH",
+            endpoint: "/auth/profile",
+            body: {
+              name,
+              phone,
+              address,
+              bio,
+              location_lat: lat !== null && isFinite(Number(lat)) ? lat : null,
+              location_lng: lng !== null && isFinite(Number(lng)) ? lng : null,
+            },
+            invalidate: ["/auth/me"],
+          });
+          if (res.queued) {
+            Alert.alert("Disimpan sementara", "Koneksi bermasalah. Perubahan profil akan dikirim otomatis saat koneksi kembali.");
+            return;
+          }
+          json = unwrap(res.data);
+        }
+      } catch (err: any) {
+        log.warn("PROFILE SAVE FAILED", err?.status, err?.data);
+        throw err;
       }
 
       // Ambil profile dari berbagai bentuk payload
-      const savedProfile =
-        json?.profile ??
-        json?.data?.profile ??
-        json?.data?.user?.profile ??
-        null;
+      const savedProfile = json?.profile ?? json?.user?.profile ?? null;
 
       // foto absolut + cache bust
       let newUrl: string =
@@ -297,29 +286,24 @@ export default function SettingsScreen() {
         );
       }
 
-      // update cache local
-      try {
-        const raw = await SecureStore.getItemAsync("auth");
-        if (raw) {
-          const auth = JSON.parse(raw);
-          if (!auth.profile) auth.profile = {};
-          auth.user = auth.user || {};
-          auth.user.name = savedProfile?.name ?? name;
-          auth.profile.name = savedProfile?.name ?? name;
-          auth.profile.phone = savedProfile?.phone ?? phone;
-          auth.profile.address = savedProfile?.address ?? address;
-          auth.profile.bio = savedProfile?.bio ?? bio;
-          auth.profile.photo_url = savedProfile?.photo_url ?? newUrl ?? auth.profile.photo_url;
-          auth.profile.location_lat =
-            savedProfile?.location_lat ?? lat;
-          auth.profile.location_lng =
-            savedProfile?.location_lng ?? lng;
-          await SecureStore.setItemAsync("auth", JSON.stringify(auth));
-        }
-      } catch {}
+      // sinkron sesi (nama/foto di header & layar lain)
+      const savedPhone = savedProfile?.phone ?? phone;
+      const phoneChanged = isPhoneChanged(user, savedPhone);
+      updateProfileLocally({
+        name: savedProfile?.name ?? name,
+        phone: savedProfile?.phone ?? phone,
+        address: savedProfile?.address ?? address,
+        bio: savedProfile?.bio ?? bio,
+        ...(savedProfile?.photo_url || newUrl ? { photo_url: savedProfile?.photo_url ?? newUrl } : {}),
+        location_lat: savedProfile?.location_lat ?? lat,
+        location_lng: savedProfile?.location_lng ?? lng,
+        ...(phoneChanged ? { phone_verified_at: savedProfile?.phone_verified_at ?? null } : {}),
+      });
 
-      Alert.alert("Sukses", "Profil berhasil diperbarui.");
+      alertProfileSaved(router, phoneChanged);
     } catch (e: any) {
+      // 401 sudah ditangani global; 422 → error per field di bawah input
+      if (isUnauthorized(e) || applyFieldErrors(e)) return;
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan profil.");
     } finally {
       setSaving(false);
@@ -329,11 +313,7 @@ export default function SettingsScreen() {
   async function onLogout() {
     try {
       setLoggingOut(true);
-      await fetch(`${API_LOGOUT}?all=true`, {
-        method: "POST",
-        headers: { Accept: "application/json", ...(authHeaders || {}) },
-      }).catch(() => {});
-      await SecureStore.deleteItemAsync("auth");
+      await logout();
       Alert.alert("Keluar", "Anda telah keluar.", [{ text: "OK", onPress: () => router.replace("/(auth)/login") }]);
     } finally {
       setLoggingOut(false);
@@ -353,17 +333,26 @@ export default function SettingsScreen() {
       <Text style={styles.title}>Settings</Text>
       <Text style={styles.caption}>Ubah profil Anda atau keluar dari akun.</Text>
 
+      <ContactVerificationCard style={styles.contactCard} />
+      <SessionsLink style={styles.contactCard} />
+      <AccountSwitcher style={styles.contactCard} />
+      <DeveloperLink style={styles.contactCard} />
+
       <Text style={styles.label}>Nama</Text>
-      <TextInput value={name} onChangeText={setName} style={styles.input} placeholder="Nama" placeholderTextColor={MUTED} />
+      <TextInput value={name} onChangeText={(t) => { setName(t); clearError("name"); }} style={[styles.input, !!errors.name && styles.inputError]} placeholder="Nama" placeholderTextColor={MUTED} />
+      <FieldError message={errors.name} style={styles.fieldError} />
 
       <Text style={styles.label}>No. HP</Text>
-      <TextInput value={phone} onChangeText={setPhone} style={styles.input} keyboardType="phone-pad" placeholder="0812xxxxxxx" placeholderTextColor={MUTED} />
+      <TextInput value={phone} onChangeText={(t) => { setPhone(t); clearError("phone"); }} style={[styles.input, !!errors.phone && styles.inputError]} keyboardType="phone-pad" placeholder="0812xxxxxxx" placeholderTextColor={MUTED} />
+      <FieldError message={errors.phone} style={styles.fieldError} />
 
       <Text style={styles.label}>Alamat</Text>
-      <TextInput value={address} onChangeText={setAddress} style={styles.input} placeholder="Alamat" placeholderTextColor={MUTED} />
+      <TextInput value={address} onChangeText={(t) => { setAddress(t); clearError("address"); }} style={[styles.input, !!errors.address && styles.inputError]} placeholder="Alamat" placeholderTextColor={MUTED} />
+      <FieldError message={errors.address} style={styles.fieldError} />
 
       <Text style={styles.label}>Bio</Text>
-      <TextInput value={bio} onChangeText={setBio} style={[styles.input, { height: 100, textAlignVertical: "top" }]} placeholder="Tentang Anda" placeholderTextColor={MUTED} multiline />
+      <TextInput value={bio} onChangeText={(t) => { setBio(t); clearError("bio"); }} style={[styles.input, { height: 100, textAlignVertical: "top" }, !!errors.bio && styles.inputError]} placeholder="Tentang Anda" placeholderTextColor={MUTED} multiline />
+      <FieldError message={errors.bio} style={styles.fieldError} />
 
       {/* GPS */}
       <Text style={styles.label}>Lokasi (GPS)</Text>
@@ -386,6 +375,7 @@ export default function SettingsScreen() {
             keyboardType="numeric"
           />
         </View>
+        <FieldError message={errors.location_lat || errors.location_lng} />
         <TouchableOpacity style={styles.secondaryBtn} onPress={onPickLocation} disabled={locLoading}>
           {locLoading ? <ActivityIndicator /> : <Ionicons name="navigate-outline" size={18} color={PURPLE} />}
           <Text style={styles.secondaryText}>{locLoading ? "Mengambil..." : "Ambil Lokasi Saya"}</Text>
@@ -410,6 +400,9 @@ export default function SettingsScreen() {
         <Ionicons name="image-outline" size={18} color={PURPLE} />
         <Text style={styles.secondaryText}>{photoAsset ? "Ganti Foto" : "Pilih Foto"}</Text>
       </TouchableOpacity>
+      <FieldError message={errors.photo_url} style={styles.fieldError} />
+
+      <OutboxStatus kinds={["profile.update"]} style={styles.outbox} />
 
       <TouchableOpacity style={[styles.primaryBtn, saving && { opacity: 0.7 }]} onPress={onSave} disabled={saving}>
         {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryText}>Simpan Perubahan</Text>}
@@ -440,6 +433,10 @@ const styles = StyleSheet.create({
     marginHorizontal: 20, borderWidth: 1, borderColor: BORDER, borderRadius: 12, paddingHorizontal: 12,
     height: 46, color: "#111", backgroundColor: "#fff",
   },
+  inputError: { borderColor: "#DC2626" },
+  fieldError: { marginHorizontal: 20 },
+  contactCard: { marginHorizontal: 20, marginBottom: 6 },
+  outbox: { marginHorizontal: 20, marginTop: 16 },
   primaryBtn: {
     marginHorizontal: 20, marginTop: 16, height: 50, borderRadius: 12, backgroundColor: PURPLE,
     alignItems: "center", justifyContent: "center",
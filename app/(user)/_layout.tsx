@@ -19,17 +19,20 @@
 // }
 
 import { Stack } from "expo-router";
+import SessionGuard from "../../components/SessionGuard";
 
 export default function UserLayout() {
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-      <Stack.Screen name="offerings/[id]" />
-      <Stack.Screen name="bookings/new" />
-      <Stack.Screen name="bookings/[id]" />
-      <Stack.Screen name="profile" />
-      <Stack.Screen name="mua/[id]" />
-      <Stack.Screen name="notifications" />
-    </Stack>
+    <SessionGuard group="(user)">
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="offerings/[id]" />
+        <Stack.Screen name="bookings/new" />
+        <Stack.Screen name="bookings/[id]" />
+        <Stack.Screen name="profile" />
+        <Stack.Screen name="mua/[id]" />
+        <Stack.Screen name="notifications" />
+      </Stack>
+    </SessionGuard>
   );
 }
\ No newline at end of file
@@ -14,11 +14,21 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import * as Clipboard from "expo-clipboard";
-import authStorage from "../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
-
-/* ============== Debug & Console Helpers ============== */
+import InvoiceSummary from "../../../components/InvoiceSummary";
+import LoginRequired from "../../../components/LoginRequired";
+import PaymentInstructions from "../../../components/PaymentInstructions";
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, isAbortError, isUnauthorized } from "../../../lib/api";
+import { PAYMENT_STAGE_COLORS, PAYMENT_STAGE_LABELS, paymentStage } from "../../../lib/payments";
+import { muaLocationsQuery } from "../../../lib/queries";
+import { formatIDR, reconcileBooking } from "../../../lib/pricing";
+import { fetchQuery } from "../../../lib/query";
+import type { Booking, MuaLocation as MuaLoc, Offering } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
+
+/* ============== Debug Helpers ============== */
+const log = createLogger("BOOKING");
 const DEBUG_ALERT = false; // set ke false saat production
-const LOG_NS = "[BookingInvoice]";
 
 function debugAlert(title: string, payload?: any) {
   if (!DEBUG_ALERT) return;
@@ -33,74 +43,13 @@ function debugAlert(title: string, payload?: any) {
   if (msg.length > 1200) msg = msg.slice(0, 1200) + "…(truncated)";
   Alert.alert(`[DEBUG] ${title}`, msg || "(no details)");
 }
-function log(...args: any[]) { console.log(LOG_NS, ...args); }
-function warn(...args: any[]) { console.warn(LOG_NS, ...args); }
-function error(...args: any[]) { console.error(LOG_NS, ...args); }
-
-/* ===================== Types ===================== */
-type Booking = {
-  id: number | string;
-  customer_id: string;
-  mua_id: string;
-  offering_id?: number | string | null;
-  booking_date: string;
-  booking_time: string;
-  service_type: "home_service" | "studio";
-  location_address?: string | null;
-  notes?: string | null;
-
-  invoice_number?: string | null;
-  invoice_date?: string | null;
-  due_date?: string | null;
-  amount?: string | number | null;
-  selected_add_ons?: { name: string; price: number }[] | any[];
-  subtotal?: string | number | null;
-  tax_amount?: string | number | null;
-  discount_amount?: string | number | null;
-  grand_total?: string | number | null;
-  tax?: string | number | null;
-  total?: string | number | null;
-
-  status: "pending" | "confirmed" | "rejected" | "cancelled" | "completed";
-  payment_method?: string | null;
-  payment_status?: "unpaid" | "paid" | "refunded";
-  created_at?: string;
-  updated_at?: string;
-};
-
-type Offering = {
-  id: number | string;
-  name_offer: string;
-  price?: string | number;
-  makeup_type?: string | null;
-};
-
-type MuaLoc = {
-  id: string;
-  name: string;
-  address?: string;
-  phone?: string | null;
-};
 
 /* ===================== Consts ===================== */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_BOOKING = (id: string | number) => `${API_BASE}/bookings/${id}`;
-const API_OFFERING = (id: string | number) => `${API_BASE}/offerings/${id}`;
-const API_MUA_LOC = `${API_BASE}/mua-location`;
-
 const PURPLE = "#AA60C8";
 const MUTED = "#6B7280";
 const BORDER = "#E5E7EB";
 
 /* ===================== Utils ===================== */
-const formatIDR = (n: number) =>
-  `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(n))}`;
-
-function safeNum(v: any, fallback = 0) {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-}
 
 function fmtDate(idt?: string | null) {
   if (!idt) return "-";
@@ -114,62 +63,6 @@ function fmtDate(idt?: string | null) {
   });
 }
 
-type HeaderMap = Record<string, string>;
-
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-    const res = await fetch(url, {
-      method: init.method ?? "GET",
-      cache: "no-store",
-      ...init,
-      headers,
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error;
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
-/** Normalisasi nomor telepon ke +62xxxxxxxx */
 function normalizePhoneToID(pho?: string | null): string | null {
   if (!pho) return null;
   let s = String(pho).trim();
@@ -182,7 +75,20 @@ function normalizePhoneToID(pho?: string | null): string | null {
 }
 
 /* ===================== Screen ===================== */
-export default function BookingInvoiceScreen() {
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function BookingInvoiceRoute() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  return (
+    <LoginRequired
+      message="Masuk untuk melihat detail booking ini."
+      returnTo={{ pathname: "/(user)/bookings/[id]", params: { id: String(id ?? "") } }}
+    >
+      <BookingInvoiceScreen />
+    </LoginRequired>
+  );
+}
+
+function BookingInvoiceScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
 
@@ -190,66 +96,51 @@ export default function BookingInvoiceScreen() {
   const [offering, setOffering] = useState<Offering | null>(null);
   const [mua, setMua] = useState<MuaLoc | null>(null);
   const [loading, setLoading] = useState(true);
+  const signal = useUnmountSignal();
   const [copied, setCopied] = useState(false);
 
   useEffect(() => {
     if (!id) return;
     
     (async () => {
-      const group = `${LOG_NS} fetch:${id}`;
-      console.groupCollapsed(group);
       try {
         setLoading(true);
-        const headers = await getAuthHeaders();
-        log("headers ready", Object.keys(headers));
 
         // Booking
-        const bJson = await safeFetchJSON<{ data?: Booking } | Booking>(API_BOOKING(id), { headers });
-        const bData: Booking = (bJson as any)?.data ?? (bJson as Booking);
+        const bData = await api.bookings.get(id, { signal: signal() });
         setBooking(bData);
-        log("booking loaded", { id: bData?.id, mua_id: bData?.mua_id, offering_id: bData?.offering_id });
+        log.debug("booking loaded", { id: bData?.id, mua_id: bData?.mua_id, offering_id: bData?.offering_id });
 
         // Offering (optional)
         if (bData?.offering_id) {
           try {
-            const oJson = await safeFetchJSON<{ data?: Offering } | Offering>(
-              API_OFFERING(bData.offering_id),
-              { headers }
-            );
-            const oData = (oJson as any)?.data ?? (oJson as Offering);
+            const oData = await api.offerings.get(bData.offering_id, undefined, { signal: signal() });
             setOffering(oData);
-            log("offering loaded", { id: oData?.id, name_offer: oData?.name_offer });
+            log.debug("offering loaded", { id: oData?.id, name_offer: oData?.name_offer });
           } catch (e: any) {
-            warn("offering fetch failed", e?.message || e);
+            log.warn("offering fetch failed", e?.message || e);
             setOffering(null);
           }
         } else {
-          log("no offering_id, skipping offering fetch");
+          log.debug("no offering_id, skipping offering fetch");
         }
 
         // MUA list (ambil nama & phone)
         try {
-          const mJson = await safeFetchJSON<{ data?: MuaLoc[] } | MuaLoc[]>(API_MUA_LOC, { headers });
-          const list: MuaLoc[] = (mJson as any)?.data ?? (mJson as MuaLoc[]) ?? [];
+          const list = await fetchQuery(muaLocationsQuery());
           const found = list.find((m) => m.id === bData.mua_id) || null;
           setMua(found);
-          log("mua loaded", found ? { id: found.id, name: found.name, phone: found.phone } : "not found");
+          log.debug("mua loaded", found ? { id: found.id, name: found.name, phone: found.phone } : "not found");
         } catch (e: any) {
-          warn("mua fetch failed", e?.message || e);
+          log.warn("mua fetch failed", e?.message || e);
           setMua(null);
         }
       } catch (e: any) {
-        error("fetch error", e?.message || e);
-        if (e?.message === "401_UNAUTH") {
+        if (isAbortError(e)) return;
+        log.error("fetch error", e?.message || e);
+        if (isUnauthorized(e)) {
+          // sesi berakhir ditangani global oleh lib/api
           debugAlert("Auth expired / 401", { id, error: e?.message });
-          Alert.alert("Sesi Berakhir", "Silakan login kembali.", [
-            {
-              text: "OK",
-              onPress: () => {
-                router.replace("/(auth)/login");
-              }
-            }
-          ]);
         } else {
           debugAlert("Load invoice gagal", { id, error: e?.message });
           Alert.alert("Error", "Gagal memuat detail booking: " + (e.message || "Unknown error"), [
@@ -263,46 +154,28 @@ export default function BookingInvoiceScreen() {
         }
       } finally {
         setLoading(false);
-        console.groupEnd();
       }
     })();
-  }, [id, router]);
-
-  const computed = useMemo(() => {
-    const amount = safeNum(booking?.amount ?? offering?.price, 0);
-    const subtotal = safeNum(booking?.subtotal ?? amount, amount);
-    const discount = safeNum(booking?.discount_amount, 0);
-
-    let taxAmount = safeNum(booking?.tax_amount, NaN);
-    if (!Number.isFinite(taxAmount)) {
-      const taxPct = safeNum(booking?.tax, 0);
-      taxAmount = (subtotal - discount) * (taxPct / 100);
-    }
+  }, [id, router, signal]);
 
-    const grand = safeNum(booking?.grand_total, subtotal - discount + taxAmount);
-    return { amount, subtotal, discount, taxAmount, grand };
-  }, [booking, offering]);
+  // total server = yang ditagihkan; lib/pricing memberi rincian & memeriksa selisih
+  const pricing = useMemo(() => (booking ? reconcileBooking(booking, offering) : null), [booking, offering]);
 
-  const statusColor = useMemo(() => {
-    const s = (booking?.payment_status || "unpaid").toLowerCase();
-    if (s === "paid") return "#16A34A";
-    if (s === "refunded") return "#0EA5E9";
-    return "#F59E0B";
-  }, [booking]);
+  // status bayar: payment_status + bukti transfer + jatuh tempo (lib/payments)
+  const stage = booking ? paymentStage(booking) : "unpaid";
+  const statusColor = PAYMENT_STAGE_COLORS[stage];
 
   // WhatsApp CTA
   const onPressPesan = async () => {
-    const group = `${LOG_NS} wa:${booking?.id}`;
-    console.groupCollapsed(group);
     try {
       if (!mua) {
-        warn("MUA belum siap", { bookingId: booking?.id });
+        log.warn("MUA belum siap", { bookingId: booking?.id });
         Alert.alert("Info", "Data MUA belum tersedia. Silakan coba lagi nanti.");
         return;
       }
       const intl = normalizePhoneToID(mua.phone || undefined);
       if (!intl) {
-        warn("Nomor WA kosong/invalid", { phone: mua?.phone });
+        log.warn("Nomor WA kosong/invalid", { phone: mua?.phone });
         Alert.alert("Info", "Nomor WhatsApp MUA tidak tersedia.");
         return;
       }
@@ -318,24 +191,22 @@ export default function BookingInvoiceScreen() {
           `• Invoice: ${inv}\n` +
           `• Layanan: ${title}\n` +
           `• Jadwal: ${whenText}\n` +
-          `• Total: ${formatIDR(computed.grand)}\n\n` +
+          `• Total: ${formatIDR(pricing?.totals.total ?? 0)}\n\n` +
           `Mohon info ketersediaannya. Terima kasih.`
       );
 
       const waUrl = `https://wa.me/${intl.replace("+", "")}?text=${text}`;
       const canOpen = await Linking.canOpenURL(waUrl);
-      log("wa intent", { waUrl, canOpen });
+      log.debug("wa intent", { waUrl, canOpen });
       if (canOpen) {
         await Linking.openURL(waUrl);
       } else {
-        warn("Tidak bisa open WhatsApp", { waUrl });
+        log.warn("Tidak bisa open WhatsApp", { waUrl });
         Alert.alert("Error", "Tidak dapat membuka WhatsApp. Pastikan aplikasi WhatsApp terinstall.");
       }
     } catch (err: any) {
-      error("WA open error", err?.message || err);
+      log.error("WA open error", err?.message || err);
       Alert.alert("Error", "Gagal membuka WhatsApp: " + (err.message || "Unknown error"));
-    } finally {
-      console.groupEnd();
     }
   };
 
@@ -377,7 +248,7 @@ export default function BookingInvoiceScreen() {
         <TouchableOpacity
           style={styles.back}
           onPress={() => {
-            log("back pressed");
+            log.debug("back pressed");
             router.back();
           }}
         >
@@ -391,9 +262,9 @@ export default function BookingInvoiceScreen() {
       <View style={styles.card}>
         <View style={styles.rowBetween}>
           <View style={[styles.badge, { backgroundColor: `${statusColor}22`, borderColor: statusColor }]}>
-            <Ionicons name="time-outline" size={14} color={statusColor} />
+            <Ionicons name={stage === "paid" ? "checkmark-circle-outline" : "time-outline"} size={14} color={statusColor} />
             <Text style={{ color: statusColor, fontWeight: "700", marginLeft: 6 }}>
-              {(booking.payment_status || "unpaid").toUpperCase()}
+              {PAYMENT_STAGE_LABELS[stage].toUpperCase()}
             </Text>
           </View>
 
@@ -401,12 +272,12 @@ export default function BookingInvoiceScreen() {
             style={[styles.iconBtn, { backgroundColor: "#F3F4F6" }]}
             onPress={async () => {
               try {
-                log("share pressed", { inv, title, total: computed.grand });
+                log.debug("share pressed", { inv, title, total: pricing?.totals.total });
                 await Share.share({
-                  message: `Invoice ${inv}\n${title}\nTotal ${formatIDR(computed.grand)}`,
+                  message: `Invoice ${inv}\n${title}\nTotal ${formatIDR(pricing?.totals.total ?? 0)}`,
                 });
               } catch (err: any) {
-                error("share error", err?.message || err);
+                log.error("share error", err?.message || err);
                 Alert.alert("Error", "Gagal berbagi invoice: " + (err.message || "Unknown error"));
               }
             }}
@@ -444,15 +315,7 @@ export default function BookingInvoiceScreen() {
       <View style={styles.card}>
         <Text style={styles.sectionTitle}>Ringkasan Pembayaran</Text>
 
-        <Row label="Subtotal" value={formatIDR(computed.subtotal)} />
-        {computed.discount > 0 && (
-          <Row label="Diskon" value={`- ${formatIDR(computed.discount)}`} />
-        )}
-        {computed.taxAmount > 0 && (
-          <Row label="Pajak" value={formatIDR(computed.taxAmount)} />
-        )}
-        <View style={[styles.divider, { marginVertical: 10 }]} />
-        <Row label="Total" value={formatIDR(computed.grand)} bold />
+        {pricing && <InvoiceSummary pricing={pricing} />}
 
         <View style={{ marginTop: 16, gap: 10 }}>
           {/* Copy invoice number */}
@@ -460,12 +323,12 @@ export default function BookingInvoiceScreen() {
             style={[styles.btn, { backgroundColor: PURPLE }]}
             onPress={async () => {
               try {
-                log("copy invoice pressed", inv);
+                log.debug("copy invoice pressed", inv);
                 await Clipboard.setStringAsync(inv);
                 setCopied(true);
                 setTimeout(() => setCopied(false), 1500);
               } catch (err: any) {
-                error("copy invoice error", err?.message || err);
+                log.error("copy invoice error", err?.message || err);
                 Alert.alert("Error", "Gagal menyalin invoice: " + (err.message || "Unknown error"));
               }
             }}
@@ -493,7 +356,7 @@ export default function BookingInvoiceScreen() {
           <TouchableOpacity
             style={[styles.btn, { backgroundColor: "#F3F4F6" }]}
             onPress={() => {
-              log("back to list pressed");
+              log.debug("back to list pressed");
               router.replace("/(user)/(tabs)/booking");
             }}
           >
@@ -502,6 +365,12 @@ export default function BookingInvoiceScreen() {
         </View>
       </View>
 
+      {/* Pembayaran transfer manual */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Pembayaran</Text>
+        <PaymentInstructions booking={booking} amount={pricing?.totals.total ?? 0} onUpdated={setBooking} />
+      </View>
+
       {/* Informasi tambahan */}
       <View style={styles.infoCard}>
         <Text style={styles.infoTitle}>Informasi Penting</Text>
@@ -512,7 +381,7 @@ export default function BookingInvoiceScreen() {
           • Hubungi MUA minimal 1 hari sebelum jadwal booking
         </Text>
         <Text style={styles.infoText}>
-          • Pembayaran dapat dilakukan via transfer atau cash
+          • Setelah transfer, unggah bukti agar MUA dapat memverifikasi
         </Text>
         <Text style={styles.infoText}>
           • Batalkan booking minimal 24 jam sebelumnya jika tidak jadi
@@ -1,140 +1,109 @@
 // app/(user)/bookings/new.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   View, Text, StyleSheet, ScrollView, Image, TouchableOpacity,
   ActivityIndicator, TextInput, Alert, Platform,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import * as SecureStore from "expo-secure-store";
-import DateTimePicker from "@react-native-community/datetimepicker";
+import FieldError from "../../../components/FieldError";
+import SlotPicker from "../../../components/SlotPicker";
+import { collaborationAddOn, collaborationPrice, offeringAddOns, toSelectedAddOn } from "../../../lib/addOns";
+import VerifyContactBanner from "../../../components/VerifyContactBanner";
+import { api, ApiError, unwrap } from "../../../lib/api";
+import { useAuth } from "../../../lib/auth";
+import { hm, isSlotTakenError, ymd } from "../../../lib/availability";
+import { useFieldErrors } from "../../../lib/formErrors";
+import { clearDraft, readDraft, saveDraft, useRequireLogin } from "../../../lib/guest";
+import { sendOrQueue } from "../../../lib/outbox";
+import { describeVoucher, normalizeVoucherCode, voucherDiscount, voucherProblem } from "../../../lib/vouchers";
+import { computePrice, formatIDR, mismatchMessage, PRICING_CONFIG, reconcileBooking } from "../../../lib/pricing";
+import { invalidateQueries, useMutation } from "../../../lib/query";
+import { isUnverifiedContactError, unverifiedContacts } from "../../../lib/verification";
+import type { Booking, BookingCreatePayload, Offering as OfferingBase, Voucher } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("BOOKING");
 
 /* ========= Types ========= */
-type Offering = {
-  id: number;
-  mua_id?: string; // UUID (optional; hanya fallback)
-  name_offer: string;
-  offer_pictures?: string[];
-  price?: string | number;
-  makeup_type?: string | null;
-
+type Offering = OfferingBase & {
   // dari backend (opsi A: JOIN profiles p.name as mua_name, p.photo_url as mua_photo)
   mua_name?: string;
   mua_photo?: string;
-
-  // kemungkinan backend pakai include relasi
-  mua?: { id?: string; name?: string } | null;
 };
 
-type Me = {
-  id?: string | number;
-  profile?: { id?: string; name?: string };
-  name?: string;
-};
-
-type MuaProfile = { id?: string; name?: string | null };
-
 /* ========= Const ========= */
-const API_BASE = "https://smstudio.my.id/api";
-const API_OFFERINGS = `${API_BASE}/offerings`;
-const API_BOOKINGS  = `${API_BASE}/bookings`;
-const API_ME        = `${API_BASE}/auth/me`;
-const API_MUAS      = `${API_BASE}/mua-location`; // fallback terakhir
-
 const PURPLE     = "#AA60C8";
 const TEXT_MUTED = "#6B7280";
 const CARD_BG    = "#F7F0FF";
 const BORDER     = "#E5E7EB";
 
-/* ========= Helpers ========= */
-const formatIDR = (n: number) =>
-  `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(isFinite(n) ? n : 0))}`;
-
-const ymd = (d: Date) =>
-  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
-
-const hm = (d: Date) =>
-  `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+/** Isian form yang disimpan saat tamu diminta login (lib/guest) */
+type BookingDraft = {
+  person: number;
+  serviceType: "home_service" | "studio";
+  address: string;
+  notes: string;
+  /** ISO; null = jadwal belum dipilih */
+  date: string | null;
+  /** id add-on terpilih (Offering.add_ons) */
+  addOnIds: string[];
+  withCollab: boolean;
+  /** hanya kode; voucher divalidasi ulang saat draft dipulihkan */
+  voucherCode: string | null;
+};
 
+/* ========= Helpers ========= */
 const uuidRe =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-async function getTokenAndCustomerUUID(): Promise<{ token: string | null; customerUUID: string | null }> {
-  let token: string | null = null;
-  let customerUUID: string | null = null;
-
-  // Ambil dari SecureStore (jaga-jaga)
-  const raw = await SecureStore.getItemAsync("auth");
-  if (raw) {
-    try {
-      const auth = JSON.parse(raw);
-      token = auth?.token ?? null;
-      const maybeProfile = auth?.profile?.id || auth?.user?.profile?.id;
-      if (maybeProfile && uuidRe.test(String(maybeProfile))) {
-        customerUUID = String(maybeProfile);
-      }
-    } catch {}
-  }
-
-  // GET /auth/me untuk konfirmasi profile.id
-  try {
-    const res = await fetch(API_ME, {
-      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-    });
-    if (res.ok) {
-      const me: Me = await res.json();
-      const profId = me?.profile?.id;
-      if (profId && uuidRe.test(String(profId))) {
-        customerUUID = String(profId);
-      }
-    }
-  } catch {}
-
-  return { token, customerUUID };
-}
-
-/** POST + ekstraksi error Laravel */
-async function postJSONLogged<T = any>(url: string, headers: Record<string, string>, body: any): Promise<T> {
-  const res = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
-  const ct = res.headers.get("content-type") || "";
-  const raw = await res.text();
-
-  if (!res.ok) {
-    let msg = `HTTP ${res.status}`;
-    let details = "";
-    try {
-      if (ct.includes("json")) {
-        const j = JSON.parse(raw);
-        msg = j.message || j.error || msg;
-        if (j.errors && typeof j.errors === "object") {
-          details = Object.entries(j.errors)
-            .map(([k, v]) => `${k}: ${(v as any[]).join(", ")}`)
-            .join("\n");
-        }
-      } else {
-        details = raw.slice(0, 800);
-      }
-    } catch {
-      details = raw.slice(0, 800);
-    }
-    throw new Error([msg, details].filter(Boolean).join("\n"));
-  }
-
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    return raw as unknown as T;
-  }
+/** Field yang punya input di form ini — error lain (customer_id, mua_id, ...) tetap lewat Alert */
+const INLINE_FIELDS = [
+  "person",
+  "booking_date",
+  "booking_time",
+  "service_type",
+  "location_address",
+  "notes",
+  "selected_add_ons",
+  "voucher_code",
+];
+
+/** Pesan error Laravel + detail validasi untuk field yang tidak tampil di form */
+function bookingErrorMessage(e: any) {
+  const errors = e instanceof ApiError ? e.errors : {};
+  const details = Object.entries(errors)
+    .filter(([k]) => !INLINE_FIELDS.includes(k.split(".")[0]))
+    .map(([k, v]) => `${k}: ${v.join(", ")}`)
+    .join("\n");
+  return [e?.message, details].filter(Boolean).join("\n");
 }
 
 /* ========= Screen ========= */
 export default function BookingCreateScreen() {
   const router = useRouter();
+  // gagal jaringan → disimpan di outbox & dikirim ulang otomatis; sukses → /bookings di cache basi
+  const createBooking = useMutation((p: BookingCreatePayload) =>
+    sendOrQueue<Booking | { data: Booking }>({
+      kind: "booking.create",
+      label: `Booking ${item?.name_offer || "paket"} · ${p.booking_date} ${p.booking_time}`,
+      method: "POST",
+      endpoint: "/bookings",
+      body: p,
+      // slot yang baru dipesan harus hilang dari picker
+      invalidate: ["/bookings", `/mua/${p.mua_id}/availability`],
+    })
+  );
+  // tap kedua sebelum re-render masih melihat loading=false; tiap kiriman punya Idempotency-Key baru
+  const sendingRef = useRef(false);
   const { offeringId } = useLocalSearchParams<{ offeringId?: string }>();
 
-  // auth + me
-  const [token, setToken] = useState<string | null>(null);
-  const [customerId, setCustomerId] = useState<string | null>(null); // UUID
+  // customer_id = id profil (UUID) dari sesi
+  const { profileId: customerId, user } = useAuth();
+  // tamu boleh mengisi form; login diminta saat submit lalu kembali ke sini
+  const requireLogin = useRequireLogin();
+  const draftKey = `booking:${offeringId ?? ""}`;
+  const [draft] = useState(() => readDraft<BookingDraft>(draftKey));
 
   // offering
   const [item, setItem] = useState<Offering | null>(null);
@@ -145,34 +114,50 @@ export default function BookingCreateScreen() {
   const [vendorLoading, setVendorLoading] = useState<boolean>(false);
 
   // form
-  const [person, setPerson] = useState(1);
-  const [serviceType, setServiceType] = useState<"home_service" | "studio">("home_service");
-  const [address, setAddress] = useState("");
-  const [notes, setNotes] = useState("");
-
-  const [date, setDate] = useState<Date>(() => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1); // default besok
-    d.setHours(8, 0, 0, 0);
-    return d;
-  });
-  const [showPicker, setShowPicker] = useState<null | "date" | "time">(null);
-
-  // harga
-  const priceNum   = useMemo(() => Number(item?.price ?? 0), [item]);
-  const subTotal   = useMemo(() => Math.max(1, person) * priceNum, [person, priceNum]);
-  const TAX_PERCENT = 11;
-  const taxAmount  = useMemo(() => (subTotal * TAX_PERCENT) / 100, [subTotal]);
-  const grandTotal = useMemo(() => subTotal + taxAmount, [subTotal, taxAmount]);
-
-  // token + me (pastikan customerId = UUID)
-  useEffect(() => {
-    (async () => {
-      const { token: tk, customerUUID } = await getTokenAndCustomerUUID();
-      if (tk) setToken(tk);
-      if (customerUUID) setCustomerId(customerUUID);
-    })();
-  }, []);
+  const [person, setPerson] = useState(draft?.person ?? 1);
+  const [serviceType, setServiceType] = useState<"home_service" | "studio">(draft?.serviceType ?? "home_service");
+  const [address, setAddress] = useState(draft?.address ?? "");
+  const [notes, setNotes] = useState(draft?.notes ?? "");
+  const [addOnIds, setAddOnIds] = useState<string[]>(draft?.addOnIds ?? []);
+  const [withCollab, setWithCollab] = useState(draft?.withCollab ?? false);
+  // voucher yang sudah lolos POST /vouchers/validate; potongan dihitung ulang tiap subtotal berubah
+  const [voucher, setVoucher] = useState<Voucher | null>(null);
+  const [voucherInput, setVoucherInput] = useState("");
+  // kode dari draft: bisa sudah kedaluwarsa / kuota habis → cek ulang setelah paket termuat
+  const [restoredVoucherCode, setRestoredVoucherCode] = useState(draft?.voucherCode ?? null);
+  const [checkingVoucher, setCheckingVoucher] = useState(false);
+
+  // jadwal dipilih dari slot kosong MUA (SlotPicker); tidak ada default supaya tidak menebak jam
+  const [date, setDate] = useState<Date | null>(() => (draft?.date ? new Date(draft.date) : null));
+  const { errors: fieldErrors, apply: applyFieldErrors, clear: clearFieldError, setErrors: setFieldErrors } =
+    useFieldErrors();
+
+  // harga (lib/pricing) — pratinjau; total final dihitung server
+  const addOnOptions = useMemo(() => offeringAddOns(item), [item]);
+  const selectedAddOns = useMemo(
+    () => addOnOptions.filter((a) => addOnIds.includes(String(a.id))),
+    [addOnOptions, addOnIds]
+  );
+  const collabPrice = useMemo(() => collaborationPrice(item), [item]);
+  const collabTotal = withCollab && item?.collaboration ? collabPrice : 0;
+  const pricingInput = useMemo(
+    () => ({
+      unitPrice: Number(item?.price ?? 0),
+      persons: person,
+      addOns: selectedAddOns,
+      collaboration: collabTotal > 0 ? { name: item?.collaboration, price: collabTotal } : null,
+    }),
+    [item, person, selectedAddOns, collabTotal]
+  );
+  const subtotalBeforeVoucher = useMemo(() => computePrice(pricingInput).subtotal, [pricingInput]);
+  const voucherIssue = voucher ? voucherProblem(voucher, { subtotal: subtotalBeforeVoucher, muaId: item?.mua_id }) : null;
+  const discount = voucher && !voucherIssue ? voucherDiscount(voucher, subtotalBeforeVoucher) : 0;
+  const price = useMemo(
+    () => computePrice({ ...pricingInput, discount, discountLabel: voucher ? `Voucher ${voucher.code}` : undefined }),
+    [pricingInput, discount, voucher]
+  );
+  const itemLines = price.lines.filter((l) => l.kind !== "discount" && l.kind !== "tax");
+  const adjustmentLines = price.lines.filter((l) => l.kind === "discount" || l.kind === "tax");
 
   // GET offering
   useEffect(() => {
@@ -183,14 +168,7 @@ export default function BookingCreateScreen() {
       setVendorLoading(true); // mulai loading nama MUA
   
       try {
-        const res = await fetch(`${API_OFFERINGS}/${offeringId}`, {
-          headers: {
-            Accept: "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-        });
-        const json = await res.json().catch(() => ({}));
-        const data: Offering = json?.data ?? json;
+        const data: Offering = await api.offerings.get(offeringId);
   
         if (!mounted) return;
         setItem(data);
@@ -206,7 +184,7 @@ export default function BookingCreateScreen() {
           setVendorLoading(false);
         } else {
           // 2) resolve by offeringId (tanpa fallback "SM Studio")
-          const nm = await resolveVendorNameByOfferingId(String(offeringId), token, data?.mua_id);
+          const nm = await resolveVendorNameByOfferingId(String(offeringId), data?.mua_id);
           if (mounted) {
             setVendorName(nm || ""); // tetap kosong jika gagal
             setVendorLoading(false);
@@ -222,7 +200,14 @@ export default function BookingCreateScreen() {
       }
     })();
     return () => { mounted = false; };
-  }, [offeringId, token]);
+  }, [offeringId]);
+
+  useEffect(() => {
+    if (!item || !restoredVoucherCode) return;
+    setRestoredVoucherCode(null);
+    setVoucherInput(restoredVoucherCode);
+    checkVoucher(restoredVoucherCode);
+  }, [item, restoredVoucherCode]);
 
   // === Nama MUA untuk ditampilkan: prioritaskan dari backend (mua_name), lalu relasi, lalu resolver ===
   const displayVendor = useMemo(() => {
@@ -235,41 +220,29 @@ export default function BookingCreateScreen() {
   }, [item, vendorName]);
   
   // === resolver vendor berdasarkan OFFERING ID ===
-  async function resolveVendorNameByOfferingId(offId: string, authToken: string | null, fallbackMuaId?: string | undefined) {
+  async function resolveVendorNameByOfferingId(offId: string, fallbackMuaId?: string | undefined) {
     setVendorLoading(true);
-    const authHeader = authToken ? { Authorization: `Bearer ${authToken}` } : undefined;
 
     // 1) Coba /offerings/:id?include=mua → data.mua.name
     try {
-      const r1 = await fetch(`${API_OFFERINGS}/${offId}?include=mua`, { headers: { Accept: "application/json", ...authHeader } as any });
-      if (r1.ok) {
-        const j1 = await r1.json().catch(() => ({}));
-        const name = (j1?.data?.mua?.name || j1?.mua?.name || "").trim?.();
-        if (name) return name;
-      }
+      const o = await api.offerings.get(offId, { include: "mua" });
+      const name = (o?.mua?.name || "").trim?.();
+      if (name) return name;
     } catch {}
 
     // 2) Coba /offerings/:id/mua → { name }
     try {
-      const r2 = await fetch(`${API_OFFERINGS}/${offId}/mua`, { headers: { Accept: "application/json", ...authHeader } as any });
-      if (r2.ok) {
-        const j2 = await r2.json().catch(() => ({}));
-        const data: MuaProfile = j2?.data ?? j2;
-        const name = (data?.name || "").trim?.();
-        if (name) return name;
-      }
+      const data = await api.offerings.mua(offId);
+      const name = (data?.name || "").trim?.();
+      if (name) return name;
     } catch {}
 
     // 3) Fallback terakhir: kalau offering punya mua_id → /mua-location/:mua_id
     try {
       if (fallbackMuaId && uuidRe.test(String(fallbackMuaId))) {
-        const r3 = await fetch(`${API_MUAS}/${fallbackMuaId}`, { headers: { Accept: "application/json", ...authHeader } as any });
-        if (r3.ok) {
-          const j3 = await r3.json().catch(() => ({}));
-          const data: MuaProfile = j3?.data ?? j3;
-          const name = (data?.name || "").trim?.();
-          if (name) return name;
-        }
+        const data = await api.muaLocation.get(fallbackMuaId);
+        const name = (data?.name || "").trim?.();
+        if (name) return name;
       }
     } catch {}
 
@@ -277,8 +250,62 @@ export default function BookingCreateScreen() {
     return null;
   }
 
+  /** Booking baru hanya untuk akun dengan email & nomor HP terverifikasi */
+  function askVerification() {
+    Alert.alert("Verifikasi kontak", "Verifikasi email dan nomor HP Anda sebelum membuat booking.", [
+      { text: "Nanti", style: "cancel" },
+      { text: "Verifikasi", onPress: () => router.push("/(account)/verify") },
+    ]);
+  }
+
+  function applyVoucher() {
+    const code = normalizeVoucherCode(voucherInput);
+    clearFieldError("voucher_code");
+    if (!code) {
+      setFieldErrors({ voucher_code: "Masukkan kode voucher." });
+      return;
+    }
+    checkVoucher(code);
+  }
+
+  async function checkVoucher(code: string) {
+    if (!item) return;
+    setCheckingVoucher(true);
+    try {
+      const res = await api.vouchers.validate({ code, offering_id: Number(item.id), subtotal: subtotalBeforeVoucher });
+      setVoucher(res.voucher);
+      setVoucherInput("");
+    } catch (e: any) {
+      if (!applyFieldErrors(e)) Alert.alert("Gagal", e?.message || "Tidak dapat memeriksa voucher.");
+    } finally {
+      setCheckingVoucher(false);
+    }
+  }
+
   // POST booking
   async function submit() {
+    if (createBooking.loading || sendingRef.current) return;
+    clearFieldError();
+    // simpan draft dulu: layar ini bisa dibuat ulang setelah login/daftar
+    saveDraft<BookingDraft>(draftKey, {
+      person,
+      serviceType,
+      address,
+      notes,
+      date: date?.toISOString() ?? null,
+      addOnIds,
+      withCollab,
+      voucherCode: voucher?.code ?? null,
+    });
+    const loggedIn = requireLogin({
+      message: "Masuk atau daftar untuk menyelesaikan booking. Isian Anda tetap tersimpan.",
+      returnTo: { pathname: "/(user)/bookings/new", params: { offeringId: offeringId ?? "" } },
+    });
+    if (!loggedIn) return;
+    if (unverifiedContacts(user).length) {
+      askVerification();
+      return;
+    }
     try {
       if (!item) throw new Error("Offering tidak ditemukan");
       if (!customerId || !uuidRe.test(customerId)) {
@@ -288,11 +315,21 @@ export default function BookingCreateScreen() {
       if (item.mua_id && !uuidRe.test(item.mua_id)) {
         throw new Error("Data MUA tidak valid (mua_id bukan UUID).");
       }
+      if (!date) {
+        setFieldErrors({ booking_date: "Pilih tanggal dan jam booking." });
+        return;
+      }
       if (serviceType === "home_service" && !address.trim()) {
-        throw new Error("Alamat wajib diisi untuk Home Service.");
+        setFieldErrors({ location_address: "Alamat wajib diisi untuk Home Service." });
+        return;
+      }
+      if (voucherIssue) {
+        setFieldErrors({ voucher_code: `${voucherIssue} Hapus voucher untuk melanjutkan.` });
+        return;
       }
 
       const today = new Date();
+      const collabLine = withCollab ? collaborationAddOn(item) : null;
       const payload: any = {
         customer_id: customerId,           // UUID
         offering_id: Number(item.id),      // integer
@@ -307,9 +344,9 @@ export default function BookingCreateScreen() {
         invoice_date: ymd(today),
         due_date: ymd(date),
 
-        // pricing
-        amount: Number(subTotal),
-        tax: 11, // %
+        // pricing — hanya pilihan customer; harga, diskon & pajak dihitung server dari paket
+        selected_add_ons: [...selectedAddOns.map(toSelectedAddOn), ...(collabLine ? [collabLine] : [])],
+        voucher_code: voucher?.code,
 
         payment_method: "manual",
       };
@@ -331,22 +368,55 @@ export default function BookingCreateScreen() {
         }
       });
 
-      const headers = {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      };
-
-      const result = await postJSONLogged<{ data?: { id: number | string } }>(API_BOOKINGS, headers, payload);
-      const bookingId = result?.data?.id ?? (result as any)?.id;
+      sendingRef.current = true;
+      const res = await createBooking.mutate(payload as BookingCreatePayload).finally(() => {
+        sendingRef.current = false;
+      });
+      clearDraft(draftKey);
+      if (res.queued) {
+        Alert.alert(
+          "Disimpan sementara",
+          "Koneksi bermasalah. Pesanan disimpan dan akan dikirim otomatis saat koneksi kembali.",
+          [{ text: "OK", onPress: () => router.replace("/(user)/(tabs)/bookings") }]
+        );
+        return;
+      }
+      const result = unwrap<Booking>(res.data);
+      const bookingId = result?.id;
       if (!bookingId) {
         Alert.alert("Gagal", "Server tidak mengembalikan ID booking.");
         return;
       }
 
-      router.replace(`/(user)/bookings/${bookingId}`);
+      // total final dari server; beri tahu customer kalau berbeda dari rincian yang ia lihat
+      const { totals, mismatches } = reconcileBooking(result, item);
+      if (mismatches.length) log.warn("server total mismatch", mismatchMessage(mismatches));
+      const invoice = () => router.replace(`/(user)/bookings/${bookingId}`);
+      if (Math.abs(totals.total - price.total) > PRICING_CONFIG.tolerance) {
+        Alert.alert(
+          "Total diperbarui",
+          `Total dari server ${formatIDR(totals.total)} (perkiraan sebelumnya ${formatIDR(price.total)}). Rincian ada di invoice.`,
+          [{ text: "Lihat Invoice", onPress: invoice }]
+        );
+        return;
+      }
+      invoice();
     } catch (e: any) {
-      Alert.alert("Gagal", e?.message || "Maaf jadwal mua sudah penuh.");
+      // server menolak: kontak belum terverifikasi (status lokal bisa tertinggal)
+      if (isUnverifiedContactError(e)) {
+        askVerification();
+        return;
+      }
+      // voucher ditolak server (kuota habis, kedaluwarsa, ...) → lepas supaya total kembali normal
+      if (e instanceof ApiError && e.errors?.voucher_code?.length) setVoucher(null);
+      // slot keburu diambil: muat ulang jadwal supaya jam tersebut hilang dari pilihan
+      if (isSlotTakenError(e) && item?.mua_id) {
+        invalidateQueries(`/mua/${item.mua_id}/availability`);
+      }
+      // error validasi yang punya input → tampil inline saja
+      const inline = applyFieldErrors(e) && Object.keys(e.errors).every((k) => INLINE_FIELDS.includes(k.split(".")[0]));
+      if (inline) return;
+      Alert.alert("Gagal", bookingErrorMessage(e) || "Tidak dapat membuat booking.");
     }
   }
 
@@ -389,6 +459,8 @@ export default function BookingCreateScreen() {
           </View>
         </View>
 
+        <VerifyContactBanner style={styles.verifyBanner} />
+
         {/* jumlah orang */}
         <View style={styles.rowBetween}>
           <Text style={styles.formLabel}>Jumlah Orang</Text>
@@ -402,51 +474,38 @@ export default function BookingCreateScreen() {
             </TouchableOpacity>
           </View>
         </View>
+        <FieldError message={fieldErrors.person} style={styles.fieldError} />
 
         {/* jadwal */}
         <Text style={[styles.formLabel, { marginTop: 14 }]}>Jadwal</Text>
-        <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
-          <Text style={{ color: "#111", fontWeight: "600" }}>
-            {`${date.toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit" })} - ${date.toLocaleDateString(
-              "id-ID",
-              { day: "2-digit", month: "long", year: "numeric" }
-            )}`}
-          </Text>
-          <TouchableOpacity style={styles.dateBtn} onPress={() => setShowPicker(showPicker ? null : "date")}>
-            <Text style={{ fontWeight: "700" }}>Tanggal</Text>
-          </TouchableOpacity>
-        </View>
-
-        {showPicker && (
-          <View style={{ marginTop: 6 }}>
-            <DateTimePicker
-              value={date}
-              mode={showPicker}
-              display={Platform.OS === "ios" ? "spinner" : "default"}
-              onChange={(_, d) => {
-                if (!d) return;
-                setDate(d);
-                if (Platform.OS === "android" && showPicker === "date") {
-                  setShowPicker("time");
-                } else {
-                  setShowPicker(null);
-                }
-              }}
-            />
-            {Platform.OS === "ios" && (
-              <TouchableOpacity style={styles.dateDone} onPress={() => setShowPicker(null)}>
-                <Text style={{ fontWeight: "700" }}>Selesai</Text>
-              </TouchableOpacity>
-            )}
-          </View>
-        )}
+        <Text style={styles.dateLabel}>
+          {date
+            ? `${hm(date)} - ${date.toLocaleDateString("id-ID", { day: "2-digit", month: "long", year: "numeric" })}`
+            : "Pilih tanggal & jam yang masih kosong"}
+        </Text>
+        <SlotPicker
+          muaId={item.mua_id}
+          value={date}
+          onChange={(d) => {
+            setDate(d);
+            // pilihan dihapus karena slot terisi → pesan error server tetap tampil
+            if (!d) return;
+            clearFieldError("booking_date");
+            clearFieldError("booking_time");
+          }}
+        />
+        <FieldError message={fieldErrors.booking_date || fieldErrors.booking_time} style={styles.fieldError} />
 
         {/* tipe layanan */}
         <View style={{ flexDirection: "row", gap: 8, marginTop: 14 }}>
           {(["home_service", "studio"] as const).map((t) => (
             <TouchableOpacity
               key={t}
-              onPress={() => setServiceType(t)}
+              onPress={() => {
+                setServiceType(t);
+                clearFieldError("service_type");
+                clearFieldError("location_address");
+              }}
               style={[styles.segment, serviceType === t && { backgroundColor: PURPLE, borderColor: PURPLE }]}
             >
               <Text style={[styles.segmentText, serviceType === t && { color: "#fff", fontWeight: "800" }]}>
@@ -455,50 +514,162 @@ export default function BookingCreateScreen() {
             </TouchableOpacity>
           ))}
         </View>
+        <FieldError message={fieldErrors.service_type} style={styles.fieldError} />
 
         {/* alamat (user) */}
         <Text style={[styles.formLabel, { marginTop: 14 }]}>Alamat</Text>
         <TextInput
           placeholder="Jl. xxx, Nomor 11, Desa xx, Kec. xx"
           placeholderTextColor="#9CA3AF"
-          style={styles.input}
+          style={[styles.input, !!fieldErrors.location_address && styles.inputError]}
           value={address}
-          onChangeText={setAddress}
+          onChangeText={(v) => {
+            setAddress(v);
+            clearFieldError("location_address");
+          }}
           editable={serviceType === "home_service"}
         />
+        <FieldError message={fieldErrors.location_address} style={styles.fieldError} />
 
         {/* catatan */}
         <Text style={[styles.formLabel, { marginTop: 10 }]}>Catatan</Text>
         <TextInput
           placeholder="Catatan Pesanan"
           placeholderTextColor="#9CA3AF"
-          style={styles.textarea}
+          style={[styles.textarea, !!fieldErrors.notes && styles.inputError]}
           value={notes}
-          onChangeText={setNotes}
+          onChangeText={(v) => {
+            setNotes(v);
+            clearFieldError("notes");
+          }}
           multiline
           numberOfLines={5}
           textAlignVertical="top"
         />
+        <FieldError message={fieldErrors.notes} style={styles.fieldError} />
+
+        {/* add-ons & kolaborasi */}
+        {(addOnOptions.length > 0 || !!item.collaboration) && (
+          <>
+            <Text style={[styles.formLabel, { marginTop: 10 }]}>Tambahan Layanan</Text>
+            {addOnOptions.map((a) => {
+              const id = String(a.id);
+              const checked = addOnIds.includes(id);
+              return (
+                <TouchableOpacity
+                  key={id}
+                  style={styles.optionRow}
+                  onPress={() => {
+                    setAddOnIds((prev) => (checked ? prev.filter((x) => x !== id) : [...prev, id]));
+                    clearFieldError("selected_add_ons");
+                  }}
+                >
+                  <Ionicons name={checked ? "checkbox" : "square-outline"} size={20} color={checked ? PURPLE : TEXT_MUTED} />
+                  <Text style={styles.optionName}>{a.name}</Text>
+                  <Text style={styles.optionPrice}>{a.price > 0 ? `+ ${formatIDR(a.price)}` : "Gratis"}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            {!!item.collaboration && (
+              <TouchableOpacity style={styles.optionRow} onPress={() => setWithCollab((v) => !v)}>
+                <Ionicons
+                  name={withCollab ? "checkbox" : "square-outline"}
+                  size={20}
+                  color={withCollab ? PURPLE : TEXT_MUTED}
+                />
+                <Text style={styles.optionName}>{`Kolaborasi dengan ${item.collaboration}`}</Text>
+                <Text style={styles.optionPrice}>{collabPrice > 0 ? `+ ${formatIDR(collabPrice)}` : "Gratis"}</Text>
+              </TouchableOpacity>
+            )}
+            <FieldError message={fieldErrors.selected_add_ons} style={styles.fieldError} />
+          </>
+        )}
+
+        {/* voucher */}
+        <Text style={[styles.formLabel, { marginTop: 10 }]}>Voucher</Text>
+        {voucher ? (
+          <View style={[styles.voucherApplied, !!voucherIssue && styles.voucherInvalid]}>
+            <Ionicons name="pricetag" size={16} color={voucherIssue ? "#B45309" : PURPLE} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.voucherCode}>{voucher.code}</Text>
+              <Text style={[styles.voucherDesc, !!voucherIssue && { color: "#B45309" }]}>
+                {voucherIssue ?? describeVoucher(voucher)}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => {
+                setVoucher(null);
+                clearFieldError("voucher_code");
+              }}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={styles.voucherRemove}>Hapus</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.voucherRow}>
+            <TextInput
+              placeholder="Kode promo"
+              placeholderTextColor="#9CA3AF"
+              style={[styles.input, styles.voucherInput, !!fieldErrors.voucher_code && styles.inputError]}
+              value={voucherInput}
+              onChangeText={(v) => {
+                setVoucherInput(v);
+                clearFieldError("voucher_code");
+              }}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={applyVoucher}
+            />
+            <TouchableOpacity style={styles.voucherBtn} onPress={applyVoucher} disabled={checkingVoucher}>
+              {checkingVoucher ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={{ color: "#fff", fontWeight: "800" }}>Pakai</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+        <FieldError message={fieldErrors.voucher_code} style={styles.fieldError} />
 
         {/* ringkasan */}
         <Text style={[styles.sectionTitle, { marginTop: 12 }]}>Ringkasan Pesanan</Text>
-        <View style={styles.summaryRow}>
-          <Text style={styles.sumLabel}>Harga Jasa</Text>
-          <Text style={styles.sumVal}>{formatIDR(subTotal)}</Text>
-        </View>
-        <View style={styles.summaryRow}>
-          <Text style={styles.sumLabel}>Pajak</Text>
-          <Text style={styles.sumVal}>{formatIDR(taxAmount)}</Text>
-        </View>
+        {itemLines.map((l, i) => (
+          <View key={`${l.kind}-${i}`} style={styles.summaryRow}>
+            <Text style={styles.sumLabel}>{l.label}</Text>
+            <Text style={styles.sumVal}>{formatIDR(l.amount)}</Text>
+          </View>
+        ))}
+        {itemLines.length > 1 && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.sumLabel}>Subtotal</Text>
+            <Text style={styles.sumVal}>{formatIDR(price.subtotal)}</Text>
+          </View>
+        )}
+        {adjustmentLines.map((l) => (
+          <View key={l.kind} style={styles.summaryRow}>
+            <Text style={styles.sumLabel}>{l.label}</Text>
+            <Text style={styles.sumVal}>{l.amount < 0 ? `- ${formatIDR(-l.amount)}` : formatIDR(l.amount)}</Text>
+          </View>
+        ))}
         <View style={[styles.summaryRow, { marginTop: 4 }]}>
           <Text style={[styles.sumLabel, { fontWeight: "800" }]}>Total</Text>
-          <Text style={[styles.sumVal, { fontWeight: "800" }]}>{formatIDR(grandTotal)}</Text>
+          <Text style={[styles.sumVal, { fontWeight: "800" }]}>{formatIDR(price.total)}</Text>
         </View>
       </ScrollView>
 
       {/* CTA */}
-      <TouchableOpacity style={styles.cta} onPress={submit}>
-        <Text style={{ color: "#fff", fontWeight: "800", fontSize: 16 }}>Pesan Sekarang</Text>
+      <TouchableOpacity
+        style={[styles.cta, createBooking.loading && { opacity: 0.7 }]}
+        onPress={submit}
+        disabled={createBooking.loading}
+      >
+        {createBooking.loading ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={{ color: "#fff", fontWeight: "800", fontSize: 16 }}>Pesan Sekarang</Text>
+        )}
       </TouchableOpacity>
     </View>
   );
@@ -529,6 +700,7 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  verifyBanner: { marginHorizontal: 16, marginTop: 12 },
   thumb: { width: 88, height: 72, borderRadius: 10, backgroundColor: "#eee" },
   cardTitle: { fontSize: 18, fontWeight: "800", color: "#111827" },
   vendor: { marginTop: 4, color: TEXT_MUTED },
@@ -550,23 +722,7 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
 
-  dateBtn: {
-    borderWidth: 1,
-    borderColor: "#E5E7EB",
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 10,
-  },
-  dateDone: {
-    alignSelf: "flex-end",
-    marginTop: 6,
-    borderWidth: 1,
-    borderColor: "#E5E7EB",
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 10,
-    marginRight: 16,
-  },
+  dateLabel: { marginHorizontal: 16, marginTop: 6, color: "#111", fontWeight: "600" },
 
   segment: {
     marginLeft: 16,
@@ -601,6 +757,45 @@ const styles = StyleSheet.create({
     color: "#111",
     backgroundColor: "#fff",
   },
+  inputError: { borderColor: "#DC2626" },
+  voucherRow: { flexDirection: "row", alignItems: "center", marginRight: 16 },
+  voucherInput: { flex: 1, marginRight: 8 },
+  voucherBtn: {
+    marginTop: 6,
+    height: 46,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    backgroundColor: PURPLE,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  voucherApplied: {
+    marginHorizontal: 16,
+    marginTop: 6,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E9DDF7",
+    backgroundColor: CARD_BG,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  voucherInvalid: { borderColor: "#FDE68A", backgroundColor: "#FFFBEB" },
+  voucherCode: { fontWeight: "800", color: "#111827", letterSpacing: 0.5 },
+  voucherDesc: { marginTop: 2, fontSize: 12, color: TEXT_MUTED },
+  voucherRemove: { color: "#DC2626", fontWeight: "700" },
+  fieldError: { marginHorizontal: 16 },
+
+  optionRow: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  optionName: { flex: 1, color: "#111827", fontWeight: "600" },
+  optionPrice: { color: TEXT_MUTED, fontWeight: "600" },
 
   sectionTitle: {
     marginHorizontal: 16,
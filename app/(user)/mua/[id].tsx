@@ -14,101 +14,21 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import MapView, { Marker } from "react-native-maps";
-import authStorage from "../../../utils/authStorage";
-
-/* ========= Types ========= */
-type MuaProfile = {
-  id: string;
-  role?: "mua";
-  name: string;
-  bio?: string | null;
-  photo_url?: string | null;
-  services?: string[] | null;
-  location_lat?: string | null;
-  location_lng?: string | null;
-  address?: string | null;
-  is_online?: boolean;
-  created_at?: string;
-  updated_at?: string;
-};
-
-type ApiResp<T> = { data?: T } | T;
-
-type OfferingApi = {
-  id: number;
-  mua_id: string;
-  name_offer: string;
-  price?: string | number;
-  makeup_type?: string | null;
-  offer_pictures?: string[] | null;
-};
+import VerifiedBadge from "../../../components/VerifiedBadge";
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, assetUrl, isAbortError, isUnauthorized } from "../../../lib/api";
+import type { Mua as MuaProfile, Offering as OfferingApi } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-/* ========= Const ========= */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_MUA = `${API_BASE}/mua`;
-const API_OFFERINGS = `${API_BASE}/offerings`;
+const log = createLogger("MUA");
 
+/* ========= Const ========= */
 const PURPLE = "#AA60C8";
 const TEXT_MUTED = "#6B7280";
 const BORDER = "#E5E7EB";
 const BADGE_BG = "#F3E8FF";
 
 /* ========= Helpers ========= */
-type HeaderMap = Record<string, string>;
-
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-    const res = await fetch(url, { 
-      method: init.method ?? "GET", 
-      cache: "no-store", 
-      ...init, 
-      headers 
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error;
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
 const titleCase = (s?: string) =>
   (s || "")
     .replace(/_/g, " ")
@@ -128,6 +48,7 @@ export default function MuaProfileScreen() {
 
   const [offers, setOffers] = useState<OfferingApi[]>([]);
   const [loadingOffers, setLoadingOffers] = useState(true);
+  const signal = useUnmountSignal();
 
   // Load MUA profile
   useEffect(() => {
@@ -136,27 +57,18 @@ export default function MuaProfileScreen() {
     (async () => {
       try {
         setLoading(true);
-        console.log(`[MuaProfile] Loading profile for MUA ID: ${id}`);
+        log.debug(`[MuaProfile] Loading profile for MUA ID: ${id}`);
         
-        const headers = await getAuthHeaders();
-        const json = await safeFetchJSON<ApiResp<MuaProfile>>(`${API_MUA}/${id}`, { headers });
-        const data = (json as any)?.data ?? json;
-        
-        console.log(`[MuaProfile] Profile loaded:`, data?.name);
-        setProfile(data as MuaProfile);
+        const data = await api.mua.get(id, { signal: signal() });
+
+        log.debug(`[MuaProfile] Profile loaded:`, data?.name);
+        setProfile(data);
       } catch (e: any) {
-        console.error(`[MuaProfile] Error loading profile:`, e);
+        if (isAbortError(e)) return;
+        log.error(`[MuaProfile] Error loading profile:`, e);
         
-        if (e?.message === "401_UNAUTH") {
-          Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-            {
-              text: "OK",
-              onPress: () => {
-                router.replace("/(auth)/login");
-              }
-            }
-          ]);
-        } else {
+        // 401 sudah ditangani global (refresh / sesi berakhir)
+        if (!isUnauthorized(e)) {
           Alert.alert(
             "Gagal memuat profil", 
             e?.message || "Tidak bisa memuat profil MUA.",
@@ -167,7 +79,7 @@ export default function MuaProfileScreen() {
         setLoading(false);
       }
     })();
-  }, [id, router]);
+  }, [id, router, signal]);
 
   // Load offerings for this MUA - PERBAIKAN DI SINI
   useEffect(() => {
@@ -176,38 +88,34 @@ export default function MuaProfileScreen() {
     (async () => {
       try {
         setLoadingOffers(true);
-        console.log(`[MuaProfile] Loading offerings for MUA ID: ${id}`);
+        log.debug(`[MuaProfile] Loading offerings for MUA ID: ${id}`);
         
-        const headers = await getAuthHeaders();
         let list: OfferingApi[] = [];
 
         // Coba endpoint khusus untuk offerings MUA
         try {
           // Coba endpoint khusus: /api/mua/{id}/offerings
-          const muaOffersUrl = `${API_MUA}/${id}/offerings`;
-          console.log(`[MuaProfile] Trying MUA-specific offerings endpoint: ${muaOffersUrl}`);
-          
-          const resp = await safeFetchJSON<ApiResp<OfferingApi[]>>(muaOffersUrl, { headers });
-          list = (resp as any)?.data ?? (resp as OfferingApi[]) ?? [];
-          console.log(`[MuaProfile] MUA-specific offerings found:`, list.length);
+          log.debug(`[MuaProfile] Trying MUA-specific offerings endpoint for ${id}`);
+          list = await api.mua.offerings(id, { signal: signal() });
+          log.debug(`[MuaProfile] MUA-specific offerings found:`, list.length);
           
         } catch (muaEndpointError) {
-          console.warn(`[MuaProfile] MUA-specific endpoint failed, trying general endpoint with filter:`, muaEndpointError);
+          if (isAbortError(muaEndpointError)) return;
+          log.warn(`[MuaProfile] MUA-specific endpoint failed, trying general endpoint with filter:`, muaEndpointError);
           
           // Fallback: ambil semua offerings dan filter di client
           try {
-            const allOffers = await safeFetchJSON<ApiResp<OfferingApi[]>>(API_OFFERINGS, { headers });
-            const allList = (allOffers as any)?.data ?? (allOffers as OfferingApi[]) ?? [];
-            console.log(`[MuaProfile] All offerings loaded:`, allList.length);
+            const { data: allList } = await api.offerings.list();
+            log.debug(`[MuaProfile] All offerings loaded:`, allList.length);
             
             // Filter yang benar: hanya ambil offerings dengan mua_id yang sesuai
-            list = allList.filter((o: { mua_id: any; id: any; }) => {
+            list = allList.filter((o) => {
               const offerMuaId = String(o.mua_id).trim();
               const currentMuaId = String(id).trim();
               const isMatch = offerMuaId === currentMuaId;
               
               if (!isMatch) {
-                console.log(`[MuaProfile] Filtered out offering:`, {
+                log.debug(`[MuaProfile] Filtered out offering:`, {
                   offeringId: o.id,
                   offeringMuaId: offerMuaId,
                   currentMuaId: currentMuaId,
@@ -218,16 +126,16 @@ export default function MuaProfileScreen() {
               return isMatch;
             });
             
-            console.log(`[MuaProfile] Client-filtered offerings for MUA ${id}:`, list.length);
+            log.debug(`[MuaProfile] Client-filtered offerings for MUA ${id}:`, list.length);
             
           } catch (generalError) {
-            console.error(`[MuaProfile] General endpoint also failed:`, generalError);
+            log.error(`[MuaProfile] General endpoint also failed:`, generalError);
             list = [];
           }
         }
 
         // Debug: log semua offerings yang ditemukan
-        console.log(`[MuaProfile] Final offerings for MUA ${id}:`, list.map(o => ({
+        log.debug(`[MuaProfile] Final offerings for MUA ${id}:`, list.map(o => ({
           id: o.id,
           name: o.name_offer,
           mua_id: o.mua_id,
@@ -236,19 +144,15 @@ export default function MuaProfileScreen() {
 
         setOffers(list);
       } catch (e: any) {
-        console.error(`[MuaProfile] Error loading offerings:`, e);
+        log.error(`[MuaProfile] Error loading offerings:`, e);
         
-        if (e?.message === "401_UNAUTH") {
-          router.replace("/(auth)/login");
-        } else {
-          // Silent fail for offerings - don't show alert
-          setOffers([]);
-        }
+        // Silent fail for offerings - don't show alert
+        setOffers([]);
       } finally {
         setLoadingOffers(false);
       }
     })();
-  }, [id, router]);
+  }, [id, router, signal]);
 
   const lat = useMemo(() => {
     const latVal = profile?.location_lat;
@@ -265,16 +169,7 @@ export default function MuaProfileScreen() {
   const hasCoords = Number.isFinite(lat) && Number.isFinite(lng);
 
   const avatar = useMemo(() => {
-    if (!profile?.photo_url) return "https://via.placeholder.com/400x400.png?text=MUA";
-    
-    const photo = profile.photo_url;
-    if (photo.startsWith("http://") || photo.startsWith("https://")) {
-      return photo;
-    }
-    if (photo.startsWith("/")) {
-      return `${API_ORIGIN}${photo}`;
-    }
-    return `${API_ORIGIN}/${photo}`;
+    return assetUrl(profile?.photo_url) ?? "https://via.placeholder.com/400x400.png?text=MUA";
   }, [profile?.photo_url]);
 
   function openMaps() {
@@ -361,6 +256,10 @@ export default function MuaProfileScreen() {
               <View style={styles.dotOffline} />
             )}
           </View>
+          {/* hanya tampil bila terverifikasi: "belum" bukan info yang berguna untuk customer */}
+          {!!profile.phone_verified_at && (
+            <VerifiedBadge verified label="Kontak terverifikasi" style={{ marginTop: 6 }} />
+          )}
         </View>
       </View>
 
@@ -403,7 +302,7 @@ export default function MuaProfileScreen() {
               scrollEnabled={false}
               zoomEnabled={false}
             >
-              <Marker coordinate={{ latitude: lat, longitude: lng }} title={profile.name} />
+              <Marker coordinate={{ latitude: lat, longitude: lng }} title={profile.name ?? undefined} />
             </MapView>
           ) : (
             <View style={[StyleSheet.absoluteFillObject, { justifyContent: "center", alignItems: "center" }]}>
@@ -433,7 +332,7 @@ export default function MuaProfileScreen() {
           offers.map((of) => {
             const priceNum = Number(of.price ?? 0);
             const img = of.offer_pictures?.[0];
-            const imageUrl = img ? (img.startsWith("http") ? img : `${API_ORIGIN}/${img}`) : null;
+            const imageUrl = assetUrl(img);
             
             return (
               <TouchableOpacity
@@ -11,13 +11,14 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import authStorage from "../../../utils/authStorage";
+import LoginRequired from "../../../components/LoginRequired";
+import { useUnmountSignal } from "../../../lib/abort";
+import { api, isAbortError, isUnauthorized } from "../../../lib/api";
+import { queueNotificationDelete, queueNotificationRead } from "../../../lib/outbox";
+import type { Notification as Notif } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-/* ================== API ================== */
-const API = "https://smstudio.my.id/api";
-const API_SHOW = (id: string | number) => `${API}/notifications/${id}`;
-const API_READ = (id: string | number) => `${API}/notifications/${id}/read`;
-const API_DEL = (id: string | number) => `${API}/notifications/${id}`;
+const log = createLogger("NOTIF");
 
 /* ================== UI CONST ================== */
 const PURPLE = "#AA60C8";
@@ -26,36 +27,8 @@ const MUTED = "#6B7280";
 const TEXT = "#111827";
 const CARD_BG = "#F7F2FA";
 
-/* ================== Types ================== */
-type Notif = {
-  id: string | number;
-  user_id: string;
-  title?: string;
-  message?: string;
-  type?: "booking" | "system" | "payment" | string;
-  is_read: boolean;
-  created_at?: string;
-  updated_at?: string;
-  [k: string]: any;
-};
-
 /* ================== Helpers ================== */
-async function getAuthHeaders() {
-  try {
-    const token = await authStorage.getAuthToken();
-    const headers: Record<string, string> = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    return headers;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-const fmtTime = (iso?: string) => {
+const fmtTime = (iso?: string | null) => {
   if (!iso) return "-";
   const d = new Date(iso);
   return Number.isFinite(+d)
@@ -70,67 +43,32 @@ const fmtTime = (iso?: string) => {
 };
 
 // Normalisasi type supaya tidak undefined
-const safeType = (t?: string) => (t && typeof t === "string" ? t : "system");
-const typeColor = (t?: string) => {
+const safeType = (t?: string | null) => (t && typeof t === "string" ? t : "system");
+const typeColor = (t?: string | null) => {
   const st = safeType(t);
   if (st === "booking") return "#0EA5E9";
   if (st === "payment") return "#10B981";
   return "#A78BFA"; // system / unknown
 };
 
-/** Safe fetch dengan debug info */
-async function fetchJSON(url: string, options: RequestInit = {}) {
-  const headers = await getAuthHeaders();
-  const fullOptions = {
-    ...options,
-    headers: {
-      ...headers,
-      ...(options.headers || {}),
-    },
-  };
-
-  console.log(`[fetchJSON] ${options.method || 'GET'} ${url}`, {
-    headers: fullOptions.headers,
-    body: fullOptions.body
-  });
-
-  const res = await fetch(url, fullOptions);
-  const text = await res.text();
-
-  console.log(`[fetchJSON] Response ${res.status}:`, text.substring(0, 200));
-
-  // Handle unauthorized
-  if (res.status === 401) {
-    await authStorage.clearAuthAll();
-    throw new Error("Sesi berakhir. Silakan login kembali.");
-  }
-
-  if (!res.ok) {
-    let errorMsg = `HTTP ${res.status}`;
-    try {
-      const json = JSON.parse(text);
-      errorMsg = json?.message || json?.error || errorMsg;
-    } catch {
-      errorMsg = text.substring(0, 100) || errorMsg;
-    }
-    throw new Error(errorMsg);
-  }
-
-  try {
-    return JSON.parse(text);
-  } catch {
-    throw new Error("Invalid JSON response");
-  }
+/* ================== Screen ================== */
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function NotifDetailRoute() {
+  return (
+    <LoginRequired message="Masuk untuk melihat notifikasi ini.">
+      <NotifDetail />
+    </LoginRequired>
+  );
 }
 
-/* ================== Screen ================== */
-export default function NotifDetail() {
+function NotifDetail() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id?: string }>();
 
   const [item, setItem] = useState<Notif | null>(null);
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
+  const signal = useUnmountSignal();
 
   const load = useCallback(async () => {
     if (!id) {
@@ -141,32 +79,29 @@ export default function NotifDetail() {
     
     try {
       setLoading(true);
-      const json = await fetchJSON(API_SHOW(id));
-      const data: Notif = json?.data ?? json;
+      const data = await api.notifications.get(id, { signal: signal() });
       setItem(data);
       
       // otomatis tandai telah dibaca
       if (data && !data.is_read) {
+        setItem((prev) => (prev ? { ...prev, is_read: true } : prev));
         try {
-          await fetchJSON(API_READ(data.id), {
-            method: "PATCH",
-            body: JSON.stringify({ is_read: true }),
-          });
-          setItem((prev) => (prev ? { ...prev, is_read: true } : prev));
+          await queueNotificationRead(data.id, true);
         } catch (readError) {
-          console.warn("[NotifDetail] Auto mark read failed:", readError);
+          log.warn("[NotifDetail] Auto mark read failed:", readError);
         }
       }
     } catch (e: any) {
-      console.error("[NotifDetail] Load error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+      if (isAbortError(e)) return;
+      log.error("[NotifDetail] Load error:", e);
+      if (!isUnauthorized(e)) {
         Alert.alert("Oops", e?.message || "Gagal memuat notifikasi");
       }
       setItem(null);
     } finally {
       setLoading(false);
     }
-  }, [id]);
+  }, [id, signal]);
 
   useEffect(() => {
     load();
@@ -174,16 +109,15 @@ export default function NotifDetail() {
 
   const doToggleRead = async () => {
     if (!item) return;
+    const next = !item.is_read;
+    setItem({ ...item, is_read: next });
     try {
       setBusy(true);
-      await fetchJSON(API_READ(item.id), {
-        method: "PATCH",
-        body: JSON.stringify({ is_read: !item.is_read }),
-      });
-      setItem({ ...item, is_read: !item.is_read });
+      await queueNotificationRead(item.id, next);
     } catch (e: any) {
-      console.error("[doToggleRead] Error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+      log.error("[doToggleRead] Error:", e);
+      setItem((prev) => (prev ? { ...prev, is_read: !next } : prev));
+      if (!isUnauthorized(e)) {
         Alert.alert("Error", "Gagal mengubah status notifikasi");
       }
     } finally {
@@ -201,13 +135,12 @@ export default function NotifDetail() {
         onPress: async () => {
           try {
             setBusy(true);
-            await fetchJSON(API_DEL(item.id), { 
-              method: "DELETE"
-            });
+            // terantri saat offline → tetap kembali, outbox yang mengirim
+            await queueNotificationDelete(item.id);
             router.back();
           } catch (e: any) {
-            console.error("[doDelete] Error:", e);
-            if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
+            log.error("[doDelete] Error:", e);
+            if (!isUnauthorized(e)) {
               Alert.alert("Oops", e?.message || "Gagal menghapus");
             }
           } finally {
@@ -5,57 +5,30 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import authStorage from "../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
+import OutboxStatus from "../../../components/OutboxStatus";
+import LoginRequired from "../../../components/LoginRequired";
+import { api, isUnauthorized } from "../../../lib/api";
+import {
+  queueNotificationDelete,
+  queueNotificationRead,
+  useOutboxFailed,
+  type OutboxKind,
+} from "../../../lib/outbox";
+import { useInfiniteList } from "../../../lib/pagination";
+import type { Notification as Notif } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
 
-const API = "https://smstudio.my.id/api";
-const API_LIST = `${API}/notifications`;
-const API_UNREAD = `${API}/notifications/unread-count`;
-const API_READ = (id: string|number) => `${API}/notifications/${id}/read`;
-const API_READ_ALL = `${API}/notifications/read-all`;
-const API_DEL = (id: string|number) => `${API}/notifications/${id}`;
-const API_DEL_ALL = `${API}/notifications`;
+const log = createLogger("NOTIF");
 
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const MUTED = "#6B7280";
 const TEXT = "#111827";
 const CARD_BG = "#F7F2FA";
+const PAGE_SIZE = 20;
+const OUTBOX_KINDS: OutboxKind[] = ["notification.read", "notification.delete"];
 
-type Notif = {
-  id: string|number;
-  user_id: string;
-  title: string;
-  message: string;
-  type: "booking"|"system"|"payment";
-  is_read: boolean;
-  created_at?: string;
-};
-
-type Paged<T> = { 
-  data: T[]; 
-  current_page: number; 
-  last_page: number; 
-  per_page: number; 
-  total: number 
-};
-
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA
-async function getAuthHeaders() {
-  try {
-    const token = await authStorage.getAuthToken();
-    const headers: Record<string, string> = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) headers.Authorization = `Bearer ${token}`;
-    return headers;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-const fmtTime = (iso?: string)=> {
+const fmtTime = (iso?: string | null)=> {
   if(!iso) return "-";
   const d = new Date(iso);
   if(!Number.isFinite(+d)) return iso;
@@ -68,131 +41,58 @@ const fmtTime = (iso?: string)=> {
   });
 };
 
-export default function NotificationsScreen(){
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function NotificationsRoute() {
+  return (
+    <LoginRequired message="Masuk untuk melihat notifikasi Anda." returnTo="/(user)/notifications">
+      <NotificationsScreen />
+    </LoginRequired>
+  );
+}
+
+function NotificationsScreen() {
   const router = useRouter();
 
-  const [items, setItems] = useState<Notif[]>([]);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [busy, setBusy] = useState(false);
+  const list = useInfiniteList<Notif>({
+    fetchPage: (p, signal)=> api.notifications.list({ per_page: PAGE_SIZE, page: p }, { signal }),
+    perPage: PAGE_SIZE,
+  });
+  const { items, setItems, loading, refreshing, loadingMore, refresh } = list;
   const [unreadCount, setUnreadCount] = useState<number>(0);
 
   const fetchUnread = useCallback(async ()=>{
     try{
-      const headers = await getAuthHeaders();
-      const res = await fetch(API_UNREAD, { headers, cache:"no-store" });
-      
-      if (res.status === 401) {
-        await authStorage.clearAuthAll();
-        router.replace("/(auth)/login");
-        return;
-      }
-      
-      const j = await res.json();
-      setUnreadCount(Number(j?.count||0));
+      setUnreadCount(await api.notifications.unreadCount());
     }catch(error){
-      console.warn("[fetchUnread] Error:", error);
+      log.warn("[fetchUnread] Error:", error);
     }
-  },[router]);
+  },[]);
 
-  const fetchPage = useCallback(async (p=1)=>{
-    const headers = await getAuthHeaders();
-    const url = `${API_LIST}?per_page=20&page=${p}`;
-    const res = await fetch(url, { headers, cache:"no-store" });
-    const txt = await res.text();
-    
-    if (!res.ok) {
-      if (res.status === 401) {
-        await authStorage.clearAuthAll();
-        router.replace("/(auth)/login");
-        throw new Error("Sesi berakhir. Silakan login kembali.");
-      }
-      
-      let msg = `HTTP ${res.status}`;
-      try{ msg = JSON.parse(txt)?.message || msg; }catch{}
-      throw new Error(msg);
-    }
-    
-    const j: Paged<Notif>|Notif[] = JSON.parse(txt);
-    const list = Array.isArray((j as any)?.data) ? (j as any).data : (Array.isArray(j) ? j : []);
-    const last = (j as any)?.last_page ?? (list.length<20 ? 1 : p);
-    return { list, lastPage: Number(last)||p };
-  },[router]);
+  useEffect(()=>{ fetchUnread(); },[fetchUnread]);
 
-  // initial load
+  // 401 ditangani global; error lain cukup diberi tahu sekali
   useEffect(()=>{
-    (async()=>{
-      try{
-        setLoading(true);
-        const { list, lastPage } = await fetchPage(1);
-        setItems(list);
-        setPage(1);
-        setHasMore(1 < lastPage);
-        fetchUnread();
-      }catch(e:any){
-        console.error("[NotificationsScreen] Initial load error:", e);
-        if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
-          Alert.alert("Oops", e?.message || "Gagal memuat notifikasi");
-        }
-        setItems([]);
-      }finally{
-        setLoading(false);
-      }
-    })();
-  },[fetchPage, fetchUnread]);
+    if(!list.error || isUnauthorized(list.error)) return;
+    Alert.alert("Oops", (list.error as Error)?.message || "Gagal memuat notifikasi");
+  },[list.error]);
 
   const onRefresh = useCallback(async ()=>{
-    setRefreshing(true);
-    try{
-      const { list, lastPage } = await fetchPage(1);
-      setItems(list);
-      setPage(1);
-      setHasMore(1 < lastPage);
-      fetchUnread();
-    }catch(e: any){
-      console.error("[NotificationsScreen] Refresh error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
-        Alert.alert("Error", "Gagal memuat ulang notifikasi");
-      }
-    }finally{
-      setRefreshing(false);
-    }
-  },[fetchPage, fetchUnread]);
+    await refresh();
+    fetchUnread();
+  },[refresh, fetchUnread]);
 
-  const loadMore = useCallback(async ()=>{
-    if(loading || busy || !hasMore) return;
-    setBusy(true);
-    try{
-      const next = page+1;
-      const { list, lastPage } = await fetchPage(next);
-      setItems(prev=>[...prev, ...list]);
-      setPage(next);
-      setHasMore(next < lastPage);
-    }catch(e: any){
-      console.error("[NotificationsScreen] Load more error:", e);
-      if (e?.message !== "Sesi berakhir. Silakan login kembali.") {
-        Alert.alert("Error", "Gagal memuat lebih banyak notifikasi");
-      }
-    }finally{ 
-      setBusy(false); 
-    }
-  },[page, fetchPage, hasMore, loading, busy]);
+  // aksi offline yang akhirnya gagal → ambil ulang daftar dari server
+  useOutboxFailed(OUTBOX_KINDS, ()=>{ onRefresh(); });
 
-  // actions
+  // actions (optimistis: UI diubah dulu, request lewat outbox)
   const markRead = async (id: string|number, read=true)=>{
+    setItems(prev=>prev.map(n=> n.id===id ? { ...n, is_read: read } : n));
     try{
-      const headers = await getAuthHeaders();
-      await fetch(API_READ(id), { 
-        method:"PATCH", 
-        headers, 
-        body: JSON.stringify({ is_read: read }) 
-      });
-      setItems(prev=>prev.map(n=> n.id===id ? { ...n, is_read: read } : n));
-      fetchUnread();
+      const res = await queueNotificationRead(id, read);
+      if(!res.queued) fetchUnread();
     }catch(error){
-      console.warn("[markRead] Error:", error);
+      log.warn("[markRead] Error:", error);
+      setItems(prev=>prev.map(n=> n.id===id ? { ...n, is_read: !read } : n));
       Alert.alert("Error", "Gagal menandai notifikasi");
     }
   };
@@ -207,14 +107,14 @@ export default function NotificationsScreen(){
           text: "Hapus", 
           style: "destructive",
           onPress: async () => {
+            setItems(prev=>prev.filter(n=> n.id!==id));
             try{
-              const headers = await getAuthHeaders();
-              await fetch(API_DEL(id), { method:"DELETE", headers });
-              setItems(prev=>prev.filter(n=> n.id!==id));
-              fetchUnread();
+              const res = await queueNotificationDelete(id);
+              if(!res.queued) fetchUnread();
             }catch(error){
-              console.warn("[deleteOne] Error:", error);
+              log.warn("[deleteOne] Error:", error);
               Alert.alert("Error", "Gagal menghapus notifikasi");
+              onRefresh();
             }
           }
         },
@@ -232,13 +132,12 @@ export default function NotificationsScreen(){
           text: "Tandai Semua", 
           onPress: async () => {
             try{
-              const headers = await getAuthHeaders();
-              await fetch(API_READ_ALL, { method:"PATCH", headers });
+              await api.notifications.markAllAsRead();
               setItems(prev=>prev.map(n=> ({...n, is_read:true})));
               fetchUnread();
               Alert.alert("Berhasil", "Semua notifikasi telah ditandai sebagai dibaca");
             }catch(error){
-              console.warn("[markAllRead] Error:", error);
+              log.warn("[markAllRead] Error:", error);
               Alert.alert("Error", "Gagal menandai semua notifikasi sebagai dibaca");
             }
           }
@@ -258,13 +157,12 @@ export default function NotificationsScreen(){
           style: "destructive",
           onPress: async () => {
             try{
-              const headers = await getAuthHeaders();
-              await fetch(`${API_DEL_ALL}?only_read=true`, { method:"DELETE", headers });
+              await api.notifications.clearRead();
               setItems(prev=>prev.filter(n=> !n.is_read));
               fetchUnread();
               Alert.alert("Berhasil", "Notifikasi yang sudah dibaca telah dihapus");
             }catch(error){
-              console.warn("[clearRead] Error:", error);
+              log.warn("[clearRead] Error:", error);
               Alert.alert("Error", "Gagal membersihkan notifikasi yang sudah dibaca");
             }
           }
@@ -282,7 +180,7 @@ export default function NotificationsScreen(){
         activeOpacity={0.9}
       >
         <View style={[styles.badgeType, { borderColor: color, backgroundColor: `${color}1A` }]}>
-          <Text style={{ color, fontWeight:"800", fontSize:12 }}>{item.type.toUpperCase()}</Text>
+          <Text style={{ color, fontWeight:"800", fontSize:12 }}>{(item.type ?? "system").toUpperCase()}</Text>
         </View>
         <View style={{ flex:1 }}>
           <Text style={[styles.title, !item.is_read && { color:TEXT, fontWeight: "800" }]} numberOfLines={2}>
@@ -355,9 +253,10 @@ export default function NotificationsScreen(){
         </View>
       )}
 
+      <OutboxStatus kinds={OUTBOX_KINDS} style={styles.outbox} />
+
       <FlatList
-        data={items}
-        keyExtractor={(it)=> String(it.id)}
+        {...list.listProps}
         refreshControl={
           <RefreshControl 
             refreshing={refreshing} 
@@ -373,10 +272,8 @@ export default function NotificationsScreen(){
         }}
         ItemSeparatorComponent={()=> <View style={{ height:10 }}/>}
         renderItem={renderItem}
-        onEndReachedThreshold={0.3}
-        onEndReached={loadMore}
         ListFooterComponent={
-          busy ? (
+          loadingMore ? (
             <View style={styles.footerLoader}>
               <ActivityIndicator color={PURPLE} />
               <Text style={styles.footerText}>Memuat lebih banyak...</Text>
@@ -404,6 +301,7 @@ export default function NotificationsScreen(){
 }
 
 const styles = StyleSheet.create({
+  outbox: { marginHorizontal: 16, marginBottom: 10 },
   screen:{ 
     flex:1, 
     backgroundColor:"#fff", 
@@ -12,37 +12,17 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter, useNavigation } from "expo-router";
 import MapView, { Marker } from "react-native-maps";
-import authStorage from "../../../utils/authStorage"; // ✅ GUNAKAN AUTH STORAGE YANG SAMA
-
-/* ============ Types ============ */
-type Offering = {
-  id: number;
-  mua_id: string;
-  name_offer: string;
-  offer_pictures?: string[];
-  makeup_type?: string;
-  collaboration?: string | null;
-  collaboration_price?: string | number | null;
-  add_ons?: string[];
-  date?: string | null;
-  price?: string | number;
-  created_at?: string;
-  updated_at?: string;
-};
-type MuaLoc = {
-  id: string;
-  name: string;
-  location_lat: string;
-  location_lng: string;
-  address?: string;
-  photo_url?: string;
-};
+import { useUnmountSignal } from "../../../lib/abort";
+import { offeringAddOns } from "../../../lib/addOns";
+import { api, assetUrl, isAbortError, isUnauthorized } from "../../../lib/api";
+import { muaLocationsQuery } from "../../../lib/queries";
+import { fetchQuery } from "../../../lib/query";
+import type { MuaLocation as MuaLoc, Offering } from "../../../lib/types";
+import { createLogger } from "../../../lib/logger";
+
+const log = createLogger("OFFERING");
 
 /* ============ Const ============ */
-const API_ORIGIN = "https://smstudio.my.id";
-const API_BASE = `${API_ORIGIN}/api`;
-const API_OFFERINGS = `${API_BASE}/offerings`;
-const API_MUA_LOC = `${API_BASE}/mua-location`;
 const PURPLE = "#AA60C8";
 const TEXT_MUTED = "#6B7280";
 const BORDER = "#E5E7EB";
@@ -50,73 +30,12 @@ const BORDER = "#E5E7EB";
 /* ============ Helpers ============ */
 const formatIDR = (n: number) =>
   `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(n))}`;
-const titleCase = (s?: string) =>
+const titleCase = (s?: string | null) =>
   (s || "")
     .replace(/_/g, " ")
     .toLowerCase()
     .replace(/\b\w/g, (c) => c.toUpperCase());
 
-type HeaderMap = Record<string, string>;
-
-function absolutize(url: string | null | undefined) {
-  if (!url) return null;
-  if (/^https?:\/\//i.test(url)) return url.replace(/^http:\/\//i, "https://");
-  return `${API_ORIGIN}${url.startsWith("/") ? url : `/${url}`}`;
-}
-
-// ✅ GUNAKAN AUTH STORAGE YANG SAMA
-async function getAuthHeaders(): Promise<HeaderMap> {
-  try {
-    const token = await authStorage.getAuthToken();
-    const h: HeaderMap = { 
-      Accept: "application/json",
-      "Content-Type": "application/json"
-    };
-    if (token) h.Authorization = `Bearer ${token}`;
-    return h;
-  } catch (error) {
-    console.warn("[getAuthHeaders] Error:", error);
-    return { Accept: "application/json" };
-  }
-}
-
-async function safeFetchJSON<T = any>(url: string, init: RequestInit = {}): Promise<T> {
-  try {
-    const given = (init.headers || {}) as HeaderMap;
-    const headers: HeadersInit = { ...given, Accept: "application/json" };
-
-    const res = await fetch(url, {
-      method: init.method ?? "GET",
-      cache: "no-store",
-      ...init,
-      headers,
-    });
-
-    const text = await res.text();
-
-    if (!res.ok) {
-      if (res.status === 401) {
-        console.log("[safeFetchJSON] 401 Unauthorized - Clearing auth");
-        await authStorage.clearAuthAll();
-        throw new Error("401_UNAUTH");
-      }
-      throw new Error(`HTTP ${res.status} — ${text.slice(0, 160)}`);
-    }
-
-    try {
-      return JSON.parse(text) as T;
-    } catch {
-      throw new Error(`Unexpected non-JSON — ${text.slice(0, 160)}`);
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === "401_UNAUTH") {
-      throw error;
-    }
-    console.warn("[safeFetchJSON] Network error:", error);
-    throw new Error("Network error: " + (error instanceof Error ? error.message : String(error)));
-  }
-}
-
 /* ============ Screen ============ */
 export default function OfferingDetail() {
   const router = useRouter();
@@ -127,6 +46,7 @@ export default function OfferingDetail() {
   const [mua, setMua] = useState<MuaLoc | null>(null);
   const [loading, setLoading] = useState(true);
   const [mapFallback, setMapFallback] = useState(false);
+  const signal = useUnmountSignal();
 
   // Sembunyikan header default
   useEffect(() => {
@@ -140,45 +60,29 @@ export default function OfferingDetail() {
     (async () => {
       setLoading(true);
       try {
-        console.log(`[OfferingDetail] Loading offering ID: ${id}`);
-        const headers = await getAuthHeaders();
+        log.debug(`[OfferingDetail] Loading offering ID: ${id}`);
 
         // 1) Load offering detail
-        const detail = await safeFetchJSON<{ data?: Offering } | Offering>(
-          `${API_OFFERINGS}/${id}`,
-          { headers }
-        );
-        const data: Offering = (detail as any)?.data ?? (detail as Offering);
-        console.log(`[OfferingDetail] Offering loaded:`, data.name_offer);
+        const data = await api.offerings.get(id, undefined, { signal: signal() });
+        log.debug(`[OfferingDetail] Offering loaded:`, data.name_offer);
         setItem(data);
 
         // 2) Load MUA location data
         try {
-          const mjson = await safeFetchJSON<{ data?: MuaLoc[] } | MuaLoc[]>(
-            API_MUA_LOC,
-            { headers }
-          );
-          const list: MuaLoc[] = (mjson as any)?.data ?? (mjson as MuaLoc[]) ?? [];
+          const list = await fetchQuery(muaLocationsQuery());
           const found = list.find((m) => m.id === data.mua_id) || null;
-          console.log(`[OfferingDetail] MUA data:`, found ? "found" : "not found");
+          log.debug(`[OfferingDetail] MUA data:`, found ? "found" : "not found");
           setMua(found);
         } catch (muaError) {
-          console.warn(`[OfferingDetail] Failed to load MUA data:`, muaError);
+          log.warn(`[OfferingDetail] Failed to load MUA data:`, muaError);
           setMua(null);
         }
       } catch (e: any) {
-        console.error(`[OfferingDetail] Error loading data:`, e);
+        if (isAbortError(e)) return;
+        log.error(`[OfferingDetail] Error loading data:`, e);
         
-        if (e?.message === "401_UNAUTH") {
-          Alert.alert("Sesi berakhir", "Silakan login kembali.", [
-            {
-              text: "OK",
-              onPress: () => {
-                router.replace("/(auth)/login");
-              }
-            }
-          ]);
-        } else {
+        // 401 sudah ditangani global (refresh / sesi berakhir)
+        if (!isUnauthorized(e)) {
           Alert.alert(
             "Gagal memuat detail", 
             e?.message || "Tidak bisa memuat detail jasa.",
@@ -189,20 +93,15 @@ export default function OfferingDetail() {
         setLoading(false);
       }
     })();
-  }, [id, router]);
+  }, [id, router, signal]);
 
   const priceNum = useMemo(() => Number(item?.price ?? 0), [item]);
   
   const mainImage = useMemo(() => {
-    if (!item?.offer_pictures?.[0]) {
-      return "https://via.placeholder.com/1200x800.png?text=Offering+Image";
-    }
-    
-    const imageUrl = item.offer_pictures[0];
-    if (imageUrl.startsWith("http")) {
-      return imageUrl;
-    }
-    return `${API_ORIGIN}${imageUrl.startsWith("/") ? imageUrl : `/${imageUrl}`}`;
+    return (
+      assetUrl(item?.offer_pictures?.[0]) ??
+      "https://via.placeholder.com/1200x800.png?text=Offering+Image"
+    );
   }, [item?.offer_pictures]);
 
   const lat = useMemo(() => {
@@ -298,12 +197,13 @@ export default function OfferingDetail() {
         </View>
 
         {/* Add-ons jika ada */}
-        {item.add_ons && item.add_ons.length > 0 && (
+        {offeringAddOns(item).length > 0 && (
           <View style={{ marginTop: 16 }}>
             <Text style={styles.label}>Tambahan Layanan</Text>
-            {item.add_ons.map((addon, index) => (
-              <Text key={index} style={[styles.value, { marginTop: 4 }]}>
-                • {titleCase(addon)}
+            {offeringAddOns(item).map((addon) => (
+              <Text key={String(addon.id)} style={[styles.value, { marginTop: 4 }]}>
+                • {titleCase(addon.name)}
+                {addon.price > 0 ? ` • ${formatIDR(addon.price)}` : ""}
               </Text>
             ))}
           </View>
@@ -13,7 +13,19 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import authStorage from "../../utils/authStorage";
+import ContactVerificationCard from "../../components/ContactVerificationCard";
+import SessionsLink from "../../components/SessionsLink";
+import FieldError from "../../components/FieldError";
+import OutboxStatus from "../../components/OutboxStatus";
+import LoginRequired from "../../components/LoginRequired";
+import { isUnauthorized, unwrap } from "../../lib/api";
+import { useAuth } from "../../lib/auth";
+import { useFieldErrors } from "../../lib/formErrors";
+import { sendOrQueue } from "../../lib/outbox";
+import { alertProfileSaved, isPhoneChanged } from "../../lib/verification";
+import { createLogger } from "../../lib/logger";
+
+const log = createLogger("PROFILE");
 
 // ✅ PERBAIKAN: Definisikan types yang lebih komprehensif
 type UserProfile = {
@@ -23,6 +35,7 @@ type UserProfile = {
   address?: string | null;
   bio?: string | null;
   photo_url?: string | null;
+  phone_verified_at?: string | null;
   role?: string;
 };
 
@@ -31,11 +44,6 @@ type Me = UserProfile & {
   user?: UserProfile;
 };
 
-const API_BASE = "https://smstudio.my.id/api";
-const API_ME = `${API_BASE}/auth/me`;
-const API_PROFILE = `${API_BASE}/auth/profile`;
-const API_LOGOUT = `${API_BASE}/auth/logout`;
-
 const PURPLE = "#AA60C8";
 const BORDER = "#E5E7EB";
 const MUTED = "#6B7280";
@@ -60,8 +68,18 @@ function extractProfileData(me: Me | null): UserProfile {
   };
 }
 
-export default function SettingsScreen() {
+/** Tamu: ajakan masuk/daftar (lib/guest) */
+export default function ProfileRoute() {
+  return (
+    <LoginRequired message="Masuk untuk melihat profil Anda." returnTo="/(user)/profile">
+      <SettingsScreen />
+    </LoginRequired>
+  );
+}
+
+function SettingsScreen() {
   const router = useRouter();
+  const { status, user, profile, logout, refreshProfile, updateProfileLocally } = useAuth();
 
   // form fields
   const [name, setName] = useState("");
@@ -73,136 +91,115 @@ export default function SettingsScreen() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const { errors, apply: applyFieldErrors, clear: clearError } = useFieldErrors();
 
   // Load user profile data
   useEffect(() => {
+    if (status === "loading") return;
     (async () => {
       try {
         setLoading(true);
-        console.log("[SettingsScreen] Loading user profile...");
+        log.debug("[SettingsScreen] Loading user profile...");
         
-        // Coba ambil dari cache dulu
-        const cachedProfile = await authStorage.getUserProfile();
-        if (cachedProfile) {
-          console.log("[SettingsScreen] Using cached profile");
-          setName(cachedProfile.name || "");
-          setPhone(cachedProfile.phone || "");
-          setAddress(cachedProfile.address || "");
-          setBio(cachedProfile.bio || "");
-          setPhotoUrl(cachedProfile.photo_url || "");
-        }
-
-        // Ambil data terbaru dari API
-        const token = await authStorage.getAuthToken();
-        if (!token) {
-          console.warn("[SettingsScreen] No token found");
-          setLoading(false);
+        // Isi dulu dari sesi yang sudah ada
+        const cached = extractProfileData((user ?? profile) as Me | null);
+        setName(cached.name || "");
+        setPhone(cached.phone || "");
+        setAddress(cached.address || "");
+        setBio(cached.bio || "");
+        setPhotoUrl(cached.photo_url || "");
+
+        if (status !== "signedIn") {
+          log.warn("[SettingsScreen] No session");
           return;
         }
 
-        const res = await fetch(API_ME, {
-          headers: { 
-            Authorization: `Bearer ${token}`,
-            Accept: "application/json"
-          },
-        });
+        // Ambil data terbaru dari API (sekaligus memperbarui sesi)
+        const me = (await refreshProfile()) as Me | null;
+        if (!me) return;
 
-        if (res.ok) {
-          const me: Me = await res.json();
-          console.log("[SettingsScreen] API response:", me);
-          
-          // ✅ PERBAIKAN: Gunakan helper function untuk extract data dengan aman
-          const profileData = extractProfileData(me);
-          
-          setName(profileData.name || "");
-          setPhone(profileData.phone || "");
-          setAddress(profileData.address || "");
-          setBio(profileData.bio || "");
-          setPhotoUrl(profileData.photo_url || "");
-
-          // Update cache dengan data terbaru
-          await authStorage.setUserProfile(profileData);
-        } else if (res.status === 401) {
-          console.log("[SettingsScreen] 401 Unauthorized - Clearing auth");
-          await authStorage.clearAuthAll();
-          router.replace("/(auth)/login");
-        } else {
-          console.warn("[SettingsScreen] Failed to fetch profile:", res.status);
-        }
+        // ✅ PERBAIKAN: Gunakan helper function untuk extract data dengan aman
+        const profileData = extractProfileData(me);
+
+        setName(profileData.name || "");
+        setPhone(profileData.phone || "");
+        setAddress(profileData.address || "");
+        setBio(profileData.bio || "");
+        setPhotoUrl(profileData.photo_url || "");
       } catch (e: any) {
-        console.error("[SettingsScreen] Error loading profile:", e);
+        // 401 sudah ditangani global (refresh / sesi berakhir)
+        if (isUnauthorized(e)) return;
+        log.error("[SettingsScreen] Error loading profile:", e);
         Alert.alert("Error", "Gagal memuat profil: " + (e.message || "Unknown error"));
       } finally {
         setLoading(false);
       }
     })();
-  }, [router]);
+    // form diisi ulang hanya saat status sesi berubah, bukan tiap kali user/profile diperbarui
+  }, [status, refreshProfile]);
 
   async function onSave() {
+    clearError();
     try {
       setSaving(true);
-      console.log("[SettingsScreen] Saving profile...");
+      log.debug("[SettingsScreen] Saving profile...");
       
-      const token = await authStorage.getAuthToken();
-      if (!token) {
+      if (status !== "signedIn") {
         Alert.alert("Error", "Token tidak ditemukan. Silakan login kembali.");
         router.replace("/(auth)/login");
         return;
       }
 
-      const res = await fetch(API_PROFILE, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          name: name || undefined,
-          phone: phone || undefined,
-          address: address || undefined,
-          bio: bio || undefined,
-          photo_url: photoUrl || undefined,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorText = await res.text();
-        let errorMessage = "Gagal menyimpan profil";
-        
-        try {
-          const errorJson = JSON.parse(errorText);
-          errorMessage = errorJson?.message || errorJson?.error || errorMessage;
-        } catch {
-          errorMessage = errorText || errorMessage;
-        }
-        
-        if (res.status === 401) {
-          await authStorage.clearAuthAll();
-          router.replace("/(auth)/login");
-          return;
-        }
-        
-        throw new Error(errorMessage);
+      let json: Me | null = null;
+      let queued = false;
+      try {
+        // lewat outbox: kalau offline, perubahan disimpan dan dikirim otomatis nanti
+        const res = await sendOrQueue({
+          kind: "profile.update",
+          label: "Perubahan profil",
+          method: "PATCH",
+          endpoint: "/auth/profile",
+          body: {
+            name: name || undefined,
+            phone: phone || undefined,
+            address: address || undefined,
+            bio: bio || undefined,
+            photo_url: photoUrl || undefined,
+          },
+          invalidate: ["/auth/me"],
+        });
+        if (res.queued) queued = true;
+        else json = unwrap<Me>(res.data);
+      } catch (err: any) {
+        // 401 sudah ditangani global; 422 → error per field di bawah input
+        if (isUnauthorized(err) || applyFieldErrors(err)) return;
+        throw new Error(err?.message || "Gagal menyimpan profil");
       }
 
-      const json = await res.json();
-      console.log("[SettingsScreen] Profile saved successfully:", json);
+      log.debug("[SettingsScreen] Profile saved", queued ? "(queued)" : "");
 
-      // ✅ PERBAIKAN: Update cache dengan data terbaru
-      const updatedProfile: UserProfile = {
+      // Sinkron sesi dengan data terbaru
+      const { id: _id, role: _role, ...updatedProfile }: UserProfile = {
         name,
         phone,
         address,
         bio,
         photo_url: photoUrl,
-        ...extractProfileData(json),
+        ...(json ? extractProfileData(json) : {}),
       };
-      await authStorage.setUserProfile(updatedProfile);
+      const phoneChanged = !queued && isPhoneChanged(user, updatedProfile.phone);
+      updateProfileLocally({
+        ...updatedProfile,
+        ...(phoneChanged ? { phone_verified_at: json?.profile?.phone_verified_at ?? null } : {}),
+      });
 
-      Alert.alert("Sukses", "Profil berhasil diperbarui");
+      if (queued) {
+        Alert.alert("Disimpan sementara", "Koneksi bermasalah. Perubahan profil akan dikirim otomatis saat koneksi kembali.");
+      } else {
+        alertProfileSaved(router, phoneChanged);
+      }
     } catch (e: any) {
-      console.error("[SettingsScreen] Error saving profile:", e);
+      log.error("[SettingsScreen] Error saving profile:", e);
       Alert.alert("Gagal", e?.message || "Tidak bisa menyimpan profil");
     } finally {
       setSaving(false);
@@ -224,31 +221,12 @@ export default function SettingsScreen() {
           onPress: async () => {
             try {
               setLoggingOut(true);
-              console.log("[SettingsScreen] Logging out...");
-              
-              const token = await authStorage.getAuthToken();
+              log.debug("[SettingsScreen] Logging out...");
               
-              // Call logout API jika token ada
-              if (token) {
-                try {
-                  await fetch(API_LOGOUT, {
-                    method: "POST",
-                    headers: {
-                      Accept: "application/json",
-                      Authorization: `Bearer ${token}`,
-                    },
-                  });
-                  console.log("[SettingsScreen] Logout API called successfully");
-                } catch (apiError) {
-                  console.warn("[SettingsScreen] Logout API call failed:", apiError);
-                  // Continue with local logout even if API fails
-                }
-              }
-
-              // Clear local auth data
-              await authStorage.clearAuthAll();
+              // token lokal tetap dihapus walau request logout gagal
+              await logout();
               
-              console.log("[SettingsScreen] Logout completed");
+              log.debug("[SettingsScreen] Logout completed");
               
               Alert.alert("Berhasil Keluar", "Anda telah keluar dari akun.", [
                 { 
@@ -257,9 +235,7 @@ export default function SettingsScreen() {
                 },
               ]);
             } catch (error) {
-              console.error("[SettingsScreen] Logout error:", error);
-              // Fallback: clear local data and redirect
-              await authStorage.clearAuthAll();
+              log.error("[SettingsScreen] Logout error:", error);
               router.replace("/(auth)/login");
             } finally {
               setLoggingOut(false);
@@ -284,6 +260,9 @@ export default function SettingsScreen() {
       <Text style={styles.title}>Pengaturan Profil</Text>
       <Text style={styles.caption}>Kelola informasi profil Anda</Text>
 
+      <ContactVerificationCard style={styles.contactCard} />
+      <SessionsLink style={styles.contactCard} />
+
       {/* Profile Photo Preview */}
       {photoUrl ? (
         <View style={styles.photoSection}>
@@ -306,52 +285,74 @@ export default function SettingsScreen() {
       <Text style={styles.label}>Nama Lengkap</Text>
       <TextInput
         value={name}
-        onChangeText={setName}
-        style={styles.input}
+        onChangeText={(t) => {
+          setName(t);
+          clearError("name");
+        }}
+        style={[styles.input, !!errors.name && styles.inputError]}
         placeholder="Masukkan nama lengkap"
         placeholderTextColor={MUTED}
       />
+      <FieldError message={errors.name} style={styles.fieldError} />
 
       <Text style={styles.label}>Nomor Telepon</Text>
       <TextInput
         value={phone}
-        onChangeText={setPhone}
-        style={styles.input}
+        onChangeText={(t) => {
+          setPhone(t);
+          clearError("phone");
+        }}
+        style={[styles.input, !!errors.phone && styles.inputError]}
         keyboardType="phone-pad"
         placeholder="Contoh: 081234567890"
         placeholderTextColor={MUTED}
       />
+      <FieldError message={errors.phone} style={styles.fieldError} />
 
       <Text style={styles.label}>Alamat</Text>
       <TextInput
         value={address}
-        onChangeText={setAddress}
-        style={styles.input}
+        onChangeText={(t) => {
+          setAddress(t);
+          clearError("address");
+        }}
+        style={[styles.input, !!errors.address && styles.inputError]}
         placeholder="Masukkan alamat lengkap"
         placeholderTextColor={MUTED}
       />
+      <FieldError message={errors.address} style={styles.fieldError} />
 
       <Text style={styles.label}>Bio / Tentang Saya</Text>
       <TextInput
         value={bio}
-        onChangeText={setBio}
-        style={[styles.input, styles.textArea]}
+        onChangeText={(t) => {
+          setBio(t);
+          clearError("bio");
+        }}
+        style={[styles.input, styles.textArea, !!errors.bio && styles.inputError]}
         placeholder="Ceritakan sedikit tentang diri Anda..."
         placeholderTextColor={MUTED}
         multiline
         numberOfLines={4}
       />
+      <FieldError message={errors.bio} style={styles.fieldError} />
 
       <Text style={styles.label}>URL Foto Profil</Text>
       <TextInput
         value={photoUrl}
-        onChangeText={setPhotoUrl}
-        style={styles.input}
+        onChangeText={(t) => {
+          setPhotoUrl(t);
+          clearError("photo_url");
+        }}
+        style={[styles.input, !!errors.photo_url && styles.inputError]}
         placeholder="https://example.com/photo.jpg"
         placeholderTextColor={MUTED}
         autoCapitalize="none"
         autoCorrect={false}
       />
+      <FieldError message={errors.photo_url} style={styles.fieldError} />
+
+      <OutboxStatus kinds={["profile.update"]} style={styles.outbox} />
 
       <TouchableOpacity 
         style={[styles.primaryBtn, saving && styles.buttonDisabled]} 
@@ -382,16 +383,22 @@ export default function SettingsScreen() {
         )}
       </TouchableOpacity>
 
-      {/* App Version Info */}
-      <View style={styles.versionSection}>
+      {/* App Version Info — tekan lama membuka layar diagnostik */}
+      <TouchableOpacity
+        style={styles.versionSection}
+        activeOpacity={1}
+        delayLongPress={800}
+        onLongPress={() => router.push("/diagnostics")}
+      >
         <Text style={styles.versionText}>SM Studio App</Text>
         <Text style={styles.versionText}>v1.0.0</Text>
-      </View>
+      </TouchableOpacity>
     </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
+  outbox: { marginTop: 16 },
   screen: { 
     flex: 1, 
     backgroundColor: "#fff", 
@@ -454,6 +461,9 @@ const styles = StyleSheet.create({
     backgroundColor: "#fff",
     fontSize: 16,
   },
+  inputError: { borderColor: "#DC2626" },
+  fieldError: { marginHorizontal: 20 },
+  contactCard: { marginHorizontal: 20, marginBottom: 20 },
   textArea: {
     height: 100,
     textAlignVertical: "top",
@@ -0,0 +1,216 @@
+// app/developer.tsx
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Redirect, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+
+import {
+  ENV_NAMES,
+  getBuildEnv,
+  getEnv,
+  getEnvPreset,
+  isDevMenuEnabled,
+  setEnvOverride,
+  type EnvName,
+} from "../constants/env";
+import { resetDemoData } from "../lib/demo";
+import { clearAuthAll } from "../utils/authStorage";
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+
+/**
+ * Menu developer tersembunyi: ganti environment API saat runtime.
+ * Dibuka dengan tekan lama judul "Masuk" atau dari Settings (sambil login), di luar
+ * grup (auth) supaya tidak dialihkan SessionGuard. Bisa juga dicapai lewat deep link,
+ * jadi cek devMenu di sini juga.
+ */
+export default function DeveloperScreen() {
+  const router = useRouter();
+  const [env, setEnv] = useState(getEnv());
+  const [customOrigin, setCustomOrigin] = useState("");
+  const build = getBuildEnv();
+
+  if (!isDevMenuEnabled()) return <Redirect href="/" />;
+
+  async function apply(name: EnvName | null, origin?: string) {
+    const changed = await setEnvOverride(name, origin);
+    setEnv(getEnv());
+    if (!changed) return;
+    // token dari server lain tidak berlaku → semua akun tersimpan ikut keluar
+    await clearAuthAll({ allAccounts: true });
+    Alert.alert("Environment diganti", `Sekarang memakai ${getEnv().apiOrigin}. Silakan masuk lagi.`);
+    router.replace("/(auth)/login");
+  }
+
+  function confirm(name: EnvName | null, origin?: string) {
+    const target = name ? origin || getEnvPreset(name).apiOrigin : build.apiOrigin;
+    Alert.alert(
+      "Ganti environment?",
+      `API: ${target}\n\nAnda akan keluar dari akun saat ini.`,
+      [
+        { text: "Batal", style: "cancel" },
+        { text: "Ganti", style: "destructive", onPress: () => apply(name, origin) },
+      ]
+    );
+  }
+
+  function confirmResetDemo() {
+    Alert.alert("Reset data demo?", "Booking, notifikasi dan perubahan lain di mode demo akan dihapus.", [
+      { text: "Batal", style: "cancel" },
+      {
+        text: "Reset",
+        style: "destructive",
+        onPress: async () => {
+          await resetDemoData();
+          Alert.alert("Berhasil", "Data demo dikembalikan ke awal.");
+        },
+      },
+    ]);
+  }
+
+  function applyCustom() {
+    const origin = customOrigin.trim();
+    if (!/^https?:\/\/\S+$/i.test(origin)) {
+      Alert.alert("URL tidak valid", "Gunakan format http(s)://host[:port]");
+      return;
+    }
+    confirm(env.name, origin);
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Developer</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Aktif</Text>
+        <View style={styles.card}>
+          <Text style={styles.label}>{env.label}</Text>
+          <Text style={styles.origin}>API: {env.apiOrigin}</Text>
+          <Text style={styles.origin}>Storage: {env.storageOrigin}</Text>
+          <Text style={styles.hint}>Bawaan build: {build.label}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Environment</Text>
+        {ENV_NAMES.map((name) => {
+          const preset = getEnvPreset(name);
+          const active = env.name === name && env.apiOrigin === preset.apiOrigin;
+          return (
+            <TouchableOpacity
+              key={name}
+              style={[styles.card, active && styles.cardActive]}
+              onPress={() => !active && confirm(name)}
+              activeOpacity={0.8}
+            >
+              <View style={{ flex: 1 }}>
+                <Text style={styles.label}>{preset.label}</Text>
+                <Text style={styles.origin}>{preset.apiOrigin}</Text>
+              </View>
+              {active && <Ionicons name="checkmark-circle" size={22} color={PURPLE} />}
+            </TouchableOpacity>
+          );
+        })}
+
+        <Text style={styles.sectionTitle}>Origin kustom</Text>
+        <TextInput
+          value={customOrigin}
+          onChangeText={setCustomOrigin}
+          placeholder="http://192.168.1.10:8000"
+          placeholderTextColor={MUTED}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          style={styles.input}
+        />
+        <TouchableOpacity style={styles.primaryBtn} onPress={applyCustom}>
+          <Text style={styles.primaryText}>Pakai origin ini</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.outlineBtn} onPress={() => confirm(null)}>
+          <Text style={styles.outlineText}>Reset ke bawaan build</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.outlineBtn} onPress={confirmResetDemo}>
+          <Text style={styles.outlineText}>Reset data demo</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.outlineBtn} onPress={() => router.push("/diagnostics")}>
+          <Text style={styles.outlineText}>Log diagnostik</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#fff" },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+  backBtn: { padding: 6, marginRight: 6 },
+  headerTitle: { fontSize: 18, fontWeight: "700", color: "#111827" },
+  content: { padding: 16, paddingBottom: 32 },
+  sectionTitle: { fontSize: 13, fontWeight: "700", color: MUTED, marginTop: 16, marginBottom: 8 },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    flexWrap: "wrap",
+  },
+  cardActive: { borderColor: PURPLE, backgroundColor: "#F7EEFB" },
+  label: { fontSize: 15, fontWeight: "700", color: "#111827", width: "100%" },
+  origin: { fontSize: 13, color: MUTED, marginTop: 2 },
+  hint: { fontSize: 12, color: MUTED, marginTop: 6, width: "100%" },
+  input: {
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: "#111827",
+  },
+  primaryBtn: {
+    marginTop: 10,
+    backgroundColor: PURPLE,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  primaryText: { color: "#fff", fontWeight: "700" },
+  outlineBtn: {
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: PURPLE,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  outlineText: { color: PURPLE, fontWeight: "700" },
+});
@@ -0,0 +1,184 @@
+// app/diagnostics.tsx
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  FlatList,
+  Platform,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import Constants from "expo-constants";
+
+import { getBuildEnv, getEnv } from "../constants/env";
+import { isDemoMode } from "../lib/demo";
+import { clearLogs, exportLogs, getLogEntries, type LogEntry, type LogLevel } from "../lib/logger";
+import { getStorageSchemaVersion } from "../utils/storageMigrations";
+
+/* ===== Tokens ===== */
+const PURPLE = "#AA60C8";
+const MUTED = "#6B7280";
+const BORDER = "#E5E7EB";
+
+const LEVEL_COLOR: Record<LogLevel, string> = {
+  debug: MUTED,
+  info: "#2563EB",
+  warn: "#B45309",
+  error: "#DC2626",
+};
+
+function reportHeader() {
+  const env = getEnv();
+  return [
+    `SM Studio App v${Constants.expoConfig?.version ?? "-"}`,
+    `Platform: ${Platform.OS} ${Platform.Version}`,
+    `Env: ${env.name} (${env.apiOrigin}) · build: ${getBuildEnv().name}`,
+    `Mode demo: ${isDemoMode() ? "ya" : "tidak"}`,
+    `Skema storage: v${getStorageSchemaVersion() ?? "-"}`,
+    `Diekspor: ${new Date().toISOString()}`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Layar diagnostik tersembunyi: log terbaru (sudah di-redact) yang bisa dibagikan
+ * untuk laporan bug. Dibuka dengan tekan lama versi app di Profil, atau dari menu Developer.
+ */
+export default function DiagnosticsScreen() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<LogEntry[]>(() => [...getLogEntries()]);
+  const data = useMemo(() => [...entries].reverse(), [entries]);
+
+  const reload = useCallback(() => setEntries([...getLogEntries()]), []);
+
+  async function onShare() {
+    try {
+      await Share.share({ message: exportLogs(reportHeader()) });
+    } catch (e: any) {
+      Alert.alert("Gagal", e?.message || "Tidak dapat membagikan log");
+    }
+  }
+
+  function onClear() {
+    Alert.alert("Hapus log?", "Semua log diagnostik di perangkat ini akan dihapus.", [
+      { text: "Batal", style: "cancel" },
+      {
+        text: "Hapus",
+        style: "destructive",
+        onPress: () => {
+          clearLogs();
+          reload();
+        },
+      },
+    ]);
+  }
+
+  const env = getEnv();
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={22} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Diagnostik</Text>
+        <TouchableOpacity onPress={reload} style={styles.iconBtn}>
+          <Ionicons name="refresh" size={20} color="#111827" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.info}>
+        <Text style={styles.infoText}>
+          v{Constants.expoConfig?.version ?? "-"} · {Platform.OS} · {env.label}
+          {isDemoMode() ? " · Mode demo" : ""}
+        </Text>
+        <Text style={styles.infoText} numberOfLines={1}>API: {env.apiOrigin}</Text>
+        <Text style={styles.infoText}>{entries.length} entri log</Text>
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.primaryBtn} onPress={onShare}>
+          <Ionicons name="share-outline" size={16} color="#fff" />
+          <Text style={styles.primaryText}>Bagikan log</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.outlineBtn} onPress={onClear}>
+          <Text style={styles.outlineText}>Hapus</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={data}
+        keyExtractor={(_, i) => String(i)}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.empty}>Belum ada log.</Text>}
+        renderItem={({ item }) => (
+          <View style={styles.row}>
+            <Text style={styles.meta}>
+              {new Date(item.t).toLocaleTimeString("id-ID")}{" "}
+              <Text style={{ color: LEVEL_COLOR[item.level], fontWeight: "700" }}>
+                {item.level.toUpperCase()}
+              </Text>{" "}
+              [{item.tag}]
+            </Text>
+            <Text style={styles.msg} selectable>
+              {item.msg}
+            </Text>
+          </View>
+        )}
+      />
+    </SafeAreaView>
+  );
+}
+
+/* ===== Styles ===== */
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#fff" },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: BORDER,
+  },
+  backBtn: { padding: 6, marginRight: 6 },
+  iconBtn: { padding: 6, marginLeft: "auto" },
+  headerTitle: { fontSize: 18, fontWeight: "700", color: "#111827" },
+  info: { paddingHorizontal: 16, paddingTop: 12 },
+  infoText: { fontSize: 12, color: MUTED, marginBottom: 2 },
+  actions: { flexDirection: "row", gap: 8, paddingHorizontal: 16, paddingVertical: 12 },
+  primaryBtn: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 6,
+    backgroundColor: PURPLE,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryText: { color: "#fff", fontWeight: "700" },
+  outlineBtn: {
+    borderWidth: 1,
+    borderColor: PURPLE,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: "center",
+  },
+  outlineText: { color: PURPLE, fontWeight: "700" },
+  list: { paddingHorizontal: 16, paddingBottom: 32 },
+  row: { borderTopWidth: 1, borderTopColor: BORDER, paddingVertical: 8 },
+  meta: { fontSize: 11, color: MUTED, marginBottom: 2 },
+  msg: {
+    fontSize: 12,
+    color: "#111827",
+    fontFamily: Platform.select({ ios: "Menlo", default: "monospace" }),
+  },
+  empty: { textAlign: "center", color: MUTED, marginTop: 24 },
+});
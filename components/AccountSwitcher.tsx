@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { normalizeRole, useAuth } from '../lib/auth';
+import { homeRouteFor } from '../lib/session';
+import type { StoredAccount } from '../utils/authStorage';
+
+const ROLE_LABEL: Record<string, string> = { mua: 'MUA', customer: 'Pengguna', admin: 'Admin' };
+
+/** Daftar akun tersimpan: ganti akun aktif, tambah akun, hapus akun lain dari perangkat */
+export default function AccountSwitcher({ style }: { style?: StyleProp<ViewStyle> }) {
+  const router = useRouter();
+  const { accounts, profileId, switchAccount, removeAccount } = useAuth();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const onSwitch = async (account: StoredAccount) => {
+    if (account.id === profileId || busy) return;
+    setBusy(account.id);
+    try {
+      const profile = await switchAccount(account.id);
+      router.replace(homeRouteFor(normalizeRole(profile?.role)));
+    } catch (e: any) {
+      Alert.alert('Gagal', e?.message || 'Tidak dapat mengganti akun.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const onRemove = (account: StoredAccount) => {
+    Alert.alert('Hapus akun dari perangkat?', `${account.name || account.email || 'Akun ini'} perlu login lagi untuk dipakai.`, [
+      { text: 'Batal', style: 'cancel' },
+      { text: 'Hapus', style: 'destructive', onPress: () => removeAccount(account.id) },
+    ]);
+  };
+
+  return (
+    <View style={[styles.card, style]}>
+      <Text style={styles.title}>Akun</Text>
+      {accounts.map((account) => {
+        const active = account.id === profileId;
+        const role = normalizeRole(account.role);
+        return (
+          <TouchableOpacity
+            key={account.id}
+            style={styles.row}
+            onPress={() => onSwitch(account)}
+            onLongPress={active ? undefined : () => onRemove(account)}
+            disabled={active || !!busy}
+            accessibilityLabel={active ? 'Akun aktif' : `Ganti ke ${account.name || account.email || 'akun ini'}`}
+          >
+            {account.photo_url ? (
+              <Image source={{ uri: account.photo_url }} style={styles.avatar} />
+            ) : (
+              <View style={[styles.avatar, styles.avatarEmpty]}>
+                <Ionicons name="person" size={16} color="#AA60C8" />
+              </View>
+            )}
+            <View style={{ flex: 1 }}>
+              <Text style={styles.name} numberOfLines={1}>
+                {account.name || account.email || 'Tanpa nama'}
+              </Text>
+              <Text style={styles.meta} numberOfLines={1}>
+                {[role ? ROLE_LABEL[role] : null, account.email, account.demo ? 'Demo' : null].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+            {busy === account.id ? (
+              <ActivityIndicator color="#AA60C8" />
+            ) : active ? (
+              <Ionicons name="checkmark-circle" size={20} color="#AA60C8" />
+            ) : (
+              <Text style={styles.switchText}>Ganti</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+      {accounts.length > 1 && <Text style={styles.hint}>Tekan lama akun lain untuk menghapusnya dari perangkat.</Text>}
+      <TouchableOpacity style={styles.addRow} onPress={() => router.push('/(account)/add-account')} disabled={!!busy}>
+        <Ionicons name="add-circle-outline" size={20} color="#AA60C8" />
+        <Text style={styles.addText}>Tambah akun</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 14,
+    gap: 12,
+  },
+  title: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3F4F6',
+  },
+  avatarEmpty: {
+    backgroundColor: '#F7F0FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  switchText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import VerifiedBadge from './VerifiedBadge';
+import { useAuth } from '../lib/auth';
+import { CONTACT_CHANNELS, CONTACT_LABELS, contactValue, isContactVerified } from '../lib/verification';
+
+/** Email & nomor HP akun beserta status verifikasinya (layar pengaturan/profil) */
+export default function ContactVerificationCard({ style }: { style?: StyleProp<ViewStyle> }) {
+  const router = useRouter();
+  const { user } = useAuth();
+  if (!user) return null;
+
+  return (
+    <View style={[styles.card, style]}>
+      <Text style={styles.title}>Kontak akun</Text>
+      {CONTACT_CHANNELS.map((channel) => {
+        const verified = isContactVerified(user, channel);
+        return (
+          <View key={channel} style={styles.row}>
+            <View style={{ flex: 1, gap: 4 }}>
+              <Text style={styles.label}>{CONTACT_LABELS[channel]}</Text>
+              <Text style={styles.value} numberOfLines={1}>
+                {contactValue(user, channel) || '—'}
+              </Text>
+              <VerifiedBadge verified={verified} />
+            </View>
+            {!verified && (
+              <TouchableOpacity
+                style={styles.action}
+                onPress={() => router.push({ pathname: '/(account)/verify', params: { channel } })}
+              >
+                <Text style={styles.actionText}>Verifikasi</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 14,
+    gap: 12,
+  },
+  title: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  value: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#F7F0FF',
+  },
+  actionText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,36 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { isDevMenuEnabled } from '../constants/env';
+
+/** Baris menuju menu developer (ganti environment); hanya tampil kalau devMenu aktif */
+export default function DeveloperLink({ style }: { style?: StyleProp<ViewStyle> }) {
+  const router = useRouter();
+  if (!isDevMenuEnabled()) return null;
+  return (
+    <TouchableOpacity style={[styles.row, style]} onPress={() => router.push('/developer')}>
+      <Ionicons name="construct-outline" size={20} color="#AA60C8" />
+      <Text style={styles.text}>Developer</Text>
+      <Ionicons name="chevron-forward" size={16} color="#6B7280" />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    height: 52,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  text: {
+    flex: 1,
+    fontWeight: '700',
+    color: '#111827',
+  },
+});
@@ -0,0 +1,21 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+type FieldErrorProps = {
+  message?: string | null;
+  style?: StyleProp<TextStyle>;
+};
+
+/** Pesan validasi kecil di bawah input */
+export default function FieldError({ message, style }: FieldErrorProps) {
+  if (!message) return null;
+  return <Text style={[styles.text, style]}>{message}</Text>;
+}
+
+const styles = StyleSheet.create({
+  text: {
+    color: '#DC2626',
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatIDR, mismatchMessage, type ReconciledPrice } from '../lib/pricing';
+
+/** Rincian invoice dari lib/pricing: item, subtotal, diskon, pajak, total (nilai server) + peringatan selisih */
+export default function InvoiceSummary({ pricing }: { pricing: ReconciledPrice }) {
+  const { breakdown, totals, mismatches } = pricing;
+  const items = breakdown.lines.filter((l) => l.kind !== 'discount' && l.kind !== 'tax');
+  const discountLabel = breakdown.lines.find((l) => l.kind === 'discount')?.label ?? 'Diskon';
+
+  return (
+    <View>
+      {items.length > 1 && items.map((l, i) => <Line key={`${l.kind}-${i}`} label={l.label} value={formatIDR(l.amount)} muted />)}
+      <Line label="Subtotal" value={formatIDR(totals.subtotal)} />
+      {totals.discount > 0 && <Line label={discountLabel} value={`- ${formatIDR(totals.discount)}`} />}
+      {totals.tax > 0 && <Line label={`Pajak (${breakdown.taxPercent}%)`} value={formatIDR(totals.tax)} />}
+      <View style={styles.divider} />
+      <Line label="Total" value={formatIDR(totals.total)} bold />
+
+      {mismatches.length > 0 && (
+        <View style={styles.warn}>
+          <Ionicons name="warning-outline" size={16} color="#B45309" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.warnTitle}>Total dari server berbeda dengan rincian</Text>
+            <Text style={styles.warnText}>{mismatchMessage(mismatches)}</Text>
+            <Text style={styles.warnText}>Yang ditagihkan mengikuti angka server.</Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function Line({ label, value, bold = false, muted = false }: { label: string; value: string; bold?: boolean; muted?: boolean }) {
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, muted && styles.muted]}>{label}</Text>
+      <Text style={[styles.value, muted && styles.muted, bold && styles.bold]} numberOfLines={2}>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    color: '#6B7280',
+    marginRight: 12,
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  value: {
+    color: '#111827',
+    maxWidth: '60%',
+    textAlign: 'right',
+    fontSize: 14,
+  },
+  muted: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  bold: {
+    fontWeight: '800',
+    fontSize: 16,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E7EB',
+    marginTop: 2,
+    marginBottom: 10,
+  },
+  warn: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: '#FFFBEB',
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+  },
+  warnTitle: {
+    fontWeight: '700',
+    color: '#92400E',
+  },
+  warnText: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#92400E',
+  },
+});
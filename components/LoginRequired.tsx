@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter, type Href } from 'expo-router';
+import { useAuth } from '../lib/auth';
+import { openAuthFromGuest } from '../lib/guest';
+
+type LoginRequiredProps = {
+  /** alasan singkat, mis. "Masuk untuk melihat booking Anda." */
+  message: string;
+  /** layar setelah login; null = beranda sesuai role */
+  returnTo?: Href | null;
+  children: React.ReactNode;
+};
+
+/** Layar khusus akun di grup (user): tamu melihat ajakan masuk/daftar, bukan redirect */
+export default function LoginRequired({ message, returnTo = null, children }: LoginRequiredProps) {
+  const router = useRouter();
+  const { status } = useAuth();
+  if (status !== 'signedOut') return <>{children}</>;
+
+  return (
+    <View style={styles.screen}>
+      <Ionicons name="person-circle-outline" size={56} color="#AA60C8" />
+      <Text style={styles.title}>Masuk ke akun Anda</Text>
+      <Text style={styles.text}>{message}</Text>
+      <TouchableOpacity style={styles.primary} onPress={() => openAuthFromGuest(router, 'login', returnTo)}>
+        <Text style={styles.primaryText}>Masuk</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondary} onPress={() => openAuthFromGuest(router, 'register', returnTo)}>
+        <Text style={styles.secondaryText}>Belum punya akun? Daftar</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    marginTop: 12,
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  text: {
+    marginTop: 6,
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  primary: {
+    marginTop: 20,
+    alignSelf: 'stretch',
+    backgroundColor: '#AA60C8',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  secondary: {
+    paddingVertical: 14,
+  },
+  secondaryText: {
+    color: '#6B7280',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,110 @@
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  dismissOutboxItem,
+  retryOutboxItem,
+  useOutbox,
+  type OutboxKind,
+  type OutboxStatus as Status,
+} from '../lib/outbox';
+
+type OutboxStatusProps = {
+  kinds: OutboxKind[];
+  style?: any;
+};
+
+const STATUS_LABEL: Record<Status, string> = {
+  pending: 'Menunggu koneksi',
+  sending: 'Mengirim…',
+  sent: 'Terkirim',
+  failed: 'Gagal',
+};
+
+const STATUS_COLOR: Record<Status, string> = {
+  pending: '#B45309',
+  sending: '#6B7280',
+  sent: '#047857',
+  failed: '#DC2626',
+};
+
+/** Daftar mutasi offline (pending/terkirim/gagal) dengan tombol coba lagi */
+export default function OutboxStatus({ kinds, style }: OutboxStatusProps) {
+  const items = useOutbox(kinds);
+  if (!items.length) return null;
+
+  return (
+    <View style={[styles.box, style]}>
+      {items.map((it) => (
+        <View key={it.id} style={styles.row}>
+          {it.status === 'sending' ? (
+            <ActivityIndicator size="small" color={STATUS_COLOR.sending} />
+          ) : (
+            <Ionicons
+              name={it.status === 'sent' ? 'checkmark-circle' : it.status === 'failed' ? 'alert-circle' : 'cloud-offline'}
+              size={16}
+              color={STATUS_COLOR[it.status]}
+            />
+          )}
+          <View style={{ flex: 1 }}>
+            <Text style={styles.label} numberOfLines={1}>{it.label}</Text>
+            <Text style={[styles.status, { color: STATUS_COLOR[it.status] }]} numberOfLines={2}>
+              {STATUS_LABEL[it.status]}
+              {it.status === 'failed' && it.error ? ` · ${it.error}` : ''}
+            </Text>
+          </View>
+          {(it.status === 'failed' || it.status === 'pending') && (
+            <TouchableOpacity onPress={() => retryOutboxItem(it.id)} style={styles.action}>
+              <Text style={styles.actionText}>Coba lagi</Text>
+            </TouchableOpacity>
+          )}
+          {(it.status === 'failed' || it.status === 'sent') && (
+            <TouchableOpacity onPress={() => dismissOutboxItem(it.id)} style={styles.close}>
+              <Ionicons name="close" size={14} color="#6B7280" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    backgroundColor: '#FFFBEB',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  label: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  action: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#AA60C8',
+  },
+  actionText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  close: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { passwordStrength } from '../lib/validation';
+
+const COLORS = ['#E5E7EB', '#DC2626', '#F59E0B', '#10B981', '#059669'];
+
+/** Indikator 4 bar di bawah input password baru */
+export default function PasswordStrengthMeter({ password }: { password: string }) {
+  const { score, label } = passwordStrength(password);
+  if (!score) return null;
+
+  return (
+    <View style={styles.container} accessibilityLabel={`Kekuatan password: ${label}`}>
+      <View style={styles.bars}>
+        {[1, 2, 3, 4].map((i) => (
+          <View key={i} style={[styles.bar, { backgroundColor: i <= score ? COLORS[score] : COLORS[0] }]} />
+        ))}
+      </View>
+      <Text style={[styles.label, { color: COLORS[score] }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+    marginBottom: 15,
+  },
+  bars: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  bar: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    minWidth: 72,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import * as ImagePicker from 'expo-image-picker';
+import { api, assetUrl, isUnauthorized } from '../lib/api';
+import { compressImage } from '../lib/images';
+import {
+  ACCOUNT_TYPE_LABELS,
+  canUploadProof,
+  countdownLabel,
+  isManualPayment,
+  paymentDeadline,
+  paymentStage,
+} from '../lib/payments';
+import { formatIDR } from '../lib/pricing';
+import { muaPaymentAccountsQuery } from '../lib/queries';
+import { invalidateQueries, useQuery } from '../lib/query';
+import type { Booking } from '../lib/types';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('BOOKING');
+
+type PaymentInstructionsProps = {
+  booking: Booking;
+  /** total yang ditagihkan (nilai server) */
+  amount: number;
+  onUpdated: (booking: Booking) => void;
+};
+
+/** Invoice customer: rekening MUA, batas bayar, dan unggah bukti transfer */
+export default function PaymentInstructions({ booking, amount, onUpdated }: PaymentInstructionsProps) {
+  const [now, setNow] = useState(Date.now());
+  const [uploading, setUploading] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const stage = paymentStage(booking, now);
+  const settled = stage === 'paid' || stage === 'refunded';
+  const accounts = useQuery({ ...muaPaymentAccountsQuery(booking.mua_id), enabled: !settled });
+
+  // hitung mundur per 30 detik selama belum lunas
+  useEffect(() => {
+    if (settled) return;
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, [settled]);
+
+  if (!isManualPayment(booking)) return null;
+
+  if (settled) {
+    return (
+      <View style={[styles.notice, styles.noticeOk]}>
+        <Ionicons name="checkmark-circle" size={18} color="#16A34A" />
+        <Text style={[styles.noticeText, { color: '#166534' }]}>
+          {stage === 'paid'
+            ? `Pembayaran sudah dikonfirmasi MUA${booking.paid_at ? ` pada ${fmtDateTime(booking.paid_at)}` : ''}.`
+            : 'Pembayaran sudah dikembalikan.'}
+        </Text>
+      </View>
+    );
+  }
+
+  const deadline = paymentDeadline(booking);
+  const left = deadline ? countdownLabel(deadline.getTime() - now) : null;
+  const proofUrl = assetUrl(booking.payment_proof_url);
+
+  const copy = async (key: string, value: string) => {
+    await Clipboard.setStringAsync(value);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const pickAndUpload = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Izin dibutuhkan', 'Izinkan akses galeri untuk memilih foto bukti transfer.');
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 1,
+      });
+      if (result.canceled || !result.assets?.[0]?.uri) return;
+
+      setUploading(true);
+      const file = await compressImage(result.assets[0].uri);
+      const fd = new FormData();
+      (fd as any).append('proof', { uri: file.uri, name: file.name, type: file.type } as any);
+      const updated = await api.bookings.uploadPaymentProof(booking.id, fd);
+      invalidateQueries('/bookings');
+      onUpdated(updated);
+      log.info('payment proof uploaded');
+      Alert.alert('Terkirim', 'Bukti transfer dikirim ke MUA untuk diverifikasi.');
+    } catch (e: any) {
+      if (isUnauthorized(e)) return;
+      Alert.alert('Gagal', e?.message || 'Tidak dapat mengunggah bukti transfer.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <View>
+      {/* batas bayar */}
+      {deadline && (
+        <View style={[styles.notice, stage === 'overdue' ? styles.noticeDanger : styles.noticeWarn]}>
+          <Ionicons name="time-outline" size={18} color={stage === 'overdue' ? '#DC2626' : '#B45309'} />
+          <Text style={[styles.noticeText, { color: stage === 'overdue' ? '#991B1B' : '#92400E' }]}>
+            {stage === 'overdue'
+              ? `Jatuh tempo ${fmtDateTime(deadline.toISOString())} sudah lewat. Segera bayar atau hubungi MUA.`
+              : `Bayar sebelum ${fmtDateTime(deadline.toISOString())}${left ? ` · ${left}` : ''}`}
+          </Text>
+        </View>
+      )}
+
+      {/* status bukti */}
+      {stage === 'verifying' && (
+        <View style={[styles.notice, styles.noticeInfo]}>
+          <Ionicons name="hourglass-outline" size={18} color="#4F46E5" />
+          <Text style={[styles.noticeText, { color: '#3730A3' }]}>
+            Bukti transfer sedang dicek MUA. Status berubah menjadi PAID setelah diverifikasi.
+          </Text>
+        </View>
+      )}
+      {stage === 'rejected' && (
+        <View style={[styles.notice, styles.noticeDanger]}>
+          <Ionicons name="close-circle-outline" size={18} color="#DC2626" />
+          <Text style={[styles.noticeText, { color: '#991B1B' }]}>
+            Bukti transfer ditolak{booking.payment_rejection_reason ? `: ${booking.payment_rejection_reason}` : '.'}
+            {'\n'}Unggah ulang bukti yang benar.
+          </Text>
+        </View>
+      )}
+
+      {/* nominal */}
+      <View style={styles.amountRow}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.label}>Jumlah transfer</Text>
+          <Text style={styles.amount}>{formatIDR(amount)}</Text>
+        </View>
+        <TouchableOpacity style={styles.copyBtn} onPress={() => copy('amount', String(Math.round(amount)))}>
+          <Text style={styles.copyText}>{copied === 'amount' ? 'Tersalin' : 'Salin'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* rekening MUA */}
+      <Text style={[styles.label, { marginTop: 12 }]}>Transfer ke salah satu rekening berikut</Text>
+      {accounts.loading ? (
+        <ActivityIndicator color="#AA60C8" style={{ marginVertical: 8 }} />
+      ) : accounts.data?.length ? (
+        accounts.data.map((a) => (
+          <View key={String(a.id)} style={styles.account}>
+            <Ionicons name={a.type === 'ewallet' ? 'wallet-outline' : 'card-outline'} size={20} color="#AA60C8" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.provider}>
+                {a.provider} · <Text style={styles.accountType}>{ACCOUNT_TYPE_LABELS[a.type] ?? a.type}</Text>
+              </Text>
+              <Text style={styles.accountNumber}>{a.account_number}</Text>
+              <Text style={styles.accountName}>a.n. {a.account_name}</Text>
+            </View>
+            <TouchableOpacity style={styles.copyBtn} onPress={() => copy(String(a.id), a.account_number)}>
+              <Text style={styles.copyText}>{copied === String(a.id) ? 'Tersalin' : 'Salin'}</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      ) : (
+        <Text style={styles.hint}>
+          {accounts.error
+            ? 'Rekening MUA gagal dimuat. Tarik ulang halaman atau hubungi MUA.'
+            : 'MUA belum menambahkan rekening. Hubungi MUA via WhatsApp untuk info pembayaran.'}
+        </Text>
+      )}
+
+      {/* bukti transfer */}
+      {proofUrl && (
+        <View style={styles.proof}>
+          <Image source={{ uri: proofUrl }} style={styles.proofImage} resizeMode="cover" />
+          <Text style={styles.hint}>
+            Bukti diunggah {booking.payment_proof_uploaded_at ? fmtDateTime(booking.payment_proof_uploaded_at) : ''}
+          </Text>
+        </View>
+      )}
+      {canUploadProof(booking) && (
+        <TouchableOpacity
+          style={[styles.uploadBtn, uploading && { opacity: 0.6 }]}
+          onPress={pickAndUpload}
+          disabled={uploading}
+        >
+          {uploading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="cloud-upload-outline" size={18} color="#fff" />
+              <Text style={styles.uploadText}>
+                {stage === 'rejected' ? 'Unggah Ulang Bukti' : proofUrl ? 'Ganti Bukti Transfer' : 'Unggah Bukti Transfer'}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (!Number.isFinite(+d)) return '-';
+  return d.toLocaleString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  noticeOk: {
+    backgroundColor: '#F0FDF4',
+    borderColor: '#BBF7D0',
+  },
+  noticeWarn: {
+    backgroundColor: '#FFFBEB',
+    borderColor: '#FDE68A',
+  },
+  noticeInfo: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#C7D2FE',
+  },
+  noticeDanger: {
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FECACA',
+  },
+  label: {
+    color: '#6B7280',
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  amount: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  account: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  provider: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  accountType: {
+    fontWeight: '400',
+    color: '#6B7280',
+  },
+  accountNumber: {
+    marginTop: 2,
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#111827',
+    letterSpacing: 0.5,
+  },
+  accountName: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  copyBtn: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#AA60C8',
+  },
+  copyText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+    fontSize: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  proof: {
+    marginTop: 12,
+  },
+  proofImage: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  uploadBtn: {
+    marginTop: 12,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#AA60C8',
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+  },
+  uploadText: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+});
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Image, Linking, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FieldError from './FieldError';
+import { api, assetUrl, isUnauthorized } from '../lib/api';
+import { isManualPayment, paymentStage } from '../lib/payments';
+import { invalidateQueries } from '../lib/query';
+import type { Booking } from '../lib/types';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('BOOKING');
+
+type PaymentProofReviewProps = {
+  booking: Booking;
+  onUpdated: (booking: Booking) => void;
+};
+
+/** Detail booking MUA: bukti transfer customer → tandai lunas atau tolak dengan alasan */
+export default function PaymentProofReview({ booking, onUpdated }: PaymentProofReviewProps) {
+  const [busy, setBusy] = useState<'approve' | 'reject' | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [reasonError, setReasonError] = useState<string | null>(null);
+
+  if (!isManualPayment(booking)) return null;
+
+  const stage = paymentStage(booking);
+  const proofUrl = assetUrl(booking.payment_proof_url);
+  const settled = stage === 'paid' || stage === 'refunded';
+  const cancelled = booking.status === 'cancelled' || booking.status === 'rejected';
+
+  const done = (updated: Booking) => {
+    invalidateQueries('/bookings');
+    onUpdated(updated);
+  };
+
+  const approve = () => {
+    Alert.alert(
+      'Tandai lunas?',
+      proofUrl
+        ? 'Pastikan dana sudah masuk ke rekening Anda. Customer akan diberi tahu bahwa pembayaran diterima.'
+        : 'Belum ada bukti transfer. Tandai lunas hanya bila customer sudah membayar (mis. tunai).',
+      [
+        { text: 'Batal', style: 'cancel' },
+        {
+          text: 'Tandai Lunas',
+          onPress: async () => {
+            setBusy('approve');
+            try {
+              done(await api.bookings.approvePayment(booking.id));
+              log.info('payment approved');
+            } catch (e: any) {
+              if (!isUnauthorized(e)) Alert.alert('Gagal', e?.message || 'Tidak dapat menandai lunas.');
+            } finally {
+              setBusy(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const reject = async () => {
+    if (!reason.trim()) {
+      setReasonError('Tulis alasan supaya customer tahu yang harus diperbaiki.');
+      return;
+    }
+    setBusy('reject');
+    try {
+      done(await api.bookings.rejectPayment(booking.id, { reason: reason.trim() }));
+      setRejecting(false);
+      setReason('');
+      log.info('payment proof rejected');
+    } catch (e: any) {
+      if (!isUnauthorized(e)) Alert.alert('Gagal', e?.message || 'Tidak dapat menolak bukti transfer.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View>
+      {proofUrl ? (
+        <TouchableOpacity onPress={() => Linking.openURL(proofUrl).catch(() => {})} activeOpacity={0.8}>
+          <Image source={{ uri: proofUrl }} style={styles.proofImage} resizeMode="cover" />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.empty}>
+          <Ionicons name="receipt-outline" size={22} color="#9CA3AF" />
+          <Text style={styles.emptyText}>
+            {settled ? 'Tidak ada bukti transfer.' : 'Customer belum mengunggah bukti transfer.'}
+          </Text>
+        </View>
+      )}
+      {booking.payment_proof_uploaded_at && (
+        <Text style={styles.hint}>Diunggah {fmtDateTime(booking.payment_proof_uploaded_at)}</Text>
+      )}
+      {stage === 'rejected' && (
+        <Text style={[styles.hint, { color: '#B91C1C' }]}>
+          Ditolak: {booking.payment_rejection_reason || '-'} · menunggu customer mengunggah ulang.
+        </Text>
+      )}
+      {stage === 'paid' && (
+        <Text style={[styles.hint, { color: '#15803D' }]}>
+          Lunas{booking.paid_at ? ` sejak ${fmtDateTime(booking.paid_at)}` : ''}.
+        </Text>
+      )}
+
+      {!settled && !cancelled && (
+        <>
+          {rejecting ? (
+            <View style={{ marginTop: 12 }}>
+              <Text style={styles.label}>Alasan penolakan</Text>
+              <TextInput
+                value={reason}
+                onChangeText={(t) => {
+                  setReason(t);
+                  setReasonError(null);
+                }}
+                placeholder="cth: Nominal kurang, foto tidak terbaca"
+                placeholderTextColor="#9CA3AF"
+                multiline
+                style={[styles.input, !!reasonError && { borderColor: '#DC2626' }]}
+              />
+              <FieldError message={reasonError} />
+              <View style={styles.actions}>
+                <TouchableOpacity style={[styles.btn, styles.btnGhost]} onPress={() => setRejecting(false)} disabled={!!busy}>
+                  <Text style={styles.btnGhostText}>Batal</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.btn, styles.btnDanger]} onPress={reject} disabled={!!busy}>
+                  {busy === 'reject' ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnText}>Kirim Penolakan</Text>}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.actions}>
+              {stage === 'verifying' && (
+                <TouchableOpacity
+                  style={[styles.btn, styles.btnDangerOutline]}
+                  onPress={() => setRejecting(true)}
+                  disabled={!!busy}
+                >
+                  <Text style={styles.btnDangerText}>Tolak</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={[styles.btn, styles.btnOk]} onPress={approve} disabled={!!busy}>
+                {busy === 'approve' ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnText}>Tandai Lunas</Text>}
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (!Number.isFinite(+d)) return '-';
+  return d.toLocaleString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+const styles = StyleSheet.create({
+  proofImage: {
+    width: '100%',
+    height: 240,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  empty: {
+    alignItems: 'center',
+    gap: 6,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#D1D5DB',
+  },
+  emptyText: {
+    color: '#6B7280',
+    fontSize: 13,
+  },
+  hint: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  label: {
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 6,
+  },
+  input: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    textAlignVertical: 'top',
+    color: '#111827',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  btn: {
+    flex: 1,
+    height: 46,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  btnOk: {
+    backgroundColor: '#16A34A',
+  },
+  btnDanger: {
+    backgroundColor: '#DC2626',
+  },
+  btnDangerOutline: {
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    backgroundColor: '#FEF2F2',
+  },
+  btnGhost: {
+    backgroundColor: '#F3F4F6',
+  },
+  btnText: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+  btnDangerText: {
+    color: '#DC2626',
+    fontWeight: '800',
+  },
+  btnGhostText: {
+    color: '#111827',
+    fontWeight: '800',
+  },
+});
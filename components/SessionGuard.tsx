@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { Redirect, useRouter } from "expo-router";
+import { useAuth } from "../lib/auth";
+import { hasLoginReturn, takeLoginReturn } from "../lib/guest";
+import { homeRouteFor, resolveSessionRedirect, type GuardedGroup } from "../lib/session";
+import type { Role } from "../lib/types";
+
+type SessionGuardProps = {
+  group: GuardedGroup;
+  children: React.ReactNode;
+};
+
+/**
+ * Guard deklaratif untuk layout grup rute: tanpa sesi → login, role salah → beranda
+ * role-nya. Role dari /auth/me yang berubah langsung memicu redirect ulang.
+ */
+export default function SessionGuard({ group, children }: SessionGuardProps) {
+  const { session, role } = useAuth();
+
+  if (session === "booting") {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color="#AA60C8" />
+      </View>
+    );
+  }
+
+  const target = resolveSessionRedirect(session, role, group);
+  // login/daftar dari mode tamu → kembali ke layar asal, bukan ke beranda
+  if (target && group === "(auth)" && hasLoginReturn()) return <ReturnAfterLogin role={role} />;
+  if (target) return <Redirect href={target} />;
+  return <>{children}</>;
+}
+
+/** Tutup layar login/daftar sampai layar asal (state & draft-nya tetap utuh) */
+function ReturnAfterLogin({ role }: { role: Role | null }) {
+  const router = useRouter();
+  const done = useRef(false);
+
+  useEffect(() => {
+    if (done.current) return;
+    done.current = true;
+    const back = takeLoginReturn();
+    // layar tamu ada di grup (user); akun MUA tetap ke dashboard-nya
+    if (back && role !== "mua") router.dismissTo(back);
+    else router.replace(homeRouteFor(role));
+  }, [router, role]);
+
+  return (
+    <View style={styles.center}>
+      <ActivityIndicator color="#AA60C8" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: "#fff" },
+});
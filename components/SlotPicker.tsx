@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  addDays,
+  atTime,
+  availableTimes,
+  DEFAULT_LEAD_MINUTES,
+  dayState,
+  FALLBACK_AVAILABILITY,
+  firstAvailableDay,
+  hm,
+  isSlotAvailable,
+  MAX_DAYS_AHEAD,
+  startOfDay,
+  ymd,
+  type DayState,
+} from '../lib/availability';
+import { muaAvailabilityQuery } from '../lib/queries';
+import { useQuery } from '../lib/query';
+
+const WEEKDAYS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+const SELECTABLE: DayState[] = ['free', 'busy'];
+
+type SlotPickerProps = {
+  muaId: string;
+  /** null = belum memilih jadwal */
+  value: Date | null;
+  onChange: (date: Date | null) => void;
+};
+
+const monthStart = (d: Date) => new Date(d.getFullYear(), d.getMonth(), 1);
+const sameDay = (a: Date | null, b: Date | null) => !!a && !!b && ymd(a) === ymd(b);
+
+/** Kalender jadwal MUA: hari libur/penuh tidak bisa dipilih, jam hanya yang masih kosong */
+export default function SlotPicker({ muaId, value, onChange }: SlotPickerProps) {
+  const [month, setMonth] = useState(() => monthStart(value ?? new Date()));
+  const [day, setDay] = useState<Date | null>(() => (value ? startOfDay(value) : null));
+  const [dropped, setDropped] = useState(false);
+
+  const range = useMemo(
+    () => ({ from: ymd(month), to: ymd(new Date(month.getFullYear(), month.getMonth() + 1, 0)) }),
+    [month]
+  );
+  const { data, loading, error, refetch } = useQuery({ ...muaAvailabilityQuery(muaId, range), enabled: !!muaId });
+  // endpoint gagal → tetap bisa memilih dari jam kerja umum; bentrok dicek server saat submit
+  const availability = data ?? (error ? FALLBACK_AVAILABILITY : null);
+
+  const now = new Date();
+  const today = startOfDay(now);
+  const lastDay = addDays(today, MAX_DAYS_AHEAD);
+  const canPrev = month > monthStart(today);
+  const canNext = new Date(month.getFullYear(), month.getMonth() + 1, 1) <= lastDay;
+
+  // jadwal terpilih (mis. dari draft) sudah terisi orang lain → minta pilih ulang
+  useEffect(() => {
+    if (!data || !value || ymd(value).slice(0, 7) !== range.from.slice(0, 7)) return;
+    if (!isSlotAvailable(data, value)) {
+      setDropped(true);
+      onChange(null);
+    }
+  }, [data]);
+
+  // belum ada hari terpilih di bulan ini → pilih hari kosong pertama
+  useEffect(() => {
+    if (!availability || (day && day.getMonth() === month.getMonth())) return;
+    const first = firstAvailableDay(availability, month < today ? today : month);
+    setDay(first && first.getMonth() === month.getMonth() ? first : null);
+  }, [availability, month]);
+
+  const cells = useMemo(() => {
+    const count = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const blanks: (Date | null)[] = Array.from({ length: month.getDay() }, () => null);
+    return blanks.concat(Array.from({ length: count }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)));
+  }, [month]);
+
+  const times = availability && day ? availableTimes(availability, day) : [];
+  const leadHours = Math.round((availability?.min_lead_minutes ?? DEFAULT_LEAD_MINUTES) / 60);
+
+  const pickDay = (d: Date) => {
+    setDay(d);
+    setDropped(false);
+    // jam yang sama masih kosong di hari baru → pertahankan
+    const keep = value && availability ? availableTimes(availability, d).find((t) => t.time === hm(value)) : null;
+    onChange(keep ? atTime(d, keep.time) : null);
+  };
+
+  const shiftMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+    setDay(null);
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => shiftMonth(-1)} disabled={!canPrev} style={styles.navBtn}>
+          <Ionicons name="chevron-back" size={18} color={canPrev ? '#111827' : '#D1D5DB'} />
+        </TouchableOpacity>
+        <Text style={styles.month}>{month.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}</Text>
+        <TouchableOpacity onPress={() => shiftMonth(1)} disabled={!canNext} style={styles.navBtn}>
+          <Ionicons name="chevron-forward" size={18} color={canNext ? '#111827' : '#D1D5DB'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEKDAYS.map((w) => (
+          <Text key={w} style={[styles.cell, styles.weekday]}>
+            {w}
+          </Text>
+        ))}
+        {cells.map((d, i) => {
+          if (!d) return <View key={`blank-${i}`} style={styles.cell} />;
+          const state: DayState = availability ? dayState(availability, d) : 'past';
+          const selectable = SELECTABLE.includes(state);
+          const selected = sameDay(d, day);
+          return (
+            <TouchableOpacity
+              key={ymd(d)}
+              style={styles.cell}
+              disabled={!selectable}
+              onPress={() => pickDay(d)}
+              accessibilityLabel={`${d.getDate()} ${STATE_LABEL[state]}`}
+            >
+              <View style={[styles.day, state === 'full' && styles.dayFull, selected && styles.daySelected]}>
+                <Text
+                  style={[
+                    styles.dayText,
+                    !selectable && styles.dayTextMuted,
+                    state === 'full' && styles.dayTextFull,
+                    selected && styles.dayTextSelected,
+                  ]}
+                >
+                  {d.getDate()}
+                </Text>
+              </View>
+              {selectable && <View style={[styles.dot, state === 'busy' ? styles.dotBusy : styles.dotFree]} />}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <Legend color="#AA60C8" label="Kosong" />
+        <Legend color="#F59E0B" label="Sebagian terisi" />
+        <Legend color="#D1D5DB" label="Penuh / libur" />
+      </View>
+
+      {loading && <ActivityIndicator color="#AA60C8" style={{ marginTop: 10 }} />}
+      {!!error && !data && (
+        <TouchableOpacity onPress={refetch}>
+          <Text style={styles.warn}>Jadwal MUA gagal dimuat; jam yang dipilih dicek lagi saat booking. Ketuk untuk coba lagi.</Text>
+        </TouchableOpacity>
+      )}
+      {dropped && <Text style={styles.warn}>Jadwal yang dipilih sebelumnya sudah terisi. Pilih jam lain.</Text>}
+
+      {availability && day && (
+        <>
+          <Text style={styles.timesTitle}>
+            {day.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long' })}
+          </Text>
+          {times.length ? (
+            <View style={styles.times}>
+              {times.map((t) => {
+                const selected = !!value && sameDay(value, day) && hm(value) === t.time;
+                return (
+                  <TouchableOpacity
+                    key={t.time}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => {
+                      setDropped(false);
+                      onChange(atTime(day, t.time));
+                    }}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{t.time}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : (
+            <Text style={styles.hint}>Tidak ada jam kosong di hari ini.</Text>
+          )}
+        </>
+      )}
+      {availability && !day && !loading && <Text style={styles.hint}>Tidak ada hari kosong di bulan ini.</Text>}
+      {leadHours > 0 && <Text style={styles.hint}>Booking paling lambat {leadHours} jam sebelum jadwal.</Text>}
+    </View>
+  );
+}
+
+const STATE_LABEL: Record<DayState, string> = {
+  past: 'tidak tersedia',
+  closed: 'libur',
+  full: 'penuh',
+  busy: 'sebagian terisi',
+  free: 'kosong',
+};
+
+function Legend({ color, label }: { color: string; label: string }) {
+  return (
+    <View style={styles.legendItem}>
+      <View style={[styles.dot, { backgroundColor: color }]} />
+      <Text style={styles.legendText}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  navBtn: {
+    padding: 6,
+  },
+  month: {
+    fontWeight: '700',
+    color: '#111827',
+    textTransform: 'capitalize',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  weekday: {
+    fontSize: 12,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  day: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayFull: {
+    backgroundColor: '#F3F4F6',
+  },
+  daySelected: {
+    backgroundColor: '#AA60C8',
+  },
+  dayText: {
+    color: '#111827',
+    fontWeight: '600',
+  },
+  dayTextMuted: {
+    color: '#D1D5DB',
+  },
+  dayTextFull: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  dayTextSelected: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    marginTop: 2,
+  },
+  dotFree: {
+    backgroundColor: '#AA60C8',
+  },
+  dotBusy: {
+    backgroundColor: '#F59E0B',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  warn: {
+    marginTop: 10,
+    fontSize: 12,
+    color: '#B45309',
+  },
+  timesTitle: {
+    marginTop: 12,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  times: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  chipSelected: {
+    backgroundColor: '#AA60C8',
+    borderColor: '#AA60C8',
+  },
+  chipText: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
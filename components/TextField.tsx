@@ -1,17 +1,46 @@
-import React from 'react';
-import { TextInput, StyleSheet, Text, View } from 'react-native';
+import React, { useState } from 'react';
+import { TextInput, StyleSheet, Text, TouchableOpacity, View, type TextInputProps } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import FieldError from './FieldError';
 
-type TextFieldProps = {
+type TextFieldProps = Omit<TextInputProps, 'value' | 'onChangeText' | 'style' | 'secureTextEntry'> & {
   label: string;
   value: string;
   onChangeText: (text: string) => void;
+  error?: string | null;
+  /** input password: teks disamarkan + tombol tampilkan/sembunyikan */
+  secure?: boolean;
+  hint?: string;
 };
 
-export default function TextField({ label, value, onChangeText }: TextFieldProps) {
+export default function TextField({ label, value, onChangeText, error, secure, hint, ...inputProps }: TextFieldProps) {
+  const [hidden, setHidden] = useState(true);
+
   return (
     <View style={styles.container}>
       <Text style={styles.label}>{label}</Text>
-      <TextInput style={styles.input} value={value} onChangeText={onChangeText} />
+      <View style={[styles.inputRow, !!error && styles.inputError]}>
+        <TextInput
+          placeholderTextColor="#9CA3AF"
+          {...inputProps}
+          {...(secure ? { autoCapitalize: 'none' as const, autoCorrect: false } : null)}
+          style={styles.input}
+          value={value}
+          onChangeText={onChangeText}
+          secureTextEntry={secure && hidden}
+        />
+        {secure && (
+          <TouchableOpacity
+            onPress={() => setHidden((prev) => !prev)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel={hidden ? 'Tampilkan password' : 'Sembunyikan password'}
+          >
+            <Ionicons name={hidden ? 'eye-off' : 'eye'} size={20} color="#6B7280" />
+          </TouchableOpacity>
+        )}
+      </View>
+      {!error && !!hint && <Text style={styles.hint}>{hint}</Text>}
+      <FieldError message={error} />
     </View>
   );
 }
@@ -24,11 +53,25 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 5,
   },
-  input: {
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
     borderWidth: 1,
     borderColor: '#ddd',
-    padding: 10,
     borderRadius: 5,
+    paddingRight: 10,
+  },
+  input: {
+    flex: 1,
+    padding: 10,
     fontSize: 16,
   },
-});
\ No newline at end of file
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  hint: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type VerifiedBadgeProps = {
+  verified: boolean;
+  /** teks pengganti "Terverifikasi", mis. "Kontak terverifikasi" di profil MUA */
+  label?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+/** Chip kecil status verifikasi kontak */
+export default function VerifiedBadge({ verified, label, style }: VerifiedBadgeProps) {
+  return (
+    <View style={[styles.badge, verified ? styles.verified : styles.pending, style]}>
+      <Ionicons
+        name={verified ? 'checkmark-circle' : 'alert-circle-outline'}
+        size={14}
+        color={verified ? '#059669' : '#B45309'}
+      />
+      <Text style={[styles.text, { color: verified ? '#059669' : '#B45309' }]}>
+        {verified ? label ?? 'Terverifikasi' : 'Belum diverifikasi'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+  },
+  verified: {
+    backgroundColor: '#ECFDF5',
+  },
+  pending: {
+    backgroundColor: '#FFFBEB',
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,59 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../lib/auth';
+import { CONTACT_LABELS, unverifiedContacts } from '../lib/verification';
+
+/** Peringatan di form booking: booking baru ditolak sampai email & nomor HP terverifikasi */
+export default function VerifyContactBanner({ style }: { style?: StyleProp<ViewStyle> }) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const missing = unverifiedContacts(user);
+  if (!missing.length) return null;
+
+  return (
+    <View style={[styles.card, style]}>
+      <Ionicons name="shield-outline" size={20} color="#B45309" />
+      <View style={{ flex: 1 }}>
+        <Text style={styles.title}>Verifikasi kontak dulu</Text>
+        <Text style={styles.text}>
+          {missing.map((c) => CONTACT_LABELS[c]).join(' dan ')} belum diverifikasi. Booking bisa dibuat setelah
+          verifikasi supaya MUA dapat menghubungi Anda.
+        </Text>
+        <TouchableOpacity onPress={() => router.push('/(account)/verify')} style={styles.action}>
+          <Text style={styles.actionText}>Verifikasi sekarang</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    backgroundColor: '#FFFBEB',
+  },
+  title: {
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  text: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  action: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  actionText: {
+    color: '#AA60C8',
+    fontWeight: '700',
+  },
+});
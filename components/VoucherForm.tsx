@@ -0,0 +1,360 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import FieldError from './FieldError';
+import { isUnauthorized } from '../lib/api';
+import { useFieldErrors } from '../lib/formErrors';
+import type { Voucher, VoucherPayload, VoucherType } from '../lib/types';
+import { describeVoucher, normalizeVoucherCode } from '../lib/vouchers';
+
+const PURPLE = '#AA60C8';
+const BORDER = '#E5E7EB';
+const MUTED = '#6B7280';
+
+type DateKey = 'starts_at' | 'expires_at';
+
+type VoucherFormProps = {
+  /** voucher yang diedit; kosong = buat baru */
+  initial?: Voucher | null;
+  submitLabel: string;
+  /** lempar error dari api supaya 422 tampil di bawah field */
+  onSubmit: (payload: VoucherPayload) => Promise<void>;
+};
+
+const digits = (s: string) => s.replace(/[^\d]/g, '');
+const numOrNull = (s: string) => (digits(s) ? Number(digits(s)) : null);
+const str = (n?: number | null) => (n != null ? String(n) : '');
+
+/** Mulai berlaku dari awal hari, berakhir di akhir hari (waktu lokal) */
+function dayBoundary(d: Date, key: DateKey) {
+  const out = new Date(d);
+  if (key === 'starts_at') out.setHours(0, 0, 0, 0);
+  else out.setHours(23, 59, 59, 0);
+  return out;
+}
+
+/** Form kode promo MUA (buat & edit) */
+export default function VoucherForm({ initial, submitLabel, onSubmit }: VoucherFormProps) {
+  const [code, setCode] = useState(initial?.code ?? '');
+  const [type, setType] = useState<VoucherType>(initial?.type ?? 'percent');
+  const [value, setValue] = useState(str(initial?.value));
+  const [maxDiscount, setMaxDiscount] = useState(str(initial?.max_discount));
+  const [minSpend, setMinSpend] = useState(str(initial?.min_spend));
+  const [usageLimit, setUsageLimit] = useState(str(initial?.usage_limit));
+  const [perUserLimit, setPerUserLimit] = useState(str(initial?.per_user_limit));
+  const [dates, setDates] = useState<Record<DateKey, Date | null>>({
+    starts_at: initial?.starts_at ? new Date(initial.starts_at) : null,
+    expires_at: initial?.expires_at ? new Date(initial.expires_at) : null,
+  });
+  const [picking, setPicking] = useState<DateKey | null>(null);
+  const [active, setActive] = useState(initial?.is_active ?? true);
+  const [saving, setSaving] = useState(false);
+  const { errors, apply: applyFieldErrors, clear: clearError, setErrors } = useFieldErrors();
+
+  // kode yang sudah dipakai tercatat di invoice customer → tidak boleh diganti
+  const codeLocked = (initial?.used_count ?? 0) > 0;
+  const valueNum = numOrNull(value);
+
+  async function submit() {
+    clearError();
+    const local: Record<string, string> = {};
+    const normalized = normalizeVoucherCode(code);
+    if (!/^[A-Z0-9]{4,20}$/.test(normalized)) local.code = 'Kode 4–20 karakter, huruf dan angka saja.';
+    if (!valueNum) local.value = type === 'percent' ? 'Persen diskon wajib diisi.' : 'Potongan wajib diisi.';
+    else if (type === 'percent' && valueNum > 100) local.value = 'Persen diskon maksimal 100.';
+    if (dates.starts_at && dates.expires_at && dates.expires_at <= dates.starts_at) {
+      local.expires_at = 'Tanggal berakhir harus setelah tanggal mulai.';
+    }
+    if (Object.keys(local).length) {
+      setErrors(local);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        code: normalized,
+        type,
+        value: valueNum!,
+        max_discount: type === 'percent' ? numOrNull(maxDiscount) : null,
+        min_spend: numOrNull(minSpend),
+        starts_at: dates.starts_at?.toISOString() ?? null,
+        expires_at: dates.expires_at?.toISOString() ?? null,
+        usage_limit: numOrNull(usageLimit),
+        per_user_limit: numOrNull(perUserLimit),
+        is_active: active,
+      });
+    } catch (e: any) {
+      if (isUnauthorized(e)) return;
+      if (applyFieldErrors(e)) return;
+      Alert.alert('Gagal', e?.message || 'Tidak dapat menyimpan voucher.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const numberField = (label: string, field: string, val: string, set: (v: string) => void, placeholder: string) => (
+    <>
+      <Text style={[styles.label, { marginTop: 10 }]}>{label}</Text>
+      <TextInput
+        value={val}
+        onChangeText={(t) => {
+          set(digits(t));
+          clearError(field);
+        }}
+        placeholder={placeholder}
+        placeholderTextColor="#9CA3AF"
+        keyboardType="numeric"
+        style={[styles.input, !!errors[field] && styles.inputError]}
+      />
+      <FieldError message={errors[field]} />
+    </>
+  );
+
+  const dateField = (label: string, key: DateKey, emptyText: string) => (
+    <>
+      <Text style={[styles.label, { marginTop: 10 }]}>{label}</Text>
+      <View style={styles.dateRow}>
+        <TouchableOpacity style={styles.dateBtn} onPress={() => setPicking(key)}>
+          <Ionicons name="calendar-outline" size={16} color="#111827" />
+          <Text style={styles.dateText}>
+            {dates[key]
+              ? dates[key]!.toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' })
+              : emptyText}
+          </Text>
+        </TouchableOpacity>
+        {dates[key] && (
+          <TouchableOpacity onPress={() => setDates((d) => ({ ...d, [key]: null }))} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Text style={styles.clear}>Hapus</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <FieldError message={errors[key]} />
+    </>
+  );
+
+  const preview: Voucher | null = valueNum
+    ? {
+        id: 0,
+        code: normalizeVoucherCode(code),
+        type,
+        value: valueNum,
+        max_discount: type === 'percent' ? numOrNull(maxDiscount) : null,
+        min_spend: numOrNull(minSpend),
+        is_active: active,
+      }
+    : null;
+
+  return (
+    <View>
+      <View style={styles.card}>
+        <Text style={styles.label}>Kode Voucher *</Text>
+        <TextInput
+          value={code}
+          onChangeText={(t) => {
+            setCode(normalizeVoucherCode(t));
+            clearError('code');
+          }}
+          editable={!codeLocked}
+          placeholder="cth: HEMAT50"
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          maxLength={20}
+          style={[styles.input, codeLocked && styles.inputLocked, !!errors.code && styles.inputError]}
+        />
+        {codeLocked && <Text style={styles.hint}>Kode sudah dipakai customer, tidak bisa diubah.</Text>}
+        <FieldError message={errors.code} />
+
+        <Text style={[styles.label, { marginTop: 10 }]}>Jenis Potongan *</Text>
+        <View style={styles.segmentWrap}>
+          {(
+            [
+              ['percent', 'Persen (%)'],
+              ['fixed', 'Nominal (IDR)'],
+            ] as const
+          ).map(([t, label]) => (
+            <TouchableOpacity
+              key={t}
+              onPress={() => {
+                setType(t);
+                clearError('value');
+              }}
+              style={[styles.segment, type === t && styles.segmentActive]}
+            >
+              <Text style={[styles.segmentText, type === t && styles.segmentTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {numberField(type === 'percent' ? 'Diskon (%) *' : 'Potongan (IDR) *', 'value', value, setValue, type === 'percent' ? 'cth: 10' : 'cth: 50000')}
+        {type === 'percent' && numberField('Maks. Potongan (IDR)', 'max_discount', maxDiscount, setMaxDiscount, 'Kosongkan bila tanpa batas')}
+        {numberField('Minimal Belanja (IDR)', 'min_spend', minSpend, setMinSpend, 'Kosongkan bila tanpa minimal')}
+        {preview && <Text style={styles.preview}>{describeVoucher(preview)}</Text>}
+      </View>
+
+      <View style={styles.card}>
+        {dateField('Mulai Berlaku', 'starts_at', 'Langsung berlaku')}
+        {dateField('Berlaku Sampai', 'expires_at', 'Tanpa batas waktu')}
+        {picking && (
+          <DateTimePicker
+            value={dates[picking] ?? new Date()}
+            mode="date"
+            minimumDate={picking === 'expires_at' ? dates.starts_at ?? new Date() : undefined}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={(_, d) => {
+              const key = picking;
+              setPicking(null);
+              if (!d) return;
+              setDates((prev) => ({ ...prev, [key]: dayBoundary(d, key) }));
+              clearError(key);
+            }}
+          />
+        )}
+
+        {numberField('Kuota Pemakaian', 'usage_limit', usageLimit, setUsageLimit, 'Kosongkan bila tanpa batas')}
+        {numberField('Maks. per Customer', 'per_user_limit', perUserLimit, setPerUserLimit, 'cth: 1')}
+        {initial && <Text style={styles.hint}>Sudah terpakai {initial.used_count ?? 0}×.</Text>}
+
+        <View style={styles.switchRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.label}>Aktif</Text>
+            <Text style={styles.hint}>Voucher nonaktif tidak bisa dipakai customer.</Text>
+          </View>
+          <Switch
+            value={active}
+            onValueChange={setActive}
+            trackColor={{ false: '#D1D5DB', true: '#D8B4FE' }}
+            thumbColor={active ? PURPLE : '#f4f3f4'}
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity style={[styles.cta, saving && { opacity: 0.6 }]} disabled={saving} onPress={submit}>
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.ctaText}>{submitLabel}</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 14,
+    borderRadius: 14,
+    backgroundColor: '#F7F0FF',
+    borderWidth: 1,
+    borderColor: '#EDE9FE',
+  },
+  label: {
+    fontWeight: '800',
+    color: '#111827',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: BORDER,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    height: 44,
+    backgroundColor: '#fff',
+    color: '#111',
+  },
+  inputLocked: {
+    backgroundColor: '#F3F4F6',
+    color: MUTED,
+  },
+  inputError: {
+    borderColor: '#DC2626',
+  },
+  hint: {
+    marginTop: 4,
+    fontSize: 12,
+    color: MUTED,
+  },
+  preview: {
+    marginTop: 10,
+    fontSize: 13,
+    fontWeight: '700',
+    color: PURPLE,
+  },
+  segmentWrap: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    borderWidth: 1,
+    borderColor: BORDER,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#fff',
+  },
+  segmentActive: {
+    backgroundColor: PURPLE,
+    borderColor: PURPLE,
+  },
+  segmentText: {
+    color: '#111827',
+    fontWeight: '700',
+  },
+  segmentTextActive: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dateBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: BORDER,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#fff',
+  },
+  dateText: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  clear: {
+    color: '#DC2626',
+    fontWeight: '700',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 14,
+    gap: 12,
+  },
+  cta: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    height: 50,
+    borderRadius: 12,
+    backgroundColor: PURPLE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ctaText: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+});
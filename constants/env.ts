@@ -1 +1,172 @@
-export const API_BASE = 'http://localhost:8000';
\ No newline at end of file
+// constants/env.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import { Platform } from "react-native";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("ENV");
+
+/* ===== Types ===== */
+export type EnvName = "production" | "staging" | "local";
+
+export type EnvFeatures = {
+  /** menu developer tersembunyi (tekan lama judul di layar login) */
+  devMenu: boolean;
+  /** log request/response yang lebih detail */
+  verboseLogs: boolean;
+};
+
+export type EnvConfig = {
+  name: EnvName;
+  label: string;
+  /** origin Laravel tanpa /api, mis. https://smstudio.my.id */
+  apiOrigin: string;
+  /** origin untuk file storage/gambar (biasanya sama dengan apiOrigin) */
+  storageOrigin: string;
+  features: EnvFeatures;
+};
+
+type EnvOverride = Partial<Omit<EnvConfig, "name" | "features">> & {
+  features?: Partial<EnvFeatures>;
+};
+
+type ExtraConfig = {
+  /** env default dari app.json → expo.extra.env */
+  env?: EnvName;
+  /** override per env dari app.json → expo.extra.environments */
+  environments?: Partial<Record<EnvName, EnvOverride>>;
+};
+
+/* ===== Defaults ===== */
+// emulator Android tidak bisa akses "localhost" host → pakai 10.0.2.2
+const LOCAL_ORIGIN = Platform.OS === "android" ? "http://10.0.2.2:8000" : "http://localhost:8000";
+
+const DEFAULTS: Record<EnvName, EnvConfig> = {
+  production: {
+    name: "production",
+    label: "Production",
+    apiOrigin: "https://smstudio.my.id",
+    storageOrigin: "https://smstudio.my.id",
+    features: { devMenu: false, verboseLogs: false },
+  },
+  staging: {
+    name: "staging",
+    label: "Staging",
+    apiOrigin: "https://staging.smstudio.my.id",
+    storageOrigin: "https://staging.smstudio.my.id",
+    features: { devMenu: true, verboseLogs: true },
+  },
+  local: {
+    name: "local",
+    label: "Local",
+    apiOrigin: LOCAL_ORIGIN,
+    storageOrigin: LOCAL_ORIGIN,
+    features: { devMenu: true, verboseLogs: true },
+  },
+};
+
+export const ENV_NAMES = Object.keys(DEFAULTS) as EnvName[];
+
+const STORAGE_KEY = "dev_env_override";
+
+const isEnvName = (v: unknown): v is EnvName =>
+  typeof v === "string" && (ENV_NAMES as string[]).includes(v);
+
+const trimOrigin = (u: string) => u.trim().replace(/\/+$/, "").replace(/\/api$/i, "");
+
+/* ===== Resolve ===== */
+const extra = (Constants.expoConfig?.extra ?? {}) as ExtraConfig;
+
+/** env bawaan build: eas.json build.<profile>.env.EXPO_PUBLIC_APP_ENV → app.json extra.env → production */
+const BUILD_ENV: EnvName = (() => {
+  const fromBuild = process.env.EXPO_PUBLIC_APP_ENV;
+  if (isEnvName(fromBuild)) return fromBuild;
+  if (isEnvName(extra.env)) return extra.env;
+  return "production";
+})();
+
+function resolve(name: EnvName, custom?: EnvOverride | null): EnvConfig {
+  const base = DEFAULTS[name];
+  const fromExtra = extra.environments?.[name] ?? {};
+  const merged: EnvConfig = {
+    ...base,
+    ...fromExtra,
+    ...custom,
+    name,
+    features: { ...base.features, ...fromExtra.features, ...custom?.features },
+  };
+  merged.apiOrigin = trimOrigin(merged.apiOrigin);
+  // storage ikut apiOrigin kalau hanya origin API yang dioverride
+  merged.storageOrigin = trimOrigin(
+    custom?.apiOrigin && !custom.storageOrigin ? merged.apiOrigin : merged.storageOrigin
+  );
+  return merged;
+}
+
+let current: EnvConfig = resolve(BUILD_ENV);
+
+/** Konfigurasi environment yang aktif (sinkron, aman dipanggil di mana saja) */
+export function getEnv(): EnvConfig {
+  return current;
+}
+
+export function getBuildEnv(): EnvConfig {
+  return resolve(BUILD_ENV);
+}
+
+export function getEnvPreset(name: EnvName): EnvConfig {
+  return resolve(name);
+}
+
+/** Menu developer boleh dibuka: env aktif atau bawaan build mengizinkan */
+export function isDevMenuEnabled() {
+  return current.features.devMenu || getBuildEnv().features.devMenu;
+}
+
+/**
+ * Baca pilihan environment dari menu developer. Dipanggil sekali saat boot
+ * sebelum request pertama; tanpa override → env bawaan build.
+ */
+export async function loadEnvOverride(): Promise<EnvConfig> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (!raw) return current;
+    const parsed = JSON.parse(raw) as { name?: unknown; apiOrigin?: string };
+    if (!isEnvName(parsed?.name)) return current;
+    current = resolve(parsed.name, parsed.apiOrigin ? { apiOrigin: parsed.apiOrigin } : null);
+    log.debug("override:", current.name, current.apiOrigin);
+  } catch (e) {
+    log.warn("loadEnvOverride failed", e);
+  }
+  return current;
+}
+
+/**
+ * Ganti environment saat runtime. Mengembalikan true bila origin API berubah —
+ * caller wajib sign out karena token dari server lain tidak berlaku.
+ */
+export async function setEnvOverride(name: EnvName | null, apiOrigin?: string): Promise<boolean> {
+  const prevOrigin = current.apiOrigin;
+  try {
+    if (name == null) {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+      current = resolve(BUILD_ENV);
+    } else {
+      const origin = apiOrigin?.trim() ? trimOrigin(apiOrigin) : undefined;
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ name, apiOrigin: origin }));
+      current = resolve(name, origin ? { apiOrigin: origin } : null);
+    }
+  } catch (e) {
+    log.warn("setEnvOverride failed", e);
+  }
+  return current.apiOrigin !== prevOrigin;
+}
+
+export default {
+  getEnv,
+  getBuildEnv,
+  getEnvPreset,
+  isDevMenuEnabled,
+  loadEnvOverride,
+  setEnvOverride,
+};
@@ -0,0 +1,25 @@
+// lib/abort.ts
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * Signal yang di-abort saat komponen unmount. Dikembalikan sebagai getter supaya
+ * tetap benar kalau efek dijalankan ulang (Fast Refresh / StrictMode).
+ *
+ *   const signal = useUnmountSignal();
+ *   useEffect(() => { api.bookings.get(id, { signal: signal() }) ... }, [id]);
+ */
+export function useUnmountSignal() {
+  const ref = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    ref.current = ctrl;
+    return () => ctrl.abort();
+  }, []);
+
+  return useCallback(() => {
+    // sesudah unmount tetap mengembalikan signal yang sudah di-abort
+    if (!ref.current) ref.current = new AbortController();
+    return ref.current.signal;
+  }, []);
+}
@@ -0,0 +1,64 @@
+// lib/addOns.ts
+/* Add-on paket dari backend: { id, name, price }. Paket lama masih menyimpan add-on
+ * sebagai string nama saja; dibaca sebagai { id: nama, name, price: 0 }. Booking
+ * mengirim `selected_add_ons` (nama & harga) supaya invoice bisa merincinya. */
+import type { Offering, OfferingAddOn, OfferingAddOnInput, SelectedAddOn } from "./types";
+
+/* ===== Helpers ===== */
+/** Add-on paket yang valid untuk ditampilkan/dipilih; entri rusak dilewati */
+export function offeringAddOns(offering: Pick<Offering, "add_ons"> | null | undefined): OfferingAddOn[] {
+  const out: OfferingAddOn[] = [];
+  for (const a of offering?.add_ons ?? []) {
+    if (typeof a === "string") {
+      const name = a.trim();
+      if (name) out.push({ id: name, name, price: 0 });
+      continue;
+    }
+    if (!a || typeof a !== "object" || a.id == null || !String(a.name ?? "").trim()) continue;
+    const price = Number(a.price);
+    out.push({ id: a.id, name: String(a.name).trim(), price: Number.isFinite(price) ? Math.max(0, price) : 0 });
+  }
+  return out;
+}
+
+/** Entri string lama: id-nya hanya nama, belum punya id dari server */
+export function isLegacyAddOn(a: OfferingAddOnInput) {
+  return typeof a.id === "string" && a.id === a.name;
+}
+
+/**
+ * Tulis add-on ke FormData ala Laravel: add_ons[0][id], add_ons[0][name], add_ons[0][price].
+ * Hanya dipanggil kalau MUA mengubah add-on — daftar kosong berarti hapus semua.
+ */
+export function appendAddOns(form: FormData, addOns: OfferingAddOnInput[]) {
+  if (!addOns.length) (form as any).append("add_ons", "");
+  addOns.forEach((a, i) => {
+    if (a.id != null && !isLegacyAddOn(a)) (form as any).append(`add_ons[${i}][id]`, String(a.id));
+    (form as any).append(`add_ons[${i}][name]`, a.name);
+    (form as any).append(`add_ons[${i}][price]`, String(Math.round(a.price)));
+  });
+}
+
+/** Salinan add-on untuk `selected_add_ons` booking; entri lama dikirim tanpa id */
+export function toSelectedAddOn(a: OfferingAddOn): SelectedAddOn {
+  return isLegacyAddOn(a) ? { name: a.name, price: a.price } : { id: a.id, name: a.name, price: a.price };
+}
+
+/** Kolaborasi dikirim sebagai baris `selected_add_ons` supaya ikut dirinci di invoice */
+export function collaborationAddOn(
+  offering: Pick<Offering, "collaboration" | "collaboration_price"> | null | undefined
+): SelectedAddOn | null {
+  if (!offering?.collaboration) return null;
+  return { name: `Kolaborasi: ${offering.collaboration}`, price: collaborationPrice(offering) };
+}
+
+/** Biaya kolaborasi paket (0 kalau paket tidak berkolaborasi) */
+export function collaborationPrice(offering: Pick<Offering, "collaboration" | "collaboration_price"> | null | undefined) {
+  if (!offering?.collaboration) return 0;
+  const price = Number(offering.collaboration_price ?? 0);
+  return Number.isFinite(price) ? Math.max(0, price) : 0;
+}
+
+export function addOnsTotal(addOns: SelectedAddOn[] | null | undefined) {
+  return (addOns ?? []).reduce((sum, a) => sum + (Number(a.price) || 0), 0);
+}
@@ -1,219 +1,765 @@
-import { getAuthToken } from "../utils/authStorage";
+import { getEnv } from "../constants/env";
+import {
+  clearAuthAll,
+  getAuthToken,
+  getRefreshToken,
+  setAuthToken,
+  setRefreshToken,
+} from "../utils/authStorage";
+import type {
+  AuthResponse,
+  AuthSession,
+  Booking,
+  BookingCreatePayload,
+  Collaboration,
+  ContactChannel,
+  ForgotPasswordPayload,
+  Id,
+  LoginPayload,
+  Me,
+  Mua,
+  MuaAvailability,
+  MuaLocation,
+  Notification,
+  Offering,
+  Paginated,
+  PaymentAccount,
+  Portfolio,
+  ProfileUpdatePayload,
+  RegisterPayload,
+  ResetPasswordPayload,
+  Voucher,
+  VoucherCheck,
+  VoucherCheckPayload,
+  VoucherPayload,
+} from "./types";
+import { demoFetch, isDemoMode } from "./demo";
+import { deviceName } from "./device";
+import { createLogger } from "./logger";
 
-const API_BASE_URL = "https://smstudio.my.id/api";
+const log = createLogger("API");
 
-async function fetchWithAuth(endpoint: string, options: RequestInit = {}) {
-  const token = await getAuthToken();
-  const headers = {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...options.headers,
-  };
+/** Origin mengikuti environment aktif (constants/env.ts) — jangan di-cache di level modul */
+export function getApiOrigin() {
+  return getEnv().apiOrigin;
+}
+
+export function getApiBaseUrl() {
+  return `${getApiOrigin()}/api`;
+}
+
+/* ===== Types ===== */
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export type RequestOptions = Omit<RequestInit, "body"> & {
+  params?: QueryParams;
+  /** Object biasa dikirim sebagai JSON, FormData dikirim apa adanya (multipart) */
+  body?: unknown;
+  /** default true — set false untuk endpoint publik (login/register) */
+  auth?: boolean;
+  /**
+   * Endpoint publik yang tetap menerima token (/mua, /offerings, jadwal MUA): 401 tidak
+   * memicu refresh / sesi berakhir, request diulang sekali tanpa Authorization.
+   */
+  publicFallback?: boolean;
+  /** ms sebelum request dibatalkan sebagai timeout (default 20 detik, upload 60 detik) */
+  timeout?: number;
+  /**
+   * Batas percobaan ulang untuk error sementara (jaringan, timeout, 5xx, 429).
+   * Default 2 untuk request idempoten; POST/PATCH tanpa Idempotency-Key tidak pernah diulang.
+   */
+  retries?: number;
+};
+
+/**
+ * - network: request tidak sampai ke server (offline, DNS, server mati) → status 0
+ * - timeout: request/gateway timeout (408/504 atau TimeoutError)
+ * - auth: 401/403
+ * - validation: 422 Laravel dengan `errors` per field
+ * - http: status gagal lainnya (404, 500, respon bukan JSON, dst.)
+ */
+export type ApiErrorKind = "network" | "timeout" | "auth" | "validation" | "http";
+
+/** Bentuk `errors` Laravel: { email: ["Email sudah dipakai."], "add_ons.0": [...] } */
+export type FieldErrors = Record<string, string[]>;
+
+export class ApiError extends Error {
+  status: number;
+  data: any;
+  kind: ApiErrorKind;
+  errors: FieldErrors;
+  /** detik dari header Retry-After (429/503); null = server tidak memberi tahu */
+  retryAfter: number | null = null;
+
+  constructor(status: number, message: string, data?: any, kind?: ApiErrorKind) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data ?? null;
+    this.errors = errorsFrom(this.data);
+    this.kind = kind ?? kindFrom(status, this.errors);
+  }
+
+  /** Pesan pertama untuk field; juga menangkap key bertingkat (mis. "offer_pictures.0") */
+  field(name: string): string | undefined {
+    const own = this.errors[name]?.[0];
+    if (own) return own;
+    const nested = Object.keys(this.errors).find((k) => k.startsWith(`${name}.`));
+    return nested ? this.errors[nested]?.[0] : undefined;
+  }
+}
+
+function errorsFrom(data: any): FieldErrors {
+  const raw = data && typeof data === "object" ? data.errors : null;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const out: FieldErrors = {};
+  for (const [k, v] of Object.entries(raw)) {
+    const list = (Array.isArray(v) ? v : [v]).filter((m) => typeof m === "string" && m.trim());
+    if (list.length) out[k] = list as string[];
+  }
+  return out;
+}
+
+function kindFrom(status: number, errors: FieldErrors): ApiErrorKind {
+  if (status === 0) return "network";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408 || status === 504) return "timeout";
+  if (status === 422 || Object.keys(errors).length) return "validation";
+  return "http";
+}
+
+type GetOptions = Pick<RequestOptions, "params" | "auth" | "publicFallback" | "signal" | "timeout" | "retries">;
+/** Opsi request untuk getter resource (signal unmount, timeout, retry) */
+type ReadOptions = Omit<GetOptions, "params">;
+
+/* ===== Helpers ===== */
+const isFormData = (v: unknown): v is FormData =>
+  typeof FormData !== "undefined" && v instanceof FormData;
+
+export function buildUrl(endpoint: string, params?: QueryParams) {
+  // endpoint bisa absolut (mis. next_page_url dari paginator) atau relatif ke /api
+  const base = /^https?:\/\//i.test(endpoint)
+    ? endpoint
+    : `${getApiBaseUrl()}${endpoint.startsWith("/") ? endpoint : "/" + endpoint}`;
+  if (!params) return base;
+
+  const qs = Object.entries(params)
+    .filter(([, v]) => v !== undefined && v !== null && v !== "")
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+    .join("&");
+  if (!qs) return base;
+  return `${base}${base.includes("?") ? "&" : "?"}${qs}`;
+}
+
+/** Ambil pesan error yang paling berguna dari respons Laravel */
+function messageFrom(data: any, status: number) {
+  if (data && typeof data === "object") {
+    const m = data.message || data.error;
+    if (typeof m === "string" && m.trim()) return m;
+  }
+  if (typeof data === "string" && data.trim()) return data.slice(0, 300);
+  return `HTTP error! status: ${status}`;
+}
+
+export function isUnauthorized(e: unknown) {
+  return e instanceof ApiError && e.status === 401;
+}
+
+export function isValidationError(e: unknown): e is ApiError {
+  return e instanceof ApiError && e.kind === "validation";
+}
+
+/** 429 — terlalu banyak percobaan (mis. kirim ulang kode reset password) */
+export function isRateLimited(e: unknown): e is ApiError {
+  return e instanceof ApiError && e.status === 429;
+}
+
+/** Detik tunggu sebelum boleh mencoba lagi: header Retry-After, lalu `retry_after` di body */
+export function retryAfterSeconds(e: unknown): number | null {
+  if (!(e instanceof ApiError)) return null;
+  if (e.retryAfter !== null) return e.retryAfter;
+  const n = Number(e.data?.retry_after);
+  return Number.isFinite(n) && n > 0 ? Math.ceil(n) : null;
+}
+
+/** Abort dari caller (unmount / request baru) — bukan error yang perlu ditampilkan */
+export function isAbortError(e: unknown) {
+  return (e as any)?.name === "AbortError";
+}
+
+/** Laravel resource sering membungkus payload di `data` */
+export function unwrap<T>(json: { data?: T } | T): T {
+  if (json && typeof json === "object" && !Array.isArray(json) && "data" in (json as any)) {
+    const inner = (json as any).data;
+    if (inner !== undefined && inner !== null) return inner as T;
+  }
+  return json as T;
+}
+
+/** Normalisasi list: array polos, { data: [] } atau paginator */
+export function toPaginated<T>(json: any): Paginated<T> {
+  if (Array.isArray(json)) return { data: json };
+  if (json && Array.isArray(json.data)) return json as Paginated<T>;
+  // beberapa endpoint: { data: { data: [...], current_page, ... } }
+  if (json?.data && Array.isArray(json.data.data)) return json.data as Paginated<T>;
+  return { data: [] };
+}
+
+async function unwrapList<T>(p: Promise<any>): Promise<T[]> {
+  return toPaginated<T>(await p).data;
+}
+
+/** Ubah path storage relatif dari backend menjadi URL absolut */
+export function assetUrl(path?: string | null): string | null {
+  if (!path) return null;
+  const s = String(path).trim();
+  if (!s || s === "null" || s === "undefined") return null;
+  if (/^(https?:|file:|content:|data:)/i.test(s)) return s;
+  return `${getEnv().storageOrigin}/${s.replace(/^\/+/, "")}`;
+}
+
+/* ===== Retry ===== */
+const DEFAULT_TIMEOUT = 20_000;
+const UPLOAD_TIMEOUT = 60_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8_000;
+/** Retry-After lebih lama dari ini → langsung gagal, jangan tahan layar */
+const RETRY_AFTER_MAX = 30_000;
+const RETRY_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/** Exponential backoff dengan jitter penuh: 0..min(max, base * 2^attempt) */
+function retryDelay(attempt: number) {
+  return Math.random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+}
 
-  // Log detail request
-  // Pastikan tidak ada double slash
-  const url = `${API_BASE_URL}${endpoint.startsWith("/") ? endpoint : "/" + endpoint}`;
-  console.log('[API] Request:', {
-    url,
-    method: options.method || 'GET',
-    headers,
-    body: options.body || null,
+/** Retry-After dalam detik atau tanggal HTTP → ms; null kalau tidak ada/tidak valid */
+function retryAfterMs(response: Response): number | null {
+  const raw = response.headers.get("Retry-After");
+  if (!raw) return null;
+  const secs = Number(raw);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(raw);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+function abortError() {
+  const e = new Error("Aborted");
+  e.name = "AbortError";
+  return e;
+}
+
+/** Tunggu `ms`, batal lebih awal kalau signal caller di-abort */
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
+}
 
-  const response = await fetch(url, {
-    ...options,
-    headers,
+/* ===== Session ===== */
+type SessionListener = () => void;
+const sessionListeners = new Set<SessionListener>();
+
+/** Dipanggil sekali ketika refresh token ditolak → auth sudah dibersihkan, arahkan ke login */
+export function onSessionExpired(listener: SessionListener) {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
+async function expireSession() {
+  await clearAuthAll();
+  sessionListeners.forEach((fn) => {
+    try {
+      fn();
+    } catch (e) {
+      log.warn("session listener failed", e);
+    }
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text().then(text => {
-      try {
-        return JSON.parse(text);
-      } catch {
-        return { message: text };
+let refreshing: Promise<string | null> | null = null;
+
+/** /auth/refresh menolak refresh token (dicabut/kedaluwarsa) — bukan gangguan jaringan/server */
+function isRefreshRejected(e: unknown) {
+  if (!(e instanceof ApiError)) return false;
+  if (e.kind === "auth") return true;
+  return e.status >= 400 && e.status < 500 && e.kind !== "timeout" && e.status !== 429;
+}
+
+/**
+ * Tukar refresh token dengan access token baru. Semua request yang kena 401
+ * bersamaan menunggu promise yang sama, jadi refresh hanya terjadi sekali.
+ * Sesi hanya diakhiri kalau refresh ditolak; gagal jaringan/timeout dilempar
+ * ulang dan token tetap disimpan (sesi jadi authenticated-offline).
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshing) return refreshing;
+
+  refreshing = (async () => {
+    const refreshToken = await getRefreshToken();
+    if (!refreshToken) {
+      await expireSession();
+      return null;
+    }
+
+    let json: AuthResponse;
+    try {
+      json = await fetchWithAuth<AuthResponse>("/auth/refresh", {
+        method: "POST",
+        body: { refresh_token: refreshToken },
+        auth: false,
+      });
+    } catch (e) {
+      if (!isRefreshRejected(e)) {
+        log.warn("Token refresh failed, keeping tokens", e);
+        throw e;
       }
-    });
+      log.warn("Refresh token rejected", e);
+      await expireSession();
+      return null;
+    }
 
-    throw new Error(error.message || `HTTP error! status: ${response.status}`);
-  }
+    const token = json?.token || json?.access_token;
+    if (!token) {
+      await expireSession();
+      return null;
+    }
+    await setAuthToken(token);
+    if (json.refresh_token) await setRefreshToken(json.refresh_token);
+    log.debug("Token refreshed");
+    return token;
+  })();
 
-  return response.json();
+  refreshing
+    .finally(() => {
+      refreshing = null;
+    })
+    .catch(() => {});
+  return refreshing;
 }
 
-export const api = {
-  async login(email: string, password: string) {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, password }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text().then(text => {
-        try {
-          return JSON.parse(text);
-        } catch {
-          return { message: text };
-        }
+/* ===== Core ===== */
+export async function fetchWithAuth<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+  const { params, body, auth = true, publicFallback, headers: extra, signal, timeout, retries, ...init } = options;
+
+  const headers: Record<string, string> = { Accept: "application/json" };
+  let payload: BodyInit | undefined;
+  if (isFormData(body)) {
+    // jangan set Content-Type — fetch mengatur boundary multipart sendiri
+    payload = body;
+  } else if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    payload = typeof body === "string" ? body : JSON.stringify(body);
+  }
+  Object.assign(headers, extra as Record<string, string> | undefined);
+
+  // token dikelola di sini kecuali caller mengirim Authorization sendiri
+  const managed = auth && !headers.Authorization;
+
+  const url = buildUrl(endpoint, params);
+  const method = (init.method || "GET").toUpperCase();
+  const timeoutMs = timeout ?? (isFormData(body) ? UPLOAD_TIMEOUT : DEFAULT_TIMEOUT);
+  // POST/PATCH hanya aman diulang kalau server bisa mengenali duplikat lewat Idempotency-Key
+  const idempotent = IDEMPOTENT_METHODS.has(method) || !!headers["Idempotency-Key"];
+  const maxRetries = idempotent ? Math.max(0, retries ?? DEFAULT_RETRIES) : 0;
+
+  const send = async (bearer: string | null) => {
+    log.debug("Request:", method, url);
+    // controller per percobaan: gabungan timeout + signal dari caller (unmount)
+    const ctrl = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      ctrl.abort();
+    }, timeoutMs);
+    const onAbort = () => ctrl.abort();
+    if (signal?.aborted) ctrl.abort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      // mode demo: backend tiruan lokal, seluruh alur (timeout, 401, retry) tetap sama
+      const transport = isDemoMode() ? demoFetch : fetch;
+      return await transport(url, {
+        ...init,
+        method,
+        headers: bearer ? { ...headers, Authorization: `Bearer ${bearer}` } : headers,
+        body: payload,
+        signal: ctrl.signal,
       });
-      throw new Error(error.message || `HTTP error! status: ${response.status}`);
+    } catch (e: any) {
+      if (timedOut || e?.name === "TimeoutError") {
+        throw new ApiError(0, "Server terlalu lama merespons. Coba lagi.", null, "timeout");
+      }
+      if (isAbortError(e)) throw e;
+      log.warn("Network error:", method, url, e?.message);
+      throw new ApiError(0, "Tidak dapat terhubung ke server. Periksa koneksi internet Anda.", null, "network");
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const attempt = async () => {
+    const token = managed ? await getAuthToken() : null;
+    let response = await send(token);
+
+    if (response.status === 401 && token && publicFallback) {
+      log.warn("401 on public endpoint — retrying without auth");
+      return send(null);
+    }
+    if (response.status === 401 && token) {
+      // token bisa saja sudah diperbarui oleh request lain selagi request ini berjalan
+      const current = await getAuthToken();
+      const next = current && current !== token ? current : await refreshAccessToken();
+      if (next) response = await send(next);
     }
+    return response;
+  };
 
-    return response.json();
+  let response: Response;
+  for (let i = 0; ; i++) {
+    try {
+      response = await attempt();
+    } catch (e) {
+      const transient = e instanceof ApiError && (e.kind === "network" || e.kind === "timeout");
+      if (!transient || i >= maxRetries) throw e;
+      log.debug(`Retry ${i + 1}/${maxRetries}:`, method, url, (e as ApiError).kind);
+      await sleep(retryDelay(i), signal);
+      continue;
+    }
+    if (!RETRY_STATUS.has(response.status) || i >= maxRetries) break;
+
+    const after = response.status === 429 || response.status === 503 ? retryAfterMs(response) : null;
+    if (after !== null && after > RETRY_AFTER_MAX) break;
+    log.debug(`Retry ${i + 1}/${maxRetries}:`, method, url, response.status);
+    await sleep(after ?? retryDelay(i), signal);
+  }
+
+  const text = await response.text();
+
+  let data: any = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!response.ok) {
+    const err = new ApiError(response.status, messageFrom(data, response.status), data);
+    const after = response.status === 429 || response.status === 503 ? retryAfterMs(response) : null;
+    if (after !== null) err.retryAfter = Math.ceil(after / 1000);
+    throw err;
+  }
+  if (typeof data === "string") {
+    throw new ApiError(response.status, "Respon server bukan JSON", data);
+  }
+  return data as T;
+}
+
+/** Laravel tidak membaca multipart pada PUT/PATCH → kirim POST + _method */
+function sendForm<T>(endpoint: string, form: FormData, method: "POST" | "PATCH" | "PUT" | "DELETE" = "POST") {
+  if (method !== "POST") form.append("_method", method);
+  return fetchWithAuth<T>(endpoint, { method: "POST", body: form });
+}
+
+/* ===== Client ===== */
+export const api = {
+  // Generic HTTP methods
+  get<T = any>(endpoint: string, options: GetOptions = {}) {
+    return fetchWithAuth<T>(endpoint, options);
+  },
+  post<T = any>(endpoint: string, data?: unknown) {
+    return fetchWithAuth<T>(endpoint, { method: "POST", body: data ?? {} });
+  },
+  put<T = any>(endpoint: string, data?: unknown) {
+    return fetchWithAuth<T>(endpoint, { method: "PUT", body: data ?? {} });
+  },
+  patch<T = any>(endpoint: string, data?: unknown) {
+    return fetchWithAuth<T>(endpoint, { method: "PATCH", body: data ?? {} });
+  },
+  delete<T = any>(endpoint: string, options: { params?: QueryParams } = {}) {
+    return fetchWithAuth<T>(endpoint, { method: "DELETE", ...options });
   },
 
-  async me() {
-    return fetchWithAuth("/auth/me");
+  /** @deprecated gunakan api.auth.login */
+  login(email: string, password: string) {
+    return api.auth.login({ email, password });
+  },
+  /** @deprecated gunakan api.auth.me */
+  me() {
+    return api.auth.me();
   },
 
-  // Generic HTTP methods
-  async get<T>(endpoint: string, options: { params?: Record<string, any> } = {}) {
-    const url = new URL(API_BASE_URL + (endpoint.startsWith("/") ? endpoint : "/" + endpoint));
-    if (options.params) {
-      Object.entries(options.params).forEach(([key, value]) => {
-        if (value !== undefined) url.searchParams.append(key, String(value));
+  // Resources
+  auth: {
+    login(payload: LoginPayload) {
+      return fetchWithAuth<AuthResponse>("/auth/login", {
+        method: "POST",
+        body: { device_name: deviceName(), ...payload },
+        auth: false,
       });
-    }
-    // Ambil path setelah /api -> hapus prefiks '/api'
-    const path = (url.pathname + url.search).replace(/^\/api/, "");
-    return fetchWithAuth(path);
+    },
+    register(payload: RegisterPayload, as: "customer" | "mua" = "customer") {
+      const endpoint = as === "mua" ? "/auth/register-mua" : "/auth/register";
+      return fetchWithAuth<AuthResponse>(endpoint, {
+        method: "POST",
+        body: { device_name: deviceName(), ...payload },
+        auth: false,
+      });
+    },
+    /** Kirim kode reset + tautan ke email; respons sama walau email tidak terdaftar */
+    forgotPassword(payload: ForgotPasswordPayload) {
+      return fetchWithAuth<{ message?: string }>("/auth/forgot-password", { method: "POST", body: payload, auth: false });
+    },
+    resetPassword(payload: ResetPasswordPayload) {
+      return fetchWithAuth<{ message?: string }>("/auth/reset-password", { method: "POST", body: payload, auth: false });
+    },
+    /** Kirim OTP ke email / nomor HP akun yang sedang login */
+    sendVerification(channel: ContactChannel) {
+      return fetchWithAuth<{ message?: string }>("/auth/verify/send", { method: "POST", body: { channel } });
+    },
+    async verifyContact(channel: ContactChannel, code: string) {
+      return unwrap<Me>(await fetchWithAuth("/auth/verify", { method: "POST", body: { channel, code } }));
+    },
+    async me(signal?: AbortSignal) {
+      return unwrap<Me>(await fetchWithAuth("/auth/me", { signal }));
+    },
+    /** Sesi login aktif di semua perangkat (termasuk perangkat ini) */
+    async sessions(signal?: AbortSignal) {
+      return unwrap<AuthSession[]>(await fetchWithAuth("/auth/sessions", { signal }));
+    },
+    revokeSession(id: Id) {
+      return fetchWithAuth<{ message?: string }>(`/auth/sessions/${id}`, { method: "DELETE" });
+    },
+    /** Keluarkan semua perangkat lain; sesi perangkat ini tetap aktif */
+    revokeOtherSessions() {
+      return fetchWithAuth<{ message?: string }>("/auth/sessions/others", { method: "DELETE" });
+    },
+    logout(opts: { all?: boolean } = {}) {
+      return fetchWithAuth<{ message?: string }>("/auth/logout", {
+        method: "POST",
+        params: opts.all ? { all: "true" } : undefined,
+      });
+    },
   },
 
-
-  async post<T>(endpoint: string, data: any) {
-    return fetchWithAuth(endpoint, {
-      method: "POST",
-      body: JSON.stringify(data),
-    });
+  profile: {
+    get(signal?: AbortSignal) {
+      return api.auth.me(signal);
+    },
+    async update(data: ProfileUpdatePayload | FormData) {
+      const json = isFormData(data)
+        ? await sendForm<any>("/auth/profile", data, "PATCH")
+        : await api.patch<any>("/auth/profile", data);
+      return unwrap<Me>(json);
+    },
+    updateLocation(data: { location_lat: number; location_lng: number; address?: string }) {
+      return api.profile.update(data);
+    },
+    setOnline(is_online: boolean) {
+      return api.patch<{ is_online?: boolean | number }>("/auth/profile/online", { is_online });
+    },
   },
 
-  async put<T>(endpoint: string, data: any) {
-    return fetchWithAuth(endpoint, {
-      method: "PUT",
-      body: JSON.stringify(data),
-    });
+  mua: {
+    async list(params?: { page?: number; per_page?: number }, opts: ReadOptions = {}) {
+      return toPaginated<Mua>(await api.get("/mua", { ...opts, params }));
+    },
+    async get(id: Id, opts: ReadOptions = {}) {
+      return unwrap<Mua>(await api.get(`/mua/${encodeURIComponent(String(id))}`, opts));
+    },
+    offerings(id: Id, opts: ReadOptions = {}) {
+      return unwrapList<Offering>(api.get(`/mua/${encodeURIComponent(String(id))}/offerings`, opts));
+    },
+    collaborations() {
+      return unwrapList<Collaboration>(api.get("/mua/collaborations"));
+    },
+    updateCollaboration(id: Id, data: { status: "accepted" | "declined" }) {
+      return api.patch(`/mua/collaborations/${id}`, data);
+    },
+    /** Jam kerja + slot terisi dalam rentang tanggal (YYYY-MM-DD, inklusif) */
+    async availability(id: Id, params: { from: string; to: string }, opts: ReadOptions = {}) {
+      return unwrap<MuaAvailability>(
+        await api.get(`/mua/${encodeURIComponent(String(id))}/availability`, { ...opts, params })
+      );
+    },
+    /** Rekening/e-wallet tujuan transfer manual */
+    paymentAccounts(id: Id, opts: ReadOptions = {}) {
+      return unwrapList<PaymentAccount>(api.get(`/mua/${encodeURIComponent(String(id))}/payment-accounts`, opts));
+    },
   },
 
-  async delete(endpoint: string, options: { params?: { only_read?: boolean } } = {}) {
-    return fetchWithAuth(endpoint, {
-      method: "DELETE",
-    });
+  muaLocation: {
+    list() {
+      return unwrapList<MuaLocation>(api.get("/mua-location"));
+    },
+    async get(id: Id, opts: ReadOptions = {}) {
+      return unwrap<MuaLocation>(await api.get(`/mua-location/${encodeURIComponent(String(id))}`, opts));
+    },
   },
 
-  // Resources
   offerings: {
-    list(params?: { muaId?: string; per_page?: number }) {
-      return api.get("/offerings", { params });
+    async list(
+      params?: { mua_id?: string; muaId?: string; page?: number; per_page?: number },
+      opts: ReadOptions = {}
+    ) {
+      return toPaginated<Offering>(await api.get("/offerings", { ...opts, params }));
+    },
+    async page(url: string) {
+      return toPaginated<Offering>(await api.get(url));
+    },
+    async mine(params?: { per_page?: number; page?: number }, opts: ReadOptions = {}) {
+      return toPaginated<Offering>(await api.get("/offerings/mine", { ...opts, params }));
+    },
+    async get(id: Id, params?: { include?: string }, opts: ReadOptions = {}) {
+      return unwrap<Offering>(await api.get(`/offerings/${encodeURIComponent(String(id))}`, { ...opts, params }));
     },
-    mine(params?: { per_page?: number }) {
-      return api.get("/offerings/mine", { params });
+    async mua(id: Id, opts: ReadOptions = {}) {
+      return unwrap<Partial<MuaLocation>>(await api.get(`/offerings/${encodeURIComponent(String(id))}/mua`, opts));
     },
-    get(id: number | string) {
-      return api.get(`/offerings/${id}`);
+    async create(data: Record<string, unknown> | FormData) {
+      const json = isFormData(data) ? await sendForm<any>("/offerings", data) : await api.post("/offerings", data);
+      return unwrap<Offering>(json);
     },
-    create(data: any) {
-      return api.post("/offerings", data);
+    async update(id: Id, data: Record<string, unknown> | FormData) {
+      const endpoint = `/offerings/${encodeURIComponent(String(id))}`;
+      const json = isFormData(data) ? await sendForm<any>(endpoint, data, "PATCH") : await api.patch(endpoint, data);
+      return unwrap<Offering>(json);
     },
-    update(id: number | string, data: any) {
-      return api.put(`/offerings/${id}`, data);
+    deletePicture(id: Id, index: number) {
+      const fd = new FormData();
+      fd.append("index", String(index));
+      fd.append("also_delete_files", "1");
+      return sendForm<any>(`/offerings/${encodeURIComponent(String(id))}/pictures`, fd, "DELETE");
     },
-    delete(id: number | string) {
-      return api.delete(`/offerings/${id}`);
+    delete(id: Id) {
+      return api.delete(`/offerings/${encodeURIComponent(String(id))}`);
     },
   },
 
   bookings: {
-    list(params?: { mua_id?: string; customer_id?: string; status?: string; per_page?: number }) {
-      return api.get("/bookings", { params });
+    async list(
+      params?: { mua_id?: string; customer_id?: string; status?: string; page?: number; per_page?: number },
+      opts: ReadOptions = {}
+    ) {
+      return toPaginated<Booking>(await api.get("/bookings", { ...opts, params }));
     },
-    mine(params?: { status?: string; per_page?: number }) {
-      return api.get("/bookings/mine", { params });
+    async mine(params?: { status?: string; page?: number; per_page?: number }, opts: ReadOptions = {}) {
+      return toPaginated<Booking>(await api.get("/bookings/mine", { ...opts, params }));
     },
-    get(id: number | string) {
-      return api.get(`/bookings/${id}`);
+    async get(id: Id, opts: ReadOptions = {}) {
+      return unwrap<Booking>(await api.get(`/bookings/${encodeURIComponent(String(id))}`, opts));
     },
-    create(data: any) {
-      return api.post("/bookings", data);
+    async create(data: BookingCreatePayload) {
+      return unwrap<Booking>(await api.post("/bookings", data));
     },
-    update(id: number | string, data: any) {
-      return api.put(`/bookings/${id}`, data);
+    async update(id: Id, data: Partial<Booking>) {
+      return unwrap<Booking>(await api.put(`/bookings/${id}`, data));
     },
-    delete(id: number | string) {
+    delete(id: Id) {
       return api.delete(`/bookings/${id}`);
     },
-    respondToInvite(bookingId: string | number, action: "accept" | "decline") {
-      return api.post(`/bookings/${bookingId}/collaborators/respond`, { action });
-    }
+    complete(id: Id) {
+      return api.post<{ message?: string; data?: Booking }>(`/bookings/${id}/complete`);
+    },
+    inviteCollaborators(id: Id, data: { profile_ids: string[]; role?: string }) {
+      return api.post<{ message?: string }>(`/bookings/${id}/collaborators`, data);
+    },
+    respondToInvite(bookingId: Id, data: { status: "accepted" | "declined"; notification_id?: Id; user_id?: Id }) {
+      return api.post<{ message?: string }>(`/bookings/${bookingId}/collaborators/respond`, data);
+    },
+    /** Customer: unggah foto bukti transfer (field `proof`); MUA diberi notifikasi */
+    async uploadPaymentProof(id: Id, form: FormData) {
+      return unwrap<Booking>(await sendForm<any>(`/bookings/${encodeURIComponent(String(id))}/payment-proof`, form));
+    },
+    /** MUA: tandai lunas (bukti transfer diterima atau dibayar di tempat) */
+    async approvePayment(id: Id) {
+      return unwrap<Booking>(await api.post(`/bookings/${encodeURIComponent(String(id))}/payment/approve`));
+    },
+    /** MUA: tolak bukti transfer; customer diminta mengunggah ulang */
+    async rejectPayment(id: Id, data: { reason: string }) {
+      return unwrap<Booking>(await api.post(`/bookings/${encodeURIComponent(String(id))}/payment/reject`, data));
+    },
   },
 
-  notifications: {
-    list(params?: { per_page?: number; page?: number }) {
-      return api.get("/notifications", { params });
+  vouchers: {
+    /** Cek kode untuk paket & subtotal tertentu; 422 + errors.voucher_code bila tidak berlaku */
+    async validate(data: VoucherCheckPayload) {
+      return unwrap<VoucherCheck>(await api.post("/vouchers/validate", data));
     },
-    mine(params?: { per_page?: number; page?: number }) {
-      return api.get("/notifications/mine", { params });
+    /** Voucher milik MUA yang login */
+    mine(opts: ReadOptions = {}) {
+      return unwrapList<Voucher>(api.get("/vouchers/mine", opts));
     },
-    get(id: number | string) {
-      return api.get(`/notifications/${id}`);
+    async create(data: VoucherPayload) {
+      return unwrap<Voucher>(await api.post("/vouchers", data));
     },
-    getUnreadCount() {
-      return api.get("/notifications/unread-count");
+    async update(id: Id, data: Partial<VoucherPayload>) {
+      return unwrap<Voucher>(await api.patch(`/vouchers/${encodeURIComponent(String(id))}`, data));
     },
-    markAsRead(id: number | string) {
-      return api.post(`/notifications/${id}/read`, {});
+    delete(id: Id) {
+      return api.delete(`/vouchers/${encodeURIComponent(String(id))}`);
+    },
+  },
+
+  notifications: {
+    async list(params?: { per_page?: number; page?: number }, opts: ReadOptions = {}) {
+      return toPaginated<Notification>(await api.get("/notifications", { ...opts, params }));
+    },
+    async get(id: Id, opts: ReadOptions = {}) {
+      return unwrap<Notification>(await api.get(`/notifications/${id}`, opts));
+    },
+    async unreadCount() {
+      const json = await api.get<any>("/notifications/unread-count");
+      return Number(json?.count ?? json?.data?.count ?? json?.unread ?? json?.unread_count ?? 0) || 0;
+    },
+    markAsRead(id: Id, is_read = true) {
+      return api.patch(`/notifications/${id}/read`, { is_read });
     },
     markAllAsRead() {
-      return api.post("/notifications/read-all", {});
+      return api.patch("/notifications/read-all");
     },
     clearRead() {
-      return api.delete("/notifications", { params: { only_read: true } });
+      return api.delete("/notifications", { params: { only_read: "true" } });
     },
-    delete(id: number | string) {
+    delete(id: Id) {
       return api.delete(`/notifications/${id}`);
-    }
+    },
   },
 
   portfolio: {
-    list(params?: { muaId?: string; per_page?: number }) {
-      return api.get("/portfolio", { params });
+    async list(
+      params?: { muaId?: string; page?: number; per_page?: number; sort?: string; dir?: "asc" | "desc" },
+      opts: ReadOptions = {}
+    ) {
+      return toPaginated<Portfolio>(await api.get("/portfolios", { ...opts, params }));
     },
-    mine(params?: { per_page?: number }) {
-      return api.get("/portfolio/mine", { params });
+    async get(id: Id, opts: ReadOptions = {}) {
+      return unwrap<Portfolio>(await api.get(`/portfolios/${encodeURIComponent(String(id))}`, opts));
     },
-    get(id: number | string) {
-      return api.get(`/portfolio/${id}`);
+    async create(data: FormData) {
+      return unwrap<Portfolio>(await sendForm<any>("/portfolios", data));
     },
-    create(data: FormData) {
-      return fetchWithAuth("/portfolio", {
-        method: "POST",
-        body: data,
-        headers: {}, // Let browser set content-type for FormData
-      });
+    async update(id: Id, data: FormData) {
+      return unwrap<Portfolio>(await sendForm<any>(`/portfolios/${encodeURIComponent(String(id))}`, data, "PATCH"));
     },
-    update(id: number | string, data: FormData) {
-      return fetchWithAuth(`/portfolio/${id}`, {
-        method: "PUT",
-        body: data,
-        headers: {}, // Let browser set content-type for FormData
-      });
+    delete(id: Id) {
+      return api.delete(`/portfolios/${encodeURIComponent(String(id))}`);
     },
-    delete(id: number | string) {
-      return api.delete(`/portfolio/${id}`);
-    }
   },
+};
 
-  profile: {
-    update(data: FormData) {
-      return fetchWithAuth("/profile", {
-        method: "PUT",
-        body: data,
-        headers: {}, // Let browser set content-type for FormData
-      });
-    },
-    updateLocation(data: { latitude: number; longitude: number }) {
-      return api.put("/profile/location", data);
-    }
-  }
-};
\ No newline at end of file
+export default api;
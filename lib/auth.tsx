@@ -1,5 +1,326 @@
-export const useAuth = () => {
-  const user = { name: 'Jennifer M', email: 'jennifer@example.com' };
-  const profile = { role: 'customer' };
-  return { user, profile };
-};
\ No newline at end of file
+// lib/auth.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AppState } from "react-native";
+import {
+  activateAccount,
+  clearAuthAll,
+  forgetAccount,
+  getAccounts,
+  getUserProfile,
+  onAuthCleared,
+  saveActiveAccount,
+  setAuthToken,
+  setRefreshToken,
+  setUserProfile,
+  type StoredAccount,
+  type StoredProfile,
+} from "../utils/authStorage";
+import { api, onSessionExpired } from "./api";
+import { isDemoMode, setDemoMode } from "./demo";
+import { createLogger } from "./logger";
+import { dismissOutboxItem, getOutboxItems } from "./outbox";
+import { meQuery } from "./queries";
+import { dropStashedQueryCache, fetchQuery, getQueryData, setQueryData, switchQueryCache } from "./query";
+import {
+  classifyRevalidateError,
+  isAuthenticated,
+  loadCachedSession,
+  nextSessionState,
+  type SessionEvent,
+  type SessionState,
+} from "./session";
+import type { AuthResponse, LoginPayload, Me, Role } from "./types";
+
+const log = createLogger("AUTH");
+
+/* ===== Types ===== */
+/** Ringkasan SessionState untuk layar: loading = storage belum dibaca; signedIn = ada token tersimpan */
+export type AuthStatus = "loading" | "signedIn" | "signedOut";
+
+export type AuthContextValue = {
+  status: AuthStatus;
+  /** state lengkap pipeline boot (lihat lib/session) */
+  session: SessionState;
+  /** respons /auth/me terakhir (null sampai berhasil diambil) */
+  user: Me | null;
+  /** profil ringkas dari storage: id profil, nama, foto, role */
+  profile: StoredProfile | null;
+  role: Role | null;
+  /** id profil (UUID) — dipakai sebagai customer_id / mua_id */
+  profileId: string | null;
+  isMua: boolean;
+  login: (payload: LoginPayload) => Promise<StoredProfile | null>;
+  /** simpan sesi dari respons login/register yang sudah didapat */
+  signIn: (json: AuthResponse) => Promise<StoredProfile | null>;
+  logout: (opts?: { all?: boolean }) => Promise<void>;
+  /** akun yang tersimpan di perangkat ini (termasuk akun aktif), terbaru dipakai dulu */
+  accounts: StoredAccount[];
+  /** jadikan akun tersimpan aktif; cache data tiap akun dipertahankan */
+  switchAccount: (id: string) => Promise<StoredProfile | null>;
+  /** hapus akun tidak aktif dari perangkat */
+  removeAccount: (id: string) => Promise<void>;
+  refreshProfile: () => Promise<Me | null>;
+  /** perbarui profil di memori + storage + cache /auth/me tanpa request */
+  updateProfileLocally: (patch: Partial<Me>) => void;
+};
+
+type AuthState = { session: SessionState; user: Me | null; profile: StoredProfile | null };
+
+/* ===== Helpers ===== */
+/** Variasi penulisan role dari backend lama → Role */
+const ROLE_ALIASES: Record<string, Role> = {
+  mua: "mua",
+  makeup_artist: "mua",
+  "makeup artist": "mua",
+  admin: "admin",
+  customer: "customer",
+  user: "customer",
+  pengguna: "customer",
+};
+
+export function normalizeRole(raw: unknown): Role | null {
+  const r = String(raw ?? "").toLowerCase().trim().replace(/-/g, "_");
+  if (!r) return null;
+  return ROLE_ALIASES[r] ?? ROLE_ALIASES[r.replace(/_/g, " ")] ?? null;
+}
+
+/** Mutasi offline dikirim dengan token akun aktif → jangan ganti akun sebelum terkirim */
+function hasUnsentChanges() {
+  return getOutboxItems().some((it) => it.status === "pending" || it.status === "sending");
+}
+
+/** Item gagal permanen milik akun lama tidak boleh dikirim ulang dengan token akun lain */
+function dropFailedChanges() {
+  getOutboxItems()
+    .filter((it) => it.status === "failed")
+    .forEach((it) => dismissOutboxItem(it.id));
+}
+
+function statusOf(session: SessionState): AuthStatus {
+  if (session === "booting") return "loading";
+  return isAuthenticated(session) ? "signedIn" : "signedOut";
+}
+
+/** Gabungkan patch ke Me; field profil ikut diperbarui di `me.profile` */
+function mergeMe(me: Me | null, patch: Partial<Me>): Me | null {
+  if (!me) return null;
+  const { profile: _ignored, ...fields } = patch;
+  return { ...me, ...fields, profile: me.profile ? { ...me.profile, ...fields, id: me.profile.id } : me.profile };
+}
+
+/* ===== Context ===== */
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<AuthState>(() => ({
+    session: "booting",
+    user: getQueryData<Me>(meQuery().key) ?? null,
+    profile: null,
+  }));
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [accounts, setAccounts] = useState<StoredAccount[]>([]);
+
+  const reloadAccounts = useCallback(async () => {
+    setAccounts(await getAccounts());
+  }, []);
+
+  /** Salin sesi aktif ke slot akunnya (lihat utils/authStorage "Multi akun") */
+  const rememberActive = useCallback(
+    async (email?: string | null) => {
+      await saveActiveAccount({ email: email ?? stateRef.current.user?.email, demo: isDemoMode() });
+      await reloadAccounts();
+    },
+    [reloadAccounts]
+  );
+
+  const dispatch = useCallback((event: SessionEvent, patch: Partial<Omit<AuthState, "session">> = {}) => {
+    setState((s) => {
+      // storage lebih lambat dari login di layar → hasil cache diabaikan
+      if (event.type === "cache-loaded" && s.session !== "booting") return s;
+      const session = nextSessionState(s.session, event);
+      // data user lama tidak dipertahankan setelah sesi berakhir
+      return isAuthenticated(session) ? { ...s, ...patch, session } : { session, user: null, profile: null };
+    });
+  }, []);
+
+  /** Langkah 4 boot: validasi /auth/me di belakang layar; juga dipakai layar untuk data terbaru */
+  const refreshProfile = useCallback(async () => {
+    try {
+      const me = await fetchQuery(meQuery(), { force: true });
+      await setUserProfile(me);
+      const profile = await getUserProfile();
+      dispatch({ type: "revalidated", result: "ok" }, { user: me, profile });
+      rememberActive(me.email);
+      return me;
+    } catch (e) {
+      // 401 ditangani global oleh lib/api (refresh token / sesi berakhir)
+      log.warn("refreshProfile failed", e);
+      const result = classifyRevalidateError(e);
+      dispatch({ type: "revalidated", result });
+      // 403/4xx lain: akun ditolak server → buang token akun ini juga (expired tetap expired)
+      if (result === "unauthorized") await clearAuthAll();
+      return null;
+    }
+  }, [dispatch, rememberActive]);
+
+  useEffect(() => {
+    let alive = true;
+    reloadAccounts();
+    (async () => {
+      const { token, profile } = await loadCachedSession();
+      if (!alive) return;
+      log.info(token ? `cached session (role: ${profile?.role ?? "-"})` : "no cached session");
+      // rute sesuai role cache langsung dirender; validasi menyusul
+      dispatch({ type: "cache-loaded", hasSession: !!token }, { profile });
+      if (token) refreshProfile();
+    })();
+    // logout, ganti environment → unauthenticated; refresh token gagal → expired
+    const offCleared = onAuthCleared(() => {
+      dispatch({ type: "cleared" });
+      reloadAccounts();
+    });
+    const offExpired = onSessionExpired(() => dispatch({ type: "expired" }));
+    // offline saat boot → coba validasi lagi ketika app kembali aktif
+    const sub = AppState.addEventListener("change", (next) => {
+      if (next === "active" && stateRef.current.session === "authenticated-offline") refreshProfile();
+    });
+    return () => {
+      alive = false;
+      offCleared();
+      offExpired();
+      sub.remove();
+    };
+  }, [dispatch, refreshProfile, reloadAccounts]);
+
+  const signIn = useCallback(
+    async (json: AuthResponse) => {
+      const token = json?.token || json?.access_token;
+      if (!token) {
+        log.warn("signIn without token, keys:", Object.keys(json ?? {}));
+        throw new Error("Token tidak ditemukan dalam respons.");
+      }
+      // tambah akun saat masih login: akun lama disimpan dulu, tidak dikeluarkan
+      const s = stateRef.current;
+      const fromId = isAuthenticated(s.session) && s.profile?.id ? String(s.profile.id) : null;
+      if (fromId && hasUnsentChanges()) {
+        throw new Error("Masih ada perubahan yang belum terkirim. Tunggu sampai terkirim sebelum menambah akun.");
+      }
+      if (fromId) dropFailedChanges();
+      if (fromId) await saveActiveAccount({ email: s.user?.email });
+      // sequential: token harus tersimpan sebelum request /auth/me berikutnya
+      await setAuthToken(token);
+      await setRefreshToken(json.refresh_token ?? null);
+      await setUserProfile(json.profile || json.user?.profile || json.user || null);
+      const profile = await getUserProfile();
+      const toId = profile?.id ? String(profile.id) : null;
+      if (fromId && toId && toId !== fromId) await switchQueryCache(fromId, toId);
+      await rememberActive(json.user?.email ?? null);
+      dispatch({ type: "signed-in" }, { user: null, profile });
+      refreshProfile();
+      return profile;
+    },
+    [dispatch, refreshProfile, rememberActive]
+  );
+
+  const login = useCallback(
+    async (payload: LoginPayload) => signIn(await api.auth.login(payload)),
+    [signIn]
+  );
+
+  const logout = useCallback(async (opts: { all?: boolean } = {}) => {
+    try {
+      await api.auth.logout(opts);
+    } catch (e) {
+      // token lokal tetap dihapus walau server tidak terjangkau
+      log.warn("logout request failed", e);
+    }
+    await clearAuthAll();
+  }, []);
+
+  const switchAccount = useCallback(
+    async (id: string) => {
+      const s = stateRef.current;
+      const fromId = isAuthenticated(s.session) && s.profile?.id ? String(s.profile.id) : null;
+      if (fromId === id) return s.profile;
+      if (hasUnsentChanges()) {
+        throw new Error("Masih ada perubahan yang belum terkirim. Tunggu sampai terkirim sebelum ganti akun.");
+      }
+      dropFailedChanges();
+      if (fromId) await saveActiveAccount({ email: s.user?.email, demo: isDemoMode() });
+
+      const account = await activateAccount(id);
+      if (!account) {
+        await forgetAccount(id);
+        await reloadAccounts();
+        throw new Error("Sesi akun ini sudah berakhir. Silakan masuk lagi.");
+      }
+      log.info(`switch account (role: ${account.role ?? "-"})`);
+      await setDemoMode(!!account.demo);
+      await switchQueryCache(fromId, id);
+      const profile = await getUserProfile();
+      // /auth/me dari cache akun tujuan (kalau ada) langsung tampil, validasi menyusul
+      dispatch({ type: "signed-in" }, { user: getQueryData<Me>(meQuery().key) ?? null, profile });
+      await reloadAccounts();
+      refreshProfile();
+      return profile;
+    },
+    [dispatch, refreshProfile, reloadAccounts]
+  );
+
+  const removeAccount = useCallback(
+    async (id: string) => {
+      if (stateRef.current.profile?.id && String(stateRef.current.profile.id) === id) return;
+      await forgetAccount(id);
+      await dropStashedQueryCache(id);
+      await reloadAccounts();
+    },
+    [reloadAccounts]
+  );
+
+  const updateProfileLocally = useCallback((patch: Partial<Me>) => {
+    const s = stateRef.current;
+    const user = mergeMe(s.user, patch);
+    const profile = s.profile
+      ? {
+          ...s.profile,
+          ...(patch.name !== undefined ? { name: patch.name } : {}),
+          ...(patch.photo_url !== undefined ? { photo_url: patch.photo_url } : {}),
+        }
+      : s.profile;
+    if (user) setQueryData<Me>(meQuery().key, user);
+    setUserProfile(user ?? profile);
+    setState({ ...s, user, profile });
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => {
+    const { session, user, profile } = state;
+    const role = normalizeRole(profile?.role ?? user?.role ?? user?.profile?.role);
+    const rawId = profile?.id ?? user?.profile?.id ?? user?.id;
+    return {
+      status: statusOf(session),
+      session,
+      user,
+      profile,
+      role,
+      profileId: rawId !== null && rawId !== undefined && rawId !== "" ? String(rawId) : null,
+      isMua: role === "mua",
+      login,
+      signIn,
+      logout,
+      accounts,
+      switchAccount,
+      removeAccount,
+      refreshProfile,
+      updateProfileLocally,
+    };
+  }, [state, accounts, login, signIn, logout, switchAccount, removeAccount, refreshProfile, updateProfileLocally]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth harus dipakai di dalam <AuthProvider>");
+  return ctx;
+}
@@ -0,0 +1,148 @@
+// lib/availability.ts
+/* Slot jadwal MUA untuk form booking: dari jam kerja & booking pending/confirmed
+ * (GET /mua/:id/availability) dihitung hari mana yang masih bisa dipesan dan jam
+ * mulai apa saja yang valid. Jam yang sudah lewat / terlalu mepet tidak ditawarkan. */
+import { ApiError } from "./api";
+import type { BusySlot, MuaAvailability } from "./types";
+
+/* ===== Const ===== */
+/** Interval jam mulai yang ditawarkan */
+export const SLOT_STEP_MINUTES = 30;
+/** Dipakai kalau server tidak mengirim durasi / jeda minimal */
+export const DEFAULT_SLOT_MINUTES = 120;
+export const DEFAULT_LEAD_MINUTES = 180;
+/** Batas pemesanan ke depan */
+export const MAX_DAYS_AHEAD = 90;
+
+/** Status booking yang menahan slot */
+const BLOCKING_STATUSES = ["pending", "confirmed"];
+
+/** Jadwal cadangan saat endpoint tidak tersedia: 08.00–20.00 setiap hari, tanpa info bentrok */
+export const FALLBACK_AVAILABILITY: MuaAvailability = {
+  working_hours: [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ weekday, open: "08:00", close: "20:00" })),
+  busy: [],
+  slot_minutes: DEFAULT_SLOT_MINUTES,
+  min_lead_minutes: DEFAULT_LEAD_MINUTES,
+};
+
+/* ===== Types ===== */
+/**
+ * past   = sudah lewat / di luar batas pemesanan
+ * closed = MUA libur
+ * full   = hari kerja tapi tidak ada jam tersisa
+ * busy   = sebagian jam sudah terisi
+ * free   = belum ada booking
+ */
+export type DayState = "past" | "closed" | "full" | "busy" | "free";
+
+export type SlotBlock = "past" | "lead" | "busy";
+
+export type StartTime = {
+  /** HH:MM */
+  time: string;
+  available: boolean;
+  blockedBy?: SlotBlock;
+};
+
+/* ===== Date helpers ===== */
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const ymd = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const hm = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+/** "HH:MM" → menit sejak 00.00; format salah → NaN */
+export function toMinutes(value: string) {
+  const m = /^(\d{1,2}):(\d{2})/.exec(value ?? "");
+  return m ? Number(m[1]) * 60 + Number(m[2]) : NaN;
+}
+
+export const fromMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+export function startOfDay(d: Date) {
+  const out = new Date(d);
+  out.setHours(0, 0, 0, 0);
+  return out;
+}
+
+export function addDays(d: Date, days: number) {
+  const out = new Date(d);
+  out.setDate(out.getDate() + days);
+  return out;
+}
+
+/** Gabungkan tanggal & "HH:MM" jadi Date lokal */
+export function atTime(day: Date, time: string) {
+  const out = startOfDay(day);
+  const minutes = toMinutes(time);
+  out.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return out;
+}
+
+/* ===== Slots ===== */
+const slotMinutes = (av: MuaAvailability) => av.slot_minutes || DEFAULT_SLOT_MINUTES;
+const leadMinutes = (av: MuaAvailability) => av.min_lead_minutes ?? DEFAULT_LEAD_MINUTES;
+
+function busyOn(av: MuaAvailability, date: string): BusySlot[] {
+  return av.busy.filter((b) => b.date === date && (!b.status || BLOCKING_STATUSES.includes(b.status)));
+}
+
+/** Semua jam mulai di hari kerja `day`, termasuk yang diblokir (dengan alasannya) */
+export function startTimes(av: MuaAvailability, day: Date, now = new Date()): StartTime[] {
+  const hours = av.working_hours.find((w) => w.weekday === day.getDay());
+  if (!hours) return [];
+  const open = toMinutes(hours.open);
+  const close = toMinutes(hours.close);
+  if (!Number.isFinite(open) || !Number.isFinite(close)) return [];
+
+  const duration = slotMinutes(av);
+  const earliest = now.getTime() + leadMinutes(av) * 60_000;
+  const busy = busyOn(av, ymd(day)).map((b) => [toMinutes(b.start), toMinutes(b.end)] as const);
+
+  const out: StartTime[] = [];
+  // booking harus selesai sebelum jam tutup
+  for (let start = open; start + duration <= close; start += SLOT_STEP_MINUTES) {
+    const time = fromMinutes(start);
+    const at = atTime(day, time).getTime();
+    let blockedBy: SlotBlock | undefined;
+    if (at < now.getTime()) blockedBy = "past";
+    else if (at < earliest) blockedBy = "lead";
+    else if (busy.some(([s, e]) => start < e && start + duration > s)) blockedBy = "busy";
+    out.push(blockedBy ? { time, available: false, blockedBy } : { time, available: true });
+  }
+  return out;
+}
+
+export function availableTimes(av: MuaAvailability, day: Date, now = new Date()) {
+  return startTimes(av, day, now).filter((t) => t.available);
+}
+
+export function dayState(av: MuaAvailability, day: Date, now = new Date()): DayState {
+  const today = startOfDay(now);
+  if (day < today || day > addDays(today, MAX_DAYS_AHEAD)) return "past";
+  const times = startTimes(av, day, now);
+  if (!times.length) return av.working_hours.some((w) => w.weekday === day.getDay()) ? "full" : "closed";
+  const available = times.filter((t) => t.available).length;
+  if (!available) return times.every((t) => t.blockedBy !== "busy") ? "past" : "full";
+  return times.some((t) => t.blockedBy === "busy") ? "busy" : "free";
+}
+
+/** Jadwal terpilih masih bisa dipesan? (mis. draft lama setelah login) */
+export function isSlotAvailable(av: MuaAvailability, date: Date, now = new Date()) {
+  return availableTimes(av, startOfDay(date), now).some((t) => t.time === hm(date));
+}
+
+/** Hari pertama yang masih punya jam kosong, mulai dari `from` */
+export function firstAvailableDay(av: MuaAvailability, from: Date, now = new Date()) {
+  for (let i = 0; i <= MAX_DAYS_AHEAD; i++) {
+    const day = addDays(startOfDay(from), i);
+    if (day > addDays(startOfDay(now), MAX_DAYS_AHEAD)) break;
+    if (availableTimes(av, day, now).length) return day;
+  }
+  return null;
+}
+
+/** Server menolak karena jadwal bentrok (slot keburu diambil orang lain) */
+export function isSlotTakenError(e: unknown) {
+  return e instanceof ApiError && (e.status === 409 || !!e.errors?.booking_time?.length);
+}
@@ -0,0 +1,168 @@
+// lib/demo/index.test.ts
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { createDemoDb, DEMO_ACCOUNTS, demoFetch, setDemoDb, type DemoDb } from "./index";
+
+const API = "https://demo.test/api";
+const MUA_ID = "de300000-0000-4000-8000-00000000a001";
+
+let db: DemoDb;
+
+async function call(method: string, path: string, body?: unknown, token?: string | null) {
+  const res = await demoFetch(`${API}${path}`, {
+    method,
+    headers: {
+      Accept: "application/json",
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  return { status: res.status, json: text ? JSON.parse(text) : null };
+}
+
+async function login(account: { email: string; password: string }) {
+  const { status, json } = await call("POST", "/auth/login", account);
+  expect(status).toBe(200);
+  return String(json.access_token ?? json.token);
+}
+
+/** Jadwal tiga hari ke depan supaya lolos batas minimal jam booking */
+function bookingBody(extra: Record<string, unknown> = {}) {
+  const date = new Date(Date.now() + 3 * 86_400_000).toISOString().slice(0, 10);
+  return {
+    mua_id: MUA_ID,
+    offering_id: 101,
+    booking_date: date,
+    booking_time: "10:00",
+    service_type: "studio",
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  db = createDemoDb();
+  setDemoDb(db);
+});
+
+describe("demo auth", () => {
+  it("login akun demo lalu /auth/me memakai token yang sama", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const me = await call("GET", "/auth/me", undefined, token);
+    expect(me.status).toBe(200);
+    expect(JSON.stringify(me.json)).toContain(DEMO_ACCOUNTS.customer.email);
+  });
+
+  it("password salah → 401, endpoint privat tanpa token → 401", async () => {
+    const wrong = await call("POST", "/auth/login", { ...DEMO_ACCOUNTS.customer, password: "salah-sekali" });
+    expect(wrong.status).toBe(401);
+    expect((await call("GET", "/bookings")).status).toBe(401);
+  });
+});
+
+describe("demo booking", () => {
+  it("harga dihitung server dari paket; angka dari klien diabaikan", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const res = await call(
+      "POST",
+      "/bookings",
+      bookingBody({ selected_add_ons: [{ id: 901, name: "Hairdo", price: 1 }], amount: 1, tax: 0 }),
+      token
+    );
+    expect(res.status).toBe(201);
+    const b = res.json.data;
+    expect(b.amount).toBe(1_500_000);
+    expect(b.selected_add_ons).toEqual([{ id: 901, name: "Hairdo", price: 200_000 }]);
+    expect(b.subtotal).toBe(1_700_000);
+    expect(b.grand_total).toBe(1_887_000);
+    expect(db.bookings.some((x) => x.id === b.id)).toBe(true);
+  });
+
+  it("add-on dari paket lain ditolak per field", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const res = await call("POST", "/bookings", bookingBody({ selected_add_ons: [{ id: 904, name: "Touch up", price: 0 }] }), token);
+    expect(res.status).toBe(422);
+    expect(res.json.errors.selected_add_ons).toBeDefined();
+  });
+
+  it("kolaborasi ikut sebagai baris selected_add_ons dengan harga dari paket", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const res = await call(
+      "POST",
+      "/bookings",
+      bookingBody({
+        mua_id: "de300000-0000-4000-8000-00000000a002",
+        offering_id: 104,
+        selected_add_ons: [{ name: "Kolaborasi: Lensa Studio", price: 0 }],
+      }),
+      token
+    );
+    expect(res.status).toBe(201);
+    expect(res.json.data.selected_add_ons).toEqual([{ name: "Kolaborasi: Lensa Studio", price: 250_000 }]);
+    expect(res.json.data.subtotal).toBe(850_000);
+  });
+
+  it("fixture dengan add-on lama (string) dicocokkan lewat nama", async () => {
+    const seeded = createDemoDb();
+    seeded.offerings.find((o) => o.id === 102)!.add_ons = ["Hijab do"];
+    setDemoDb(seeded);
+
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const res = await call(
+      "POST",
+      "/bookings",
+      bookingBody({ offering_id: 102, selected_add_ons: [{ name: "Hijab do", price: 0 }] }),
+      token
+    );
+    expect(res.status).toBe(201);
+    expect(res.json.data.selected_add_ons).toEqual([{ name: "Hijab do", price: 0 }]);
+  });
+
+  it("slot yang sama tidak bisa dipesan dua kali", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    expect((await call("POST", "/bookings", bookingBody(), token)).status).toBe(201);
+    expect((await call("POST", "/bookings", bookingBody(), token)).status).toBe(409);
+  });
+
+  it("fixture dengan nomor HP belum terverifikasi → 403 contact_unverified", async () => {
+    const seeded = createDemoDb();
+    const customer = seeded.users.find((u) => u.email === DEMO_ACCOUNTS.customer.email)!;
+    customer.profile.phone_verified_at = null;
+    setDemoDb(seeded);
+
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const res = await call("POST", "/bookings", bookingBody(), token);
+    expect(res.status).toBe(403);
+    expect(res.json.code).toBe("contact_unverified");
+  });
+});
+
+describe("demo voucher", () => {
+  it("voucher aktif memberi potongan sesuai aturan", async () => {
+    const res = await call("POST", "/vouchers/validate", { code: "smstudio10", offering_id: 101, subtotal: 1_500_000 });
+    expect(res.status).toBe(200);
+    expect(res.json.data.voucher.code).toBe("SMSTUDIO10");
+    // 10%, maksimal 100 ribu
+    expect(res.json.data.discount_amount).toBe(100_000);
+  });
+
+  it("kedaluwarsa, MUA lain, atau kode tak dikenal → 422 voucher_code", async () => {
+    const expired = await call("POST", "/vouchers/validate", { code: "LEBARAN25", offering_id: 101, subtotal: 1_500_000 });
+    const otherMua = await call("POST", "/vouchers/validate", { code: "HEMAT50", offering_id: 103, subtotal: 1_500_000 });
+    const unknown = await call("POST", "/vouchers/validate", { code: "NGASAL", offering_id: 101, subtotal: 1_500_000 });
+    for (const res of [expired, otherMua, unknown]) {
+      expect(res.status).toBe(422);
+      expect(res.json.errors.voucher_code).toBeDefined();
+    }
+  });
+
+  it("batas per customer berlaku setelah voucher dipakai booking", async () => {
+    const token = await login(DEMO_ACCOUNTS.customer);
+    const booked = await call("POST", "/bookings", bookingBody({ voucher_code: "SMSTUDIO10" }), token);
+    expect(booked.status).toBe(201);
+    expect(booked.json.data.discount_amount).toBe(100_000);
+
+    const again = await call("POST", "/vouchers/validate", { code: "SMSTUDIO10", offering_id: 101, subtotal: 1_500_000 }, token);
+    expect(again.status).toBe(422);
+  });
+});
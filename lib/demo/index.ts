@@ -0,0 +1,196 @@
+// lib/demo/index.ts
+/* Mode demo: fetchWithAuth mengarahkan semua request ke backend tiruan (./server)
+ * alih-alih server sungguhan. Aktif lewat "Coba demo" di layar login dan mati
+ * otomatis saat logout. Data demo disimpan di perangkat, jadi booking yang dibuat
+ * akun Pengguna tetap ada saat masuk lagi sebagai MUA demo. */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { onAuthCleared } from "../../utils/authStorage";
+import { createLogger } from "../logger";
+import { createDemoDb, handleDemoRequest, type DemoDb } from "./server";
+
+export { DEMO_ACCOUNTS, createDemoDb, handleDemoRequest } from "./server";
+export type { DemoDb, DemoRequest, DemoResponse } from "./server";
+
+const log = createLogger("DEMO");
+
+/* ===== Const ===== */
+const MODE_KEY = "demo_mode_v1";
+const DB_KEY = "demo_db_v1";
+/** jeda buatan supaya loading state tetap terlihat seperti di server sungguhan */
+const LATENCY = 250;
+const PERSIST_DELAY = 500;
+
+/* ===== State ===== */
+let enabled = false;
+let db: DemoDb | null = null;
+let latency = LATENCY;
+
+export function isDemoMode() {
+  return enabled;
+}
+
+/** Dipanggil saat boot sebelum request pertama */
+export async function loadDemoMode() {
+  try {
+    enabled = (await AsyncStorage.getItem(MODE_KEY)) === "1";
+  } catch (e) {
+    log.warn("loadDemoMode failed", e);
+  }
+  return enabled;
+}
+
+export async function setDemoMode(on: boolean) {
+  if (enabled === on) return;
+  enabled = on;
+  log.info(on ? "demo mode on" : "demo mode off");
+  try {
+    if (on) await AsyncStorage.setItem(MODE_KEY, "1");
+    else await AsyncStorage.removeItem(MODE_KEY);
+  } catch (e) {
+    log.warn("setDemoMode failed", e);
+  }
+}
+
+/** Kembalikan data demo ke fixture awal */
+export async function resetDemoData() {
+  db = createDemoDb();
+  await AsyncStorage.removeItem(DB_KEY).catch(() => {});
+}
+
+/**
+ * Untuk Jest: pakai db tertentu (mis. `createDemoDb()` segar per test) dan
+ * hilangkan jeda buatan. Tidak menyentuh AsyncStorage.
+ */
+export function setDemoDb(next: DemoDb, opts: { latency?: number } = {}) {
+  db = next;
+  latency = opts.latency ?? 0;
+}
+
+async function getDb(): Promise<DemoDb> {
+  if (db) return db;
+  try {
+    const raw = await AsyncStorage.getItem(DB_KEY);
+    if (raw) db = JSON.parse(raw) as DemoDb;
+  } catch (e) {
+    log.warn("load demo db failed", e);
+  }
+  db = db ?? createDemoDb();
+  return db;
+}
+
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function schedulePersist() {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    if (!db) return;
+    AsyncStorage.setItem(DB_KEY, JSON.stringify(db)).catch((e) => log.warn("persist demo db failed", e));
+  }, PERSIST_DELAY);
+}
+
+/* ===== Transport ===== */
+function abortError() {
+  const e = new Error("Aborted");
+  e.name = "AbortError";
+  return e;
+}
+
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** "https://host/api/bookings?page=2" → { path: "/bookings", query: { page: "2" } } */
+function parseUrl(url: string) {
+  const [beforeQuery, qs = ""] = url.split("?");
+  const at = beforeQuery.indexOf("/api/");
+  const path = at >= 0 ? beforeQuery.slice(at + 4) : beforeQuery.replace(/^https?:\/\/[^/]+/i, "");
+  const query: Record<string, string> = {};
+  for (const pair of qs.split("&").filter(Boolean)) {
+    const [k, v = ""] = pair.split("=");
+    query[decodeURIComponent(k)] = decodeURIComponent(v.replace(/\+/g, " "));
+  }
+  return { path, query };
+}
+
+/**
+ * Field FormData → object; "photos[]" jadi array, "add_ons[0][name]" jadi array of object
+ * (konvensi Laravel), file jadi uri-nya
+ */
+function formToObject(form: FormData): Record<string, any> {
+  const out: Record<string, any> = {};
+  const add = (key: string, value: any) => {
+    const v = value && typeof value === "object" && "uri" in value ? value.uri : value;
+    const nested = /^([^[]+)\[(\d+)\]\[([^\]]+)\]$/.exec(key);
+    if (nested) {
+      const [, k, i, field] = nested;
+      const arr: Record<string, any>[] = Array.isArray(out[k]) ? out[k] : (out[k] = []);
+      arr[Number(i)] = { ...arr[Number(i)], [field]: v };
+    } else if (key.endsWith("[]")) {
+      const k = key.slice(0, -2);
+      out[k] = [...(Array.isArray(out[k]) ? out[k] : []), v];
+    } else {
+      out[key] = v;
+    }
+  };
+  const f = form as any;
+  if (typeof f.getParts === "function") {
+    // React Native: { fieldName, string } atau { fieldName, uri, ... }
+    for (const part of f.getParts()) add(part.fieldName, "string" in part ? part.string : part);
+  } else if (typeof f.entries === "function") {
+    for (const [k, v] of f.entries()) add(k, v);
+  }
+  return out;
+}
+
+function parseBody(body: unknown): Record<string, any> | null {
+  if (body === undefined || body === null) return null;
+  if (typeof FormData !== "undefined" && body instanceof FormData) return formToObject(body);
+  if (typeof body === "string") {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+  return typeof body === "object" ? (body as Record<string, any>) : null;
+}
+
+/** Pengganti `fetch` dengan signature yang sama, dipakai fetchWithAuth saat mode demo */
+export async function demoFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const { path, query } = parseUrl(url);
+  await wait(latency, init.signal);
+
+  const state = await getDb();
+  const res = handleDemoRequest(state, {
+    method,
+    path,
+    query,
+    headers: (init.headers ?? {}) as Record<string, string>,
+    body: parseBody(init.body),
+  });
+  log.debug("demo", method, path, res.status);
+  if (method !== "GET") schedulePersist();
+
+  return new Response(res.body === undefined ? "" : JSON.stringify(res.body), {
+    status: res.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// logout / sesi berakhir → request berikutnya kembali ke server sungguhan
+onAuthCleared(() => {
+  setDemoMode(false);
+});
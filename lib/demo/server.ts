@@ -0,0 +1,1272 @@
+// lib/demo/server.ts
+/* Backend tiruan untuk mode demo: menjawab semua endpoint yang dipakai app dari
+ * fixture JSON, dengan state yang berubah (booking baru masuk ke notifikasi MUA, dst).
+ * Murni (tanpa React Native) supaya bisa dipakai langsung di Jest. */
+import type {
+  AuthSession,
+  Booking,
+  BusySlot,
+  Collaboration,
+  Me,
+  Notification,
+  Offering,
+  OfferingAddOn,
+  Portfolio,
+  Profile,
+  SelectedAddOn,
+  Voucher,
+  WorkingHours,
+} from "../types";
+import { collaborationAddOn, offeringAddOns, toSelectedAddOn } from "../addOns";
+import { computePrice, PRICING_CONFIG } from "../pricing";
+import { normalizeVoucherCode, voucherDiscount } from "../vouchers";
+import fixtures from "./fixtures.json";
+
+/* ===== Types ===== */
+export type DemoUser = {
+  id: string;
+  email: string;
+  password: string;
+  email_verified_at?: string | null;
+  profile: Omit<Profile, "id">;
+};
+
+export type DemoDb = {
+  users: DemoUser[];
+  offerings: Offering[];
+  portfolios: Portfolio[];
+  bookings: Booking[];
+  notifications: Notification[];
+  collaborations: Collaboration[];
+  /** id numerik berikutnya untuk resource baru */
+  seq: number;
+  /** Idempotency-Key → respons pertama (outbox boleh mengirim ulang) */
+  idempotency: Record<string, DemoResponse>;
+  /** email → kode reset password aktif (opsional: db demo lama belum punya) */
+  resets?: Record<string, DemoOtp>;
+  /** "<user id>:<email|phone>" → kode verifikasi kontak aktif */
+  verifications?: Record<string, DemoOtp>;
+  /** user id → sesi login per perangkat; token demo per user, jadi "perangkat ini" selalu sesi is_current */
+  sessions?: Record<string, AuthSession[]>;
+  /** kode promo platform & MUA; dibuat saat pertama dipakai (db demo lama belum punya) */
+  vouchers?: Voucher[];
+};
+
+export type DemoOtp = { code: string; sentAt: number; expiresAt: number };
+
+export type DemoRequest = {
+  method: string;
+  /** path relatif ke /api, mis. "/bookings/12" */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  /** object hasil JSON.parse atau field FormData */
+  body: Record<string, any> | null;
+};
+
+export type DemoResponse = { status: number; body?: unknown };
+
+type Ctx = DemoRequest & { db: DemoDb; params: Record<string, string>; me: DemoUser | null };
+type Handler = (ctx: Ctx) => DemoResponse;
+type Route = { method: string; parts: string[]; handler: Handler; public?: boolean };
+
+/* ===== Const ===== */
+const TOKEN_PREFIX = "demo.";
+const REFRESH_PREFIX = "demo-refresh.";
+const DEFAULT_PER_PAGE = 15;
+/** Kode OTP (reset password, verifikasi kontak) di mode demo selalu sama supaya bisa dicoba tanpa email/SMS */
+const DEMO_OTP_CODE = "123456";
+const OTP_TTL = 15 * 60_000;
+const OTP_RESEND_AFTER = 60_000;
+/** Jadwal demo: Senin–Sabtu 09.00–19.00, Minggu 10.00–16.00 */
+const DEMO_WORKING_HOURS: WorkingHours[] = [0, 1, 2, 3, 4, 5, 6].map((weekday) =>
+  weekday === 0 ? { weekday, open: "10:00", close: "16:00" } : { weekday, open: "09:00", close: "19:00" }
+);
+const DEMO_SLOT_MINUTES = 120;
+const DEMO_LEAD_MINUTES = 180;
+
+/* ===== Db ===== */
+/** Salinan baru dari fixture; timestamp dibuat relatif ke sekarang */
+export function createDemoDb(now = Date.now()): DemoDb {
+  const data = JSON.parse(JSON.stringify(fixtures)) as Omit<DemoDb, "seq" | "idempotency">;
+  const stamp = <T extends object>(list: T[], step: number) =>
+    list.map((it, i) => {
+      const at = new Date(now - (list.length - i) * step).toISOString();
+      return { created_at: at, updated_at: at, ...it };
+    });
+  return {
+    users: data.users,
+    offerings: stamp(data.offerings, 86_400_000),
+    portfolios: stamp(data.portfolios, 86_400_000),
+    bookings: stamp(data.bookings, 86_400_000),
+    notifications: stamp(data.notifications, 3_600_000),
+    collaborations: data.collaborations,
+    seq: 1000,
+    idempotency: {},
+  };
+}
+
+export const DEMO_ACCOUNTS = {
+  customer: { email: fixtures.users[0].email, password: fixtures.users[0].password },
+  mua: { email: fixtures.users[1].email, password: fixtures.users[1].password },
+} as const;
+
+/* ===== Helpers ===== */
+const ok = (body: unknown, status = 200): DemoResponse => ({ status, body });
+const fail = (status: number, message: string, errors?: Record<string, string[]>): DemoResponse => ({
+  status,
+  body: errors ? { message, errors } : { message },
+});
+const notFound = () => fail(404, "Data tidak ditemukan.");
+const forbidden = () => fail(403, "Anda tidak memiliki akses.");
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function nextId(db: DemoDb) {
+  db.seq += 1;
+  return db.seq;
+}
+
+function num(v: unknown, fallback = 0) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function bool(v: unknown) {
+  return v === true || v === 1 || v === "1" || v === "true";
+}
+
+function list(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(String).filter(Boolean);
+  if (typeof v === "string" && v.trim()) return [v];
+  return [];
+}
+
+/** Validasi sederhana ala Laravel: field kosong → 422 dengan `errors` */
+function required(body: Record<string, any> | null, fields: Record<string, string>): DemoResponse | null {
+  const errors: Record<string, string[]> = {};
+  for (const [k, label] of Object.entries(fields)) {
+    const v = body?.[k];
+    if (v === undefined || v === null || String(v).trim() === "") errors[k] = [`${label} wajib diisi.`];
+  }
+  return Object.keys(errors).length ? fail(422, Object.values(errors)[0][0], errors) : null;
+}
+
+function paginate<T>(items: T[], query: Record<string, string>) {
+  const perPage = Math.max(1, num(query.per_page, DEFAULT_PER_PAGE));
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const page = Math.min(Math.max(1, num(query.page, 1)), lastPage);
+  return {
+    data: items.slice((page - 1) * perPage, page * perPage),
+    current_page: page,
+    last_page: lastPage,
+    per_page: perPage,
+    total: items.length,
+    next_page_url: page < lastPage ? `?page=${page + 1}` : null,
+    prev_page_url: page > 1 ? `?page=${page - 1}` : null,
+  };
+}
+
+const newest = <T extends { created_at?: string | null }>(a: T, b: T) =>
+  String(b.created_at ?? "").localeCompare(String(a.created_at ?? ""));
+
+function toProfile(u: DemoUser): Profile {
+  return { id: u.id, ...u.profile };
+}
+
+function toMe(u: DemoUser): Me {
+  return { id: u.id, email: u.email, email_verified_at: u.email_verified_at ?? null, ...u.profile, profile: toProfile(u) };
+}
+
+/** Simpan OTP baru; 429 bila kode sebelumnya baru saja dikirim */
+function issueOtp(store: Record<string, DemoOtp>, key: string): DemoResponse | null {
+  const prev = store[key];
+  const now = Date.now();
+  if (prev && now - prev.sentAt < OTP_RESEND_AFTER) {
+    const retry_after = Math.ceil((OTP_RESEND_AFTER - (now - prev.sentAt)) / 1000);
+    return { status: 429, body: { message: "Terlalu banyak percobaan. Coba lagi nanti.", retry_after } };
+  }
+  store[key] = { code: DEMO_OTP_CODE, sentAt: now, expiresAt: now + OTP_TTL };
+  return null;
+}
+
+/** 422 di `field` bila kode salah / kedaluwarsa */
+function checkOtp(otp: DemoOtp | undefined, code: unknown, field: string, label: string): DemoResponse | null {
+  if (!otp || otp.code !== String(code ?? "").trim()) {
+    return fail(422, `${label} tidak valid.`, { [field]: [`${label} tidak valid.`] });
+  }
+  if (Date.now() > otp.expiresAt) {
+    return fail(422, `${label} sudah kedaluwarsa.`, { [field]: [`${label} sudah kedaluwarsa. Minta kode baru.`] });
+  }
+  return null;
+}
+
+/** Sesi user; pertama kali dibuat berisi perangkat ini + dua perangkat contoh */
+function userSessions(db: DemoDb, u: DemoUser): AuthSession[] {
+  const store = (db.sessions ??= {});
+  if (!store[u.id]) {
+    const ago = (mins: number) => new Date(Date.now() - mins * 60_000).toISOString();
+    store[u.id] = [
+      { id: `${u.id}:current`, device_name: "Perangkat ini", platform: null, last_active_at: nowIso(), ip_address: "127.0.0.1", location: null, is_current: true, created_at: nowIso() },
+      { id: `${u.id}:2`, device_name: "iPhone 13", platform: "ios", last_active_at: ago(90), ip_address: "103.47.132.10", location: "Jakarta, Indonesia", is_current: false, created_at: ago(60 * 24 * 12) },
+      { id: `${u.id}:3`, device_name: "Chrome di Windows", platform: "web", last_active_at: ago(60 * 24 * 3), ip_address: "180.252.86.4", location: "Bandung, Indonesia", is_current: false, created_at: ago(60 * 24 * 30) },
+    ];
+  }
+  return store[u.id];
+}
+
+/** Login/daftar di perangkat ini: perbarui nama perangkat & waktu aktif sesi is_current */
+function touchCurrentSession(db: DemoDb, u: DemoUser, deviceName: unknown) {
+  const current = userSessions(db, u).find((s) => s.is_current)!;
+  if (deviceName) current.device_name = String(deviceName);
+  current.last_active_at = nowIso();
+}
+
+function toLocation(u: DemoUser) {
+  const p = u.profile;
+  return {
+    id: u.id,
+    name: p.name ?? "",
+    location_lat: p.location_lat ?? null,
+    location_lng: p.location_lng ?? null,
+    address: p.address ?? null,
+    photo_url: p.photo_url ?? null,
+    phone: p.phone ?? null,
+  };
+}
+
+function authResponse(u: DemoUser) {
+  return {
+    token: `${TOKEN_PREFIX}${u.id}`,
+    refresh_token: `${REFRESH_PREFIX}${u.id}`,
+    user: { id: u.id, name: u.profile.name, email: u.email, role: u.profile.role, profile: toProfile(u) },
+    profile: toProfile(u),
+  };
+}
+
+function userById(db: DemoDb, id: unknown) {
+  return db.users.find((u) => u.id === String(id)) ?? null;
+}
+
+function muas(db: DemoDb) {
+  return db.users.filter((u) => u.profile.role === "mua");
+}
+
+function notify(db: DemoDb, userId: string, title: string, message: string, type: string) {
+  const at = nowIso();
+  const n: Notification = { id: nextId(db), user_id: userId, title, message, type, is_read: false, created_at: at, updated_at: at };
+  db.notifications.push(n);
+  return n;
+}
+
+function withOffering(db: DemoDb, b: Booking): Booking {
+  const offering = db.offerings.find((o) => o.id === b.offering_id) ?? null;
+  const customer = userById(db, b.customer_id);
+  return {
+    ...b,
+    offering: offering ? { id: offering.id, name_offer: offering.name_offer, price: offering.price } : null,
+    customer: customer ? { id: customer.id, name: customer.profile.name } : null,
+  };
+}
+
+function invoiceNumber(db: DemoDb, date = new Date()) {
+  const ymd = date.toISOString().slice(0, 10).replace(/-/g, "");
+  return `INV-${ymd}-${String(db.seq).slice(-4).padStart(4, "0")}`;
+}
+
+function canSeeBooking(db: DemoDb, me: DemoUser, b: Booking) {
+  if (b.customer_id === me.id || b.mua_id === me.id) return true;
+  // MUA yang diundang perlu melihat booking untuk menerima/menolak undangan
+  return db.collaborations.some((c) => c.booking_id === b.id && c.profile_id === me.id && c.status !== "declined");
+}
+
+function findBooking(ctx: Ctx) {
+  const b = ctx.db.bookings.find((x) => String(x.id) === ctx.params.id);
+  if (!b) return { error: notFound() };
+  if (!canSeeBooking(ctx.db, ctx.me!, b)) return { error: forbidden() };
+  return { booking: b };
+}
+
+function findOwned<T extends { id: number | string; mua_id?: string | null }>(items: T[], ctx: Ctx) {
+  const it = items.find((x) => String(x.id) === ctx.params.id);
+  if (!it) return { error: notFound() };
+  if (it.mua_id !== ctx.me!.id) return { error: forbidden() };
+  return { item: it };
+}
+
+/* ===== Routes ===== */
+const routes: Route[] = [];
+
+function route(method: string, pattern: string, handler: Handler, opts: { public?: boolean } = {}) {
+  routes.push({ method, parts: pattern.split("/").filter(Boolean), handler, public: opts.public });
+}
+
+/* --- Auth --- */
+route(
+  "POST",
+  "/auth/login",
+  ({ db, body }) => {
+    const invalid = required(body, { email: "Email", password: "Password" });
+    if (invalid) return invalid;
+    const email = String(body!.email).trim().toLowerCase();
+    const u = db.users.find((x) => x.email === email);
+    if (!u || u.password !== String(body!.password)) return fail(401, "Email atau password salah.");
+    touchCurrentSession(db, u, body!.device_name);
+    return ok(authResponse(u));
+  },
+  { public: true }
+);
+
+function register(role: "customer" | "mua"): Handler {
+  return ({ db, body }) => {
+    const invalid = required(body, { name: "Nama", email: "Email", password: "Password" });
+    if (invalid) return invalid;
+    const email = String(body!.email).trim().toLowerCase();
+    if (db.users.some((u) => u.email === email)) {
+      return fail(422, "Email sudah terdaftar.", { email: ["Email sudah terdaftar."] });
+    }
+    if (String(body!.password).length < 8) {
+      return fail(422, "Password minimal 8 karakter.", { password: ["Password minimal 8 karakter."] });
+    }
+    // aturan "confirmed" Laravel: error dipasang di field password
+    if (body!.password_confirmation !== undefined && String(body!.password_confirmation) !== String(body!.password)) {
+      return fail(422, "Konfirmasi password tidak sama.", { password: ["Konfirmasi password tidak sama."] });
+    }
+    const seq = String(nextId(db)).padStart(12, "0");
+    const u: DemoUser = {
+      id: `de300000-0000-4000-8000-${seq}`,
+      email,
+      password: String(body!.password),
+      profile: {
+        role,
+        name: String(body!.name),
+        phone: body!.phone ?? null,
+        is_online: 0,
+        created_at: nowIso(),
+      },
+    };
+    db.users.push(u);
+    touchCurrentSession(db, u, body!.device_name);
+    return ok(authResponse(u), 201);
+  };
+}
+route("POST", "/auth/register", register("customer"), { public: true });
+route("POST", "/auth/register-mua", register("mua"), { public: true });
+
+route(
+  "POST",
+  "/auth/forgot-password",
+  ({ db, body }) => {
+    const invalid = required(body, { email: "Email" });
+    if (invalid) return invalid;
+    const email = String(body!.email).trim().toLowerCase();
+    // email tidak terdaftar tetap dijawab sama supaya tidak bisa dipakai menebak akun
+    if (db.users.some((u) => u.email === email)) {
+      const limited = issueOtp((db.resets ??= {}), email);
+      if (limited) return limited;
+    }
+    return ok({ message: "Jika email terdaftar, kode reset sudah dikirim." });
+  },
+  { public: true }
+);
+
+route(
+  "POST",
+  "/auth/reset-password",
+  ({ db, body }) => {
+    const invalid = required(body, { email: "Email", token: "Kode reset", password: "Password" });
+    if (invalid) return invalid;
+    const email = String(body!.email).trim().toLowerCase();
+    const u = db.users.find((x) => x.email === email);
+    const badToken = checkOtp(u ? db.resets?.[email] : undefined, body!.token, "token", "Kode reset");
+    if (!u || badToken) return badToken ?? notFound();
+    if (String(body!.password).length < 8) {
+      return fail(422, "Password minimal 8 karakter.", { password: ["Password minimal 8 karakter."] });
+    }
+    if (String(body!.password_confirmation ?? "") !== String(body!.password)) {
+      return fail(422, "Konfirmasi password tidak sama.", { password: ["Konfirmasi password tidak sama."] });
+    }
+    u.password = String(body!.password);
+    delete db.resets![email];
+    return ok({ message: "Password berhasil diperbarui." });
+  },
+  { public: true }
+);
+
+route("POST", "/auth/verify/send", ({ db, me, body }) => {
+  const channel = body?.channel === "phone" ? "phone" : "email";
+  if (channel === "phone" && !me!.profile.phone) {
+    return fail(422, "Nomor HP belum diisi.", { phone: ["Nomor HP belum diisi."] });
+  }
+  const limited = issueOtp((db.verifications ??= {}), `${me!.id}:${channel}`);
+  if (limited) return limited;
+  return ok({ message: channel === "email" ? "Kode dikirim ke email." : "Kode dikirim lewat SMS/WhatsApp." });
+});
+
+route("POST", "/auth/verify", ({ db, me, body }) => {
+  const channel = body?.channel === "phone" ? "phone" : "email";
+  const key = `${me!.id}:${channel}`;
+  const bad = checkOtp(db.verifications?.[key], body?.code, "code", "Kode verifikasi");
+  if (bad) return bad;
+  delete db.verifications![key];
+  if (channel === "email") me!.email_verified_at = nowIso();
+  else me!.profile.phone_verified_at = nowIso();
+  return ok({ data: toMe(me!) });
+});
+
+route(
+  "POST",
+  "/auth/refresh",
+  ({ db, body }) => {
+    const raw = String(body?.refresh_token ?? "");
+    const u = raw.startsWith(REFRESH_PREFIX) ? userById(db, raw.slice(REFRESH_PREFIX.length)) : null;
+    return u ? ok(authResponse(u)) : fail(401, "Refresh token tidak valid.");
+  },
+  { public: true }
+);
+
+route("GET", "/auth/me", ({ me }) => ok({ data: toMe(me!) }));
+route("POST", "/auth/logout", () => ok({ message: "Berhasil keluar." }));
+
+route("GET", "/auth/sessions", ({ db, me }) => ok({ data: userSessions(db, me!) }));
+
+route("DELETE", "/auth/sessions/others", ({ db, me }) => {
+  db.sessions![me!.id] = userSessions(db, me!).filter((s) => s.is_current);
+  return ok({ message: "Perangkat lain telah dikeluarkan." });
+});
+
+route("DELETE", "/auth/sessions/:id", ({ db, me, params }) => {
+  const list = userSessions(db, me!);
+  const s = list.find((x) => String(x.id) === params.id);
+  if (!s) return notFound();
+  if (s.is_current) return fail(422, "Gunakan Logout untuk keluar dari perangkat ini.");
+  db.sessions![me!.id] = list.filter((x) => x !== s);
+  return ok({ message: "Perangkat telah dikeluarkan." });
+});
+
+route("PATCH", "/auth/profile", ({ me, body }) => {
+  // nomor baru harus diverifikasi ulang
+  if (body && "phone" in body && String(body.phone ?? "") !== String(me!.profile.phone ?? "")) {
+    me!.profile.phone_verified_at = null;
+  }
+  const allowed = ["name", "phone", "address", "bio", "photo_url", "location_lat", "location_lng", "services"];
+  for (const k of allowed) {
+    if (body && k in body) (me!.profile as Record<string, unknown>)[k] = body[k];
+  }
+  me!.profile.updated_at = nowIso();
+  return ok({ data: toMe(me!) });
+});
+
+route("PATCH", "/auth/profile/online", ({ me, body }) => {
+  me!.profile.is_online = bool(body?.is_online) ? 1 : 0;
+  return ok({ is_online: me!.profile.is_online });
+});
+
+/* --- MUA --- */
+route("GET", "/mua", ({ db, query }) => ok(paginate(muas(db).map(toProfile), query)), { public: true });
+
+route("GET", "/mua/collaborations", ({ db, me }) =>
+  ok({ data: db.collaborations.filter((c) => c.profile_id === me!.id) })
+);
+
+route("PATCH", "/mua/collaborations/:id", ({ db, me, params, body }) => {
+  const c = db.collaborations.find((x) => String(x.id) === params.id && x.profile_id === me!.id);
+  if (!c) return notFound();
+  c.status = body?.status === "accepted" ? "accepted" : "declined";
+  return ok({ data: c });
+});
+
+route(
+  "GET",
+  "/mua/:id",
+  ({ db, params }) => {
+    const u = userById(db, params.id);
+    return u && u.profile.role === "mua" ? ok({ data: toProfile(u) }) : notFound();
+  },
+  { public: true }
+);
+
+route(
+  "GET",
+  "/mua/:id/offerings",
+  ({ db, params }) => ok({ data: db.offerings.filter((o) => o.mua_id === params.id) }),
+  { public: true }
+);
+
+/** Booking pending/confirmed MUA → rentang jam terisi (durasi demo tetap) */
+function busySlots(db: DemoDb, muaId: string, from?: string, to?: string): BusySlot[] {
+  return db.bookings
+    .filter((b) => b.mua_id === muaId && (b.status === "pending" || b.status === "confirmed"))
+    .filter((b) => (!from || b.booking_date >= from) && (!to || b.booking_date <= to))
+    .map((b) => {
+      const [h, m] = b.booking_time.split(":").map(Number);
+      const end = h * 60 + m + DEMO_SLOT_MINUTES;
+      const hhmm = `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+      return { date: b.booking_date, start: b.booking_time.slice(0, 5), end: hhmm, status: b.status };
+    });
+}
+
+route(
+  "GET",
+  "/mua/:id/availability",
+  ({ db, params, query }) => {
+    const u = userById(db, params.id);
+    if (!u || u.profile.role !== "mua") return notFound();
+    return ok({
+      data: {
+        working_hours: DEMO_WORKING_HOURS,
+        busy: busySlots(db, u.id, query.from, query.to),
+        slot_minutes: DEMO_SLOT_MINUTES,
+        min_lead_minutes: DEMO_LEAD_MINUTES,
+      },
+    });
+  },
+  { public: true }
+);
+
+route("GET", "/mua/:id/payment-accounts", ({ db, params }) => {
+  const u = userById(db, params.id);
+  if (!u || u.profile.role !== "mua") return notFound();
+  return ok({ data: u.profile.payment_accounts ?? [] });
+});
+
+route("GET", "/mua-location", ({ db }) => ok({ data: muas(db).map(toLocation) }), { public: true });
+
+route(
+  "GET",
+  "/mua-location/:id",
+  ({ db, params }) => {
+    const u = userById(db, params.id);
+    return u && u.profile.role === "mua" ? ok({ data: toLocation(u) }) : notFound();
+  },
+  { public: true }
+);
+
+/* --- Offerings --- */
+function offeringWithMua(db: DemoDb, o: Offering): Offering {
+  const u = userById(db, o.mua_id);
+  return { ...o, mua: u ? toLocation(u) : null };
+}
+
+route(
+  "GET",
+  "/offerings",
+  ({ db, query }) => {
+    const muaId = query.mua_id || query.muaId;
+    const rows = db.offerings.filter((o) => !muaId || o.mua_id === muaId).sort(newest);
+    return ok(paginate(rows.map((o) => offeringWithMua(db, o)), query));
+  },
+  { public: true }
+);
+
+route("GET", "/offerings/mine", ({ db, me, query }) =>
+  ok(paginate(db.offerings.filter((o) => o.mua_id === me!.id).sort(newest), query))
+);
+
+route(
+  "GET",
+  "/offerings/:id",
+  ({ db, params, query }) => {
+    const o = db.offerings.find((x) => String(x.id) === params.id);
+    if (!o) return notFound();
+    return ok({ data: query.include?.includes("mua") ? offeringWithMua(db, o) : o });
+  },
+  { public: true }
+);
+
+route(
+  "GET",
+  "/offerings/:id/mua",
+  ({ db, params }) => {
+    const o = db.offerings.find((x) => String(x.id) === params.id);
+    const u = o ? userById(db, o.mua_id) : null;
+    return u ? ok({ data: toLocation(u) }) : notFound();
+  },
+  { public: true }
+);
+
+/** Add-on dari form MUA: id lama dipertahankan, entri tanpa id (atau id asing) dapat id baru */
+function addOnList(db: DemoDb, v: unknown, current: OfferingAddOn[] = []): OfferingAddOn[] {
+  const out: OfferingAddOn[] = [];
+  for (const raw of Array.isArray(v) ? v : []) {
+    const name = String(typeof raw === "string" ? raw : raw?.name ?? "").trim();
+    if (!name) continue;
+    const prev = current.find((a) => raw?.id != null && String(a.id) === String(raw.id));
+    out.push({ id: prev?.id ?? nextId(db), name, price: Math.max(0, num(raw?.price)) });
+  }
+  return out;
+}
+
+function offeringFields(db: DemoDb, body: Record<string, any>, current?: Offering) {
+  const out: Partial<Offering> = {};
+  if ("name_offer" in body) out.name_offer = String(body.name_offer);
+  if ("makeup_type" in body) out.makeup_type = body.makeup_type || null;
+  if ("person" in body) out.person = num(body.person, 1);
+  if ("collaboration" in body) out.collaboration = body.collaboration || null;
+  if ("collaboration_price" in body) out.collaboration_price = body.collaboration_price ?? null;
+  if ("add_ons" in body) out.add_ons = addOnList(db, body.add_ons, offeringAddOns(current));
+  if ("date" in body) out.date = body.date || null;
+  if ("price" in body) out.price = num(body.price);
+  return out;
+}
+
+route("POST", "/offerings", ({ db, me, body }) => {
+  if (me!.profile.role !== "mua") return forbidden();
+  const invalid = required(body, { name_offer: "Nama paket", price: "Harga" });
+  if (invalid) return invalid;
+  const at = nowIso();
+  const o: Offering = {
+    id: nextId(db),
+    mua_id: me!.id,
+    name_offer: "",
+    offer_pictures: list(body!.offer_images),
+    add_ons: [],
+    ...offeringFields(db, body!),
+    created_at: at,
+    updated_at: at,
+  };
+  db.offerings.push(o);
+  return ok({ data: o }, 201);
+});
+
+route("PATCH", "/offerings/:id", (ctx) => {
+  const { item, error } = findOwned(ctx.db.offerings, ctx);
+  if (error) return error;
+  Object.assign(item!, offeringFields(ctx.db, ctx.body ?? {}, item!), { updated_at: nowIso() });
+  const added = list(ctx.body?.offer_images);
+  if (added.length) item!.offer_pictures = [...(item!.offer_pictures ?? []), ...added];
+  return ok({ data: item });
+});
+
+route("DELETE", "/offerings/:id/pictures", (ctx) => {
+  const { item, error } = findOwned(ctx.db.offerings, ctx);
+  if (error) return error;
+  const index = num(ctx.body?.index, -1);
+  const pics = [...(item!.offer_pictures ?? [])];
+  if (index < 0 || index >= pics.length) return fail(422, "Index foto tidak valid.", { index: ["Index foto tidak valid."] });
+  pics.splice(index, 1);
+  item!.offer_pictures = pics;
+  return ok({ data: item });
+});
+
+route("DELETE", "/offerings/:id", (ctx) => {
+  const { item, error } = findOwned(ctx.db.offerings, ctx);
+  if (error) return error;
+  ctx.db.offerings = ctx.db.offerings.filter((o) => o !== item);
+  return ok({ message: "Offering dihapus." });
+});
+
+/* --- Vouchers --- */
+/** Voucher contoh: satu global, satu khusus MUA demo, satu yang sudah kedaluwarsa */
+function vouchers(db: DemoDb): Voucher[] {
+  if (!db.vouchers) {
+    const day = 86_400_000;
+    const iso = (offset: number) => new Date(Date.now() + offset).toISOString();
+    const muaId = fixtures.users[1].id;
+    db.vouchers = [
+      { id: nextId(db), code: "SMSTUDIO10", type: "percent", value: 10, max_discount: 100_000, min_spend: null, mua_id: null, starts_at: iso(-30 * day), expires_at: iso(60 * day), usage_limit: 500, used_count: 42, per_user_limit: 1, is_active: true, description: "Diskon 10% untuk semua MUA.", created_at: iso(-30 * day), updated_at: iso(-30 * day) },
+      { id: nextId(db), code: "HEMAT50", type: "fixed", value: 50_000, max_discount: null, min_spend: 500_000, mua_id: muaId, starts_at: iso(-7 * day), expires_at: iso(30 * day), usage_limit: 20, used_count: 3, per_user_limit: null, is_active: true, description: null, created_at: iso(-7 * day), updated_at: iso(-7 * day) },
+      { id: nextId(db), code: "LEBARAN25", type: "percent", value: 25, max_discount: 150_000, min_spend: 300_000, mua_id: muaId, starts_at: iso(-90 * day), expires_at: iso(-60 * day), usage_limit: null, used_count: 17, per_user_limit: 1, is_active: true, description: null, created_at: iso(-90 * day), updated_at: iso(-90 * day) },
+    ];
+  }
+  return db.vouchers;
+}
+
+const voucherError = (message: string) => fail(422, message, { voucher_code: [message] });
+
+/** Aturan yang sama dengan backend: status, periode, kuota, MUA, min. belanja */
+function checkVoucher(db: DemoDb, me: DemoUser | null, code: unknown, offering: Offering, subtotal: number) {
+  const v = vouchers(db).find((x) => x.code === normalizeVoucherCode(String(code ?? "")));
+  if (!v || !v.is_active) return { error: voucherError("Kode voucher tidak ditemukan.") };
+  const now = Date.now();
+  if (v.starts_at && Date.parse(v.starts_at) > now) return { error: voucherError("Voucher belum bisa dipakai.") };
+  if (v.expires_at && Date.parse(v.expires_at) < now) return { error: voucherError("Voucher sudah kedaluwarsa.") };
+  if (v.usage_limit != null && (v.used_count ?? 0) >= v.usage_limit) {
+    return { error: voucherError("Kuota voucher sudah habis.") };
+  }
+  if (v.mua_id && v.mua_id !== offering.mua_id) return { error: voucherError("Voucher tidak berlaku untuk MUA ini.") };
+  if (me && v.per_user_limit) {
+    const used = db.bookings.filter(
+      (b) => b.customer_id === me.id && b.voucher_code === v.code && b.status !== "cancelled" && b.status !== "rejected"
+    ).length;
+    if (used >= v.per_user_limit) return { error: voucherError("Anda sudah memakai voucher ini.") };
+  }
+  if (v.min_spend && subtotal < v.min_spend) {
+    return { error: voucherError(`Minimal belanja IDR ${new Intl.NumberFormat("id-ID").format(v.min_spend)}.`) };
+  }
+  return { voucher: v, discount: voucherDiscount(v, subtotal) };
+}
+
+function voucherFields(body: Record<string, any>) {
+  const out: Partial<Voucher> = {};
+  const optNum = (v: unknown) => (v === null || v === undefined || v === "" ? null : num(v));
+  if ("code" in body) out.code = normalizeVoucherCode(String(body.code ?? ""));
+  if ("type" in body) out.type = body.type === "fixed" ? "fixed" : "percent";
+  if ("value" in body) out.value = num(body.value);
+  if ("max_discount" in body) out.max_discount = optNum(body.max_discount);
+  if ("min_spend" in body) out.min_spend = optNum(body.min_spend);
+  if ("starts_at" in body) out.starts_at = body.starts_at || null;
+  if ("expires_at" in body) out.expires_at = body.expires_at || null;
+  if ("usage_limit" in body) out.usage_limit = optNum(body.usage_limit);
+  if ("per_user_limit" in body) out.per_user_limit = optNum(body.per_user_limit);
+  if ("is_active" in body) out.is_active = bool(body.is_active);
+  if ("description" in body) out.description = body.description || null;
+  return out;
+}
+
+/** Validasi isi voucher setelah digabung dengan nilai lama (PATCH) */
+function invalidVoucher(db: DemoDb, v: Partial<Voucher>, id?: number): DemoResponse | null {
+  if (!v.code || !/^[A-Z0-9]{4,20}$/.test(v.code)) {
+    return fail(422, "Kode voucher tidak valid.", { code: ["Kode 4–20 karakter, huruf dan angka saja."] });
+  }
+  if (vouchers(db).some((x) => x.code === v.code && x.id !== id)) {
+    return fail(422, "Kode voucher sudah dipakai.", { code: ["Kode voucher sudah dipakai."] });
+  }
+  if (!(num(v.value) > 0) || (v.type === "percent" && num(v.value) > 100)) {
+    return fail(422, "Nilai voucher tidak valid.", {
+      value: [v.type === "percent" ? "Persen diskon harus 1–100." : "Potongan harus lebih dari 0."],
+    });
+  }
+  if (v.starts_at && v.expires_at && Date.parse(v.expires_at) <= Date.parse(v.starts_at)) {
+    return fail(422, "Tanggal berakhir harus setelah tanggal mulai.", {
+      expires_at: ["Tanggal berakhir harus setelah tanggal mulai."],
+    });
+  }
+  return null;
+}
+
+route(
+  "POST",
+  "/vouchers/validate",
+  ({ db, me, body }) => {
+    if (required(body, { code: "Kode voucher", offering_id: "Paket" })) return voucherError("Masukkan kode voucher.");
+    const offering = db.offerings.find((o) => String(o.id) === String(body!.offering_id));
+    if (!offering) return fail(422, "Paket tidak ditemukan.", { offering_id: ["Paket tidak ditemukan."] });
+    const { voucher, discount, error } = checkVoucher(db, me, body!.code, offering, num(body!.subtotal));
+    return error ?? ok({ data: { voucher, discount_amount: discount } });
+  },
+  { public: true }
+);
+
+route("GET", "/vouchers/mine", ({ db, me, query }) => {
+  if (me!.profile.role !== "mua") return forbidden();
+  return ok(paginate(vouchers(db).filter((v) => v.mua_id === me!.id).sort(newest), query));
+});
+
+route("POST", "/vouchers", ({ db, me, body }) => {
+  if (me!.profile.role !== "mua") return forbidden();
+  const invalid = required(body, { code: "Kode voucher", type: "Jenis potongan", value: "Nilai" });
+  if (invalid) return invalid;
+  const fields = { is_active: true, ...voucherFields(body!) };
+  const problem = invalidVoucher(db, fields);
+  if (problem) return problem;
+  const at = nowIso();
+  const v: Voucher = {
+    id: nextId(db),
+    code: "",
+    type: "percent",
+    value: 0,
+    ...fields,
+    mua_id: me!.id,
+    used_count: 0,
+    created_at: at,
+    updated_at: at,
+  };
+  vouchers(db).push(v);
+  return ok({ data: v }, 201);
+});
+
+route("PATCH", "/vouchers/:id", (ctx) => {
+  const { item, error } = findOwned(vouchers(ctx.db), ctx);
+  if (error) return error;
+  const next = { ...item!, ...voucherFields(ctx.body ?? {}) };
+  const problem = invalidVoucher(ctx.db, next, item!.id);
+  if (problem) return problem;
+  // kode yang sudah dipakai booking tidak boleh diganti (invoice menyimpan kodenya)
+  if (next.code !== item!.code && (item!.used_count ?? 0) > 0) {
+    return fail(422, "Kode voucher yang sudah dipakai tidak bisa diubah.", {
+      code: ["Kode voucher yang sudah dipakai tidak bisa diubah."],
+    });
+  }
+  Object.assign(item!, next, { updated_at: nowIso() });
+  return ok({ data: item });
+});
+
+route("DELETE", "/vouchers/:id", (ctx) => {
+  const { item, error } = findOwned(vouchers(ctx.db), ctx);
+  if (error) return error;
+  if ((item!.used_count ?? 0) > 0) return fail(422, "Voucher sudah dipakai; nonaktifkan saja.");
+  ctx.db.vouchers = vouchers(ctx.db).filter((v) => v !== item);
+  return ok({ message: "Voucher dihapus." });
+});
+
+/* --- Bookings --- */
+function bookingRows(ctx: Ctx) {
+  const { db, me, query } = ctx;
+  return db.bookings
+    .filter((b) => canSeeBooking(db, me!, b))
+    .filter((b) => !query.mua_id || b.mua_id === query.mua_id)
+    .filter((b) => !query.customer_id || b.customer_id === query.customer_id)
+    .filter((b) => !query.status || b.status === query.status)
+    .sort(newest)
+    .map((b) => withOffering(db, b));
+}
+
+route("GET", "/bookings", (ctx) => ok(paginate(bookingRows(ctx), ctx.query)));
+
+route("GET", "/bookings/mine", (ctx) => {
+  const rows = bookingRows(ctx).filter((b) => b.customer_id === ctx.me!.id || b.mua_id === ctx.me!.id);
+  return ok(paginate(rows, ctx.query));
+});
+
+route("GET", "/bookings/:id", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  return error ?? ok({ data: withOffering(ctx.db, booking!) });
+});
+
+route("POST", "/bookings", ({ db, me, body }) => {
+  // kontak customer harus terverifikasi supaya MUA bisa menghubungi
+  if (!me!.email_verified_at || !me!.profile.phone_verified_at) {
+    return { status: 403, body: { message: "Verifikasi email dan nomor HP sebelum membuat booking.", code: "contact_unverified" } };
+  }
+  const invalid = required(body, {
+    mua_id: "MUA",
+    offering_id: "Paket",
+    booking_date: "Tanggal",
+    booking_time: "Jam",
+    service_type: "Jenis layanan",
+  });
+  if (invalid) return invalid;
+  const b = body!;
+  if (b.service_type === "home_service" && !String(b.location_address ?? "").trim()) {
+    return fail(422, "Alamat wajib diisi untuk home service.", {
+      location_address: ["Alamat wajib diisi untuk home service."],
+    });
+  }
+  const offering = db.offerings.find((o) => String(o.id) === String(b.offering_id));
+  if (!offering) return fail(422, "Paket tidak ditemukan.", { offering_id: ["Paket tidak ditemukan."] });
+
+  // slot bentrok dengan booking lain (atau sudah lewat) → tolak, klien memuat ulang jadwal
+  const toMin = (t: string) => {
+    const [h, m] = t.split(":").map(Number);
+    return h * 60 + m;
+  };
+  const start = toMin(String(b.booking_time));
+  const startsAt = new Date(`${b.booking_date}T${String(b.booking_time).slice(0, 5)}:00`);
+  if (!(startsAt.getTime() >= Date.now() + DEMO_LEAD_MINUTES * 60_000)) {
+    return fail(422, "Jadwal terlalu dekat atau sudah lewat.", {
+      booking_time: [`Pilih jam minimal ${DEMO_LEAD_MINUTES / 60} jam dari sekarang.`],
+    });
+  }
+  const taken = busySlots(db, offering.mua_id, String(b.booking_date), String(b.booking_date)).some(
+    (s) => start < toMin(s.end) && start + DEMO_SLOT_MINUTES > toMin(s.start)
+  );
+  if (taken) {
+    return fail(409, "Jadwal MUA sudah terisi.", { booking_time: ["Jam ini sudah dipesan. Pilih jam lain."] });
+  }
+
+  const person = Math.max(1, num(b.person, 1));
+  // add-on dicocokkan ke paket (id, atau nama untuk add-on lama); harga dari klien diabaikan
+  const collabLine = collaborationAddOn(offering);
+  const offered = [...offeringAddOns(offering).map(toSelectedAddOn), ...(collabLine ? [collabLine] : [])];
+  const addOns: SelectedAddOn[] = [];
+  for (const raw of Array.isArray(b.selected_add_ons) ? b.selected_add_ons : []) {
+    const match = offered.find((a) =>
+      raw?.id != null && a.id != null ? String(a.id) === String(raw.id) : a.name === String(raw?.name ?? "").trim()
+    );
+    if (!match) {
+      return fail(422, "Add-on tidak tersedia di paket ini.", {
+        selected_add_ons: ["Add-on yang dipilih sudah tidak tersedia."],
+      });
+    }
+    if (!addOns.includes(match)) addOns.push(match);
+  }
+  // harga, diskon & pajak tidak pernah diambil dari klien
+  const tax = PRICING_CONFIG.taxPercent;
+  const priceInput = {
+    unitPrice: num(offering.price),
+    persons: person,
+    addOns,
+    taxPercent: tax,
+  };
+  // potongan voucher dihitung di sini dari kode yang dikirim
+  let voucher: Voucher | undefined;
+  let discount = 0;
+  if (String(b.voucher_code ?? "").trim()) {
+    const checked = checkVoucher(db, me, b.voucher_code, offering, computePrice(priceInput).subtotal);
+    if (checked.error) return checked.error;
+    voucher = checked.voucher;
+    discount = checked.discount;
+  }
+  const price = computePrice({ ...priceInput, discount, discountLabel: voucher && `Voucher ${voucher.code}` });
+  const at = nowIso();
+  const id = nextId(db);
+
+  const booking: Booking = {
+    id,
+    customer_id: me!.id,
+    mua_id: offering.mua_id,
+    offering_id: offering.id,
+    booking_date: String(b.booking_date),
+    booking_time: String(b.booking_time),
+    service_type: b.service_type,
+    location_address: b.location_address ?? null,
+    notes: b.notes ?? null,
+    person,
+    invoice_number: invoiceNumber(db),
+    invoice_date: b.invoice_date ?? at.slice(0, 10),
+    due_date: b.due_date ?? null,
+    // amount = harga paket × jumlah orang (sama dengan yang dikirim form)
+    amount: price.base,
+    selected_add_ons: addOns,
+    subtotal: price.subtotal,
+    tax,
+    tax_amount: price.tax,
+    discount_amount: price.discount,
+    voucher_code: voucher?.code ?? null,
+    grand_total: price.total,
+    // demo: MUA langsung menerima supaya booking tampil di tab Booking MUA
+    status: "confirmed",
+    job_status: null,
+    payment_method: b.payment_method ?? "manual",
+    payment_status: "unpaid",
+    created_at: at,
+    updated_at: at,
+  };
+  db.bookings.push(booking);
+  if (voucher) voucher.used_count = (voucher.used_count ?? 0) + 1;
+
+  const when = `${booking.booking_date} ${booking.booking_time}`;
+  notify(
+    db,
+    booking.mua_id,
+    "Booking baru",
+    `Booking baru ${booking.invoice_number} dari ${me!.profile.name ?? "pelanggan"} untuk ${offering.name_offer} pada ${when}.`,
+    "booking"
+  );
+  notify(
+    db,
+    me!.id,
+    "Booking dibuat",
+    `Booking ${booking.invoice_number} (${offering.name_offer}) berhasil dibuat untuk ${when}.`,
+    "booking"
+  );
+  return ok({ data: withOffering(db, booking) }, 201);
+});
+
+route("PUT", "/bookings/:id", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  const editable = [
+    "booking_date",
+    "booking_time",
+    "service_type",
+    "location_address",
+    "notes",
+    "person",
+    "status",
+    "payment_status",
+    "job_status",
+  ];
+  const changes = Object.fromEntries(Object.entries(ctx.body ?? {}).filter(([k]) => editable.includes(k)));
+  Object.assign(booking!, changes, { updated_at: nowIso() });
+  return ok({ data: withOffering(ctx.db, booking!) });
+});
+
+route("DELETE", "/bookings/:id", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  ctx.db.bookings = ctx.db.bookings.filter((b) => b !== booking);
+  return ok({ message: "Booking dihapus." });
+});
+
+route("POST", "/bookings/:id/complete", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  if (booking!.mua_id !== ctx.me!.id) return forbidden();
+  Object.assign(booking!, { status: "completed", job_status: "done", updated_at: nowIso() });
+  notify(
+    ctx.db,
+    booking!.customer_id,
+    "Booking selesai",
+    `Booking ${booking!.invoice_number} telah ditandai selesai oleh ${ctx.me!.profile.name}.`,
+    "booking"
+  );
+  return ok({ message: "Booking selesai.", data: withOffering(ctx.db, booking!) });
+});
+
+/* --- Payment (transfer manual) --- */
+route("POST", "/bookings/:id/payment-proof", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  const b = booking!;
+  if (b.customer_id !== ctx.me!.id) return forbidden();
+  if (b.payment_status === "paid" || b.payment_status === "refunded") return fail(422, "Booking ini sudah lunas.");
+  if (b.status === "cancelled" || b.status === "rejected") return fail(422, "Booking ini sudah dibatalkan.");
+  const invalid = required(ctx.body, { proof: "Bukti transfer" });
+  if (invalid) return invalid;
+  const at = nowIso();
+  Object.assign(b, {
+    payment_proof_url: String(ctx.body!.proof),
+    payment_proof_status: "pending",
+    payment_proof_uploaded_at: at,
+    payment_rejection_reason: null,
+    updated_at: at,
+  });
+  notify(
+    ctx.db,
+    b.mua_id,
+    "Bukti transfer masuk",
+    `${ctx.me!.profile.name ?? "Customer"} mengunggah bukti transfer untuk booking ${b.invoice_number}. Cek lalu tandai lunas atau tolak.`,
+    "payment"
+  );
+  return ok({ message: "Bukti transfer terkirim.", data: withOffering(ctx.db, b) });
+});
+
+route("POST", "/bookings/:id/payment/approve", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  const b = booking!;
+  if (b.mua_id !== ctx.me!.id) return forbidden();
+  if (b.payment_status === "paid") return fail(422, "Booking ini sudah lunas.");
+  const at = nowIso();
+  Object.assign(b, {
+    payment_status: "paid",
+    payment_proof_status: b.payment_proof_url ? "approved" : null,
+    payment_rejection_reason: null,
+    paid_at: at,
+    updated_at: at,
+  });
+  notify(
+    ctx.db,
+    b.customer_id,
+    "Pembayaran diterima",
+    `Pembayaran booking ${b.invoice_number} sudah dikonfirmasi oleh ${ctx.me!.profile.name}.`,
+    "payment"
+  );
+  return ok({ message: "Pembayaran ditandai lunas.", data: withOffering(ctx.db, b) });
+});
+
+route("POST", "/bookings/:id/payment/reject", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  const b = booking!;
+  if (b.mua_id !== ctx.me!.id) return forbidden();
+  if (b.payment_proof_status !== "pending") return fail(422, "Tidak ada bukti transfer yang menunggu verifikasi.");
+  const invalid = required(ctx.body, { reason: "Alasan" });
+  if (invalid) return invalid;
+  const reason = String(ctx.body!.reason).trim();
+  Object.assign(b, { payment_proof_status: "rejected", payment_rejection_reason: reason, updated_at: nowIso() });
+  notify(
+    ctx.db,
+    b.customer_id,
+    "Bukti transfer ditolak",
+    `Bukti transfer booking ${b.invoice_number} ditolak: ${reason}. Silakan unggah ulang.`,
+    "payment"
+  );
+  return ok({ message: "Bukti transfer ditolak.", data: withOffering(ctx.db, b) });
+});
+
+route("POST", "/bookings/:id/collaborators", (ctx) => {
+  const { booking, error } = findBooking(ctx);
+  if (error) return error;
+  if (booking!.mua_id !== ctx.me!.id) return forbidden();
+  const ids = list(ctx.body?.profile_ids);
+  if (!ids.length) return fail(422, "Pilih minimal satu collaborator.", { profile_ids: ["Pilih minimal satu collaborator."] });
+  const role = String(ctx.body?.role ?? "assistant");
+  for (const pid of ids) {
+    if (!userById(ctx.db, pid)) continue;
+    const n = notify(
+      ctx.db,
+      pid,
+      "Undangan Kolaborasi",
+      `${ctx.me!.profile.name} mengundang Anda sebagai ${role} untuk booking ${booking!.invoice_number} pada ${booking!.booking_date} ${booking!.booking_time}.`,
+      "booking_invite"
+    );
+    ctx.db.collaborations.push({
+      id: nextId(ctx.db),
+      booking_id: booking!.id,
+      profile_id: pid,
+      notification_id: n.id,
+      role,
+      status: "invited",
+    });
+  }
+  return ok({ message: "Undangan terkirim." });
+});
+
+route("POST", "/bookings/:id/collaborators/respond", ({ db, me, params, body }) => {
+  const c = db.collaborations.find(
+    (x) =>
+      String(x.booking_id) === params.id &&
+      x.profile_id === me!.id &&
+      (!body?.notification_id || String(x.notification_id) === String(body.notification_id))
+  );
+  if (!c) return notFound();
+  c.status = body?.status === "accepted" ? "accepted" : "declined";
+  const booking = db.bookings.find((b) => b.id === c.booking_id);
+  if (booking) {
+    notify(
+      db,
+      booking.mua_id,
+      c.status === "accepted" ? "Undangan diterima" : "Undangan ditolak",
+      `${me!.profile.name} ${c.status === "accepted" ? "menerima" : "menolak"} undangan untuk booking ${booking.invoice_number}.`,
+      "booking"
+    );
+  }
+  return ok({ message: c.status === "accepted" ? "Undangan diterima." : "Undangan ditolak." });
+});
+
+/* --- Notifications --- */
+const myNotifications = (db: DemoDb, me: DemoUser) => db.notifications.filter((n) => n.user_id === me.id);
+
+route("GET", "/notifications", ({ db, me, query }) => ok(paginate(myNotifications(db, me!).sort(newest), query)));
+
+route("GET", "/notifications/unread-count", ({ db, me }) =>
+  ok({ count: myNotifications(db, me!).filter((n) => !n.is_read).length })
+);
+
+route("PATCH", "/notifications/read-all", ({ db, me }) => {
+  myNotifications(db, me!).forEach((n) => (n.is_read = true));
+  return ok({ message: "Semua notifikasi ditandai dibaca." });
+});
+
+route("DELETE", "/notifications", ({ db, me, query }) => {
+  const onlyRead = bool(query.only_read);
+  db.notifications = db.notifications.filter((n) => n.user_id !== me!.id || (onlyRead && !n.is_read));
+  return ok({ message: "Notifikasi dihapus." });
+});
+
+function findNotification({ db, me, params }: Ctx) {
+  return myNotifications(db, me!).find((n) => String(n.id) === params.id) ?? null;
+}
+
+route("GET", "/notifications/:id", (ctx) => {
+  const n = findNotification(ctx);
+  return n ? ok({ data: n }) : notFound();
+});
+
+route("PATCH", "/notifications/:id/read", (ctx) => {
+  const n = findNotification(ctx);
+  if (!n) return notFound();
+  n.is_read = ctx.body?.is_read === undefined ? true : bool(ctx.body.is_read);
+  n.updated_at = nowIso();
+  return ok({ data: n });
+});
+
+route("DELETE", "/notifications/:id", (ctx) => {
+  const n = findNotification(ctx);
+  if (!n) return notFound();
+  ctx.db.notifications = ctx.db.notifications.filter((x) => x !== n);
+  return ok({ message: "Notifikasi dihapus." });
+});
+
+/* --- Portfolio --- */
+route(
+  "GET",
+  "/portfolios",
+  ({ db, query }) => {
+    const muaId = query.muaId || query.mua_id;
+    const dir = query.dir === "asc" ? -1 : 1;
+    const rows = db.portfolios.filter((p) => !muaId || p.mua_id === muaId).sort((a, b) => dir * newest(a, b));
+    return ok(paginate(rows, query));
+  },
+  { public: true }
+);
+
+route(
+  "GET",
+  "/portfolios/:id",
+  ({ db, params }) => {
+    const p = db.portfolios.find((x) => String(x.id) === params.id);
+    return p ? ok({ data: p }) : notFound();
+  },
+  { public: true }
+);
+
+route("POST", "/portfolios", ({ db, me, body }) => {
+  if (me!.profile.role !== "mua") return forbidden();
+  const invalid = required(body, { name: "Nama portfolio" });
+  if (invalid) return invalid;
+  const at = nowIso();
+  const p: Portfolio = {
+    id: nextId(db),
+    mua_id: me!.id,
+    name: String(body!.name),
+    photos: list(body!.photos),
+    makeup_type: body!.makeup_type ?? null,
+    collaboration: body!.collaboration ?? null,
+    created_at: at,
+    updated_at: at,
+  };
+  db.portfolios.push(p);
+  return ok({ data: p }, 201);
+});
+
+route("PATCH", "/portfolios/:id", (ctx) => {
+  const { item, error } = findOwned(ctx.db.portfolios, ctx);
+  if (error) return error;
+  const b = ctx.body ?? {};
+  if ("name" in b) item!.name = String(b.name);
+  if ("makeup_type" in b) item!.makeup_type = b.makeup_type || null;
+  if ("collaboration" in b) item!.collaboration = b.collaboration || null;
+  // form edit mengirim ulang foto lama + foto baru di photos[]
+  if ("photos" in b) item!.photos = list(b.photos);
+  item!.updated_at = nowIso();
+  return ok({ data: item });
+});
+
+route("DELETE", "/portfolios/:id", (ctx) => {
+  const { item, error } = findOwned(ctx.db.portfolios, ctx);
+  if (error) return error;
+  ctx.db.portfolios = ctx.db.portfolios.filter((p) => p !== item);
+  return ok({ message: "Portfolio dihapus." });
+});
+
+/* ===== Dispatch ===== */
+function match(r: Route, method: string, parts: string[]) {
+  if (r.method !== method || r.parts.length !== parts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    const p = r.parts[i];
+    if (p.startsWith(":")) params[p.slice(1)] = decodeURIComponent(parts[i]);
+    else if (p !== parts[i]) return null;
+  }
+  return params;
+}
+
+function userFromToken(db: DemoDb, headers: Record<string, string>) {
+  const auth = headers.Authorization ?? headers.authorization ?? "";
+  const token = auth.replace(/^Bearer\s+/i, "");
+  return token.startsWith(TOKEN_PREFIX) ? userById(db, token.slice(TOKEN_PREFIX.length)) : null;
+}
+
+/**
+ * Jalankan satu request terhadap `db` (dimutasi langsung). Rute statis dicocokkan
+ * lebih dulu daripada rute ber-parameter (mis. /offerings/mine sebelum /offerings/:id).
+ */
+export function handleDemoRequest(db: DemoDb, req: DemoRequest): DemoResponse {
+  // Laravel method spoofing untuk multipart
+  const spoofed = req.method === "POST" && typeof req.body?._method === "string" ? req.body._method : null;
+  const method = (spoofed || req.method).toUpperCase();
+  const parts = req.path.split("?")[0].split("/").filter(Boolean);
+
+  const key = req.headers["Idempotency-Key"] ?? req.headers["idempotency-key"];
+  if (key && db.idempotency[key]) return db.idempotency[key];
+
+  const candidates = routes
+    .map((r) => ({ r, params: match(r, method, parts) }))
+    .filter((x): x is { r: Route; params: Record<string, string> } => !!x.params)
+    .sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+  const hit = candidates[0];
+  if (!hit) return fail(404, `Endpoint demo tidak tersedia: ${method} /${parts.join("/")}`);
+
+  const me = userFromToken(db, req.headers);
+  if (!hit.r.public && !me) return fail(401, "Unauthenticated.");
+
+  const res = hit.r.handler({ ...req, db, params: hit.params, me });
+  if (key && res.status < 500) db.idempotency[key] = res;
+  return res;
+}
@@ -0,0 +1,19 @@
+// lib/device.ts
+/* Nama perangkat yang dikirim saat login/register; backend menyimpannya di token
+ * supaya layar "Sesi & Perangkat" bisa menampilkan perangkat mana yang masih masuk. */
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+
+const OS_LABELS: Record<string, string> = { ios: "iOS", android: "Android", web: "Web" };
+
+export function platformLabel(os: string | null | undefined) {
+  if (!os) return "Perangkat lain";
+  return OS_LABELS[os.toLowerCase()] ?? os;
+}
+
+/** mis. "Pixel 7 (Android)"; tanpa nama perangkat → "SM Studio iOS" */
+export function deviceName() {
+  const name = Constants.deviceName?.trim();
+  const os = platformLabel(Platform.OS);
+  return name ? `${name} (${os})` : `SM Studio ${os}`;
+}
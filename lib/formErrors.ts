@@ -0,0 +1,47 @@
+import { useCallback, useState } from "react";
+import { ApiError, isValidationError } from "./api";
+
+/** Satu pesan per field, siap ditampilkan di bawah input */
+export type FormErrors = Record<string, string>;
+
+/**
+ * Ratakan `errors` Laravel: ambil pesan pertama per field. Key bertingkat
+ * ("offer_pictures.0") juga dipasang ke field induknya ("offer_pictures").
+ */
+export function toFormErrors(e: ApiError): FormErrors {
+  const out: FormErrors = {};
+  for (const [key, messages] of Object.entries(e.errors)) {
+    const msg = messages[0];
+    out[key] = msg;
+    const root = key.split(".")[0];
+    if (!out[root]) out[root] = msg;
+  }
+  return out;
+}
+
+/**
+ * State error per field untuk form.
+ * `apply(e)` → true bila error validasi sudah dipetakan ke field (tidak perlu Alert).
+ */
+export function useFieldErrors() {
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const apply = useCallback((e: unknown) => {
+    if (!isValidationError(e) || !Object.keys(e.errors).length) return false;
+    setErrors(toFormErrors(e));
+    return true;
+  }, []);
+
+  /** hapus error satu field (saat user mengetik) atau semuanya */
+  const clear = useCallback((field?: string) => {
+    setErrors((prev) => {
+      if (!field) return Object.keys(prev).length ? {} : prev;
+      if (!(field in prev)) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  }, []);
+
+  return { errors, apply, clear, setErrors };
+}
@@ -0,0 +1,74 @@
+// lib/guest.ts
+/* Mode tamu: tanpa akun pengguna boleh melihat beranda, daftar MUA, detail jasa,
+ * profil MUA & portofolio. Login/daftar baru diminta saat booking (atau aksi akun
+ * lain); setelah berhasil, pengguna dikembalikan ke layar & draft yang sama. */
+import { useCallback } from "react";
+import { Alert } from "react-native";
+import { useRouter, type Href } from "expo-router";
+import { useAuth } from "./auth";
+
+/* ===== Return target ===== */
+/** Layar tujuan setelah login/daftar dari mode tamu (dipakai SessionGuard grup "(auth)") */
+let loginReturn: Href | null = null;
+
+export function setLoginReturn(target: Href | null) {
+  loginReturn = target;
+}
+
+export function hasLoginReturn() {
+  return loginReturn !== null;
+}
+
+/** Ambil sekali pakai */
+export function takeLoginReturn() {
+  const target = loginReturn;
+  loginReturn = null;
+  return target;
+}
+
+/* ===== Draft ===== */
+// hanya di memori: cukup untuk bolak-balik ke layar login, tidak perlu bertahan setelah app ditutup
+const drafts = new Map<string, unknown>();
+
+export function saveDraft<T>(key: string, draft: T) {
+  drafts.set(key, draft);
+}
+
+export function readDraft<T>(key: string): T | null {
+  return (drafts.get(key) as T | undefined) ?? null;
+}
+
+export function clearDraft(key: string) {
+  drafts.delete(key);
+}
+
+/* ===== Login prompt ===== */
+export type AuthEntry = "login" | "register";
+
+/** Buka login/daftar; `returnTo` null = setelah login ke beranda sesuai role */
+export function openAuthFromGuest(router: ReturnType<typeof useRouter>, entry: AuthEntry, returnTo: Href | null = null) {
+  setLoginReturn(returnTo);
+  router.push(entry === "register" ? "/(auth)/register?as=pengguna" : "/(auth)/login");
+}
+
+/**
+ * `requireLogin({ message, returnTo })` → true bila sudah login. Tamu mendapat
+ * pilihan Masuk/Daftar dan false dikembalikan (aksi dibatalkan).
+ */
+export function useRequireLogin() {
+  const router = useRouter();
+  const { status } = useAuth();
+
+  return useCallback(
+    ({ message, returnTo = null }: { message: string; returnTo?: Href | null }) => {
+      if (status !== "signedOut") return true;
+      Alert.alert("Masuk dulu", message, [
+        { text: "Nanti", style: "cancel" },
+        { text: "Daftar", onPress: () => openAuthFromGuest(router, "register", returnTo) },
+        { text: "Masuk", onPress: () => openAuthFromGuest(router, "login", returnTo) },
+      ]);
+      return false;
+    },
+    [router, status]
+  );
+}
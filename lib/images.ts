@@ -0,0 +1,31 @@
+// lib/images.ts
+/* Foto dari galeri sebelum diunggah (offering, bukti transfer): dikecilkan dulu supaya
+ * upload lewat jaringan seluler tidak lama dan tidak kena batas ukuran server. */
+import * as ImageManipulator from "expo-image-manipulator";
+import { createLogger } from "./logger";
+
+const log = createLogger("UI");
+
+/* ===== Types ===== */
+/** Bentuk file yang diterima FormData React Native */
+export type LocalImage = { uri: string; name: string; type: string };
+
+/* ===== Helpers ===== */
+/** Kompres ringan (resize width max 1600, jpeg 0.8) */
+export async function compressImage(uri: string): Promise<LocalImage> {
+  // ImageManipulator kadang gagal pada content:// URIs di Android.
+  // Jika gagal, fallback kembalikan uri asli (server biasanya menerima).
+  try {
+    const out = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ resize: { width: 1600 } }],
+      { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    return { uri: out.uri, name: `photo_${Date.now()}.jpg`, type: "image/jpeg" };
+  } catch (e) {
+    log.warn("compressImage failed, fallback to original uri", e);
+    const ext = (uri.split(".").pop() || "jpg").split(/\?|#/)[0];
+    const type = ext === "png" ? "image/png" : ext === "webp" ? "image/webp" : "image/jpeg";
+    return { uri, name: `photo_${Date.now()}.${ext}`, type };
+  }
+}
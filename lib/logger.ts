@@ -0,0 +1,166 @@
+// lib/logger.ts
+/* Logger berlevel + tag per subsistem. Semua argumen di-redact sebelum ditulis ke
+ * console maupun ring buffer, jadi aman dipakai untuk data request/profil. */
+
+/* ===== Types ===== */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogTag =
+  | "API"
+  | "AUTH"
+  | "BOOT"
+  | "BOOKING"
+  | "DEMO"
+  | "ENV"
+  | "MUA"
+  | "NOTIF"
+  | "OFFERING"
+  | "OUTBOX"
+  | "PORTFOLIO"
+  | "PROFILE"
+  | "QUERY"
+  | "STORAGE"
+  | "UI"
+  | "VOUCHER";
+
+export type LogEntry = {
+  /** epoch ms */
+  t: number;
+  level: LogLevel;
+  tag: LogTag;
+  /** pesan yang sudah di-redact & diserialisasi */
+  msg: string;
+};
+
+export type Logger = Record<LogLevel, (...args: unknown[]) => void>;
+
+/* ===== Const ===== */
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const SILENT = 100;
+const BUFFER_SIZE = 300;
+const MAX_DEPTH = 5;
+const MAX_STRING = 2_000;
+
+const REDACTED = "[REDACTED]";
+/** key yang nilainya selalu disembunyikan (token, kredensial, data pribadi) */
+const SENSITIVE_KEY = /token|authorization|password|secret|otp|phone|address|^(lat|lng|latitude|longitude)$|^location_(lat|lng)$/i;
+
+const STRING_PATTERNS: [RegExp, string][] = [
+  [/(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi, `$1${REDACTED}`],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, REDACTED],
+  [/([?&](?:token|access_token|refresh_token|password)=)[^&\s"]+/gi, `$1${REDACTED}`],
+  // nomor HP Indonesia / internasional (8+ digit, boleh spasi/strip)
+  [/(?:\+?62|\b0)8[\d\s-]{7,13}\d/g, "[PHONE]"],
+];
+
+/* ===== Config ===== */
+/** production: console diam; ring buffer tetap mencatat untuk ekspor diagnostik */
+let consoleLevel = __DEV__ ? LEVELS.debug : SILENT;
+let bufferLevel = __DEV__ ? LEVELS.debug : LEVELS.info;
+
+/** Dipanggil saat boot sesuai environment (features.verboseLogs) */
+export function configureLogger(opts: { verbose: boolean }) {
+  if (__DEV__) return;
+  consoleLevel = opts.verbose ? LEVELS.info : SILENT;
+  bufferLevel = opts.verbose ? LEVELS.debug : LEVELS.info;
+}
+
+/* ===== Redaction ===== */
+export function redactString(s: string): string {
+  let out = s.length > MAX_STRING ? `${s.slice(0, MAX_STRING)}…` : s;
+  for (const [re, rep] of STRING_PATTERNS) out = out.replace(re, rep);
+  return out;
+}
+
+/** Salinan nilai dengan data sensitif disembunyikan (aman untuk log/ekspor) */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (seen.has(value)) return "[Circular]";
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? `[Array(${value.length})]` : "[Object]";
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const e = value as Error & { status?: number; kind?: string; data?: unknown };
+    return {
+      name: e.name,
+      message: redactString(e.message),
+      ...(e.status !== undefined ? { status: e.status } : {}),
+      ...(e.kind ? { kind: e.kind } : {}),
+      ...(e.data !== undefined && e.data !== null ? { data: redact(e.data, depth + 1, seen) } : {}),
+    };
+  }
+  if (typeof FormData !== "undefined" && value instanceof FormData) return "[FormData]";
+  if (Array.isArray(value)) {
+    const list = value.slice(0, 20).map((v) => redact(v, depth + 1, seen));
+    return value.length > 20 ? [...list, `…(+${value.length - 20})`] : list;
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = SENSITIVE_KEY.test(k) && v !== null && v !== undefined && v !== "" ? REDACTED : redact(v, depth + 1, seen);
+  }
+  return out;
+}
+
+function stringify(v: unknown): string {
+  if (typeof v === "string") return v;
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+/* ===== Ring buffer ===== */
+const buffer: LogEntry[] = [];
+
+function push(entry: LogEntry) {
+  buffer.push(entry);
+  if (buffer.length > BUFFER_SIZE) buffer.splice(0, buffer.length - BUFFER_SIZE);
+}
+
+export function getLogEntries(): readonly LogEntry[] {
+  return buffer;
+}
+
+export function clearLogs() {
+  buffer.length = 0;
+}
+
+/** Teks polos untuk laporan bug (sudah ter-redact) */
+export function exportLogs(header?: string): string {
+  const lines = buffer.map(
+    (e) => `${new Date(e.t).toISOString()} ${e.level.toUpperCase().padEnd(5)} [${e.tag}] ${e.msg}`
+  );
+  return [header, ...lines].filter(Boolean).join("\n");
+}
+
+/* ===== Logger ===== */
+const CONSOLE: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: (...a) => console.debug(...a),
+  info: (...a) => console.log(...a),
+  warn: (...a) => console.warn(...a),
+  error: (...a) => console.error(...a),
+};
+
+function write(tag: LogTag, level: LogLevel, args: unknown[]) {
+  const rank = LEVELS[level];
+  if (rank < consoleLevel && rank < bufferLevel) return;
+  const safe = args.map((a) => redact(a));
+  if (rank >= bufferLevel) push({ t: Date.now(), level, tag, msg: safe.map(stringify).join(" ") });
+  if (rank >= consoleLevel) CONSOLE[level](`[${tag}]`, ...safe);
+}
+
+/**
+ *   const log = createLogger("API");
+ *   log.debug("Request:", method, url);
+ */
+export function createLogger(tag: LogTag): Logger {
+  return {
+    debug: (...args) => write(tag, "debug", args),
+    info: (...args) => write(tag, "info", args),
+    warn: (...args) => write(tag, "warn", args),
+    error: (...args) => write(tag, "error", args),
+  };
+}
@@ -0,0 +1,145 @@
+// lib/onboarding.ts
+/* Wizard onboarding MUA setelah registrasi. Progres disimpan per profil di perangkat
+ * supaya bisa dilanjutkan (app ditutup, "Nanti saja"); langkah yang datanya sudah ada
+ * di server (foto, bio, ...) otomatis dianggap selesai saat wizard dibuka lagi. */
+import { useCallback, useEffect, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createLogger } from "./logger";
+import type { Me } from "./types";
+
+const log = createLogger("MUA");
+
+/* ===== Types ===== */
+export const ONBOARDING_STEPS = ["photo", "bio", "services", "location", "offering", "portfolio"] as const;
+export type OnboardingStep = (typeof ONBOARDING_STEPS)[number];
+
+export type OnboardingProgress = {
+  /** langkah yang terakhir dibuka (dilanjutkan dari sini) */
+  step: OnboardingStep;
+  completed: OnboardingStep[];
+  /** "Nanti saja" → tidak dibuka otomatis, cukup kartu pengingat di dashboard */
+  snoozed: boolean;
+  done: boolean;
+  startedAt: string;
+};
+
+export const ONBOARDING_LABELS: Record<OnboardingStep, string> = {
+  photo: "Foto profil",
+  bio: "Bio",
+  services: "Layanan",
+  location: "Lokasi",
+  offering: "Penawaran pertama",
+  portfolio: "Portofolio pertama",
+};
+
+/** Pilihan layanan; label sama dengan yang tampil di profil MUA */
+export const MUA_SERVICES = ["Bridal", "Wisuda", "Party", "Photoshoot", "SFX"];
+
+/* ===== Const ===== */
+const KEY_PREFIX = "mua_onboarding_v1:";
+
+/* ===== Pure helpers ===== */
+export function nextIncompleteStep(completed: OnboardingStep[]): OnboardingStep | null {
+  return ONBOARDING_STEPS.find((s) => !completed.includes(s)) ?? null;
+}
+
+/** Tandai langkah selesai (atau dilewati) dan pindah ke langkah berikutnya yang belum selesai */
+export function advanceOnboarding(
+  progress: OnboardingProgress,
+  step: OnboardingStep,
+  opts: { skipped?: boolean } = {}
+): OnboardingProgress {
+  const completed = opts.skipped || progress.completed.includes(step) ? progress.completed : [...progress.completed, step];
+  const after = ONBOARDING_STEPS.slice(ONBOARDING_STEPS.indexOf(step) + 1);
+  const next = after.find((s) => !completed.includes(s)) ?? nextIncompleteStep(completed);
+  return { ...progress, completed, step: next ?? step, done: completed.length === ONBOARDING_STEPS.length };
+}
+
+/** Langkah profil yang datanya sudah terisi di server */
+export function stepsDoneFromMe(me: Me | null): OnboardingStep[] {
+  const p = me?.profile ?? me;
+  if (!p) return [];
+  const done: OnboardingStep[] = [];
+  if (p.photo_url) done.push("photo");
+  if (typeof p.bio === "string" && p.bio.trim()) done.push("bio");
+  const services = Array.isArray(p.services) ? p.services : p.services ? [p.services] : [];
+  if (services.length) done.push("services");
+  if (p.location_lat != null && p.location_lng != null && p.location_lat !== "" && p.location_lng !== "") {
+    done.push("location");
+  }
+  return done;
+}
+
+/* ===== Store ===== */
+type Listener = (profileId: string, progress: OnboardingProgress | null) => void;
+const listeners = new Set<Listener>();
+
+function emit(profileId: string, progress: OnboardingProgress | null) {
+  listeners.forEach((fn) => fn(profileId, progress));
+}
+
+export async function getOnboarding(profileId: string): Promise<OnboardingProgress | null> {
+  try {
+    const raw = await AsyncStorage.getItem(KEY_PREFIX + profileId);
+    return raw ? (JSON.parse(raw) as OnboardingProgress) : null;
+  } catch (e) {
+    log.warn("read onboarding failed", e);
+    return null;
+  }
+}
+
+export async function saveOnboarding(profileId: string, progress: OnboardingProgress) {
+  emit(profileId, progress);
+  try {
+    await AsyncStorage.setItem(KEY_PREFIX + profileId, JSON.stringify(progress));
+  } catch (e) {
+    log.warn("save onboarding failed", e);
+  }
+}
+
+/** Dipanggil saat registrasi MUA berhasil, sebelum sesi dibuat */
+export function startOnboarding(profileId: string) {
+  return saveOnboarding(profileId, {
+    step: ONBOARDING_STEPS[0],
+    completed: [],
+    snoozed: false,
+    done: false,
+    startedAt: new Date().toISOString(),
+  });
+}
+
+/** Progres onboarding profil ini; null = tidak ada onboarding (akun lama / sudah dihapus) */
+export function useMuaOnboarding(profileId: string | null) {
+  const [progress, setProgress] = useState<OnboardingProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!profileId) {
+      setProgress(null);
+      setLoading(false);
+      return;
+    }
+    let alive = true;
+    setLoading(true);
+    getOnboarding(profileId).then((p) => {
+      if (!alive) return;
+      setProgress(p);
+      setLoading(false);
+    });
+    const onChange: Listener = (id, p) => {
+      if (id === profileId) setProgress(p);
+    };
+    listeners.add(onChange);
+    return () => {
+      alive = false;
+      listeners.delete(onChange);
+    };
+  }, [profileId]);
+
+  const save = useCallback(
+    (next: OnboardingProgress) => (profileId ? saveOnboarding(profileId, next) : Promise.resolve()),
+    [profileId]
+  );
+
+  return { progress, loading, save };
+}
@@ -0,0 +1,309 @@
+// lib/outbox.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import { AppState } from "react-native";
+import { useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { onAuthCleared } from "../utils/authStorage";
+import { ApiError, fetchWithAuth } from "./api";
+import { invalidateQueries } from "./query";
+import type { Id } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("OUTBOX");
+
+/* ===== Types ===== */
+export type OutboxKind =
+  | "booking.create"
+  | "profile.update"
+  | "notification.read"
+  | "notification.delete";
+
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+/** Mutasi JSON yang bisa disimpan & dikirim ulang (FormData tidak bisa diserialisasi) */
+export type OutboxRequest = {
+  kind: OutboxKind;
+  /** teks singkat untuk UI, mis. "Booking Bridal Package #1" */
+  label: string;
+  method: "POST" | "PUT" | "PATCH" | "DELETE";
+  endpoint: string;
+  body?: Record<string, unknown>;
+  /** prefix query yang di-invalidate setelah terkirim */
+  invalidate?: string[];
+};
+
+export type OutboxItem = OutboxRequest & {
+  id: string;
+  /** dikirim sebagai header Idempotency-Key — server mengabaikan duplikat */
+  idempotencyKey: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** epoch ms percobaan berikutnya (status pending) */
+  nextAt: number;
+  error?: string | null;
+  createdAt: number;
+  sentAt?: number | null;
+};
+
+export type SendResult<T> = { queued: false; data: T } | { queued: true; item: OutboxItem };
+
+/* ===== Const ===== */
+const STORAGE_KEY = "outbox_v1";
+const BASE_DELAY = 2_000;
+const MAX_DELAY = 5 * 60_000;
+const MAX_ATTEMPTS = 8;
+/** item "sent" disimpan sebentar supaya statusnya sempat terlihat di UI */
+const SENT_TTL = 10 * 60_000;
+
+/* ===== Store ===== */
+let items: OutboxItem[] = [];
+let hydrated = false;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((fn) => fn());
+}
+
+function setItems(next: OutboxItem[]) {
+  items = next;
+  emit();
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items)).catch((e) =>
+    log.warn("persist outbox failed", e)
+  );
+}
+
+function patch(id: string, data: Partial<OutboxItem>) {
+  setItems(items.map((it) => (it.id === id ? { ...it, ...data } : it)));
+}
+
+export function newIdempotencyKey() {
+  const rand = () => Math.random().toString(16).slice(2, 10);
+  return `${Date.now().toString(16)}-${rand()}-${rand()}`;
+}
+
+/**
+ * Error jaringan/timeout/5xx/429 → layak dicoba lagi; 4xx → butuh tindakan user.
+ * Error selain ApiError (bug, parse gagal) tidak diantre supaya sampai ke caller.
+ */
+function isRetryable(e: unknown) {
+  if (!(e instanceof ApiError)) return false;
+  return e.kind === "network" || e.kind === "timeout" || e.status >= 500 || e.status === 429;
+}
+
+function backoff(attempts: number) {
+  const exp = Math.min(MAX_DELAY, BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+function send<T>(item: Pick<OutboxItem, "method" | "endpoint" | "body" | "idempotencyKey">) {
+  return fetchWithAuth<T>(item.endpoint, {
+    method: item.method,
+    body: item.body,
+    headers: { "Idempotency-Key": item.idempotencyKey },
+  });
+}
+
+/* ===== Flush ===== */
+let timer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+function schedule() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const pending = items.filter((it) => it.status === "pending");
+  if (!pending.length) return;
+  const wait = Math.max(0, Math.min(...pending.map((it) => it.nextAt)) - Date.now());
+  timer = setTimeout(() => {
+    timer = null;
+    flushOutbox();
+  }, wait);
+}
+
+async function deliver(item: OutboxItem) {
+  patch(item.id, { status: "sending" });
+  try {
+    await send(item);
+    patch(item.id, { status: "sent", error: null, sentAt: Date.now() });
+    log.debug("sent", item.kind, item.id);
+    item.invalidate?.forEach((k) => invalidateQueries(k));
+  } catch (e: any) {
+    const attempts = item.attempts + 1;
+    if (isRetryable(e) && attempts < MAX_ATTEMPTS) {
+      patch(item.id, { status: "pending", attempts, nextAt: Date.now() + backoff(attempts), error: e?.message ?? null });
+    } else {
+      log.warn("failed", item.kind, item.id, e?.message);
+      patch(item.id, { status: "failed", attempts, error: e?.message || "Gagal mengirim" });
+    }
+  }
+}
+
+/**
+ * Kirim item pending berurutan (urutan mutasi dipertahankan). Berhenti di item
+ * pertama yang belum jatuh tempo atau gagal karena jaringan — item sesudahnya
+ * (mis. cancel untuk create yang belum terkirim) menunggu giliran. Dipanggil
+ * timer backoff, saat app aktif lagi, dan saat NetInfo melihat koneksi kembali.
+ */
+export function flushOutbox(opts: { force?: boolean } = {}): Promise<void> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    for (const it of [...items]) {
+      const current = items.find((x) => x.id === it.id);
+      if (!current || current.status !== "pending") continue;
+      if (!opts.force && current.nextAt > Date.now()) break;
+      await deliver(current);
+      const after = items.find((x) => x.id === it.id);
+      if (after?.status === "pending") break;
+    }
+  })().finally(() => {
+    flushing = null;
+    schedule();
+  });
+  return flushing;
+}
+
+/* ===== Public API ===== */
+export async function hydrateOutbox() {
+  if (hydrated) return;
+  hydrated = true;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as OutboxItem[]) : [];
+    const now = Date.now();
+    items = stored
+      // "sending" saat app mati → belum pasti terkirim, kirim ulang (idempotency key sama)
+      .map((it) => (it.status === "sending" ? { ...it, status: "pending" as const, nextAt: now } : it))
+      .filter((it) => it.status !== "sent" || now - (it.sentAt ?? 0) < SENT_TTL);
+    emit();
+    flushOutbox({ force: true });
+  } catch (e) {
+    log.warn("hydrateOutbox failed", e);
+  }
+}
+
+/**
+ * Coba kirim sekarang; kalau gagal karena jaringan, simpan ke outbox dan
+ * kirim ulang otomatis. Error lain (422, 403, ...) dilempar ke caller.
+ */
+export async function sendOrQueue<T = any>(req: OutboxRequest): Promise<SendResult<T>> {
+  const idempotencyKey = newIdempotencyKey();
+  try {
+    const data = await send<T>({ ...req, idempotencyKey });
+    req.invalidate?.forEach((k) => invalidateQueries(k));
+    return { queued: false, data };
+  } catch (e) {
+    if (!isRetryable(e)) throw e;
+    const now = Date.now();
+    const item: OutboxItem = {
+      ...req,
+      id: idempotencyKey,
+      idempotencyKey,
+      status: "pending",
+      attempts: 1,
+      nextAt: now + backoff(1),
+      error: (e as Error)?.message ?? null,
+      createdAt: now,
+    };
+    log.debug("queued", req.kind, item.id);
+    setItems([...items, item]);
+    schedule();
+    return { queued: true, item };
+  }
+}
+
+/** Coba lagi item yang gagal (atau paksa kirim item pending sekarang) */
+export function retryOutboxItem(id: string) {
+  patch(id, { status: "pending", nextAt: Date.now(), error: null });
+  return flushOutbox({ force: true });
+}
+
+export function dismissOutboxItem(id: string) {
+  setItems(items.filter((it) => it.id !== id));
+}
+
+export function getOutboxItems() {
+  return items;
+}
+
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Item outbox (opsional difilter per jenis) untuk status di UI */
+export function useOutbox(kinds?: OutboxKind[]) {
+  const all = useSyncExternalStore(subscribeOutbox, getOutboxItems);
+  const filter = kinds?.join(",");
+  return useMemo(
+    () => (filter ? all.filter((it) => filter.split(",").includes(it.kind)) : all),
+    [all, filter]
+  );
+}
+
+/**
+ * Panggil `onFailed` saat item baru berubah jadi "failed" — dipakai layar dengan
+ * update optimistis untuk menyelaraskan ulang datanya dengan server.
+ */
+export function useOutboxFailed(kinds: OutboxKind[], onFailed: (item: OutboxItem) => void) {
+  const list = useOutbox(kinds);
+  const seen = useRef<Set<string> | null>(null);
+  const cb = useRef(onFailed);
+  cb.current = onFailed;
+
+  useEffect(() => {
+    const failed = list.filter((it) => it.status === "failed");
+    // item gagal dari sesi sebelumnya tidak memicu callback
+    if (!seen.current) {
+      seen.current = new Set(failed.map((it) => it.id));
+      return;
+    }
+    for (const it of failed) {
+      if (seen.current.has(it.id)) continue;
+      seen.current.add(it.id);
+      cb.current(it);
+    }
+  }, [list]);
+}
+
+/* ===== Notifikasi ===== */
+export function queueNotificationRead(id: Id, is_read = true) {
+  return sendOrQueue({
+    kind: "notification.read",
+    label: is_read ? "Tandai notifikasi dibaca" : "Tandai notifikasi belum dibaca",
+    method: "PATCH",
+    endpoint: `/notifications/${id}/read`,
+    body: { is_read },
+    invalidate: ["/notifications"],
+  });
+}
+
+export function queueNotificationDelete(id: Id) {
+  return sendOrQueue({
+    kind: "notification.delete",
+    label: "Hapus notifikasi",
+    method: "DELETE",
+    endpoint: `/notifications/${id}`,
+    invalidate: ["/notifications"],
+  });
+}
+
+// koneksi sering kembali saat app dibuka lagi → coba kirim
+AppState.addEventListener("change", (state) => {
+  if (state === "active" && hydrated) flushOutbox({ force: true });
+});
+
+// koneksi kembali selagi app terbuka → kirim tanpa menunggu sisa backoff
+let connected: boolean | null = null;
+NetInfo.addEventListener((state) => {
+  const next = !!state.isConnected;
+  if (connected === false && next && hydrated) flushOutbox({ force: true });
+  connected = next;
+});
+
+// outbox milik akun yang logout tidak boleh terkirim atas nama akun lain
+onAuthCleared(() => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  setItems([]);
+});
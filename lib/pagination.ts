@@ -0,0 +1,235 @@
+// lib/pagination.ts
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { isAbortError } from "./api";
+import type { Id, Paginated } from "./types";
+import { createLogger } from "./logger";
+
+const log = createLogger("QUERY");
+
+/* ===== Types ===== */
+export type PageInfo = {
+  /** halaman yang baru saja dimuat */
+  page: number;
+  lastPage: number | null;
+  total: number | null;
+  nextUrl: string | null;
+  hasMore: boolean;
+};
+
+/** Ambil satu halaman (1-based). Signal di-abort saat refresh / unmount. */
+export type PageFetcher<T> = (page: number, signal: AbortSignal) => Promise<Paginated<T>>;
+
+/* ===== Helpers ===== */
+const toNum = (v: unknown) => {
+  const n = Number(v);
+  return v !== null && v !== undefined && v !== "" && Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Baca semua bentuk paginator Laravel:
+ * - LengthAwarePaginator: { current_page, last_page, next_page_url, links: [...] }
+ * - Resource collection:  { meta: { current_page, last_page }, links: { next } }
+ * - simplePaginate:       { next_page_url } tanpa last_page
+ * - array polos:          hasMore ditebak dari jumlah item vs perPage
+ */
+export function pageInfo<T>(json: Paginated<T>, requested: number, perPage?: number): PageInfo {
+  const meta = json.meta ?? {};
+  const page = toNum(json.current_page ?? meta.current_page) ?? requested;
+  const lastPage = toNum(json.last_page ?? meta.last_page);
+  const total = toNum(json.total ?? meta.total);
+
+  // links bisa array (paginator) atau object { next } (resource collection)
+  const links =
+    json.links && typeof json.links === "object" && !Array.isArray(json.links)
+      ? (json.links as { next?: string | null })
+      : null;
+  const hasNextField = "next_page_url" in json || (!!links && "next" in links);
+  const nextUrl = json.next_page_url ?? links?.next ?? null;
+
+  let hasMore: boolean;
+  if (!json.data.length) hasMore = false;
+  else if (lastPage !== null) hasMore = page < lastPage;
+  else if (hasNextField) hasMore = !!nextUrl;
+  else hasMore = !!perPage && json.data.length >= perPage;
+
+  return { page, lastPage, total, nextUrl, hasMore };
+}
+
+/** Gabung list dan buang duplikat berdasarkan id (item terbaru menang, urutan pertama dipertahankan) */
+export function dedupeById<T>(list: T[], getId: (item: T) => Id = defaultId): T[] {
+  const map = new Map<string, T>();
+  for (const it of list) map.set(String(getId(it)), it);
+  return Array.from(map.values());
+}
+
+function defaultId(item: any): Id {
+  return item?.id;
+}
+
+/**
+ * Ambil semua halaman berurutan — hanya untuk agregasi (mis. statistik dashboard).
+ * Dibatasi `maxPages` supaya paginator yang salah tidak membuat loop tanpa akhir.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<Paginated<T>>,
+  opts: { perPage?: number; maxPages?: number } = {}
+): Promise<T[]> {
+  const maxPages = opts.maxPages ?? 20;
+  let all: T[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const json = await fetchPage(page);
+    all = all.concat(json.data);
+    if (!pageInfo(json, page, opts.perPage).hasMore) return all;
+  }
+  log.warn(`fetchAllPages berhenti di batas ${maxPages} halaman`);
+  return all;
+}
+
+/* ===== Hook ===== */
+export type InfiniteListOptions<T> = {
+  fetchPage: PageFetcher<T>;
+  /** ukuran halaman yang diminta — dipakai bila respons tidak punya info halaman */
+  perPage?: number;
+  getId?: (item: T) => Id;
+  /** nilai yang bila berubah memuat ulang dari halaman 1 (mis. filter) */
+  deps?: unknown[];
+  enabled?: boolean;
+};
+
+export type InfiniteList<T> = {
+  items: T[];
+  /** halaman pertama sedang dimuat (belum ada data) */
+  loading: boolean;
+  refreshing: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  error: unknown;
+  page: number;
+  info: PageInfo | null;
+  refresh: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  /** ubah item lokal (update optimistis) */
+  setItems: Dispatch<SetStateAction<T[]>>;
+  /** sebar ke FlatList: data, keyExtractor, onEndReached, refreshing, onRefresh */
+  listProps: {
+    data: T[];
+    keyExtractor: (item: T) => string;
+    onEndReached: () => void;
+    onEndReachedThreshold: number;
+    refreshing: boolean;
+    onRefresh: () => void;
+  };
+};
+
+type Mode = "initial" | "refresh" | "more";
+
+/**
+ * List berhalaman untuk FlatList: halaman 1 dimuat otomatis, `loadMore` untuk
+ * halaman berikutnya, `refresh` untuk tarik-ulang. Item digabung & di-dedupe per id.
+ */
+export function useInfiniteList<T>(opts: InfiniteListOptions<T>): InfiniteList<T> {
+  const { enabled = true } = opts;
+  const optsRef = useRef(opts);
+  optsRef.current = opts;
+
+  const [items, setItems] = useState<T[]>([]);
+  const [mode, setMode] = useState<Mode | null>(enabled ? "initial" : null);
+  const [info, setInfo] = useState<PageInfo | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const inflight = useRef<AbortController | null>(null);
+  const pageRef = useRef(0);
+  const hasMoreRef = useRef(true);
+
+  const load = useCallback(async (m: Mode) => {
+    if (m === "more") {
+      if (inflight.current || !hasMoreRef.current) return;
+    } else {
+      // refresh / filter baru membatalkan request sebelumnya
+      inflight.current?.abort();
+    }
+    const ctrl = new AbortController();
+    inflight.current = ctrl;
+    const page = m === "more" ? pageRef.current + 1 : 1;
+    const { fetchPage, perPage, getId } = optsRef.current;
+
+    setMode(m);
+    if (m === "initial") setItems([]);
+    try {
+      const json = await fetchPage(page, ctrl.signal);
+      if (ctrl.signal.aborted) return;
+      const next = pageInfo(json, page, perPage);
+      pageRef.current = page;
+      hasMoreRef.current = next.hasMore;
+      setItems((prev) => dedupeById(page === 1 ? json.data : [...prev, ...json.data], getId));
+      setInfo(next);
+      setError(null);
+    } catch (e) {
+      if (ctrl.signal.aborted || isAbortError(e)) return;
+      log.warn(`useInfiniteList page ${page} failed:`, (e as Error)?.message ?? e);
+      setError(e);
+    } finally {
+      if (inflight.current === ctrl) {
+        inflight.current = null;
+        setMode(null);
+      }
+    }
+  }, []);
+
+  const depKey = JSON.stringify(opts.deps ?? []);
+  useEffect(() => {
+    if (!enabled) {
+      setMode(null);
+      return;
+    }
+    pageRef.current = 0;
+    hasMoreRef.current = true;
+    load("initial");
+    return () => {
+      inflight.current?.abort();
+      inflight.current = null;
+    };
+  }, [enabled, depKey, load]);
+
+  const refresh = useCallback(() => load("refresh"), [load]);
+  const loadMore = useCallback(() => load("more"), [load]);
+
+  const keyExtractor = useCallback(
+    (item: T) => String((optsRef.current.getId ?? defaultId)(item)),
+    []
+  );
+
+  const hasMore = info ? info.hasMore : enabled;
+  const refreshing = mode === "refresh";
+
+  const listProps = useMemo(
+    () => ({
+      data: items,
+      keyExtractor,
+      onEndReached: () => {
+        loadMore();
+      },
+      onEndReachedThreshold: 0.4,
+      refreshing,
+      onRefresh: () => {
+        refresh();
+      },
+    }),
+    [items, keyExtractor, loadMore, refresh, refreshing]
+  );
+
+  return {
+    items,
+    loading: mode === "initial",
+    refreshing,
+    loadingMore: mode === "more",
+    hasMore,
+    error,
+    page: info?.page ?? 0,
+    info,
+    refresh,
+    loadMore,
+    setItems,
+    listProps,
+  };
+}
@@ -0,0 +1,51 @@
+// lib/passwordReset.ts
+/* Alur lupa password: kirim kode ke email → masukkan kode (atau buka tautan
+ * smstudio://reset-password?token=…&email=…) → password baru → kembali ke login. */
+import { useCallback, useEffect, useState } from "react";
+import { isRateLimited, isValidationError, retryAfterSeconds } from "./api";
+
+/* ===== Const ===== */
+/** Jeda minimal sebelum kode boleh dikirim ulang (detik) bila server tidak memberi Retry-After */
+export const RESEND_COOLDOWN = 60;
+
+const TOKEN_ERROR_RE = /token|kode|kedaluwarsa|expired/i;
+
+/* ===== Helpers ===== */
+/** Detik tunggu dari error 429; null = bukan rate limit */
+export function rateLimitWait(e: unknown): number | null {
+  if (!isRateLimited(e)) return null;
+  return retryAfterSeconds(e) ?? RESEND_COOLDOWN;
+}
+
+export function rateLimitMessage(seconds: number) {
+  const wait = seconds >= 60 ? `${Math.ceil(seconds / 60)} menit` : `${seconds} detik`;
+  return `Terlalu banyak percobaan. Coba lagi dalam ${wait}.`;
+}
+
+/**
+ * Kode/token reset tidak valid atau kedaluwarsa. Laravel (Password broker)
+ * memasang pesan ini di field `email`, backend kita di field `token`.
+ */
+export function tokenErrorFrom(e: unknown): string | null {
+  if (!isValidationError(e)) return null;
+  const token = e.field("token");
+  if (token) return token;
+  const email = e.field("email");
+  return email && TOKEN_ERROR_RE.test(email) ? email : null;
+}
+
+/* ===== Hook ===== */
+/** Hitung mundur detik untuk tombol "Kirim ulang"; 0 = boleh kirim */
+export function useCooldown() {
+  const [left, setLeft] = useState(0);
+
+  useEffect(() => {
+    if (left <= 0) return;
+    const t = setTimeout(() => setLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearTimeout(t);
+  }, [left]);
+
+  const start = useCallback((seconds = RESEND_COOLDOWN) => setLeft(Math.max(0, Math.ceil(seconds))), []);
+
+  return { left, start };
+}
@@ -0,0 +1,71 @@
+// lib/payments.ts
+/* Pembayaran transfer manual: customer transfer ke rekening MUA lalu mengunggah foto bukti,
+ * MUA mengecek lalu menandai lunas atau menolak dengan alasan. payment_status baru "paid"
+ * setelah MUA menyetujui; status bukti disimpan terpisah di payment_proof_status. */
+import type { Booking, PaymentAccountType } from "./types";
+
+/* ===== Types ===== */
+/** Tahap yang ditampilkan di invoice: gabungan payment_status, bukti transfer, dan jatuh tempo */
+export type PaymentStage = "paid" | "refunded" | "verifying" | "rejected" | "overdue" | "unpaid";
+
+export const PAYMENT_STAGE_LABELS: Record<PaymentStage, string> = {
+  paid: "Lunas",
+  refunded: "Dikembalikan",
+  verifying: "Menunggu verifikasi",
+  rejected: "Bukti ditolak",
+  overdue: "Lewat jatuh tempo",
+  unpaid: "Belum dibayar",
+};
+
+export const PAYMENT_STAGE_COLORS: Record<PaymentStage, string> = {
+  paid: "#16A34A",
+  refunded: "#0EA5E9",
+  verifying: "#6366F1",
+  rejected: "#DC2626",
+  overdue: "#DC2626",
+  unpaid: "#F59E0B",
+};
+
+export const ACCOUNT_TYPE_LABELS: Record<PaymentAccountType, string> = {
+  bank: "Transfer Bank",
+  ewallet: "E-Wallet",
+};
+
+/* ===== Helpers ===== */
+/** Booking lama tanpa payment_method dianggap transfer manual */
+export function isManualPayment(b: Pick<Booking, "payment_method">) {
+  return (b.payment_method ?? "manual") === "manual";
+}
+
+/** Batas bayar: due_date berjam dipakai apa adanya; tanggal saja → akhir hari itu (waktu lokal) */
+export function paymentDeadline(b: Pick<Booking, "due_date">): Date | null {
+  if (!b.due_date) return null;
+  const d = /^\d{4}-\d{2}-\d{2}$/.test(b.due_date) ? new Date(`${b.due_date}T23:59:59`) : new Date(b.due_date);
+  return Number.isFinite(+d) ? d : null;
+}
+
+export function paymentStage(b: Booking, now = Date.now()): PaymentStage {
+  if (b.payment_status === "paid") return "paid";
+  if (b.payment_status === "refunded") return "refunded";
+  if (b.payment_proof_status === "pending") return "verifying";
+  if (b.payment_proof_status === "rejected") return "rejected";
+  const due = paymentDeadline(b);
+  return due && due.getTime() < now ? "overdue" : "unpaid";
+}
+
+/** Customer masih bisa mengunggah (atau mengganti) bukti transfer */
+export function canUploadProof(b: Booking) {
+  if (b.payment_status === "paid" || b.payment_status === "refunded") return false;
+  return b.status !== "cancelled" && b.status !== "rejected";
+}
+
+/** "2 hari 3 jam lagi" / "45 menit lagi"; null bila sudah lewat */
+export function countdownLabel(ms: number) {
+  if (ms <= 0) return null;
+  const mins = Math.ceil(ms / 60_000);
+  const days = Math.floor(mins / 1440);
+  const hours = Math.floor((mins % 1440) / 60);
+  if (days > 0) return hours ? `${days} hari ${hours} jam lagi` : `${days} hari lagi`;
+  if (hours > 0) return `${hours} jam ${mins % 60} menit lagi`;
+  return `${mins} menit lagi`;
+}
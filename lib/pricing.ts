@@ -0,0 +1,207 @@
+// lib/pricing.ts
+/* Satu-satunya tempat menghitung harga booking: form booking (pratinjau), layar invoice
+ * customer & MUA, dashboard MUA, dan server demo. Total dari server tetap yang ditagihkan;
+ * hasil hitungan lokal dipakai untuk rincian dan untuk memeriksa selisih (reconcile). */
+import { addOnsTotal } from "./addOns";
+import type { Booking, Offering, SelectedAddOn } from "./types";
+
+/* ===== Types ===== */
+export type Rounding = "round" | "floor" | "ceil" | "none";
+
+export type PricingConfig = {
+  /** persen PPN bila booking tidak membawa `tax` sendiri */
+  taxPercent: number;
+  /** pembulatan ke rupiah utuh untuk pajak & total */
+  rounding: Rounding;
+  /** selisih (rupiah) yang masih dianggap sama saat dibandingkan dengan server */
+  tolerance: number;
+};
+
+export type LineKind = "base" | "add_on" | "collaboration" | "travel_fee" | "discount" | "tax";
+
+export type LineItem = {
+  kind: LineKind;
+  label: string;
+  /** diskon bernilai negatif */
+  amount: number;
+};
+
+export type PricingInput = {
+  /** harga paket per orang */
+  unitPrice?: number;
+  persons?: number;
+  /** sudah dikalikan jumlah orang (mis. `amount` booking); mengalahkan unitPrice × persons */
+  baseTotal?: number;
+  addOns?: SelectedAddOn[] | null;
+  collaboration?: { name?: string | null; price: number } | null;
+  travelFee?: number;
+  discount?: number;
+  discountLabel?: string;
+  /** persen; kosong → config.taxPercent */
+  taxPercent?: number | null;
+};
+
+export type PriceBreakdown = {
+  lines: LineItem[];
+  base: number;
+  addOns: number;
+  collaboration: number;
+  travelFee: number;
+  /** base + add-on + kolaborasi + biaya transport */
+  subtotal: number;
+  discount: number;
+  taxPercent: number;
+  /** pajak dihitung dari subtotal setelah diskon */
+  tax: number;
+  total: number;
+};
+
+export type TotalField = "subtotal" | "discount" | "tax" | "total";
+
+export type PriceMismatch = { field: TotalField; server: number; computed: number };
+
+export type ReconciledPrice = {
+  /** rincian hasil hitungan lokal */
+  breakdown: PriceBreakdown;
+  /** angka yang ditampilkan/ditagihkan: nilai server bila ada, selain itu hasil hitungan */
+  totals: Record<TotalField, number>;
+  mismatches: PriceMismatch[];
+};
+
+/* ===== Config ===== */
+export const PRICING_CONFIG: PricingConfig = {
+  taxPercent: 11,
+  rounding: "round",
+  tolerance: 1,
+};
+
+export const TOTAL_LABELS: Record<TotalField, string> = {
+  subtotal: "Subtotal",
+  discount: "Diskon",
+  tax: "Pajak",
+  total: "Total",
+};
+
+/* ===== Helpers ===== */
+/** Angka dari string/number backend; kosong/tidak valid → null */
+export function toAmount(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = typeof v === "number" ? v : Number(String(v).replace(/[^\d.-]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function roundMoney(n: number, rounding: Rounding = PRICING_CONFIG.rounding) {
+  switch (rounding) {
+    case "floor":
+      return Math.floor(n);
+    case "ceil":
+      return Math.ceil(n);
+    case "none":
+      return n;
+    default:
+      return Math.round(n);
+  }
+}
+
+export const formatIDR = (n: number) =>
+  `IDR ${new Intl.NumberFormat("id-ID").format(Math.round(Number.isFinite(n) ? n : 0))}`;
+
+/* ===== Engine ===== */
+export function computePrice(input: PricingInput, config: Partial<PricingConfig> = {}): PriceBreakdown {
+  const cfg = { ...PRICING_CONFIG, ...config };
+  const persons = Math.max(1, input.persons ?? 1);
+  const base = Math.max(0, input.baseTotal ?? (input.unitPrice ?? 0) * persons);
+  const addOnLines = (input.addOns ?? []).filter((a) => a?.name);
+  const addOns = addOnsTotal(addOnLines);
+  const collaboration = Math.max(0, input.collaboration?.price ?? 0);
+  const travelFee = Math.max(0, input.travelFee ?? 0);
+  const subtotal = base + addOns + collaboration + travelFee;
+  // diskon tidak boleh membuat subtotal negatif
+  const discount = Math.min(subtotal, Math.max(0, input.discount ?? 0));
+  const taxPercent = input.taxPercent ?? cfg.taxPercent;
+  const tax = roundMoney(((subtotal - discount) * taxPercent) / 100, cfg.rounding);
+  const total = roundMoney(subtotal - discount + tax, cfg.rounding);
+
+  const lines: LineItem[] = [
+    { kind: "base", label: persons > 1 ? `Harga Jasa × ${persons} orang` : "Harga Jasa", amount: base },
+    ...addOnLines.map((a): LineItem => ({ kind: "add_on", label: a.name, amount: Number(a.price) || 0 })),
+  ];
+  if (collaboration > 0) {
+    const name = input.collaboration?.name;
+    lines.push({ kind: "collaboration", label: name ? `Kolaborasi: ${name}` : "Kolaborasi", amount: collaboration });
+  }
+  if (travelFee > 0) lines.push({ kind: "travel_fee", label: "Biaya Transport", amount: travelFee });
+  if (discount > 0) lines.push({ kind: "discount", label: input.discountLabel || "Diskon", amount: -discount });
+  if (tax > 0) lines.push({ kind: "tax", label: `Pajak (${taxPercent}%)`, amount: tax });
+
+  return { lines, base, addOns, collaboration, travelFee, subtotal, discount, taxPercent, tax, total };
+}
+
+/** Input engine dari booking tersimpan; `offering` dipakai kalau `amount` tidak dikirim server */
+export function bookingPricingInput(
+  booking: Booking,
+  offering?: Pick<Offering, "price"> | Partial<Offering> | null
+): PricingInput {
+  const persons = Math.max(1, toAmount(booking.person) ?? 1);
+  const amount = toAmount(booking.amount);
+  const unit = toAmount(offering?.price ?? booking.offering?.price);
+  return {
+    // `amount` = harga paket × jumlah orang (lihat form booking)
+    baseTotal: amount ?? (unit !== null ? unit * persons : 0),
+    persons,
+    addOns: booking.selected_add_ons ?? [],
+    travelFee: toAmount(booking.travel_fee) ?? 0,
+    discount: toAmount(booking.discount_amount) ?? 0,
+    discountLabel: booking.voucher_code ? `Voucher ${booking.voucher_code}` : undefined,
+    taxPercent: toAmount(booking.tax),
+  };
+}
+
+/**
+ * Hitung ulang booking lalu bandingkan dengan total dari server. Nilai server yang ada
+ * selalu menang (itu yang ditagihkan); selisih di atas toleransi dilaporkan di `mismatches`.
+ */
+export function reconcileBooking(
+  booking: Booking,
+  offering?: Partial<Offering> | null,
+  config: Partial<PricingConfig> = {}
+): ReconciledPrice {
+  const cfg = { ...PRICING_CONFIG, ...config };
+  const breakdown = computePrice(bookingPricingInput(booking, offering), cfg);
+  const server: Record<TotalField, number | null> = {
+    subtotal: toAmount(booking.subtotal),
+    discount: toAmount(booking.discount_amount),
+    tax: toAmount(booking.tax_amount),
+    total: toAmount(booking.grand_total ?? booking.total),
+  };
+  const computed: Record<TotalField, number> = {
+    subtotal: breakdown.subtotal,
+    discount: breakdown.discount,
+    tax: breakdown.tax,
+    total: breakdown.total,
+  };
+
+  const totals = { ...computed };
+  const mismatches: PriceMismatch[] = [];
+  (Object.keys(computed) as TotalField[]).forEach((field) => {
+    const value = server[field];
+    if (value === null) return;
+    totals[field] = value;
+    if (Math.abs(value - computed[field]) > cfg.tolerance) {
+      mismatches.push({ field, server: value, computed: computed[field] });
+    }
+  });
+  return { breakdown, totals, mismatches };
+}
+
+/** Pesan singkat untuk banner peringatan di invoice */
+export function mismatchMessage(mismatches: PriceMismatch[]) {
+  return mismatches
+    .map((m) => `${TOTAL_LABELS[m.field]}: server ${formatIDR(m.server)}, hitungan aplikasi ${formatIDR(m.computed)}`)
+    .join("\n");
+}
+
+/** Nilai yang ditagihkan untuk booking (dipakai dashboard/rekap) */
+export function bookingTotal(booking: Booking, offering?: Partial<Offering> | null) {
+  return reconcileBooking(booking, offering).totals.total;
+}
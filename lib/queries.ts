@@ -0,0 +1,69 @@
+// lib/queries.ts
+import { api } from "./api";
+import type { QueryDef } from "./query";
+import type {
+  AuthSession,
+  Me,
+  Mua,
+  MuaAvailability,
+  MuaLocation,
+  Offering,
+  Paginated,
+  PaymentAccount,
+  Voucher,
+} from "./types";
+
+/* Definisi query bersama — key = [endpoint, params] supaya invalidate("/bookings") mengena semua varian */
+
+const MINUTE = 60_000;
+
+export function meQuery(): QueryDef<Me> {
+  return { key: ["/auth/me"], fetcher: () => api.auth.me(), staleTime: MINUTE };
+}
+
+/** Tidak dipersist: daftar perangkat harus selalu segar */
+export function sessionsQuery(): QueryDef<AuthSession[]> {
+  return { key: ["/auth/sessions"], fetcher: () => api.auth.sessions(), staleTime: 0, persist: false };
+}
+
+export function muaListQuery(params?: { page?: number; per_page?: number }): QueryDef<Paginated<Mua>> {
+  return {
+    key: ["/mua", params],
+    fetcher: () => api.mua.list(params, { publicFallback: true }),
+    staleTime: 5 * MINUTE,
+  };
+}
+
+/** Tidak dipersist: slot bisa terisi kapan saja, jadwal lama menyesatkan */
+export function muaAvailabilityQuery(muaId: string, range: { from: string; to: string }): QueryDef<MuaAvailability> {
+  return {
+    key: [`/mua/${muaId}/availability`, range],
+    fetcher: () => api.mua.availability(muaId, range, { publicFallback: true }),
+    staleTime: 0,
+    persist: false,
+  };
+}
+
+export function muaLocationsQuery(): QueryDef<MuaLocation[]> {
+  return { key: ["/mua-location"], fetcher: () => api.muaLocation.list(), staleTime: 5 * MINUTE };
+}
+
+export function offeringsQuery(params?: { mua_id?: string; page?: number; per_page?: number }): QueryDef<Paginated<Offering>> {
+  return {
+    key: ["/offerings", params],
+    fetcher: () => api.offerings.list(params, { publicFallback: true }),
+    staleTime: 2 * MINUTE,
+  };
+}
+
+export function muaPaymentAccountsQuery(muaId: string): QueryDef<PaymentAccount[]> {
+  return {
+    key: [`/mua/${muaId}/payment-accounts`],
+    fetcher: () => api.mua.paymentAccounts(muaId),
+    staleTime: 10 * MINUTE,
+  };
+}
+
+export function myVouchersQuery(): QueryDef<Voucher[]> {
+  return { key: ["/vouchers/mine"], fetcher: () => api.vouchers.mine(), staleTime: MINUTE };
+}
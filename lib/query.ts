@@ -0,0 +1,334 @@
+// lib/query.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { onAuthCleared } from "../utils/authStorage";
+import { createLogger } from "./logger";
+
+const log = createLogger("QUERY");
+
+/* ===== Types ===== */
+/** [endpoint, params] — mis. ["/mua", { page: 1 }] */
+export type QueryKey = readonly [endpoint: string, params?: Record<string, unknown> | null];
+
+export type QueryDef<T> = {
+  key: QueryKey;
+  fetcher: () => Promise<T>;
+  /** ms sebelum data dianggap basi dan di-refetch di belakang layar (default 30 detik) */
+  staleTime?: number;
+  /** simpan ke AsyncStorage supaya tampil instan saat cold start (default true) */
+  persist?: boolean;
+};
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  /** epoch ms data terakhir berhasil diambil; 0 = belum pernah / sudah di-invalidate */
+  updatedAt: number;
+  fetching: boolean;
+};
+
+type Entry = {
+  state: QueryState<any>;
+  promise: Promise<any> | null;
+  /** fetcher terakhir dari observer aktif — dipakai saat invalidate */
+  fetcher: (() => Promise<any>) | null;
+  persist: boolean;
+  listeners: Set<() => void>;
+};
+
+/* ===== Const ===== */
+export const DEFAULT_STALE_TIME = 30_000;
+const PERSIST_KEY = "query_cache_v1";
+/** cache akun yang sedang tidak aktif: STASH_PREFIX + id profil */
+const STASH_PREFIX = "query_cache_v1@";
+const PERSIST_MAX = 40;
+const PERSIST_DELAY = 800;
+
+const EMPTY: QueryState<any> = { data: undefined, error: null, updatedAt: 0, fetching: false };
+
+/* ===== Store ===== */
+const entries = new Map<string, Entry>();
+
+/** Key stabil: params diurutkan, nilai kosong dibuang (sama seperti buildUrl) */
+export function hashKey(key: QueryKey): string {
+  const [endpoint, params] = key;
+  if (!params) return endpoint;
+  const clean = Object.keys(params)
+    .filter((k) => params[k] !== undefined && params[k] !== null && params[k] !== "")
+    .sort()
+    .map((k) => [k, params[k]]);
+  return clean.length ? `${endpoint}?${JSON.stringify(clean)}` : endpoint;
+}
+
+function entryFor(hash: string): Entry {
+  let e = entries.get(hash);
+  if (!e) {
+    e = { state: EMPTY, promise: null, fetcher: null, persist: true, listeners: new Set() };
+    entries.set(hash, e);
+  }
+  return e;
+}
+
+function update(hash: string, patch: Partial<QueryState<any>>) {
+  const e = entryFor(hash);
+  e.state = { ...e.state, ...patch };
+  e.listeners.forEach((fn) => fn());
+  if ("data" in patch && e.persist) schedulePersist();
+}
+
+/* ===== Persistence ===== */
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function persistedRows() {
+  return [...entries.entries()]
+    .filter(([, e]) => e.persist && e.state.data !== undefined && e.state.updatedAt > 0)
+    .sort(([, a], [, b]) => b.state.updatedAt - a.state.updatedAt)
+    .slice(0, PERSIST_MAX)
+    .map(([hash, e]) => [hash, { data: e.state.data, updatedAt: e.state.updatedAt }]);
+}
+
+function schedulePersist() {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    AsyncStorage.setItem(PERSIST_KEY, JSON.stringify(persistedRows())).catch((err) =>
+      log.warn("persist query cache failed", err)
+    );
+  }, PERSIST_DELAY);
+}
+
+/** Kosongkan cache di memori; request yang sedang jalan tidak lagi mengisi entry */
+function resetEntries() {
+  entries.forEach((e, hash) => {
+    e.promise = null;
+    update(hash, EMPTY);
+  });
+  // update() di atas menjadwalkan persist; storage diurus pemanggil
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = null;
+}
+
+/**
+ * Muat cache dari AsyncStorage. Dipanggil sekali saat boot; data hasil hydrate
+ * langsung tampil lalu di-revalidate sesuai staleTime.
+ */
+export async function hydrateQueryCache() {
+  try {
+    const raw = await AsyncStorage.getItem(PERSIST_KEY);
+    if (!raw) return;
+    const rows = JSON.parse(raw) as [string, { data: unknown; updatedAt: number }][];
+    for (const [hash, row] of rows) {
+      const e = entryFor(hash);
+      // jangan timpa data yang lebih baru dari request yang sudah jalan
+      if (e.state.updatedAt >= row.updatedAt) continue;
+      e.state = { ...e.state, data: row.data, updatedAt: row.updatedAt };
+      e.listeners.forEach((fn) => fn());
+    }
+  } catch (e) {
+    log.warn("hydrateQueryCache failed", e);
+  }
+}
+
+/** Kosongkan cache (memori + AsyncStorage) — otomatis saat logout / sesi berakhir */
+export async function clearQueryCache() {
+  resetEntries();
+  try {
+    await AsyncStorage.removeItem(PERSIST_KEY);
+  } catch (e) {
+    log.warn("clearQueryCache failed", e);
+  }
+}
+
+/**
+ * Ganti akun: cache akun lama disimpan di samping (bukan dibuang), cache akun
+ * tujuan dipulihkan lalu di-hydrate. `from` null = belum ada akun aktif.
+ */
+export async function switchQueryCache(from: string | null, to: string) {
+  const rows = persistedRows();
+  resetEntries();
+  try {
+    if (from) await AsyncStorage.setItem(STASH_PREFIX + from, JSON.stringify(rows));
+    const next = await AsyncStorage.getItem(STASH_PREFIX + to);
+    if (next) await AsyncStorage.setItem(PERSIST_KEY, next);
+    else await AsyncStorage.removeItem(PERSIST_KEY);
+    await AsyncStorage.removeItem(STASH_PREFIX + to);
+  } catch (e) {
+    log.warn("switchQueryCache failed", e);
+  }
+  await hydrateQueryCache();
+}
+
+/** Buang cache akun tidak aktif (akun dihapus dari perangkat) */
+export async function dropStashedQueryCache(account?: string) {
+  try {
+    const keys = account
+      ? [STASH_PREFIX + account]
+      : (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(STASH_PREFIX));
+    if (keys.length) await AsyncStorage.multiRemove(keys);
+  } catch (e) {
+    log.warn("dropStashedQueryCache failed", e);
+  }
+}
+
+onAuthCleared(({ allAccounts }) => {
+  clearQueryCache();
+  if (allAccounts) dropStashedQueryCache();
+});
+
+/* ===== Imperative API ===== */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return entries.get(hashKey(key))?.state.data as T | undefined;
+}
+
+/** Ubah data cache secara lokal (mis. setelah mutasi yang mengembalikan data terbaru) */
+export function setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)) {
+  const hash = hashKey(key);
+  const prev = entryFor(hash).state.data as T | undefined;
+  const data = typeof updater === "function" ? (updater as (p: T | undefined) => T)(prev) : updater;
+  update(hash, { data, updatedAt: Date.now(), error: null });
+}
+
+/**
+ * Ambil data: cache segar → langsung; sedang di-fetch → ikut promise yang sama
+ * (dedupe); selain itu fetch baru. `force` mengabaikan staleTime.
+ */
+export function fetchQuery<T>(def: QueryDef<T>, opts: { force?: boolean } = {}): Promise<T> {
+  const hash = hashKey(def.key);
+  const e = entryFor(hash);
+  if (def.persist === false) e.persist = false;
+
+  const staleTime = def.staleTime ?? DEFAULT_STALE_TIME;
+  const fresh = e.state.updatedAt > 0 && Date.now() - e.state.updatedAt < staleTime;
+  if (!opts.force && fresh && e.state.data !== undefined) return Promise.resolve(e.state.data as T);
+  if (e.promise) return e.promise as Promise<T>;
+
+  update(hash, { fetching: true });
+  const promise = def
+    .fetcher()
+    .then((data) => {
+      if (e.promise === promise) update(hash, { data, error: null, updatedAt: Date.now(), fetching: false });
+      return data;
+    })
+    .catch((error) => {
+      if (e.promise === promise) update(hash, { error, fetching: false });
+      throw error;
+    })
+    .finally(() => {
+      if (e.promise === promise) e.promise = null;
+    });
+  e.promise = promise;
+  return promise;
+}
+
+/**
+ * Tandai basi semua query yang endpoint-nya diawali `prefix` (mis. "/bookings"
+ * juga mengena "/bookings/12"). Query yang sedang ditampilkan langsung di-refetch.
+ */
+export function invalidateQueries(prefix: string | QueryKey) {
+  const exact = typeof prefix === "string" ? null : hashKey(prefix);
+  entries.forEach((e, hash) => {
+    const endpoint = hash.split("?")[0];
+    const match = exact ? hash === exact : endpoint === prefix || endpoint.startsWith(`${prefix}/`);
+    if (!match) return;
+    e.state = { ...e.state, updatedAt: 0 };
+    e.promise = null;
+    if (e.listeners.size && e.fetcher) {
+      fetchQuery({ key: [hash], fetcher: e.fetcher, persist: e.persist }).catch(() => {});
+    }
+  });
+}
+
+/* ===== Hooks ===== */
+export type UseQueryResult<T> = QueryState<T> & {
+  /** true hanya bila belum ada data sama sekali (cache kosong) */
+  loading: boolean;
+  refetch: () => Promise<T | undefined>;
+};
+
+/**
+ * Stale-while-revalidate: data cache (termasuk hasil hydrate) langsung dikembalikan,
+ * lalu di-refetch di belakang layar kalau sudah basi.
+ */
+export function useQuery<T>(def: QueryDef<T> & { enabled?: boolean }): UseQueryResult<T> {
+  const hash = hashKey(def.key);
+  const enabled = def.enabled ?? true;
+
+  const defRef = useRef(def);
+  defRef.current = def;
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const e = entryFor(hash);
+      e.listeners.add(listener);
+      return () => {
+        e.listeners.delete(listener);
+      };
+    },
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, () => entries.get(hash)?.state ?? EMPTY) as QueryState<T>;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const e = entryFor(hash);
+    e.fetcher = () => defRef.current.fetcher();
+    fetchQuery({ ...defRef.current, fetcher: e.fetcher }).catch(() => {});
+  }, [hash, enabled, state.updatedAt === 0]);
+
+  const refetch = useCallback(
+    () => fetchQuery(defRef.current, { force: true }).catch(() => undefined),
+    []
+  );
+
+  return { ...state, loading: enabled && state.data === undefined && (state.fetching || !state.error), refetch };
+}
+
+export type MutationOptions<TRes, TVars> = {
+  /** prefix endpoint yang di-invalidate setelah sukses, mis. ["/bookings"] */
+  invalidate?: (string | QueryKey)[];
+  onSuccess?: (result: TRes, vars: TVars) => void;
+  onError?: (error: unknown, vars: TVars) => void;
+};
+
+export function useMutation<TVars, TRes>(
+  mutationFn: (vars: TVars) => Promise<TRes>,
+  opts: MutationOptions<TRes, TVars> = {}
+) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const fnRef = useRef(mutationFn);
+  fnRef.current = mutationFn;
+  const optsRef = useRef(opts);
+  optsRef.current = opts;
+
+  const mounted = useRef(true);
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  /** melempar ulang error supaya caller tetap bisa try/catch (mis. error per field) */
+  const mutate = useCallback(async (vars: TVars) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fnRef.current(vars);
+      optsRef.current.invalidate?.forEach((k) => invalidateQueries(k));
+      optsRef.current.onSuccess?.(result, vars);
+      return result;
+    } catch (e) {
+      if (mounted.current) setError(e);
+      optsRef.current.onError?.(e, vars);
+      throw e;
+    } finally {
+      if (mounted.current) setLoading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => setError(null), []);
+
+  return { mutate, loading, error, reset };
+}
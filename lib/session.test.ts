@@ -0,0 +1,120 @@
+// lib/session.test.ts
+import { describe, expect, it } from "@jest/globals";
+import { ApiError } from "./api";
+import {
+  classifyRevalidateError,
+  homeRouteFor,
+  isAuthenticated,
+  nextSessionState,
+  resolveSessionRedirect,
+  type GuardedGroup,
+  type SessionState,
+} from "./session";
+
+const ALL_STATES: SessionState[] = ["booting", "unauthenticated", "authenticated", "authenticated-offline", "expired"];
+
+describe("nextSessionState", () => {
+  it("boot: cache menentukan state awal", () => {
+    expect(nextSessionState("booting", { type: "cache-loaded", hasSession: true })).toBe("authenticated");
+    expect(nextSessionState("booting", { type: "cache-loaded", hasSession: false })).toBe("unauthenticated");
+  });
+
+  it("cache-loaded tidak menimpa login yang lebih cepat dari storage", () => {
+    expect(nextSessionState("authenticated", { type: "cache-loaded", hasSession: false })).toBe("authenticated");
+    expect(nextSessionState("unauthenticated", { type: "cache-loaded", hasSession: true })).toBe("unauthenticated");
+  });
+
+  it("revalidasi /auth/me memindahkan sesi antara online, offline dan expired", () => {
+    expect(nextSessionState("authenticated", { type: "revalidated", result: "offline" })).toBe("authenticated-offline");
+    expect(nextSessionState("authenticated-offline", { type: "revalidated", result: "ok" })).toBe("authenticated");
+    expect(nextSessionState("authenticated", { type: "revalidated", result: "unauthorized" })).toBe("expired");
+  });
+
+  it("revalidasi yang telat diabaikan bila sesi sudah tidak login", () => {
+    expect(nextSessionState("unauthenticated", { type: "revalidated", result: "ok" })).toBe("unauthenticated");
+    expect(nextSessionState("booting", { type: "revalidated", result: "unauthorized" })).toBe("booting");
+  });
+
+  it("signed-in dan expired berlaku dari state mana pun", () => {
+    for (const prev of ALL_STATES) {
+      expect(nextSessionState(prev, { type: "signed-in" })).toBe("authenticated");
+      expect(nextSessionState(prev, { type: "expired" })).toBe("expired");
+    }
+  });
+
+  it("cleared setelah expired tidak menurunkan state ke unauthenticated", () => {
+    expect(nextSessionState("expired", { type: "cleared" })).toBe("expired");
+    expect(nextSessionState("authenticated", { type: "cleared" })).toBe("unauthenticated");
+    expect(nextSessionState("authenticated-offline", { type: "cleared" })).toBe("unauthenticated");
+  });
+
+  it("isAuthenticated hanya untuk sesi online/offline", () => {
+    expect(ALL_STATES.filter(isAuthenticated)).toEqual(["authenticated", "authenticated-offline"]);
+  });
+});
+
+describe("classifyRevalidateError", () => {
+  it("jaringan, timeout dan 5xx → offline (data cache tetap dipakai)", () => {
+    expect(classifyRevalidateError(new ApiError(0, "x", null, "network"))).toBe("offline");
+    expect(classifyRevalidateError(new ApiError(0, "x", null, "timeout"))).toBe("offline");
+    expect(classifyRevalidateError(new ApiError(503, "x"))).toBe("offline");
+  });
+
+  it("401, akun diblokir (403) dan 4xx lain → unauthorized", () => {
+    for (const status of [401, 403, 404, 422]) {
+      expect(classifyRevalidateError(new ApiError(status, "x"))).toBe("unauthorized");
+    }
+  });
+});
+
+describe("resolveSessionRedirect", () => {
+  const groups: GuardedGroup[] = ["", "(auth)", "(account)", "(mua)", "(user)"];
+
+  it("tidak redirect selama booting", () => {
+    for (const group of groups) {
+      expect(resolveSessionRedirect("booting", "mua", group)).toBeNull();
+      expect(resolveSessionRedirect("booting", null, group)).toBeNull();
+    }
+  });
+
+  it("beranda sesuai role", () => {
+    expect(homeRouteFor("mua")).toBe("/(mua)");
+    expect(homeRouteFor("customer")).toBe("/(user)/(tabs)");
+    expect(homeRouteFor(null)).toBe("/(user)/(tabs)");
+  });
+
+  it("rute index: login → beranda role, tamu → jelajah, expired → login", () => {
+    expect(resolveSessionRedirect("authenticated", "mua", "")).toBe("/(mua)");
+    expect(resolveSessionRedirect("authenticated-offline", "customer", "")).toBe("/(user)/(tabs)");
+    expect(resolveSessionRedirect("unauthenticated", null, "")).toBe("/(user)/(tabs)");
+    expect(resolveSessionRedirect("expired", null, "")).toBe("/(auth)/login");
+  });
+
+  it("(auth): yang sudah login diarahkan ke beranda role", () => {
+    expect(resolveSessionRedirect("authenticated", "mua", "(auth)")).toBe("/(mua)");
+    expect(resolveSessionRedirect("authenticated", "customer", "(auth)")).toBe("/(user)/(tabs)");
+    expect(resolveSessionRedirect("unauthenticated", null, "(auth)")).toBeNull();
+    expect(resolveSessionRedirect("expired", null, "(auth)")).toBeNull();
+  });
+
+  it("(account): semua role boleh, tanpa sesi → login", () => {
+    expect(resolveSessionRedirect("authenticated", "mua", "(account)")).toBeNull();
+    expect(resolveSessionRedirect("authenticated", "customer", "(account)")).toBeNull();
+    expect(resolveSessionRedirect("unauthenticated", null, "(account)")).toBe("/(auth)/login");
+  });
+
+  it("(mua): hanya role mua", () => {
+    expect(resolveSessionRedirect("authenticated", "mua", "(mua)")).toBeNull();
+    expect(resolveSessionRedirect("authenticated-offline", "mua", "(mua)")).toBeNull();
+    expect(resolveSessionRedirect("authenticated", "customer", "(mua)")).toBe("/(user)/(tabs)");
+    expect(resolveSessionRedirect("unauthenticated", null, "(mua)")).toBe("/(auth)/login");
+    expect(resolveSessionRedirect("expired", "mua", "(mua)")).toBe("/(auth)/login");
+  });
+
+  it("(user): tamu boleh, mua dialihkan, expired → login", () => {
+    expect(resolveSessionRedirect("authenticated", "customer", "(user)")).toBeNull();
+    expect(resolveSessionRedirect("unauthenticated", null, "(user)")).toBeNull();
+    expect(resolveSessionRedirect("authenticated", "mua", "(user)")).toBe("/(mua)");
+    expect(resolveSessionRedirect("expired", null, "(user)")).toBe("/(auth)/login");
+  });
+});
@@ -0,0 +1,124 @@
+// lib/session.ts
+/* Pipeline boot sesi: migrasi storage lama → baca sesi dari cache → render rute sesuai
+ * role cache tanpa menunggu jaringan → validasi /auth/me di belakang layar.
+ * Transisi state & redirect di file ini murni (tanpa React) supaya bisa diuji langsung. */
+import { getAuthToken, getUserProfile, type StoredProfile } from "../utils/authStorage";
+import { runStorageMigrations } from "../utils/storageMigrations";
+import { ApiError } from "./api";
+import { createLogger } from "./logger";
+import type { Role } from "./types";
+
+const log = createLogger("AUTH");
+
+/* ===== Types ===== */
+/**
+ * booting               = storage belum dibaca
+ * unauthenticated       = tidak ada token tersimpan (atau sudah logout)
+ * authenticated         = token ada dan /auth/me terakhir berhasil (atau belum selesai dicek)
+ * authenticated-offline = token ada tapi /auth/me gagal karena jaringan/server; data cache dipakai
+ * expired               = refresh token ditolak atau /auth/me menolak akun (403, 4xx lain);
+ *                         auth sudah dibersihkan (lib/api / AuthProvider)
+ */
+export type SessionState =
+  | "booting"
+  | "unauthenticated"
+  | "authenticated"
+  | "authenticated-offline"
+  | "expired";
+
+export type RevalidateResult = "ok" | "offline" | "unauthorized";
+
+export type SessionEvent =
+  | { type: "cache-loaded"; hasSession: boolean }
+  | { type: "revalidated"; result: RevalidateResult }
+  | { type: "signed-in" }
+  | { type: "cleared" }
+  | { type: "expired" };
+
+export type CachedSession = { token: string | null; profile: StoredProfile | null };
+
+/** Rute tujuan redirect boot */
+export type SessionRoute = "/(auth)/login" | "/(mua)" | "/(user)/(tabs)";
+
+/* ===== State machine ===== */
+export function isAuthenticated(state: SessionState) {
+  return state === "authenticated" || state === "authenticated-offline";
+}
+
+export function nextSessionState(prev: SessionState, event: SessionEvent): SessionState {
+  switch (event.type) {
+    case "cache-loaded":
+      // hanya berlaku sekali; login yang lebih cepat dari storage tidak ditimpa
+      if (prev !== "booting") return prev;
+      return event.hasSession ? "authenticated" : "unauthenticated";
+    case "revalidated":
+      if (!isAuthenticated(prev)) return prev;
+      if (event.result === "ok") return "authenticated";
+      if (event.result === "offline") return "authenticated-offline";
+      return "expired";
+    case "signed-in":
+      return "authenticated";
+    case "cleared":
+      // lib/api membersihkan auth dulu baru memberi tahu "expired" → jangan turunkan lagi
+      return prev === "expired" ? prev : "unauthenticated";
+    case "expired":
+      return "expired";
+  }
+}
+
+/** Hanya gangguan jaringan/timeout/5xx yang dianggap offline; akun diblokir (403) dan 4xx lain → login ulang */
+export function classifyRevalidateError(e: unknown): RevalidateResult {
+  if (!(e instanceof ApiError)) return "unauthorized";
+  const transient = e.kind === "network" || e.kind === "timeout" || e.status >= 500;
+  return transient ? "offline" : "unauthorized";
+}
+
+/* ===== Redirect ===== */
+/** Grup rute yang punya guard; `""` = rute index "/" */
+export type GuardedGroup = "" | "(auth)" | "(account)" | "(mua)" | "(user)";
+
+export function homeRouteFor(role: Role | null): SessionRoute {
+  return role === "mua" ? "/(mua)" : "/(user)/(tabs)";
+}
+
+/**
+ * Tujuan redirect untuk kombinasi state sesi + role (dari StoredProfile) + grup rute.
+ * `null` = boleh tetap di grup ini. Dipakai SessionGuard di layout tiap grup.
+ */
+export function resolveSessionRedirect(
+  state: SessionState,
+  role: Role | null,
+  group: GuardedGroup
+): SessionRoute | null {
+  if (state === "booting") return null;
+  const authed = isAuthenticated(state);
+  switch (group) {
+    case "":
+      if (authed) return homeRouteFor(role);
+      // tanpa akun → jelajah sebagai tamu (lib/guest); sesi berakhir → login lagi
+      return state === "expired" ? "/(auth)/login" : "/(user)/(tabs)";
+    case "(auth)":
+      return authed ? homeRouteFor(role) : null;
+    case "(account)":
+      // layar akun bersama (verifikasi kontak, dst.) untuk semua role
+      return authed ? null : "/(auth)/login";
+    case "(mua)":
+      if (!authed) return "/(auth)/login";
+      return role === "mua" ? null : homeRouteFor(role);
+    case "(user)":
+      // tamu boleh masuk; layar khusus akun memakai LoginRequired / useRequireLogin
+      if (!authed) return state === "expired" ? "/(auth)/login" : null;
+      return role === "mua" ? homeRouteFor(role) : null;
+  }
+}
+
+/* ===== Pipeline ===== */
+/** Langkah 1–2 boot: migrasi storage lalu baca token + profil ringkas dari key kanonik (tanpa jaringan) */
+export async function loadCachedSession(): Promise<CachedSession> {
+  // biasanya sudah selesai di root layout; di sini hanya menunggu hasil yang sama
+  const { ran, failed } = await runStorageMigrations();
+  if (ran.length) log.info("storage migrated:", ran.join(", "));
+  if (failed) log.warn("storage migration pending:", failed);
+  const [token, profile] = await Promise.all([getAuthToken(), getUserProfile()]);
+  return { token, profile: token ? profile : null };
+}
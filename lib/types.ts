@@ -1,22 +1,333 @@
+/* ===== Shared ===== */
+export type Id = number | string;
+
+/** Bentuk paginator Laravel (simple/length-aware/resource) — semua field opsional */
+export type Paginated<T> = {
+  data: T[];
+  current_page?: number;
+  last_page?: number;
+  per_page?: number;
+  total?: number;
+  next_page_url?: string | null;
+  prev_page_url?: string | null;
+  meta?: {
+    current_page?: number;
+    last_page?: number;
+    per_page?: number;
+    total?: number;
+  };
+  links?: { next?: string | null; prev?: string | null } | unknown;
+};
+
+/* ===== Auth / Profile ===== */
+export type Role = "customer" | "mua" | "admin";
+
+export interface Profile {
+  id: string;
+  role?: string | null;
+  name?: string | null;
+  phone?: string | null;
+  bio?: string | null;
+  photo_url?: string | null;
+  services?: string | string[] | null;
+  location_lat?: string | number | null;
+  location_lng?: string | number | null;
+  address?: string | null;
+  is_online?: number | boolean | null;
+  /** null = nomor HP belum diverifikasi lewat OTP (atau baru diganti) */
+  phone_verified_at?: string | null;
+  /** rekening/e-wallet MUA untuk pembayaran transfer manual */
+  payment_accounts?: PaymentAccount[] | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface User {
+  id: Id;
+  name?: string | null;
+  email?: string | null;
+  email_verified_at?: string | null;
+  role?: string | null;
+  photo_url?: string | null;
+  profile?: Profile | null;
+}
+
+/** Respons GET /auth/me: user + profile (beberapa backend mengirim profile di top-level) */
+export type Me = User & Partial<Omit<Profile, "id">>;
+
+export interface AuthResponse {
+  token?: string;
+  access_token?: string;
+  refresh_token?: string;
+  user?: User | null;
+  profile?: Profile | null;
+  message?: string;
+}
+
+export type LoginPayload = { email: string; password: string };
+
+/** Token/sesi login aktif milik akun (satu per perangkat) */
+export interface AuthSession {
+  id: Id;
+  device_name?: string | null;
+  /** "ios" | "android" | "web" | ... */
+  platform?: string | null;
+  last_active_at?: string | null;
+  ip_address?: string | null;
+  /** perkiraan lokasi dari IP, mis. "Bandung, Indonesia" */
+  location?: string | null;
+  /** sesi yang dipakai request ini */
+  is_current?: boolean;
+  created_at?: string | null;
+}
+
+export type RegisterPayload = {
+  name: string;
+  email: string;
+  password: string;
+  password_confirmation?: string;
+  phone?: string;
+};
+
+export type ForgotPasswordPayload = { email: string };
+
+/** Kontak yang diverifikasi dengan OTP */
+export type ContactChannel = "email" | "phone";
+
+/** `token` = kode 6 digit dari email atau token dari tautan reset */
+export type ResetPasswordPayload = {
+  email: string;
+  token: string;
+  password: string;
+  password_confirmation: string;
+};
+
+export type ProfileUpdatePayload = {
+  name?: string;
+  phone?: string;
+  address?: string;
+  bio?: string;
+  photo_url?: string;
+  services?: string[];
+  location_lat?: number | null;
+  location_lng?: number | null;
+};
+
+/* ===== MUA ===== */
+export type Mua = Profile & { role?: "mua" | string | null };
+
+export interface MuaLocation {
+  id: string;
+  name: string;
+  location_lat?: string | number | null;
+  location_lng?: string | number | null;
+  address?: string | null;
+  photo_url?: string | null;
+  phone?: string | null;
+}
+
+export interface Collaboration {
+  id: Id;
+  booking_id?: Id;
+  profile_id?: string;
+  notification_id?: Id | null;
+  role?: string | null;
+  status?: "invited" | "accepted" | "declined" | string;
+}
+
+/* ===== Offerings ===== */
+/** Add-on paket; harga ditentukan server */
+export type OfferingAddOn = { id: Id; name: string; price: number };
+/** Add-on saat MUA menyimpan paket: tanpa id = add-on baru */
+export type OfferingAddOnInput = { id?: Id; name: string; price: number };
+
 export interface Offering {
   id: number;
+  mua_id: string;
   name_offer: string;
-  price: number;
-  makeup_type: string;
-  person: number;
+  offer_pictures?: string[] | null;
+  makeup_type?: string | null;
+  person?: number | null;
+  collaboration?: string | null;
+  collaboration_price?: string | number | null;
+  /** paket lama: string nama saja (lihat lib/addOns) */
+  add_ons?: (OfferingAddOn | string)[] | null;
+  date?: string | null;
+  price?: string | number | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  mua?: Partial<MuaLocation> | null;
 }
 
+/* ===== Bookings ===== */
+export type BookingStatus = "pending" | "confirmed" | "rejected" | "cancelled" | "completed";
+export type PaymentStatus = "unpaid" | "paid" | "refunded";
+/** Bukti transfer manual: pending = menunggu dicek MUA */
+export type PaymentProofStatus = "pending" | "approved" | "rejected";
+export type ServiceType = "home_service" | "studio";
+
+/** Salinan add-on di booking (nama & harga saat dipesan, dari server) */
+export type SelectedAddOn = { id?: Id; name: string; price: number };
+
 export interface Booking {
   id: number;
-  status: string;
-  amount: number;
+  customer_id: string;
+  mua_id: string;
+  offering_id?: number | null;
+  booking_date: string; // YYYY-MM-DD
+  booking_time: string; // HH:MM
+  service_type?: ServiceType;
+  location_address?: string | null;
+  notes?: string | null;
+  person?: number | null;
+
+  invoice_number?: string | null;
+  invoice_date?: string | null;
+  due_date?: string | null;
+  amount?: string | number | null;
+  selected_add_ons?: SelectedAddOn[] | null;
+  /** biaya transport home service, kalau backend menagihkannya */
+  travel_fee?: string | number | null;
+  /** kode voucher yang memberi discount_amount */
+  voucher_code?: string | null;
+  subtotal?: string | number | null;
+  tax_amount?: string | number | null;
+  discount_amount?: string | number | null;
+  grand_total?: string | number | null;
+  tax?: string | number | null;
+  total?: string | number | null;
+
+  status: BookingStatus;
+  job_status?: string | null;
+  payment_method?: string | null;
+  payment_status?: PaymentStatus | null;
+  /** foto bukti transfer terakhir yang diunggah customer */
+  payment_proof_url?: string | null;
+  payment_proof_status?: PaymentProofStatus | null;
+  payment_proof_uploaded_at?: string | null;
+  /** alasan MUA menolak bukti transfer; kosong lagi setelah unggah ulang */
+  payment_rejection_reason?: string | null;
+  paid_at?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+
+  offering?: Partial<Offering> | null;
+  customer?: { id: string; name?: string | null } | null;
 }
 
-export interface User {
+export type BookingCreatePayload = {
+  customer_id: string;
+  mua_id: string;
+  offering_id: number;
+  booking_date: string;
+  booking_time: string;
+  service_type: ServiceType;
+  location_address?: string | null;
+  notes?: string | null;
+  person?: number;
+  invoice_date?: string;
+  due_date?: string;
+  payment_method?: string;
+  /** add-on terpilih (termasuk kolaborasi); server mencocokkan ke paket & memakai harganya */
+  selected_add_ons?: SelectedAddOn[];
+  /** divalidasi ulang server; harga, diskon & pajak selalu dihitung server */
+  voucher_code?: string;
+  status?: BookingStatus;
+  payment_status?: PaymentStatus;
+};
+
+/* ===== Payment ===== */
+export type PaymentAccountType = "bank" | "ewallet";
+
+export interface PaymentAccount {
+  id: Id;
+  type: PaymentAccountType;
+  /** "BCA", "Mandiri", "GoPay", ... */
+  provider: string;
+  account_number: string;
+  account_name: string;
+}
+
+/* ===== Availability ===== */
+/** Jam kerja per hari; weekday mengikuti Date.getDay() (0 = Minggu). Hari tanpa entri = libur */
+export type WorkingHours = { weekday: number; open: string; close: string }; // HH:MM
+
+/** Rentang yang sudah terisi booking pending/confirmed */
+export type BusySlot = { date: string; start: string; end: string; status?: BookingStatus };
+
+export interface MuaAvailability {
+  working_hours: WorkingHours[];
+  busy: BusySlot[];
+  /** perkiraan durasi satu booking (menit) */
+  slot_minutes?: number | null;
+  /** jarak minimal dari sekarang ke jam mulai booking (menit) */
+  min_lead_minutes?: number | null;
+}
+
+/* ===== Vouchers ===== */
+export type VoucherType = "percent" | "fixed";
+
+export interface Voucher {
+  id: number;
+  /** huruf besar, tanpa spasi */
+  code: string;
+  type: VoucherType;
+  /** persen (1–100) untuk "percent", rupiah untuk "fixed" */
+  value: number;
+  /** batas potongan voucher persen; null = tanpa batas */
+  max_discount?: number | null;
+  /** subtotal minimal (sebelum pajak) */
+  min_spend?: number | null;
+  /** null = voucher platform, berlaku untuk semua MUA */
+  mua_id?: string | null;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  /** total pemakaian maksimal; null = tanpa batas */
+  usage_limit?: number | null;
+  used_count?: number | null;
+  /** pemakaian maksimal per customer; null = tanpa batas */
+  per_user_limit?: number | null;
+  is_active: boolean;
+  description?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export type VoucherPayload = Pick<Voucher, "code" | "type" | "value" | "is_active"> &
+  Partial<
+    Pick<
+      Voucher,
+      "max_discount" | "min_spend" | "starts_at" | "expires_at" | "usage_limit" | "per_user_limit" | "description"
+    >
+  >;
+
+export type VoucherCheckPayload = { code: string; offering_id: number; subtotal: number };
+
+/** Hasil POST /vouchers/validate untuk subtotal yang dikirim */
+export type VoucherCheck = { voucher: Voucher; discount_amount: number };
+
+/* ===== Portfolio ===== */
+export interface Portfolio {
+  id: number;
+  mua_id?: string;
   name: string;
-  email: string;
+  photos?: string[] | string | null;
+  makeup_type?: string | null;
+  collaboration?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
 }
 
-export interface Profile {
-  role: string;
-}
\ No newline at end of file
+/* ===== Notifications ===== */
+export type NotificationType = "booking" | "system" | "payment" | string;
+
+export interface Notification {
+  id: Id;
+  user_id?: string;
+  title?: string | null;
+  message?: string | null;
+  type?: NotificationType | null;
+  is_read?: boolean | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
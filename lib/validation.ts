@@ -0,0 +1,108 @@
+// lib/validation.ts
+/* Validasi form di sisi klien. Pesan mengikuti gaya pesan Laravel supaya tampil
+ * seragam dengan error 422 dari server (lihat lib/formErrors). */
+import type { FormErrors } from "./formErrors";
+
+/* ===== Const ===== */
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+export const PASSWORD_MIN = 8;
+
+/* ===== Field ===== */
+export function isValidEmail(email: string) {
+  return EMAIL_RE.test(email.trim());
+}
+
+/** null = password cukup kuat */
+export function passwordIssue(password: string): string | null {
+  if (password.length < PASSWORD_MIN) return `Password minimal ${PASSWORD_MIN} karakter.`;
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) return "Password harus berisi huruf dan angka.";
+  return null;
+}
+
+export type PasswordStrength = {
+  /** 0 = kosong, 1 lemah … 4 sangat kuat */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+};
+
+const STRENGTH_LABELS = ["", "Lemah", "Cukup", "Kuat", "Sangat kuat"];
+
+/** Untuk indikator kekuatan password; syarat minimal tetap dicek oleh passwordIssue */
+export function passwordStrength(password: string): PasswordStrength {
+  if (!password) return { score: 0, label: "" };
+  if (passwordIssue(password)) return { score: 1, label: STRENGTH_LABELS[1] };
+  let score = 2;
+  if (password.length >= 12) score += 1;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password) && /[^A-Za-z0-9]/.test(password)) score += 1;
+  const s = Math.min(score, 4) as PasswordStrength["score"];
+  return { score: s, label: STRENGTH_LABELS[s] };
+}
+
+/**
+ * Nomor HP Indonesia → format +62. Menerima "0812…", "62812…", "+62 812-…".
+ * null = bukan nomor seluler Indonesia yang valid.
+ */
+export function normalizeIdPhone(raw: string): string | null {
+  const digits = raw.replace(/[\s().-]/g, "");
+  let rest: string;
+  if (digits.startsWith("+62")) rest = digits.slice(3);
+  else if (digits.startsWith("62")) rest = digits.slice(2);
+  else if (digits.startsWith("0")) rest = digits.slice(1);
+  else return null;
+  // seluler: 8xx, total 9–12 digit setelah kode negara
+  return /^8\d{8,11}$/.test(rest) ? `+62${rest}` : null;
+}
+
+/** "0812…" dan "+62812…" dianggap nomor yang sama */
+export function samePhone(a: string | null | undefined, b: string | null | undefined) {
+  const norm = (v: string | null | undefined) => {
+    const raw = (v ?? "").trim();
+    return normalizeIdPhone(raw) ?? raw;
+  };
+  return norm(a) === norm(b);
+}
+
+/* ===== Form ===== */
+export type RegisterForm = {
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+  password_confirmation: string;
+};
+
+/** Error per field (kosong = valid); key sama dengan field payload /auth/register */
+export function validateRegister(form: RegisterForm): FormErrors {
+  const errors: FormErrors = {};
+  if (!form.name.trim()) errors.name = "Nama wajib diisi.";
+  if (!form.email.trim()) errors.email = "Email wajib diisi.";
+  else if (!isValidEmail(form.email)) errors.email = "Format email tidak valid.";
+  if (!form.phone.trim()) errors.phone = "Nomor HP wajib diisi.";
+  else if (!normalizeIdPhone(form.phone)) errors.phone = "Gunakan nomor HP Indonesia, contoh +62812xxxxxxx.";
+  const pw = passwordIssue(form.password);
+  if (pw) errors.password = pw;
+  if (!form.password_confirmation) errors.password_confirmation = "Ulangi password.";
+  else if (form.password_confirmation !== form.password) {
+    errors.password_confirmation = "Konfirmasi password tidak sama.";
+  }
+  return errors;
+}
+
+export type ResetPasswordForm = {
+  token: string;
+  password: string;
+  password_confirmation: string;
+};
+
+/** Kode dari email 6 digit; token dari tautan lebih panjang dan diteruskan apa adanya */
+export function validateResetPassword(form: ResetPasswordForm): FormErrors {
+  const errors: FormErrors = {};
+  if (!form.token.trim()) errors.token = "Kode reset wajib diisi.";
+  const pw = passwordIssue(form.password);
+  if (pw) errors.password = pw;
+  if (!form.password_confirmation) errors.password_confirmation = "Ulangi password.";
+  else if (form.password_confirmation !== form.password) {
+    errors.password_confirmation = "Konfirmasi password tidak sama.";
+  }
+  return errors;
+}
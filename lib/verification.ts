@@ -0,0 +1,123 @@
+// lib/verification.ts
+/* Verifikasi email & nomor HP dengan OTP. Booking baru hanya boleh dibuat setelah
+ * kedua kontak terverifikasi supaya MUA bisa menghubungi customer (tombol WhatsApp).
+ * Setelah registrasi, beranda membuka layar verifikasi sekali (lihat markVerificationPrompt). */
+import { useCallback, useEffect, useState } from "react";
+import { Alert } from "react-native";
+import { useRouter } from "expo-router";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ApiError } from "./api";
+import { createLogger } from "./logger";
+import { samePhone } from "./validation";
+import type { ContactChannel, Me } from "./types";
+
+const log = createLogger("AUTH");
+
+/* ===== Const ===== */
+export const CONTACT_CHANNELS: ContactChannel[] = ["email", "phone"];
+
+export const CONTACT_LABELS: Record<ContactChannel, string> = {
+  email: "Email",
+  phone: "Nomor HP",
+};
+
+export const OTP_LENGTH = 6;
+
+const PROMPT_PREFIX = "contact_verify_prompt_v1:";
+/** Kode error backend saat booking ditolak karena kontak belum diverifikasi */
+const UNVERIFIED_CODE = "contact_unverified";
+
+/* ===== Pure helpers ===== */
+export function isContactVerified(me: Me | null, channel: ContactChannel) {
+  if (!me) return false;
+  if (channel === "email") return !!me.email_verified_at;
+  return !!(me.phone_verified_at ?? me.profile?.phone_verified_at);
+}
+
+/** Kontak yang belum terverifikasi; [] juga bila data /auth/me belum ada (jangan blokir offline) */
+export function unverifiedContacts(me: Me | null): ContactChannel[] {
+  if (!me) return [];
+  return CONTACT_CHANNELS.filter((c) => !isContactVerified(me, c));
+}
+
+export function contactValue(me: Me | null, channel: ContactChannel): string {
+  if (!me) return "";
+  return (channel === "email" ? me.email : me.phone ?? me.profile?.phone) ?? "";
+}
+
+/** 403 dari POST /bookings: kontak customer belum diverifikasi */
+export function isUnverifiedContactError(e: unknown) {
+  return e instanceof ApiError && e.status === 403 && e.data?.code === UNVERIFIED_CODE;
+}
+
+/* ===== Setelah simpan profil ===== */
+/** Nomor HP yang tersimpan berbeda dari nomor di sesi → nomor baru belum terverifikasi */
+export function isPhoneChanged(me: Me | null, savedPhone: string | null | undefined) {
+  return !!me && !!savedPhone && !samePhone(contactValue(me, "phone"), savedPhone);
+}
+
+/** Alert sukses simpan profil; nomor HP baru → tawarkan verifikasi langsung */
+export function alertProfileSaved(router: ReturnType<typeof useRouter>, phoneChanged: boolean) {
+  if (!phoneChanged) {
+    Alert.alert("Sukses", "Profil berhasil diperbarui.");
+    return;
+  }
+  Alert.alert("Sukses", "Profil berhasil diperbarui. Verifikasi nomor HP baru Anda supaya tetap bisa dihubungi lewat WhatsApp.", [
+    { text: "Nanti", style: "cancel" },
+    { text: "Verifikasi", onPress: () => router.push({ pathname: "/(account)/verify", params: { channel: "phone" } }) },
+  ]);
+}
+
+/* ===== Prompt setelah registrasi ===== */
+type Listener = (profileId: string, pending: boolean) => void;
+const listeners = new Set<Listener>();
+
+async function setPrompt(profileId: string, pending: boolean) {
+  listeners.forEach((fn) => fn(profileId, pending));
+  try {
+    if (pending) await AsyncStorage.setItem(PROMPT_PREFIX + profileId, "1");
+    else await AsyncStorage.removeItem(PROMPT_PREFIX + profileId);
+  } catch (e) {
+    log.warn("save verification prompt failed", e);
+  }
+}
+
+/** Dipanggil saat registrasi berhasil, sebelum sesi dibuat */
+export function markVerificationPrompt(profileId: string) {
+  return setPrompt(profileId, true);
+}
+
+/** pending = layar verifikasi belum pernah dibuka sejak registrasi */
+export function useVerificationPrompt(profileId: string | null) {
+  const [pending, setPending] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!profileId) {
+      setPending(false);
+      setLoading(false);
+      return;
+    }
+    let alive = true;
+    setLoading(true);
+    AsyncStorage.getItem(PROMPT_PREFIX + profileId)
+      .catch(() => null)
+      .then((raw) => {
+        if (!alive) return;
+        setPending(raw === "1");
+        setLoading(false);
+      });
+    const onChange: Listener = (id, p) => {
+      if (id === profileId) setPending(p);
+    };
+    listeners.add(onChange);
+    return () => {
+      alive = false;
+      listeners.delete(onChange);
+    };
+  }, [profileId]);
+
+  const dismiss = useCallback(() => (profileId ? setPrompt(profileId, false) : Promise.resolve()), [profileId]);
+
+  return { pending, loading, dismiss };
+}
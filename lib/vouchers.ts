@@ -0,0 +1,67 @@
+// lib/vouchers.ts
+/* Kode promo: customer memasukkan kode di ringkasan booking (divalidasi server lewat
+ * POST /vouchers/validate), MUA mengelola kodenya sendiri di (mua)/vouchers. Potongan
+ * dihitung ulang di sini setiap subtotal berubah; server tetap memvalidasi saat booking. */
+import { formatIDR } from "./pricing";
+import type { Voucher } from "./types";
+
+/* ===== Types ===== */
+export type VoucherStatus = "active" | "inactive" | "scheduled" | "expired" | "used_up";
+
+export const VOUCHER_STATUS_LABELS: Record<VoucherStatus, string> = {
+  active: "Aktif",
+  inactive: "Nonaktif",
+  scheduled: "Belum mulai",
+  expired: "Kedaluwarsa",
+  used_up: "Kuota habis",
+};
+
+/* ===== Helpers ===== */
+/** "  hemat 50 " → "HEMAT50" */
+export function normalizeVoucherCode(code: string) {
+  return code.replace(/\s+/g, "").toUpperCase();
+}
+
+export function voucherStatus(v: Voucher, now = Date.now()): VoucherStatus {
+  if (!v.is_active) return "inactive";
+  if (v.starts_at && Date.parse(v.starts_at) > now) return "scheduled";
+  if (v.expires_at && Date.parse(v.expires_at) < now) return "expired";
+  if (v.usage_limit != null && (v.used_count ?? 0) >= v.usage_limit) return "used_up";
+  return "active";
+}
+
+/** Potongan untuk subtotal (sebelum pajak); 0 bila belum memenuhi min. belanja */
+export function voucherDiscount(v: Pick<Voucher, "type" | "value" | "max_discount" | "min_spend">, subtotal: number) {
+  if (subtotal <= 0 || subtotal < (v.min_spend ?? 0)) return 0;
+  const raw = v.type === "percent" ? (subtotal * Math.min(100, Math.max(0, v.value))) / 100 : Math.max(0, v.value);
+  const capped = v.type === "percent" && v.max_discount ? Math.min(raw, v.max_discount) : raw;
+  return Math.round(Math.min(capped, subtotal));
+}
+
+/**
+ * Cek lokal voucher yang sudah diterapkan saat isi form berubah (paket lain, subtotal
+ * turun, kedaluwarsa selagi form terbuka). null = masih berlaku.
+ */
+export function voucherProblem(v: Voucher, ctx: { subtotal: number; muaId?: string | null }, now = Date.now()) {
+  const status = voucherStatus(v, now);
+  if (status !== "active") return `Voucher ${VOUCHER_STATUS_LABELS[status].toLowerCase()}.`;
+  if (v.mua_id && ctx.muaId && v.mua_id !== ctx.muaId) return "Voucher tidak berlaku untuk MUA ini.";
+  if (v.min_spend && ctx.subtotal < v.min_spend) return `Minimal belanja ${formatIDR(v.min_spend)}.`;
+  return null;
+}
+
+/** "Diskon 10% (maks. IDR 100.000)" / "Potongan IDR 50.000" */
+export function describeVoucher(v: Voucher) {
+  const head =
+    v.type === "percent"
+      ? `Diskon ${v.value}%${v.max_discount ? ` (maks. ${formatIDR(v.max_discount)})` : ""}`
+      : `Potongan ${formatIDR(v.value)}`;
+  return v.min_spend ? `${head} · min. belanja ${formatIDR(v.min_spend)}` : head;
+}
+
+/** Ringkasan batas pemakaian untuk daftar voucher MUA */
+export function voucherUsageLabel(v: Voucher) {
+  const used = v.used_count ?? 0;
+  const total = v.usage_limit != null ? `${used}/${v.usage_limit} terpakai` : `${used} terpakai`;
+  return v.per_user_limit ? `${total} · maks. ${v.per_user_limit}×/customer` : total;
+}
@@ -1,11 +1,19 @@
 // utils/authStorage.ts
 import * as SecureStore from "expo-secure-store";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("STORAGE");
 
 const KEY_TOKEN = "auth_token";         // hanya access token kecil (SecureStore)
 const KEY_REFRESH = "auth_refresh";     // optional: refresh token (SecureStore)
 const KEY_PROFILE = "user_profile";     // profile disimpan di AsyncStorage (non-sensitive)
-const LEGACY_AUTH_KEY = "auth";         // some apps stored whole auth JSON under "auth"
+const KEY_ACCOUNTS = "auth_accounts_v1"; // daftar akun tersimpan (AsyncStorage, tanpa token)
+const ACCOUNT_TOKEN_PREFIX = "account_token.";     // + id profil (SecureStore)
+const ACCOUNT_REFRESH_PREFIX = "account_refresh."; // + id profil (SecureStore)
+// key lama ("auth" JSON, token di AsyncStorage) dipindahkan oleh utils/storageMigrations;
+// tetap dihapus saat logout supaya migrasi yang tertunda tidak menghidupkan sesi lama
+const LEGACY_AUTH_KEY = "auth";
 
 export type StoredProfile = {
   id?: string | null;
@@ -15,6 +23,20 @@ export type StoredProfile = {
   [k: string]: any;
 };
 
+/** Akun yang pernah login di perangkat ini; token-nya disimpan terpisah di SecureStore */
+export type StoredAccount = {
+  /** id profil (sama dengan StoredProfile.id) */
+  id: string;
+  role: string | null;
+  name: string | null;
+  photo_url: string | null;
+  email?: string | null;
+  /** akun mode demo: tokennya hanya berlaku di backend tiruan */
+  demo?: boolean;
+  /** ms, terakhir dipakai → urutan di daftar */
+  last_used_at: number;
+};
+
 function tryParseJson<T = any>(raw: string | null | undefined): T | null {
   if (!raw) return null;
   try {
@@ -24,23 +46,6 @@ function tryParseJson<T = any>(raw: string | null | undefined): T | null {
   }
 }
 
-function extractTokenFromObject(obj: any): string | null {
-  if (!obj || typeof obj !== "object") return null;
-  const candidates = [
-    obj?.token,
-    obj?.access_token,
-    obj?.accessToken,
-    obj?.data?.token,
-    obj?.user?.token,
-    obj?.user?.access_token,
-    obj?.meta?.token,
-  ];
-  for (const c of candidates) {
-    if (typeof c === "string" && c.trim()) return c;
-  }
-  return null;
-}
-
 // --- SecureStore (secrets kecil) ---
 export async function setAuthToken(token: string | null) {
   try {
@@ -50,51 +55,15 @@ export async function setAuthToken(token: string | null) {
     }
     await SecureStore.setItemAsync(KEY_TOKEN, token);
   } catch (e) {
-    console.warn("setAuthToken failed", e);
+    log.warn("setAuthToken failed", e);
   }
 }
 
 export async function getAuthToken(): Promise<string | null> {
   try {
-    // 1) direct token key (preferred)
-    const direct = await SecureStore.getItemAsync(KEY_TOKEN);
-    if (direct) {
-      return direct;
-    }
-
-    // 2) legacy: SecureStore 'auth' JSON
-    const legacySecure = await SecureStore.getItemAsync(LEGACY_AUTH_KEY);
-    const parsedSecure = tryParseJson(legacySecure);
-    const fromSecureLegacy = extractTokenFromObject(parsedSecure);
-    if (fromSecureLegacy) {
-      console.debug("[authStorage] token from SecureStore legacy 'auth'");
-      return fromSecureLegacy;
-    }
-
-    // 3) AsyncStorage stored token or legacy auth JSON
-    const directAsync = await AsyncStorage.getItem(KEY_TOKEN);
-    if (directAsync) return directAsync;
-
-    const legacyAsync = await AsyncStorage.getItem(LEGACY_AUTH_KEY);
-    const parsedAsync = tryParseJson(legacyAsync);
-    const fromAsyncLegacy = extractTokenFromObject(parsedAsync);
-    if (fromAsyncLegacy) {
-      console.debug("[authStorage] token from AsyncStorage legacy 'auth'");
-      return fromAsyncLegacy;
-    }
-
-    // 4) sometimes profile store contains nested token (unlikely but safe)
-    const profileRaw = await AsyncStorage.getItem(KEY_PROFILE);
-    const parsedProfile = tryParseJson(profileRaw);
-    const fromProfile = extractTokenFromObject(parsedProfile);
-    if (fromProfile) {
-      console.debug("[authStorage] token extracted from stored profile");
-      return fromProfile;
-    }
-
-    return null;
+    return await SecureStore.getItemAsync(KEY_TOKEN);
   } catch (e) {
-    console.warn("getAuthToken failed", e);
+    log.warn("getAuthToken failed", e);
     return null;
   }
 }
@@ -107,43 +76,15 @@ export async function setRefreshToken(token: string | null) {
     }
     await SecureStore.setItemAsync(KEY_REFRESH, token);
   } catch (e) {
-    console.warn("setRefreshToken failed", e);
+    log.warn("setRefreshToken failed", e);
   }
 }
 
 export async function getRefreshToken(): Promise<string | null> {
   try {
-    const direct = await SecureStore.getItemAsync(KEY_REFRESH);
-    if (direct) return direct;
-
-    // fallback to legacy auth object
-    const legacySecure = await SecureStore.getItemAsync(LEGACY_AUTH_KEY);
-    const parsed = tryParseJson(legacySecure);
-    const candidates = [
-      parsed?.refresh_token,
-      parsed?.refreshToken,
-      parsed?.data?.refresh_token,
-      parsed?.user?.refresh_token,
-    ];
-    for (const c of candidates) {
-      if (typeof c === "string" && c.trim()) return c;
-    }
-
-    // AsyncStorage fallback
-    const legacyAsync = await AsyncStorage.getItem(LEGACY_AUTH_KEY);
-    const parsedAsync = tryParseJson(legacyAsync);
-    for (const c of [
-      parsedAsync?.refresh_token,
-      parsedAsync?.refreshToken,
-      parsedAsync?.data?.refresh_token,
-      parsedAsync?.user?.refresh_token,
-    ]) {
-      if (typeof c === "string" && c.trim()) return c;
-    }
-
-    return null;
+    return await SecureStore.getItemAsync(KEY_REFRESH);
   } catch (e) {
-    console.warn("getRefreshToken failed", e);
+    log.warn("getRefreshToken failed", e);
     return null;
   }
 }
@@ -157,8 +98,9 @@ export async function setUserProfile(profile: Record<string, any> | null) {
     }
 
     // Normalisasi: ambil minimal fields dan normalisasi role jadi string (lowercase)
+    // id = id profil (UUID); respons /auth/me menaruhnya di `profile.id`, bukan `id` user
     const stored: StoredProfile = {
-      id: profile.id ?? profile.profile?.id ?? profile.user?.id ?? null,
+      id: profile.profile?.id ?? profile.id ?? profile.user?.profile?.id ?? profile.user?.id ?? null,
       name: profile.name ?? profile.profile?.name ?? profile.user?.name ?? null,
       photo_url:
         profile.photo_url ??
@@ -176,44 +118,19 @@ export async function setUserProfile(profile: Record<string, any> | null) {
 
     await AsyncStorage.setItem(KEY_PROFILE, JSON.stringify(stored));
   } catch (e) {
-    console.warn("setUserProfile failed", e);
+    log.warn("setUserProfile failed", e);
   }
 }
 
 export async function getUserProfile(): Promise<StoredProfile | null> {
   try {
-    const raw = await AsyncStorage.getItem(KEY_PROFILE);
-    if (raw) {
-      const parsed = tryParseJson(raw);
-      if (parsed?.role && typeof parsed.role === "string") {
-        parsed.role = parsed.role.toLowerCase();
-      }
-      return parsed;
+    const parsed = tryParseJson<StoredProfile>(await AsyncStorage.getItem(KEY_PROFILE));
+    if (parsed?.role && typeof parsed.role === "string") {
+      parsed.role = parsed.role.toLowerCase();
     }
-
-    // fallback: maybe whole auth stored under "auth" contains profile/user
-    const legacy = await AsyncStorage.getItem(LEGACY_AUTH_KEY) || await SecureStore.getItemAsync(LEGACY_AUTH_KEY);
-    const parsedLegacy = tryParseJson(legacy);
-    if (parsedLegacy) {
-      // try common shapes: { profile: {...} } or { user: {...} } or top-level fields
-      const cand = parsedLegacy?.profile ?? parsedLegacy?.user ?? parsedLegacy;
-      const normalized: StoredProfile = {
-        id: cand?.id ?? cand?.profile?.id ?? null,
-        name: cand?.name ?? cand?.full_name ?? null,
-        photo_url: cand?.photo_url ?? cand?.avatar ?? null,
-        role: (() => {
-          const r = cand?.role ?? cand?.roles ?? null;
-          if (!r) return null;
-          if (Array.isArray(r)) return (r[0] ?? "").toString().toLowerCase();
-          return String(r).toLowerCase();
-        })(),
-      };
-      return normalized;
-    }
-
-    return null;
+    return parsed;
   } catch (e) {
-    console.warn("getUserProfile failed", e);
+    log.warn("getUserProfile failed", e);
     return null;
   }
 }
@@ -236,24 +153,148 @@ export async function getAuthData(): Promise<{
       user: profile
     };
   } catch (e) {
-    console.warn("getAuthData failed", e);
+    log.warn("getAuthData failed", e);
+    return null;
+  }
+}
+
+// --- Multi akun ---
+// Key kanonik di atas selalu milik akun aktif; akun lain menunggu di slot per id profil.
+
+/** Key SecureStore hanya boleh berisi huruf, angka, ".", "-", "_" */
+function slotKey(prefix: string, id: string) {
+  return prefix + id.replace(/[^\w.-]/g, "_");
+}
+
+async function writeAccounts(accounts: StoredAccount[]) {
+  await AsyncStorage.setItem(KEY_ACCOUNTS, JSON.stringify(accounts));
+}
+
+/** Akun tersimpan, terbaru dipakai lebih dulu */
+export async function getAccounts(): Promise<StoredAccount[]> {
+  try {
+    const list = tryParseJson<StoredAccount[]>(await AsyncStorage.getItem(KEY_ACCOUNTS));
+    return Array.isArray(list) ? [...list].sort((a, b) => b.last_used_at - a.last_used_at) : [];
+  } catch (e) {
+    log.warn("getAccounts failed", e);
+    return [];
+  }
+}
+
+/** Salin token + profil akun aktif ke slotnya (tambah/perbarui di daftar akun) */
+export async function saveActiveAccount(extra: { email?: string | null; demo?: boolean } = {}) {
+  try {
+    const [token, refresh, profile] = await Promise.all([getAuthToken(), getRefreshToken(), getUserProfile()]);
+    const id = profile?.id ? String(profile.id) : null;
+    if (!token || !id) return null;
+
+    await SecureStore.setItemAsync(slotKey(ACCOUNT_TOKEN_PREFIX, id), token);
+    if (refresh) await SecureStore.setItemAsync(slotKey(ACCOUNT_REFRESH_PREFIX, id), refresh);
+    else await SecureStore.deleteItemAsync(slotKey(ACCOUNT_REFRESH_PREFIX, id));
+
+    const accounts = await getAccounts();
+    const prev = accounts.find((a) => a.id === id);
+    const account: StoredAccount = {
+      id,
+      role: profile?.role ?? null,
+      name: profile?.name ?? null,
+      photo_url: profile?.photo_url ?? null,
+      email: extra.email ?? prev?.email ?? null,
+      demo: extra.demo ?? prev?.demo ?? false,
+      last_used_at: Date.now(),
+    };
+    await writeAccounts([account, ...accounts.filter((a) => a.id !== id)]);
+    return account;
+  } catch (e) {
+    log.warn("saveActiveAccount failed", e);
     return null;
   }
 }
 
+/**
+ * Jadikan akun tersimpan sebagai akun aktif (isi key kanonik dari slotnya).
+ * `null` bila akun/tokennya tidak ada — key kanonik tidak disentuh.
+ */
+export async function activateAccount(id: string): Promise<StoredAccount | null> {
+  const accounts = await getAccounts();
+  const account = accounts.find((a) => a.id === id);
+  if (!account) return null;
+  const [token, refresh] = await Promise.all([
+    SecureStore.getItemAsync(slotKey(ACCOUNT_TOKEN_PREFIX, id)),
+    SecureStore.getItemAsync(slotKey(ACCOUNT_REFRESH_PREFIX, id)),
+  ]);
+  if (!token) return null;
+
+  // sequential: token harus tersimpan sebelum request berikutnya
+  await setAuthToken(token);
+  await setRefreshToken(refresh);
+  await setUserProfile(account);
+  const activated = { ...account, last_used_at: Date.now() };
+  await writeAccounts([activated, ...accounts.filter((a) => a.id !== id)]);
+  return activated;
+}
+
+/** Hapus akun dari perangkat (slot token + daftar) */
+export async function forgetAccount(id: string) {
+  try {
+    await Promise.all([
+      SecureStore.deleteItemAsync(slotKey(ACCOUNT_TOKEN_PREFIX, id)).catch(() => {}),
+      SecureStore.deleteItemAsync(slotKey(ACCOUNT_REFRESH_PREFIX, id)).catch(() => {}),
+    ]);
+    await writeAccounts((await getAccounts()).filter((a) => a.id !== id));
+  } catch (e) {
+    log.warn("forgetAccount failed", e);
+  }
+}
+
 // --- Clear helper ---
-export async function clearAuthAll() {
+export type AuthClearedInfo = {
+  /** true = semua akun tersimpan ikut dihapus (mis. ganti environment) */
+  allAccounts: boolean;
+};
+type AuthClearedListener = (info: AuthClearedInfo) => void;
+const clearedListeners = new Set<AuthClearedListener>();
+
+/** Dipanggil setiap kali auth dibersihkan (logout, sesi berakhir, ganti environment) */
+export function onAuthCleared(listener: AuthClearedListener) {
+  clearedListeners.add(listener);
+  return () => {
+    clearedListeners.delete(listener);
+  };
+}
+
+/**
+ * Keluarkan akun aktif: key kanonik + slotnya dihapus, akun lain tetap tersimpan.
+ * `allAccounts` menghapus semua akun (token dari environment lain tidak berlaku).
+ */
+export async function clearAuthAll(opts: { allAccounts?: boolean } = {}) {
+  const info: AuthClearedInfo = { allAccounts: !!opts.allAccounts };
   try {
+    const active = await getUserProfile();
+    const forget = info.allAccounts
+      ? (await getAccounts()).map((a) => a.id)
+      : active?.id
+        ? [String(active.id)]
+        : [];
+    for (const id of forget) await forgetAccount(id);
     await Promise.all([
       SecureStore.deleteItemAsync(KEY_TOKEN).catch(() => {}),
       SecureStore.deleteItemAsync(KEY_REFRESH).catch(() => {}),
       SecureStore.deleteItemAsync(LEGACY_AUTH_KEY).catch(() => {}),
       AsyncStorage.removeItem(KEY_PROFILE).catch(() => {}),
       AsyncStorage.removeItem(LEGACY_AUTH_KEY).catch(() => {}),
+      AsyncStorage.removeItem(KEY_TOKEN).catch(() => {}),
     ]);
   } catch (e) {
-    console.warn("clearAuthAll failed", e);
+    log.warn("clearAuthAll failed", e);
   }
+  clearedListeners.forEach((fn) => {
+    try {
+      fn(info);
+    } catch (e) {
+      log.warn("auth cleared listener failed", e);
+    }
+  });
 }
 
 export default {
@@ -0,0 +1,248 @@
+// utils/storageMigrations.ts
+import * as SecureStore from "expo-secure-store";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getAuthToken,
+  getRefreshToken,
+  getUserProfile,
+  setAuthToken,
+  setRefreshToken,
+  setUserProfile,
+} from "./authStorage";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("STORAGE");
+
+/* ===== Types ===== */
+export type StorageMigration = {
+  /** urutan unik & naik; versi skema setelah migrasi ini jalan */
+  version: number;
+  name: string;
+  /**
+   * Harus idempotent: boleh jalan ulang kalau app mati di tengah jalan.
+   * Tulis key kanonik dulu, verifikasi, baru hapus key lama. Lempar error → runner berhenti.
+   */
+  run: () => Promise<void>;
+};
+
+export type StorageSchema = {
+  version: number;
+  applied: { version: number; name: string; at: string }[];
+};
+
+export type MigrationResult = {
+  version: number;
+  /** nama migrasi yang jalan pada boot ini */
+  ran: string[];
+  /** migrasi yang gagal (dicoba lagi boot berikutnya) */
+  failed?: string;
+};
+
+/* ===== Const ===== */
+const SCHEMA_KEY = "storage_schema";
+/** key lama: seluruh respons login disimpan sebagai JSON (SecureStore / AsyncStorage) */
+const LEGACY_AUTH_KEY = "auth";
+/** build lama sempat menyimpan token di AsyncStorage, bukan SecureStore */
+const LEGACY_ASYNC_TOKEN_KEY = "auth_token";
+/** cache lokal yang isinya harus berupa array JSON; rusak → dibuang */
+const ARRAY_CACHE_KEYS = ["query_cache_v1", "outbox_v1"];
+
+/* ===== Helpers ===== */
+function tryParseJson<T = any>(raw: string | null | undefined): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function firstString(...candidates: unknown[]): string | null {
+  for (const c of candidates) {
+    if (typeof c === "string" && c.trim()) return c;
+  }
+  return null;
+}
+
+function tokenFrom(obj: any): string | null {
+  if (!obj || typeof obj !== "object") return null;
+  return firstString(
+    obj.token,
+    obj.access_token,
+    obj.accessToken,
+    obj.data?.token,
+    obj.user?.token,
+    obj.user?.access_token,
+    obj.meta?.token
+  );
+}
+
+function refreshTokenFrom(obj: any): string | null {
+  if (!obj || typeof obj !== "object") return null;
+  return firstString(obj.refresh_token, obj.refreshToken, obj.data?.refresh_token, obj.user?.refresh_token);
+}
+
+/** Bentuk profil lama ({ profile } / { user } / top-level, `full_name`, `roles`) → input setUserProfile */
+function profileFrom(obj: any): Record<string, any> | null {
+  const cand = obj?.profile ?? obj?.user ?? obj;
+  if (!cand || typeof cand !== "object") return null;
+  const profile = {
+    ...cand,
+    name: cand.name ?? cand.full_name ?? null,
+    photo_url: cand.photo_url ?? cand.avatar ?? null,
+    role: cand.role ?? cand.roles ?? null,
+  };
+  return profile.id || profile.profile?.id || profile.role ? profile : null;
+}
+
+/** Token kanonik hanya diisi kalau belum ada; gagal tersimpan → lempar supaya key lama tidak dihapus */
+async function adoptToken(token: string | null) {
+  if (!token || (await getAuthToken())) return;
+  await setAuthToken(token);
+  if ((await getAuthToken()) !== token) throw new Error("token tidak tersimpan di SecureStore");
+}
+
+async function adoptRefreshToken(token: string | null) {
+  if (!token || (await getRefreshToken())) return;
+  await setRefreshToken(token);
+  if ((await getRefreshToken()) !== token) throw new Error("refresh token tidak tersimpan di SecureStore");
+}
+
+async function adoptProfile(profile: Record<string, any> | null) {
+  if (!profile || (await getUserProfile())) return;
+  await setUserProfile(profile);
+}
+
+/* ===== Migrations ===== */
+/** Urut berdasarkan `version`; migrasi baru selalu ditambahkan di akhir */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    name: "legacy-auth-json",
+    async run() {
+      const sources = [
+        {
+          read: () => SecureStore.getItemAsync(LEGACY_AUTH_KEY),
+          remove: () => SecureStore.deleteItemAsync(LEGACY_AUTH_KEY),
+        },
+        {
+          read: () => AsyncStorage.getItem(LEGACY_AUTH_KEY),
+          remove: () => AsyncStorage.removeItem(LEGACY_AUTH_KEY),
+        },
+      ];
+      for (const src of sources) {
+        const raw = await src.read();
+        if (!raw) continue;
+        const parsed = tryParseJson(raw);
+        if (parsed) {
+          await adoptToken(tokenFrom(parsed));
+          await adoptRefreshToken(refreshTokenFrom(parsed));
+          await adoptProfile(profileFrom(parsed));
+        }
+        // JSON rusak tidak bisa dipulihkan; tetap dihapus supaya tidak dibaca lagi
+        await src.remove();
+      }
+    },
+  },
+  {
+    version: 2,
+    name: "async-token-to-secure-store",
+    async run() {
+      const token = await AsyncStorage.getItem(LEGACY_ASYNC_TOKEN_KEY);
+      if (!token) return;
+      await adoptToken(token);
+      await AsyncStorage.removeItem(LEGACY_ASYNC_TOKEN_KEY);
+    },
+  },
+  {
+    version: 3,
+    name: "normalize-stored-profile",
+    async run() {
+      const stored = await getUserProfile();
+      if (!stored) return;
+      // profil lama kadang ikut menyimpan token → pindahkan, lalu tulis ulang hanya field ringkas
+      await adoptToken(tokenFrom(stored));
+      await setUserProfile(stored);
+    },
+  },
+  {
+    version: 4,
+    name: "drop-corrupt-caches",
+    async run() {
+      for (const key of ARRAY_CACHE_KEYS) {
+        const raw = await AsyncStorage.getItem(key);
+        if (raw && !Array.isArray(tryParseJson(raw))) {
+          log.warn(`cache rusak dibuang: ${key}`);
+          await AsyncStorage.removeItem(key);
+        }
+      }
+    },
+  },
+];
+
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+/* ===== Runner ===== */
+let schemaVersion: number | null = null;
+let running: Promise<MigrationResult> | null = null;
+
+async function readSchema(): Promise<StorageSchema> {
+  const parsed = tryParseJson<StorageSchema>(await AsyncStorage.getItem(SCHEMA_KEY));
+  if (parsed && typeof parsed.version === "number") {
+    return { version: parsed.version, applied: Array.isArray(parsed.applied) ? parsed.applied : [] };
+  }
+  return { version: 0, applied: [] };
+}
+
+async function migrate(): Promise<MigrationResult> {
+  const schema = await readSchema();
+  const ran: string[] = [];
+  const pending = [...STORAGE_MIGRATIONS]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => m.version > schema.version);
+
+  for (const m of pending) {
+    try {
+      await m.run();
+    } catch (e) {
+      // berhenti di sini: migrasi berikutnya bisa bergantung pada hasil yang ini
+      log.warn(`migration v${m.version} ${m.name} failed`, e);
+      schemaVersion = schema.version;
+      return { version: schema.version, ran, failed: m.name };
+    }
+    schema.version = m.version;
+    schema.applied.push({ version: m.version, name: m.name, at: new Date().toISOString() });
+    // simpan per langkah: app mati di tengah → lanjut dari migrasi berikutnya
+    await AsyncStorage.setItem(SCHEMA_KEY, JSON.stringify(schema));
+    ran.push(m.name);
+    log.info(`migration v${m.version} ${m.name} done`);
+  }
+
+  schemaVersion = schema.version;
+  return { version: schema.version, ran };
+}
+
+/**
+ * Jalankan migrasi storage yang belum tercatat, berurutan. Aman dipanggil berkali-kali:
+ * pemanggil bersamaan berbagi satu proses, dan setelah selesai hanya membaca versi skema.
+ */
+export function runStorageMigrations(): Promise<MigrationResult> {
+  if (!running) {
+    running = migrate()
+      .catch((e): MigrationResult => {
+        log.warn("runStorageMigrations failed", e);
+        return { version: schemaVersion ?? 0, ran: [], failed: "schema" };
+      })
+      .then((res) => {
+        // gagal → boleh dicoba lagi (mis. boot berikutnya atau kembali dari background)
+        if (res.failed) running = null;
+        return res;
+      });
+  }
+  return running;
+}
+
+/** Versi skema storage terakhir yang diketahui (null = runner belum jalan); untuk layar diagnostik */
+export function getStorageSchemaVersion() {
+  return schemaVersion;
+}